@@ -10,6 +10,7 @@ import AuthPage from "@/pages/AuthPage";
 import Subscription from "@/pages/Subscription";
 import PaymentSuccess from "@/pages/PaymentSuccess";
 import PaymentCancel from "@/pages/PaymentCancel";
+import SharedView from "@/pages/SharedView";
 import { Loader2 } from "lucide-react";
 
 // Protected route component
@@ -59,6 +60,14 @@ function Router() {
       {/* Payment routes - deliberately not protected to handle anonymous checkout */}
       <Route path="/payment-success" component={PaymentSuccess} />
       <Route path="/payment-cancel" component={PaymentCancel} />
+
+      {/* Public share links - anyone with the link can view */}
+      <Route path="/s/:token">
+        {(params) => <SharedView token={params.token} />}
+      </Route>
+      <Route path="/s/:token/embed">
+        {(params) => <SharedView token={params.token} embed />}
+      </Route>
       
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,375 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ImagePlay, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { AnimationFrame, PaletteMode } from "@/utils/animation-encoders";
+import {
+  ANIMATION_FRAME_RATES,
+  ANIMATION_WIDTHS,
+  MAX_ANIMATION_FRAMES,
+  captureVideoFrames,
+  encodeAnimation,
+  getAnimationSize,
+  getSupportedAnimationFormats,
+  type AnimationFormat,
+} from "@/utils/animation-export";
+
+// A recorded clip to sample, or frames already grabbed from the camera
+export type AnimationSource =
+  | { type: 'video'; url: string }
+  | { type: 'frames'; frames: AnimationFrame[] };
+
+interface AnimationExportDialogProps {
+  source: AnimationSource;
+  onClose: () => void;
+  onComplete: (blob: Blob, format: AnimationFormat) => void;
+}
+
+const FORMAT_LABELS: Record<AnimationFormat, string> = {
+  gif: 'GIF',
+  apng: 'APNG',
+  webp: 'WebP',
+};
+
+const PALETTE_LABELS: Record<PaletteMode, string> = {
+  'full': 'Full Color',
+  'auto': 'Adaptive',
+  'grayscale': 'Grayscale',
+  '1-bit': '1-Bit (Ink & Paper)',
+};
+
+// Share of the progress bar spent reading frames from a clip
+const CAPTURE_PROGRESS_SHARE = 0.8;
+
+const MIN_CLIP_LENGTH = 0.1;
+
+export default function AnimationExportDialog({
+  source,
+  onClose,
+  onComplete,
+}: AnimationExportDialogProps) {
+  const [supportedFormats] = useState(getSupportedAnimationFormats);
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [paletteMode, setPaletteMode] = useState<PaletteMode>('auto');
+  const [colors, setColors] = useState(256);
+  const [grayLevels, setGrayLevels] = useState(4);
+  const [loop, setLoop] = useState(true);
+  const [duration, setDuration] = useState(0);
+  const [sourceSize, setSourceSize] = useState({ width: 0, height: 0 });
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(0);
+  const [fps, setFps] = useState(12);
+  const [width, setWidth] = useState<number | null>(480);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  // Stop any running export when the dialog goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const maxClipLength = MAX_ANIMATION_FRAMES / fps;
+
+  const handleLoadedMetadata = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = event.currentTarget;
+    setDuration(video.duration);
+    setEnd(Math.min(video.duration, maxClipLength));
+    setSourceSize({ width: video.videoWidth, height: video.videoHeight });
+  };
+
+  const seekPreview = (time: number) => {
+    if (previewRef.current) previewRef.current.currentTime = time;
+  };
+
+  const handleStartChange = (value: number[]) => {
+    const next = Math.max(0, Math.min(value[0], end - MIN_CLIP_LENGTH));
+    setStart(next);
+    setEnd(Math.min(end, next + maxClipLength));
+    seekPreview(next);
+  };
+
+  const handleEndChange = (value: number[]) => {
+    const next = Math.min(duration, start + maxClipLength, Math.max(value[0], start + MIN_CLIP_LENGTH));
+    setEnd(next);
+    seekPreview(next);
+  };
+
+  const handleFpsChange = (value: string) => {
+    const next = Number(value);
+    setFps(next);
+    setEnd(Math.min(end, start + MAX_ANIMATION_FRAMES / next));
+  };
+
+  const handleFormatChange = (next: AnimationFormat) => {
+    setFormat(next);
+    // GIF can't hold more than 256 colors
+    if (next === 'gif' && paletteMode === 'full') setPaletteMode('auto');
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+
+    try {
+      const frames = source.type === 'frames'
+        ? source.frames
+        : await captureVideoFrames(
+            source.url,
+            { start, end, fps, width },
+            (value) => setProgress(value * CAPTURE_PROGRESS_SHARE),
+            controller.signal
+          );
+      setProgress(CAPTURE_PROGRESS_SHARE);
+
+      const blob = await encodeAnimation(
+        frames,
+        {
+          format,
+          palette: { mode: paletteMode, colors: paletteMode === 'grayscale' ? grayLevels : colors },
+          loop,
+        },
+        controller.signal
+      );
+      onComplete(blob, format);
+    } catch (exportError) {
+      if (exportError instanceof DOMException && exportError.name === 'AbortError') {
+        setProgress(null);
+        return;
+      }
+      console.error('Error exporting animation:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Animation export failed');
+      setProgress(null);
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const isExporting = progress !== null;
+  const isVideo = source.type === 'video';
+  const frameCount = isVideo
+    ? Math.min(MAX_ANIMATION_FRAMES, Math.max(1, Math.round((end - start) * fps)))
+    : source.frames.length;
+  const output = isVideo
+    ? getAnimationSize(sourceSize.width, sourceSize.height, width)
+    : { width: source.frames[0]?.imageData.width ?? 0, height: source.frames[0]?.imageData.height ?? 0 };
+  const widthOptions = ANIMATION_WIDTHS.filter(option => option < sourceSize.width);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isExporting && onClose()}>
+      <DialogContent className="max-w-2xl bg-app-dark-light border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle>Export Animation</DialogTitle>
+        </DialogHeader>
+
+        {isVideo && (
+          <video
+            ref={previewRef}
+            src={source.url}
+            muted
+            playsInline
+            controls={!isExporting}
+            onLoadedMetadata={handleLoadedMetadata}
+            className="w-full max-h-[40vh] rounded bg-black"
+          />
+        )}
+
+        <div className="space-y-4">
+          {isVideo && (
+            <>
+              {/* Trim */}
+              <div>
+                <div className="flex justify-between">
+                  <Label className="text-label">Start</Label>
+                  <span className="text-value">{start.toFixed(1)}s</span>
+                </div>
+                <Slider
+                  value={[start]}
+                  onValueChange={handleStartChange}
+                  min={0}
+                  max={duration || 1}
+                  step={0.1}
+                  disabled={isExporting}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <div className="flex justify-between">
+                  <Label className="text-label">End</Label>
+                  <span className="text-value">{end.toFixed(1)}s</span>
+                </div>
+                <Slider
+                  value={[end]}
+                  onValueChange={handleEndChange}
+                  min={0}
+                  max={duration || 1}
+                  step={0.1}
+                  disabled={isExporting}
+                  className="mt-2"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {/* Size */}
+                <div>
+                  <Label className="block text-label mb-2">Width</Label>
+                  <Select
+                    value={width === null ? 'original' : String(width)}
+                    onValueChange={(value) => setWidth(value === 'original' ? null : Number(value))}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger className="bg-gray-800 border-gray-700">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="original">Original ({sourceSize.width}px)</SelectItem>
+                      {widthOptions.map(option => (
+                        <SelectItem key={option} value={String(option)}>{option}px</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Frame Rate */}
+                <div>
+                  <Label className="block text-label mb-2">Frame Rate</Label>
+                  <Select value={String(fps)} onValueChange={handleFpsChange} disabled={isExporting}>
+                    <SelectTrigger className="bg-gray-800 border-gray-700">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ANIMATION_FRAME_RATES.map(option => (
+                        <SelectItem key={option} value={String(option)}>{option} fps</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Format */}
+          <div>
+            <Label className="block text-label mb-2">Format</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(FORMAT_LABELS) as AnimationFormat[]).map(option => (
+                <Button
+                  key={option}
+                  className={format === option ? "bg-zinc-100/20 text-white font-medium" : "bg-gray-700 hover:bg-gray-600 text-white font-medium"}
+                  onClick={() => handleFormatChange(option)}
+                  disabled={isExporting || !supportedFormats.includes(option)}
+                >
+                  {FORMAT_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Palette */}
+          <div>
+            <Label className="block text-label mb-2">Palette</Label>
+            <Select
+              value={paletteMode}
+              onValueChange={(value) => setPaletteMode(value as PaletteMode)}
+              disabled={isExporting}
+            >
+              <SelectTrigger className="bg-gray-800 border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PALETTE_LABELS) as PaletteMode[]).map(option => (
+                  <SelectItem key={option} value={option} disabled={option === 'full' && format === 'gif'}>
+                    {PALETTE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {paletteMode === 'auto' && (
+            <div>
+              <div className="flex justify-between">
+                <Label className="text-label">Colors</Label>
+                <span className="text-value">{colors}</span>
+              </div>
+              <Slider
+                value={[colors]}
+                onValueChange={(value) => setColors(value[0])}
+                min={2}
+                max={256}
+                step={1}
+                disabled={isExporting}
+                className="mt-2"
+              />
+            </div>
+          )}
+
+          {paletteMode === 'grayscale' && (
+            <div>
+              <div className="flex justify-between">
+                <Label className="text-label">Gray Levels</Label>
+                <span className="text-value">{grayLevels}</span>
+              </div>
+              <Slider
+                value={[grayLevels]}
+                onValueChange={(value) => setGrayLevels(value[0])}
+                min={2}
+                max={16}
+                step={1}
+                disabled={isExporting}
+                className="mt-2"
+              />
+            </div>
+          )}
+
+          {/* Loop */}
+          <div className="flex items-center justify-between">
+            <Label className="text-label">Loop Forever</Label>
+            <Switch checked={loop} onCheckedChange={setLoop} disabled={isExporting} />
+          </div>
+
+          <p className="text-xs text-gray-400">
+            {frameCount} frames at {output.width}×{output.height}
+            {isVideo && ` · at most ${MAX_ANIMATION_FRAMES} frames (${maxClipLength.toFixed(1)}s at ${fps} fps)`}
+          </p>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          {isExporting ? (
+            <div className="space-y-2">
+              <Progress value={progress * 100} className="h-2" />
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-400">
+                  {progress < CAPTURE_PROGRESS_SHARE ? 'Reading frames…' : 'Encoding…'}
+                </span>
+                <Button className="bg-gray-700 hover:bg-gray-600 text-white" onClick={handleCancel}>
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              className="w-full bg-zinc-100/20 hover:bg-zinc-100/30 text-white font-medium"
+              onClick={handleExport}
+              disabled={isVideo && duration === 0}
+            >
+              <ImagePlay className="h-4 w-4 mr-2" />
+              Export {FORMAT_LABELS[format]}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,189 @@
+import React from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  AUDIO_BANDS,
+  MAX_AUDIO_MAPPINGS,
+  type AudioBand,
+  type AudioMapping,
+  type AudioReactiveSettings,
+  type AudioTrigger,
+} from "@shared/audio-reactive";
+import { ANIMATABLE_RANGES, ANIMATABLE_SETTINGS, type AnimatableSetting } from "@shared/timeline";
+
+interface AudioReactivePanelProps {
+  audioReactive: AudioReactiveSettings;
+  setAudioReactive: React.Dispatch<React.SetStateAction<AudioReactiveSettings>>;
+}
+
+const BAND_LABELS: Record<AudioBand, string> = {
+  bass: 'Bass',
+  mid: 'Mids',
+  treble: 'Treble',
+  level: 'Overall',
+};
+
+const TRIGGER_LABELS: Record<AudioTrigger, string> = {
+  energy: 'Energy',
+  beat: 'Beat',
+};
+
+export default function AudioReactivePanel({ audioReactive, setAudioReactive }: AudioReactivePanelProps) {
+  const updateMapping = (index: number, changes: Partial<AudioMapping>) => {
+    setAudioReactive(current => ({
+      ...current,
+      mappings: current.mappings.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)),
+    }));
+  };
+
+  // Start with the classic: dots swell on the kick drum
+  const addMapping = () => {
+    setAudioReactive(current => ({
+      ...current,
+      enabled: true,
+      mappings: [...current.mappings, { setting: 'dotSize', band: 'bass', trigger: 'beat', amount: 0.3 }],
+    }));
+  };
+
+  const removeMapping = (index: number) => {
+    setAudioReactive(current => ({
+      ...current,
+      mappings: current.mappings.filter((_, i) => i !== index),
+    }));
+  };
+
+  return (
+    <div className="bg-app-dark-light rounded-xl shadow-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Audio Reactive</h2>
+        <Switch
+          checked={audioReactive.enabled}
+          onCheckedChange={(enabled) => setAudioReactive(current => ({ ...current, enabled }))}
+          aria-label="React to audio"
+        />
+      </div>
+      <div className="p-4 space-y-4">
+        <p className="text-xs text-gray-400">
+          The camera listens to your microphone. Uploaded videos react to their own soundtrack when exported.
+        </p>
+
+        {/* Sensitivity */}
+        <div>
+          <div className="flex justify-between">
+            <Label className="text-label">Sensitivity</Label>
+            <span className="text-value">{audioReactive.sensitivity.toFixed(1)}×</span>
+          </div>
+          <Slider
+            value={[audioReactive.sensitivity]}
+            onValueChange={(value) => setAudioReactive(current => ({ ...current, sensitivity: value[0] }))}
+            min={0.5}
+            max={4}
+            step={0.1}
+            className="mt-2"
+          />
+        </div>
+
+        {/* Smoothing */}
+        <div>
+          <div className="flex justify-between">
+            <Label className="text-label">Smoothing</Label>
+            <span className="text-value">{Math.round(audioReactive.smoothing * 100)}%</span>
+          </div>
+          <Slider
+            value={[audioReactive.smoothing]}
+            onValueChange={(value) => setAudioReactive(current => ({ ...current, smoothing: value[0] }))}
+            min={0}
+            max={1}
+            step={0.05}
+            className="mt-2"
+          />
+        </div>
+
+        {/* Mappings */}
+        {audioReactive.mappings.map((mapping, index) => (
+          <div key={index} className="space-y-2 pl-1 border-l-2 border-gray-700 ml-1">
+            <div className="grid grid-cols-[1fr_5.5rem_5.5rem_auto] gap-2 items-center pl-2">
+              <Select
+                value={mapping.setting}
+                onValueChange={(setting) => updateMapping(index, { setting: setting as AnimatableSetting })}
+              >
+                <SelectTrigger className="h-8 bg-gray-800 border-gray-700 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ANIMATABLE_SETTINGS.map(setting => (
+                    <SelectItem key={setting} value={setting}>{ANIMATABLE_RANGES[setting].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={mapping.band}
+                onValueChange={(band) => updateMapping(index, { band: band as AudioBand })}
+              >
+                <SelectTrigger className="h-8 bg-gray-800 border-gray-700 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUDIO_BANDS.map(band => (
+                    <SelectItem key={band} value={band}>{BAND_LABELS[band]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={mapping.trigger}
+                onValueChange={(trigger) => updateMapping(index, { trigger: trigger as AudioTrigger })}
+              >
+                <SelectTrigger className="h-8 bg-gray-800 border-gray-700 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TRIGGER_LABELS) as AudioTrigger[]).map(trigger => (
+                    <SelectItem key={trigger} value={trigger}>{TRIGGER_LABELS[trigger]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <button
+                type="button"
+                className="text-gray-400 hover:text-white"
+                onClick={() => removeMapping(index)}
+                aria-label="Remove mapping"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="pl-2">
+              <div className="flex justify-between">
+                <Label className="text-label text-xs">Amount</Label>
+                <span className="text-value text-xs">
+                  {mapping.amount > 0 ? '+' : ''}{Math.round(mapping.amount * 100)}%
+                </span>
+              </div>
+              <Slider
+                value={[mapping.amount]}
+                onValueChange={(value) => updateMapping(index, { amount: value[0] })}
+                min={-1}
+                max={1}
+                step={0.05}
+                className="mt-2"
+              />
+            </div>
+          </div>
+        ))}
+
+        <Button
+          size="sm"
+          className="bg-gray-700 hover:bg-gray-600 text-white"
+          onClick={addMapping}
+          disabled={audioReactive.mappings.length >= MAX_AUDIO_MAPPINGS}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Mapping
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { AlertCircle, Check, Download, FolderPlus, Loader2, Play, RotateCcw, Square, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import PaywallModal from './PaywallModal';
+import type { AlbumItem } from './GalleryFilters';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/lib/clerk-provider';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import type { FilterSettings } from '@/pages/Home';
+import { processImageFile, processedFileName, type ProcessedImage } from '@/utils/batch-processing';
+import { downloadAsAnimation } from '@/utils/file-utils';
+import { uploadCapturedItem } from '@/utils/media-upload';
+import { createZip } from '@/utils/zip';
+import { BATCH_ITEM_CREDIT_COST } from '@shared/batch';
+import { DEFAULT_FILTER_SETTINGS } from '@shared/filter-settings';
+import { BUILT_IN_PRESETS } from '@shared/presets';
+
+type SavedPreset = {
+  id: number;
+  name: string;
+  filterSettings: FilterSettings;
+};
+
+type BatchItem = {
+  id: number;
+  file: File;
+  status: 'queued' | 'processing' | 'done' | 'failed';
+  progress: number;
+  error: string | null;
+  result: (ProcessedImage & { url: string; filterSettings: FilterSettings }) | null;
+  saved: boolean; // Uploaded to the gallery
+};
+
+// Look select value for the editor's own settings
+const CURRENT_LOOK = 'current';
+
+interface BatchQueueProps {
+  files: File[];
+  filterSettings: FilterSettings; // The editor's current look
+  onClose: () => void;
+}
+
+/**
+ * Filter many uploaded images in one go
+ * Credits for every image in a run are reserved before it starts, and the
+ * ones for images that fail or are cancelled are refunded when it ends.
+ * Failed images can be retried; finished ones can be downloaded as a ZIP or
+ * saved to a new gallery album.
+ */
+export default function BatchQueue({ files, filterSettings, onClose }: BatchQueueProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [items, setItems] = useState<BatchItem[]>(() => files.map((file, index) => ({
+    id: index,
+    file,
+    status: 'queued',
+    progress: 0,
+    error: null,
+    result: null,
+    saved: false,
+  })));
+  const [look, setLook] = useState(CURRENT_LOOK);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [albumName, setAlbumName] = useState(() => `Batch ${format(new Date(), 'PP')}`);
+  const [album, setAlbum] = useState<AlbumItem | null>(null);
+  const [showPaywall, setShowPaywall] = useState(false);
+  const cancelRef = useRef(false);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  const { data: savedPresets } = useQuery<SavedPreset[] | null>({
+    queryKey: ['/api/presets'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const looks = useMemo(() => [
+    { id: CURRENT_LOOK, name: 'Current settings', filterSettings },
+    ...BUILT_IN_PRESETS,
+    ...(savedPresets ?? []).map(preset => ({ id: `saved-${preset.id}`, name: preset.name, filterSettings: preset.filterSettings })),
+  ], [filterSettings, savedPresets]);
+
+  // Stop the queue and release result previews when the batch is closed
+  useEffect(() => () => {
+    cancelRef.current = true;
+    itemsRef.current.forEach(item => item.result && URL.revokeObjectURL(item.result.url));
+  }, []);
+
+  const updateItem = (id: number, changes: Partial<BatchItem>) => {
+    setItems(current => current.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({ title, description: error instanceof Error ? error.message : String(error), variant: 'destructive' });
+  };
+
+  // The server keeps the credits only for images reported here; it can't see the processing itself
+  const reportProcessed = async (reservationId: string, index: number) => {
+    try {
+      await apiRequest('POST', `/api/credits/reservations/${reservationId}/items`, { item: index });
+    } catch (error) {
+      console.error('Error reporting processed image:', error);
+    }
+  };
+
+  const runBatch = async (batch: BatchItem[]) => {
+    if (batch.length === 0 || isRunning) return;
+    cancelRef.current = false;
+    setIsRunning(true);
+
+    let reservationId: string;
+    try {
+      const res = await apiRequest('POST', '/api/credits/reserve', { items: batch.length });
+      reservationId = (await res.json()).reservationId;
+    } catch (error) {
+      setIsRunning(false);
+      if (error instanceof Error && error.message.startsWith('402:')) {
+        setShowPaywall(true);
+      } else {
+        showError("Couldn't start the batch", error);
+      }
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
+
+    const settings = { ...DEFAULT_FILTER_SETTINGS, ...(looks.find(option => option.id === look)?.filterSettings ?? filterSettings) };
+    for (let index = 0; index < batch.length; index++) {
+      const item = batch[index];
+      if (cancelRef.current) break;
+
+      if (item.result) URL.revokeObjectURL(item.result.url);
+      updateItem(item.id, { status: 'processing', progress: 0, error: null, result: null, saved: false });
+      try {
+        const result = await processImageFile(item.file, settings, progress => updateItem(item.id, { progress }));
+        updateItem(item.id, {
+          status: 'done',
+          progress: 100,
+          result: { ...result, url: URL.createObjectURL(result.blob), filterSettings: settings },
+        });
+        await reportProcessed(reservationId, index);
+      } catch (error) {
+        console.error(`Error processing ${item.file.name}:`, error);
+        updateItem(item.id, {
+          status: 'failed',
+          progress: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // Failed images and any left by a cancel are refunded
+    try {
+      const res = await apiRequest('POST', `/api/credits/reservations/${reservationId}/settle`);
+      const { refunded } = await res.json();
+      if (refunded > 0) {
+        const unused = refunded / BATCH_ITEM_CREDIT_COST;
+        toast({
+          title: 'Credits refunded',
+          description: `${refunded} credits for ${unused} ${unused === 1 ? 'image' : 'images'} that weren't processed.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error settling credit reservation:', error);
+      showError("Couldn't refund unused credits", error);
+    }
+    queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
+    setIsRunning(false);
+  };
+
+  const downloadZip = async () => {
+    const names = new Set<string>();
+    const entries = items
+      .filter(item => item.result)
+      .map(item => ({ name: processedFileName(item.file, names), data: item.result!.blob }));
+    try {
+      downloadAsAnimation(await createZip(entries), `pixelcam-batch-${format(new Date(), 'yyyy-MM-dd')}.zip`);
+    } catch (error) {
+      console.error('Error creating ZIP:', error);
+      showError("Couldn't create the ZIP", error);
+    }
+  };
+
+  // Later saves go into the album the first one made
+  const saveToAlbum = async () => {
+    setIsSaving(true);
+    try {
+      let target = album;
+      if (!target) {
+        const res = await apiRequest('POST', '/api/albums', { name: albumName });
+        target = await res.json() as AlbumItem;
+        setAlbum(target);
+        queryClient.invalidateQueries({ queryKey: ['/api/albums'] });
+      }
+
+      let saved = 0;
+      let failed = 0;
+      for (const item of items) {
+        if (!item.result || item.saved) continue;
+        const sourceUrl = URL.createObjectURL(item.file);
+        try {
+          await uploadCapturedItem({
+            id: `batch-${item.id}`,
+            type: 'image',
+            url: item.result.url,
+            timestamp: new Date(),
+            source: { type: 'uploaded-image', width: item.result.width, height: item.result.height, url: sourceUrl },
+            filterSettings: item.result.filterSettings,
+          }, { albumId: target.id });
+          updateItem(item.id, { saved: true });
+          saved++;
+        } catch (error) {
+          console.error(`Error saving ${item.file.name}:`, error);
+          failed++;
+        } finally {
+          URL.revokeObjectURL(sourceUrl);
+        }
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+      toast({
+        title: failed > 0 ? 'Some images weren\'t saved' : 'Saved to gallery',
+        description: `${saved} saved to "${target.name}"${failed > 0 ? `, ${failed} failed. Save again to retry them.` : '.'}`,
+        variant: failed > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      console.error('Error saving batch:', error);
+      showError("Couldn't save to the gallery", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const queued = items.filter(item => item.status === 'queued');
+  const failed = items.filter(item => item.status === 'failed');
+  const done = items.filter(item => item.status === 'done');
+  const unsaved = done.filter(item => !item.saved);
+  const finished = done.length + failed.length;
+  const isBusy = isRunning || isSaving;
+
+  return (
+    <div className="flex flex-col bg-gray-900 rounded-lg overflow-hidden">
+      <div className="p-3 flex flex-wrap items-end gap-3 border-b border-gray-800">
+        <div>
+          <Label className="block mb-1 text-xs text-muted-foreground">Look</Label>
+          <Select value={look} onValueChange={setLook} disabled={isRunning}>
+            <SelectTrigger className="w-48 bg-gray-800 border-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {looks.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex-1 min-w-[10rem]">
+          <div className="mb-1 text-xs text-muted-foreground">
+            {finished} of {items.length} processed{failed.length > 0 && ` · ${failed.length} failed`}
+          </div>
+          <Progress value={items.length > 0 ? (finished / items.length) * 100 : 0} className="h-2" />
+        </div>
+        <Button variant="ghost" size="icon" title="Close batch" onClick={onClose} disabled={isBusy}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ul className="max-h-[400px] overflow-y-auto divide-y divide-gray-800">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-3 p-2">
+            <div className="w-12 h-12 flex-shrink-0 rounded bg-black overflow-hidden flex items-center justify-center">
+              {item.result
+                ? <img src={item.result.url} alt="" className="object-cover w-full h-full" />
+                : <span className="text-[10px] text-gray-500 uppercase">{item.file.type.replace('image/', '')}</span>}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm truncate">{item.file.name}</div>
+              {item.status === 'processing' && <Progress value={item.progress} className="h-1 mt-1" />}
+              {item.status === 'failed' && <div className="text-xs text-red-400 truncate">{item.error}</div>}
+              {item.status === 'done' && item.result && (
+                <div className="text-xs text-muted-foreground">
+                  {item.result.width} × {item.result.height}{item.saved && ' · In gallery'}
+                </div>
+              )}
+            </div>
+            {item.status === 'processing' && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+            {item.status === 'done' && <Check className="w-4 h-4 text-green-500" />}
+            {item.status === 'failed' && (
+              <Button variant="ghost" size="icon" title="Retry" onClick={() => runBatch([item])} disabled={isBusy}>
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            )}
+            {(item.status === 'queued' || item.status === 'failed') && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Remove from batch"
+                onClick={() => setItems(current => current.filter(other => other.id !== item.id))}
+                disabled={isRunning}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="p-3 flex flex-wrap items-center gap-2 border-t border-gray-800">
+        {isRunning ? (
+          <Button variant="secondary" onClick={() => { cancelRef.current = true; }} className="flex items-center gap-2">
+            <Square size={16} />
+            Stop
+          </Button>
+        ) : (
+          <>
+            {queued.length > 0 && (
+              <Button onClick={() => runBatch(queued)} disabled={isBusy} className="flex items-center gap-2">
+                <Play size={16} />
+                Process {queued.length} {queued.length === 1 ? 'Image' : 'Images'} ({queued.length * BATCH_ITEM_CREDIT_COST} credits)
+              </Button>
+            )}
+            {failed.length > 0 && (
+              <Button variant="secondary" onClick={() => runBatch(failed)} disabled={isBusy} className="flex items-center gap-2">
+                <RotateCcw size={16} />
+                Retry {failed.length} Failed
+              </Button>
+            )}
+          </>
+        )}
+
+        {done.length > 0 && (
+          <Button variant="secondary" onClick={downloadZip} disabled={isBusy} className="flex items-center gap-2">
+            <Download size={16} />
+            Download ZIP ({done.length})
+          </Button>
+        )}
+
+        {user && done.length > 0 && (
+          <div className="flex items-center gap-2 ml-auto">
+            {!album && (
+              <Input
+                value={albumName}
+                onChange={(event) => setAlbumName(event.target.value)}
+                placeholder="Album name"
+                maxLength={60}
+                className="w-44 h-9 bg-gray-800 border-gray-700"
+                disabled={isBusy}
+              />
+            )}
+            <Button
+              variant="secondary"
+              onClick={saveToAlbum}
+              disabled={isBusy || unsaved.length === 0 || !albumName.trim()}
+              className="flex items-center gap-2"
+            >
+              {isSaving ? <Loader2 size={16} className="animate-spin" /> : <FolderPlus size={16} />}
+              {unsaved.length === 0 ? `Saved to "${album?.name}"` : `Save ${unsaved.length} to ${album ? `"${album.name}"` : 'Album'}`}
+            </Button>
+          </div>
+        )}
+
+        {failed.length > 0 && !isRunning && (
+          <div className="w-full flex items-center gap-1 text-xs text-muted-foreground">
+            <AlertCircle size={12} />
+            Credits for failed images have been refunded; retrying reserves them again.
+          </div>
+        )}
+      </div>
+
+      <PaywallModal
+        isOpen={showPaywall}
+        onClose={() => setShowPaywall(false)}
+        reason="insufficient-credits"
+        onPurchaseCredits={() => {
+          queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
+          setShowPaywall(false);
+        }}
+      />
+    </div>
+  );
+}
@@ -5,12 +5,16 @@ import { Loader2, AlertCircle } from 'lucide-react';
 interface BeforeAfterSliderProps {
   beforeImage: string; // Original image URL
   afterImage: string;  // Processed image URL
+  beforeLabel?: string;
+  afterLabel?: string;
   className?: string;
 }
 
 export default function BeforeAfterSlider({
   beforeImage,
   afterImage,
+  beforeLabel = 'Original',
+  afterLabel = 'Processed',
   className
 }: BeforeAfterSliderProps) {
   const [sliderPosition, setSliderPosition] = useState(50);
@@ -151,14 +155,15 @@ export default function BeforeAfterSlider({
           crossOrigin="anonymous"
         />
         <div className="absolute top-4 left-4 bg-black/70 text-white px-2 py-1 rounded text-sm">
-          Original
+          {beforeLabel}
         </div>
       </div>
       
       {/* After image (shown based on slider position) */}
+      {/* Clipped rather than narrowed, so both images stay laid out identically */}
       <div 
         className="absolute inset-0 overflow-hidden"
-        style={{ width: `${sliderPosition}%` }}
+        style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
       >
         <div className="relative w-full h-full">
           <img 
@@ -171,7 +176,7 @@ export default function BeforeAfterSlider({
             crossOrigin="anonymous"
           />
           <div className="absolute top-4 left-4 bg-blue-600/70 text-white px-2 py-1 rounded text-sm">
-            Processed
+            {afterLabel}
           </div>
         </div>
       </div>
@@ -12,6 +12,7 @@ export default function CapturedItem({
   onView 
 }: CapturedItemProps) {
   const timeString = item.timestamp.toLocaleTimeString();
+  const isAnimation = item.type === "image" && !!item.mimeType && item.mimeType !== "image/jpeg";
   
   return (
     <div className="flex items-center space-x-3 p-2 rounded hover:bg-gray-800 mb-2">
@@ -28,7 +29,7 @@ export default function CapturedItem({
       </div>
       
       <div className="flex-1">
-        <div className="text-sm font-medium text-white">{item.type === "image" ? "Captured Image" : "Recorded Video"}</div>
+        <div className="text-sm font-medium text-white">{isAnimation ? "Captured Animation" : item.type === "image" ? "Captured Image" : "Recorded Video"}</div>
         <div className="text-xs text-label">{timeString}</div>
       </div>
       
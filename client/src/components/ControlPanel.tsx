@@ -2,18 +2,101 @@ import React, { useState } from "react";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Button } from "@/components/ui/button";
-import { Upload, Download, Image, Video, Circle, Square, X, Layers } from "lucide-react";
+import { Upload, Download, Image, Video, Square, X, Layers, Plus, Minus } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import ActivityFeed from "./ActivityFeed";
+import PresetPicker from "./PresetPicker";
+import TimelineEditor from "./TimelineEditor";
+import AudioReactivePanel from "./AudioReactivePanel";
 import { useWebcam } from "@/hooks/use-webcam";
-import { downloadAsJpg } from "@/utils/file-utils";
-import type { FilterSettings, CapturedItem, DotShape } from "@/pages/Home";
+import { downloadAsJpg, readSvgShape } from "@/utils/file-utils";
+import { COLOR_MODE_CHANNELS } from "@shared/halftone";
+import {
+  CUSTOM_SHAPE_PREFIX,
+  GLYPH_SHAPE_PREFIX,
+  createAsciiBands,
+  listShapes,
+  resolveShape,
+  type ShapeBand,
+  type ShapeRenderer,
+} from "@shared/shapes";
+import type { DitherAlgorithm, DitherPalette, DitherSettings } from "@shared/dither";
+import type { FilterTimeline } from "@shared/timeline";
+import type { AudioReactiveSettings } from "@shared/audio-reactive";
+import type {
+  FilterSettings,
+  CapturedItem,
+  DotShape,
+  FilterEffect,
+  GridTopology,
+  ColorMode,
+  ColorChannel,
+  BlendMode,
+  ChannelSettings,
+} from "@/pages/Home";
+
+const GRID_TOPOLOGY_LABELS: Record<GridTopology, string> = {
+  square: 'Square',
+  hex: 'Hex',
+  radial: 'Radial',
+  stochastic: 'Stochastic',
+};
+
+const DITHER_ALGORITHM_LABELS: Record<DitherAlgorithm, string> = {
+  'floyd-steinberg': 'Floyd–Steinberg',
+  atkinson: 'Atkinson',
+  'jarvis-judice-ninke': 'Jarvis-Judice-Ninke',
+  'bayer-2': 'Bayer 2×2',
+  'bayer-4': 'Bayer 4×4',
+  'bayer-8': 'Bayer 8×8',
+  'blue-noise': 'Blue Noise',
+};
+
+const DITHER_PALETTE_LABELS: Record<DitherPalette, string> = {
+  '1-bit': '1-bit',
+  'game-boy': 'Game Boy',
+  custom: 'Custom',
+};
+
+// Matches the limit in the settings schema
+const MAX_CUSTOM_PALETTE_COLORS = 16;
+
+const BLEND_MODE_LABELS: Record<BlendMode, string> = {
+  'source-over': 'Normal',
+  multiply: 'Multiply',
+  screen: 'Screen',
+  lighter: 'Add',
+  darken: 'Darken',
+  lighten: 'Lighten',
+};
+
+// Matches the limits in the settings schema
+const MAX_CUSTOM_SHAPES = 16;
+const MAX_SHAPE_BANDS = 32;
+
+/**
+ * Small preview of a dot shape, drawn from its SVG output
+ */
+function ShapeIcon({ shape, className }: { shape: ShapeRenderer; className?: string }) {
+  return (
+    <svg
+      viewBox="-10 -10 20 20"
+      fill="currentColor"
+      className={className}
+      dangerouslySetInnerHTML={{ __html: shape.toSvg(0, 0, 9, 2) }}
+    />
+  );
+}
 
 interface ControlPanelProps {
   filterSettings: FilterSettings;
   setFilterSettings: React.Dispatch<React.SetStateAction<FilterSettings>>;
+  timeline: FilterTimeline;
+  setTimeline: React.Dispatch<React.SetStateAction<FilterTimeline>>;
+  audioReactive: AudioReactiveSettings;
+  setAudioReactive: React.Dispatch<React.SetStateAction<AudioReactiveSettings>>;
   cameraReady: boolean;
   capturedItems: CapturedItem[];
   onViewItem: (item: CapturedItem) => void;
@@ -23,6 +106,10 @@ interface ControlPanelProps {
 export default function ControlPanel({
   filterSettings,
   setFilterSettings,
+  timeline,
+  setTimeline,
+  audioReactive,
+  setAudioReactive,
   cameraReady,
   capturedItems,
   onViewItem,
@@ -71,14 +158,127 @@ export default function ControlPanel({
     setIsWebcamSource(isWebcam);
   };
   
-  const toggleFilterType = (isGrayscale: boolean) => {
-    setFilterSettings(prev => ({ ...prev, isGrayscale }));
+  const handleColorModeChange = (colorMode: ColorMode) => {
+    setFilterSettings(prev => ({ ...prev, colorMode, isGrayscale: colorMode === 'mono' }));
+  };
+  
+  const updateChannel = (channel: ColorChannel, changes: Partial<ChannelSettings>) => {
+    setFilterSettings(prev => ({
+      ...prev,
+      channels: prev.channels.map(entry => entry.channel === channel ? { ...entry, ...changes } : entry),
+    }));
   };
   
   const handleDotShapeChange = (value: DotShape) => {
     setFilterSettings(prev => ({ ...prev, dotShape: value }));
   };
   
+  const toggleAsciiArt = (enabled: boolean) => {
+    setFilterSettings(prev => ({ ...prev, shapeBands: enabled ? createAsciiBands() : [] }));
+  };
+  
+  const updateShapeBand = (index: number, changes: Partial<ShapeBand>) => {
+    setFilterSettings(prev => ({
+      ...prev,
+      shapeBands: prev.shapeBands.map((band, i) => i === index ? { ...band, ...changes } : band),
+    }));
+  };
+  
+  const addShapeBand = () => {
+    setFilterSettings(prev => ({
+      ...prev,
+      shapeBands: [...prev.shapeBands, { upTo: 1, shape: prev.dotShape }],
+    }));
+  };
+  
+  const removeShapeBand = (index: number) => {
+    setFilterSettings(prev => ({
+      ...prev,
+      shapeBands: prev.shapeBands.filter((_, i) => i !== index),
+    }));
+  };
+  
+  const handleShapeUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be picked again after editing it
+    event.target.value = '';
+    if (!file) return;
+    
+    try {
+      const shape = await readSvgShape(file);
+      setFilterSettings(prev => {
+        // Re-uploading a file replaces the shape with the same name
+        const others = prev.customShapes.filter(entry => entry.name !== shape.name);
+        if (others.length >= MAX_CUSTOM_SHAPES) {
+          alert(`You can add up to ${MAX_CUSTOM_SHAPES} custom shapes`);
+          return prev;
+        }
+        return {
+          ...prev,
+          customShapes: [...others, shape],
+          dotShape: `${CUSTOM_SHAPE_PREFIX}${shape.name}`,
+        };
+      });
+    } catch (error) {
+      console.error('Error reading SVG shape:', error);
+      alert(error instanceof Error ? error.message : 'Unable to read the SVG file');
+    }
+  };
+  
+  const removeCustomShape = (name: string) => {
+    const shapeName = `${CUSTOM_SHAPE_PREFIX}${name}`;
+    setFilterSettings(prev => ({
+      ...prev,
+      customShapes: prev.customShapes.filter(entry => entry.name !== name),
+      dotShape: prev.dotShape === shapeName ? 'circle' : prev.dotShape,
+      shapeBands: prev.shapeBands.filter(band => band.shape !== shapeName),
+    }));
+  };
+  
+  const handleEffectChange = (effect: FilterEffect) => {
+    setFilterSettings(prev => ({ ...prev, effect }));
+  };
+  
+  const updateDither = (changes: Partial<DitherSettings>) => {
+    setFilterSettings(prev => ({ ...prev, dither: { ...prev.dither, ...changes } }));
+  };
+  
+  const updateCustomPaletteColor = (index: number, color: string) => {
+    setFilterSettings(prev => ({
+      ...prev,
+      dither: {
+        ...prev.dither,
+        customPalette: prev.dither.customPalette.map((entry, i) => i === index ? color : entry),
+      },
+    }));
+  };
+  
+  const addCustomPaletteColor = () => {
+    setFilterSettings(prev => ({
+      ...prev,
+      dither: { ...prev.dither, customPalette: [...prev.dither.customPalette, '#ffffff'] },
+    }));
+  };
+  
+  const removeLastPaletteColor = () => {
+    setFilterSettings(prev => {
+      // A palette needs at least two colors to dither between
+      if (prev.dither.customPalette.length <= 2) return prev;
+      return {
+        ...prev,
+        dither: { ...prev.dither, customPalette: prev.dither.customPalette.slice(0, -1) },
+      };
+    });
+  };
+  
+  const handleGridTopologyChange = (gridTopology: GridTopology) => {
+    setFilterSettings(prev => ({ ...prev, gridTopology }));
+  };
+  
+  const handleScreenAngleChange = (value: number[]) => {
+    setFilterSettings(prev => ({ ...prev, screenAngle: value[0] }));
+  };
+  
   const toggleSecondLayer = (enabled: boolean) => {
     setFilterSettings(prev => ({ ...prev, useSecondLayer: enabled }));
   };
@@ -91,6 +291,19 @@ export default function ControlPanel({
     setFilterSettings(prev => ({ ...prev, secondLayerOffset: value[0] }));
   };
   
+  const toggleAreaSampling = (enabled: boolean) => {
+    setFilterSettings(prev => ({ ...prev, sampling: enabled ? 'area' : 'point' }));
+  };
+  
+  // Built-in shapes followed by the user's own; band shapes can also be glyphs
+  const customShapeOptions = filterSettings.customShapes.map(custom =>
+    resolveShape(`${CUSTOM_SHAPE_PREFIX}${custom.name}`, filterSettings.customShapes)
+  );
+  const shapeOptions = [...listShapes(), ...customShapeOptions];
+  const bandShapeOptions = [...listShapes(true), ...customShapeOptions];
+  const isAsciiArt = filterSettings.shapeBands.length > 0 &&
+    filterSettings.shapeBands.every(band => band.shape.startsWith(GLYPH_SHAPE_PREFIX));
+  
   return (
     <>
       {/* Input Source Section */}
@@ -115,11 +328,11 @@ export default function ControlPanel({
           </div>
           {!isWebcamSource && (
             <div className="mt-3 space-y-3">
-              <Label className="block text-label mb-1">Select MP4 file</Label>
+              <Label className="block text-label mb-1">Select a video file</Label>
               <input 
                 type="file" 
                 id="videoUpload" 
-                accept="video/mp4"
+                accept="video/*"
                 className="block w-full text-sm text-white
                   file:mr-4 file:py-2 file:px-4
                   file:rounded-lg file:border-0
@@ -149,26 +362,37 @@ export default function ControlPanel({
         </div>
       </div>
       
+      {/* Presets Section */}
+      <PresetPicker
+        filterSettings={filterSettings}
+        setFilterSettings={setFilterSettings}
+        timeline={timeline}
+        setTimeline={setTimeline}
+      />
+      
       {/* Filter Settings Section */}
       <div className="bg-app-dark-light rounded-xl shadow-lg overflow-hidden">
         <div className="p-4 border-b border-gray-800">
           <h2 className="text-lg font-semibold">Filter Settings</h2>
         </div>
         <div className="p-4 space-y-4">
-          {/* Dot Size */}
+          {/* Effect */}
           <div>
-            <div className="flex justify-between">
-              <Label className="text-label">Dot Size</Label>
-              <span className="text-value">{filterSettings.dotSize}</span>
+            <Label className="block text-label mb-2">Effect</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Button 
+                className={filterSettings.effect === 'halftone' ? "bg-zinc-100/20 text-white font-medium" : "bg-gray-700 hover:bg-gray-600 text-white font-medium"}
+                onClick={() => handleEffectChange('halftone')}
+              >
+                Halftone
+              </Button>
+              <Button 
+                className={filterSettings.effect === 'dither' ? "bg-zinc-100/20 text-white font-medium" : "bg-gray-700 hover:bg-gray-600 text-white font-medium"}
+                onClick={() => handleEffectChange('dither')}
+              >
+                Dither
+              </Button>
             </div>
-            <Slider 
-              value={[filterSettings.dotSize]} 
-              onValueChange={handleDotSizeChange}
-              min={1}
-              max={30}
-              step={1}
-              className="mt-2"
-            />
           </div>
           
           {/* Contrast */}
@@ -203,111 +427,431 @@ export default function ControlPanel({
             />
           </div>
           
-          {/* Dot Shape Selection */}
-          <div className="mt-4">
-            <Label className="block text-label mb-2">Dot Shape</Label>
-            <RadioGroup
-              value={filterSettings.dotShape}
-              onValueChange={(value) => handleDotShapeChange(value as DotShape)}
-              className="grid grid-cols-3 gap-2"
-            >
-              <div className="flex items-center space-x-2 bg-gray-800 rounded p-2 cursor-pointer hover:bg-gray-700">
-                <RadioGroupItem id="option-circle" value="circle" className="sr-only" />
-                <Label htmlFor="option-circle" className="flex flex-col items-center cursor-pointer w-full">
-                  <Circle className={`h-6 w-6 ${filterSettings.dotShape === 'circle' ? 'text-zinc-100' : 'text-gray-400'}`} />
-                  <span className="text-xs mt-1">Circle</span>
-                </Label>
+          {filterSettings.effect === 'halftone' && (
+            <>
+              {/* Dot Size */}
+              <div>
+                <div className="flex justify-between">
+                  <Label className="text-label">Dot Size</Label>
+                  <span className="text-value">{filterSettings.dotSize}</span>
+                </div>
+                <Slider 
+                  value={[filterSettings.dotSize]} 
+                  onValueChange={handleDotSizeChange}
+                  min={1}
+                  max={30}
+                  step={1}
+                  className="mt-2"
+                />
+              </div>
+              
+              {/* Dot Shape Selection */}
+              <div className="mt-4">
+                <Label className="block text-label mb-2">Dot Shape</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {shapeOptions.map(shape => (
+                    <button
+                      key={shape.name}
+                      type="button"
+                      className={`flex flex-col items-center rounded p-2 ${filterSettings.dotShape === shape.name ? 'bg-zinc-100/20 text-zinc-100' : 'bg-gray-800 hover:bg-gray-700 text-gray-400'}`}
+                      onClick={() => handleDotShapeChange(shape.name)}
+                      disabled={filterSettings.shapeBands.length > 0}
+                    >
+                      <ShapeIcon shape={shape} className="h-6 w-6" />
+                      <span className="text-xs mt-1 truncate max-w-full">{shape.label}</span>
+                    </button>
+                  ))}
+                </div>
+                
+                {/* Custom SVG Shapes */}
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {filterSettings.customShapes.map(custom => (
+                    <span key={custom.name} className="flex items-center text-xs bg-gray-800 rounded px-2 py-1">
+                      {custom.name}
+                      <button
+                        type="button"
+                        className="ml-1 text-gray-400 hover:text-white"
+                        onClick={() => removeCustomShape(custom.name)}
+                        aria-label={`Remove ${custom.name}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <label className="mt-2 flex items-center justify-center text-sm bg-gray-700 hover:bg-gray-600 text-white font-medium rounded-md py-2 cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Add SVG Shape
+                  <input
+                    type="file"
+                    accept=".svg,image/svg+xml"
+                    className="hidden"
+                    onChange={handleShapeUpload}
+                  />
+                </label>
               </div>
               
-              <div className="flex items-center space-x-2 bg-gray-800 rounded p-2 cursor-pointer hover:bg-gray-700">
-                <RadioGroupItem id="option-square" value="square" className="sr-only" />
-                <Label htmlFor="option-square" className="flex flex-col items-center cursor-pointer w-full">
-                  <Square className={`h-6 w-6 ${filterSettings.dotShape === 'square' ? 'text-zinc-100' : 'text-gray-400'}`} />
-                  <span className="text-xs mt-1">Square</span>
-                </Label>
+              {/* Brightness Bands */}
+              <div className="mt-4">
+                <div className="flex items-center justify-between">
+                  <Label className="text-label">ASCII Art</Label>
+                  <Switch 
+                    checked={isAsciiArt} 
+                    onCheckedChange={toggleAsciiArt}
+                  />
+                </div>
+                <p className="text-xs text-gray-400 mt-1">Pick a shape per brightness band instead of one for every dot</p>
+                
+                {filterSettings.shapeBands.length > 0 && (
+                  <div className="mt-3 space-y-2 pl-1 border-l-2 border-gray-700 ml-1">
+                    {filterSettings.shapeBands.map((band, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Select value={band.shape} onValueChange={(shape) => updateShapeBand(index, { shape })}>
+                          <SelectTrigger className="h-8 w-24 bg-gray-800 border-gray-700 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {bandShapeOptions.map(shape => (
+                              <SelectItem key={shape.name} value={shape.name}>
+                                {shape.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Slider 
+                          value={[band.upTo]} 
+                          onValueChange={(value) => updateShapeBand(index, { upTo: value[0] })}
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          className="flex-1"
+                        />
+                        <span className="text-value text-xs w-9 text-right">{(band.upTo * 100).toFixed(0)}%</span>
+                        <button
+                          type="button"
+                          className="text-gray-400 hover:text-white"
+                          onClick={() => removeShapeBand(index)}
+                          aria-label="Remove band"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
+                {filterSettings.shapeBands.length < MAX_SHAPE_BANDS && (
+                  <Button 
+                    className="mt-2 w-full bg-gray-700 hover:bg-gray-600 text-white font-medium"
+                    onClick={addShapeBand}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Band
+                  </Button>
+                )}
               </div>
               
-              <div className="flex items-center space-x-2 bg-gray-800 rounded p-2 cursor-pointer hover:bg-gray-700">
-                <RadioGroupItem id="option-cross" value="cross" className="sr-only" />
-                <Label htmlFor="option-cross" className="flex flex-col items-center cursor-pointer w-full">
-                  <X className={`h-6 w-6 ${filterSettings.dotShape === 'cross' ? 'text-zinc-100' : 'text-gray-400'}`} />
-                  <span className="text-xs mt-1">Cross</span>
-                </Label>
+              {/* Grid Topology */}
+              <div className="mt-4">
+                <Label className="block text-label mb-2">Screen</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(GRID_TOPOLOGY_LABELS) as GridTopology[]).map(topology => (
+                    <Button 
+                      key={topology}
+                      className={filterSettings.gridTopology === topology ? "bg-zinc-100/20 text-white font-medium" : "bg-gray-700 hover:bg-gray-600 text-white font-medium"}
+                      onClick={() => handleGridTopologyChange(topology)}
+                    >
+                      {GRID_TOPOLOGY_LABELS[topology]}
+                    </Button>
+                  ))}
+                </div>
               </div>
-            </RadioGroup>
-          </div>
-          
-          {/* Second Layer Controls */}
-          <div className="mt-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-2">
-                <Layers className="h-4 w-4 text-gray-400" />
-                <Label className="text-label">Second Layer</Label>
+              
+              {/* Screen Angle */}
+              <div>
+                <div className="flex justify-between">
+                  <Label className="text-label">Screen Angle</Label>
+                  <span className="text-value">{filterSettings.screenAngle}°</span>
+                </div>
+                <Slider 
+                  value={[filterSettings.screenAngle]} 
+                  onValueChange={handleScreenAngleChange}
+                  min={0}
+                  max={90}
+                  step={1}
+                  className="mt-2"
+                />
               </div>
-              <Switch 
-                checked={filterSettings.useSecondLayer} 
-                onCheckedChange={toggleSecondLayer}
-              />
-            </div>
-            
-            {filterSettings.useSecondLayer && (
-              <div className="mt-3 space-y-3 pl-1 border-l-2 border-gray-700 ml-1">
-                {/* Second Layer Opacity */}
-                <div>
-                  <div className="flex justify-between">
-                    <Label className="text-label text-sm">Opacity</Label>
-                    <span className="text-value text-sm">{(filterSettings.secondLayerOpacity * 100).toFixed(0)}%</span>
+              
+              {/* Second Layer Controls */}
+              {filterSettings.colorMode === 'mono' && (
+                <div className="mt-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Layers className="h-4 w-4 text-gray-400" />
+                      <Label className="text-label">Second Layer</Label>
+                    </div>
+                    <Switch 
+                      checked={filterSettings.useSecondLayer} 
+                      onCheckedChange={toggleSecondLayer}
+                    />
                   </div>
-                  <Slider 
-                    value={[filterSettings.secondLayerOpacity]} 
-                    onValueChange={handleSecondLayerOpacityChange}
-                    min={0.1}
-                    max={1.0}
-                    step={0.05}
-                    className="mt-1"
+              
+                  {filterSettings.useSecondLayer && (
+                    <div className="mt-3 space-y-3 pl-1 border-l-2 border-gray-700 ml-1">
+                      {/* Second Layer Opacity */}
+                      <div>
+                        <div className="flex justify-between">
+                          <Label className="text-label text-sm">Opacity</Label>
+                          <span className="text-value text-sm">{(filterSettings.secondLayerOpacity * 100).toFixed(0)}%</span>
+                        </div>
+                        <Slider 
+                          value={[filterSettings.secondLayerOpacity]} 
+                          onValueChange={handleSecondLayerOpacityChange}
+                          min={0.1}
+                          max={1.0}
+                          step={0.05}
+                          className="mt-1"
+                        />
+                      </div>
+              
+                      {/* Second Layer Offset */}
+                      <div>
+                        <div className="flex justify-between">
+                          <Label className="text-label text-sm">Offset</Label>
+                          <span className="text-value text-sm">{filterSettings.secondLayerOffset}</span>
+                        </div>
+                        <Slider 
+                          value={[filterSettings.secondLayerOffset]} 
+                          onValueChange={handleSecondLayerOffsetChange}
+                          min={1}
+                          max={15}
+                          step={1}
+                          className="mt-1"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+              
+              {/* Sampling Mode */}
+              <div className="mt-4">
+                <div className="flex items-center justify-between">
+                  <Label className="text-label">Smooth Sampling</Label>
+                  <Switch 
+                    checked={filterSettings.sampling === 'area'} 
+                    onCheckedChange={toggleAreaSampling}
                   />
                 </div>
+                <p className="text-xs text-gray-400 mt-1">Average each dot's area instead of a single pixel</p>
+              </div>
+              
+              {/* Color Mode */}
+              <div className="mt-4">
+                <Label className="block text-label mb-2">Color Mode</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['mono', 'cmyk', 'rgb'] as ColorMode[]).map(mode => (
+                    <Button 
+                      key={mode}
+                      className={filterSettings.colorMode === mode ? "bg-zinc-100/20 text-white font-medium" : "bg-gray-700 hover:bg-gray-600 text-white font-medium"}
+                      onClick={() => handleColorModeChange(mode)}
+                    >
+                      {mode === 'mono' ? 'Mono' : mode.toUpperCase()}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              
+              {/* Channel Controls */}
+              {filterSettings.colorMode !== 'mono' && (
+                <div className="mt-4 space-y-3">
+                  {COLOR_MODE_CHANNELS[filterSettings.colorMode].map(channel => {
+                    const settings = filterSettings.channels.find(entry => entry.channel === channel);
+                    if (!settings) return null;
+              
+                    return (
+                      <div key={channel} className="bg-gray-800 rounded p-2">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2">
+                            <input 
+                              type="color"
+                              value={settings.color}
+                              onChange={(e) => updateChannel(channel, { color: e.target.value })}
+                              className="h-5 w-5 rounded border-0 bg-transparent p-0 cursor-pointer"
+                              aria-label={`${channel} dot color`}
+                            />
+                            <Label className="text-label capitalize">{channel}</Label>
+                          </div>
+                          <Switch 
+                            checked={settings.enabled} 
+                            onCheckedChange={(enabled) => updateChannel(channel, { enabled })}
+                          />
+                        </div>
+              
+                        {settings.enabled && (
+                          <div className="mt-3 space-y-3 pl-1 border-l-2 border-gray-700 ml-1">
+                            {/* Screen Angle */}
+                            <div>
+                              <div className="flex justify-between">
+                                <Label className="text-label text-sm">Angle</Label>
+                                <span className="text-value text-sm">{settings.angle}°</span>
+                              </div>
+                              <Slider 
+                                value={[settings.angle]} 
+                                onValueChange={(value) => updateChannel(channel, { angle: value[0] })}
+                                min={0}
+                                max={90}
+                                step={1}
+                                className="mt-1"
+                              />
+                            </div>
+              
+                            {/* Channel Opacity */}
+                            <div>
+                              <div className="flex justify-between">
+                                <Label className="text-label text-sm">Opacity</Label>
+                                <span className="text-value text-sm">{(settings.opacity * 100).toFixed(0)}%</span>
+                              </div>
+                              <Slider 
+                                value={[settings.opacity]} 
+                                onValueChange={(value) => updateChannel(channel, { opacity: value[0] })}
+                                min={0.1}
+                                max={1.0}
+                                step={0.05}
+                                className="mt-1"
+                              />
+                            </div>
+              
+                            {/* Blend Mode */}
+                            <div className="flex items-center justify-between">
+                              <Label className="text-label text-sm">Blend</Label>
+                              <Select 
+                                value={settings.blendMode}
+                                onValueChange={(value) => updateChannel(channel, { blendMode: value as BlendMode })}
+                              >
+                                <SelectTrigger className="h-8 w-32 bg-gray-700 border-0 text-sm">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(Object.keys(BLEND_MODE_LABELS) as BlendMode[]).map(mode => (
+                                    <SelectItem key={mode} value={mode}>{BLEND_MODE_LABELS[mode]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+              
+          {filterSettings.effect === 'dither' && (
+            <>
+              {/* Dither Algorithm */}
+              <div className="flex items-center justify-between">
+                <Label className="text-label">Algorithm</Label>
+                <Select 
+                  value={filterSettings.dither.algorithm}
+                  onValueChange={(value) => updateDither({ algorithm: value as DitherAlgorithm })}
+                >
+                  <SelectTrigger className="h-8 w-44 bg-gray-700 border-0 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DITHER_ALGORITHM_LABELS) as DitherAlgorithm[]).map(algorithm => (
+                      <SelectItem key={algorithm} value={algorithm}>{DITHER_ALGORITHM_LABELS[algorithm]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              {/* Pixel Size */}
+              <div>
+                <div className="flex justify-between">
+                  <Label className="text-label">Pixel Size</Label>
+                  <span className="text-value">{filterSettings.dither.pixelSize}</span>
+                </div>
+                <Slider 
+                  value={[filterSettings.dither.pixelSize]} 
+                  onValueChange={(value) => updateDither({ pixelSize: value[0] })}
+                  min={1}
+                  max={16}
+                  step={1}
+                  className="mt-2"
+                />
+              </div>
+              
+              {/* Palette */}
+              <div className="mt-4">
+                <Label className="block text-label mb-2">Palette</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(DITHER_PALETTE_LABELS) as DitherPalette[]).map(palette => (
+                    <Button 
+                      key={palette}
+                      className={filterSettings.dither.palette === palette ? "bg-zinc-100/20 text-white font-medium" : "bg-gray-700 hover:bg-gray-600 text-white font-medium"}
+                      onClick={() => updateDither({ palette })}
+                    >
+                      {DITHER_PALETTE_LABELS[palette]}
+                    </Button>
+                  ))}
+                </div>
                 
-                {/* Second Layer Offset */}
-                <div>
-                  <div className="flex justify-between">
-                    <Label className="text-label text-sm">Offset</Label>
-                    <span className="text-value text-sm">{filterSettings.secondLayerOffset}</span>
+                {filterSettings.dither.palette === 'custom' && (
+                  <div className="mt-3 flex flex-wrap items-center gap-2">
+                    {filterSettings.dither.customPalette.map((color, index) => (
+                      <input 
+                        key={index}
+                        type="color"
+                        value={color}
+                        onChange={(e) => updateCustomPaletteColor(index, e.target.value)}
+                        className="h-7 w-7 rounded border-0 bg-transparent p-0 cursor-pointer"
+                        aria-label={`Palette color ${index + 1}`}
+                      />
+                    ))}
+                    {filterSettings.dither.customPalette.length > 2 && (
+                      <Button 
+                        className="h-7 w-7 p-0 bg-gray-700 hover:bg-gray-600"
+                        onClick={removeLastPaletteColor}
+                        aria-label="Remove palette color"
+                      >
+                        <Minus className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {filterSettings.dither.customPalette.length < MAX_CUSTOM_PALETTE_COLORS && (
+                      <Button 
+                        className="h-7 w-7 p-0 bg-gray-700 hover:bg-gray-600"
+                        onClick={addCustomPaletteColor}
+                        aria-label="Add palette color"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
-                  <Slider 
-                    value={[filterSettings.secondLayerOffset]} 
-                    onValueChange={handleSecondLayerOffsetChange}
-                    min={1}
-                    max={15}
-                    step={1}
-                    className="mt-1"
-                  />
-                </div>
+                )}
               </div>
-            )}
-          </div>
-          
-          {/* Filter Type */}
-          <div className="mt-4">
-            <Label className="block text-label mb-2">Filter Type</Label>
-            <div className="grid grid-cols-2 gap-2">
-              <Button 
-                className={filterSettings.isGrayscale ? "bg-zinc-100/20 text-white font-medium" : "bg-gray-700 hover:bg-gray-600 text-white font-medium"}
-                onClick={() => toggleFilterType(true)}
-              >
-                Grayscale
-              </Button>
-              <Button 
-                className={!filterSettings.isGrayscale ? "bg-zinc-100/20 text-white font-medium" : "bg-gray-700 hover:bg-gray-600 text-white font-medium"}
-                onClick={() => toggleFilterType(false)}
-              >
-                Color
-              </Button>
-            </div>
-          </div>
+            </>
+          )}
         </div>
       </div>
       
+      {/* Timeline Section */}
+      <TimelineEditor
+        timeline={timeline}
+        setTimeline={setTimeline}
+        filterSettings={filterSettings}
+      />
+      
+      {/* Audio Reactive Section */}
+      <AudioReactivePanel
+        audioReactive={audioReactive}
+        setAudioReactive={setAudioReactive}
+      />
+      
       {/* Export Options Section */}
       <div className="bg-app-dark-light rounded-xl shadow-lg overflow-hidden">
         <div className="p-4 border-b border-gray-800">
@@ -1,21 +1,45 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Button } from './ui/button';
-import { Camera, CameraOff, Download } from 'lucide-react';
-import type { FilterSettings } from '@/pages/Home';
+import { Camera, CameraOff, Crop, Download, ImagePlay, Maximize2, Mic, MicOff } from 'lucide-react';
+import type { CaptureSource, FilterSettings } from '@/pages/Home';
 import PaywallModal from './PaywallModal';
+import FramingDialog, { snapshotVideo, type FramingSource } from './FramingDialog';
+import OutputSizeDialog from './OutputSizeDialog';
 import { useAuth } from '@/lib/clerk-provider';
 import { apiRequest } from '@/lib/queryClient';
+import { drawFrameLayout, getFramedLayout, renderFilter, renderVideoFrame } from '@/utils/image-processing';
+import { captureCanvasFrames } from '@/utils/animation-export';
+import type { AnimationFrame } from '@/utils/animation-encoders';
+import { startMicrophoneAnalysis, type LiveAudioAnalysis } from '@/utils/audio-analysis';
+import {
+  applyAudioReactive,
+  createAudioFollower,
+  followAudio,
+  hasAudioMappings,
+  type AudioReactiveSettings,
+} from '@shared/audio-reactive';
+import { DEFAULT_FRAMING, framedSize, isDefaultFraming, type Framing } from '@shared/framing';
+import { DEFAULT_OUTPUT_SIZE, describeOutputSize, resolveOutputSize, type OutputSize } from '@shared/output-size';
 
 interface FilteredWebcamProps {
   onCameraActive: (active: boolean) => void;
-  onCaptureImage: (imageUrl: string) => void;
+  onCaptureImage: (imageUrl: string, source: CaptureSource) => void;
+  onCaptureBurst?: (frames: AnimationFrame[], source: CaptureSource) => void;
   filterSettings: FilterSettings;
+  audioReactive?: AudioReactiveSettings; // Driven by the microphone while the camera runs
 }
 
+// Burst captures: two seconds of the filtered view, sized for sharing
+const BURST_FPS = 12;
+const BURST_FRAMES = 24;
+const BURST_WIDTH = 480;
+
 export default function FilteredWebcam({ 
   onCameraActive, 
   onCaptureImage,
-  filterSettings 
+  onCaptureBurst,
+  filterSettings,
+  audioReactive
 }: FilteredWebcamProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -26,6 +50,17 @@ export default function FilteredWebcam({
   const [trialTimeRemaining, setTrialTimeRemaining] = useState(10); // 10 seconds free trial
   const [hasTrialEnded, setHasTrialEnded] = useState(false);
   const [hasPremiumAccess, setHasPremiumAccess] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isCapturingBurst, setIsCapturingBurst] = useState(false);
+  const [micStatus, setMicStatus] = useState<'off' | 'listening' | 'unavailable'>('off');
+  const [framing, setFraming] = useState<Framing>(DEFAULT_FRAMING);
+  const [framingSource, setFramingSource] = useState<FramingSource | null>(null);
+  const [outputSize, setOutputSize] = useState<OutputSize>(DEFAULT_OUTPUT_SIZE);
+  const [showOutputSize, setShowOutputSize] = useState(false);
+  // Settings of the frame on screen, audio reaction included, for captures to match
+  const frameSettingsRef = useRef<FilterSettings>(filterSettings);
+  const audioAnalysisRef = useRef<LiveAudioAnalysis | null>(null);
+  const isListening = isActive && hasAudioMappings(audioReactive);
   
   const { user } = useAuth();
   
@@ -115,47 +150,124 @@ export default function FilteredWebcam({
     }
   };
 
+  // Charge a capture; returns false when the paywall was shown instead
+  const consumeCaptureCredits = async (): Promise<boolean> => {
+    // Always try to consume credits, even for anonymous users
+    // The server will handle anonymous users in debug mode
+    try {
+      console.log("Attempting to consume credits for image capture");
+      const response = await apiRequest('POST', '/api/credits/consume', { amount: 30 });
+      
+      if (!response.ok) {
+        console.log("Credit consumption response not OK:", response.status);
+        const errorData = await response.json();
+        console.log("Credit consumption error:", errorData);
+        
+        if (response.status === 402) { // Insufficient credits
+          setShowPaywall(true);
+          return false;
+        }
+        
+        // For other errors, log but continue (the server should handle anonymous users)
+        console.warn(errorData.error || 'Non-critical credit consumption error');
+      } else {
+        console.log("Credit consumption successful");
+      }
+    } catch (error) {
+      console.error('Failed to consume credits:', error);
+      // Continue with capture even if credit consumption fails
+      // The server will handle anonymous users appropriately
+    }
+    return true;
+  };
+
+  // The camera's pixels behind the preview, or null before it's running
+  const getNativeSize = () => {
+    const video = videoRef.current;
+    if (!isActive || !video?.videoWidth || !video.videoHeight) return null;
+    return framedSize(framing, video.videoWidth, video.videoHeight);
+  };
+
+  // Where the video lands on a canvas in the framed shape; undefined fills it
+  const getFrameLayout = (video: HTMLVideoElement, canvas: HTMLCanvasElement) =>
+    isDefaultFraming(framing)
+      ? undefined
+      : getFramedLayout(framing, video.videoWidth, video.videoHeight, canvas.width, canvas.height);
+
   // Capture current frame
   const captureFrame = async () => {
     if (!canvasRef.current || !videoRef.current || !isActive) return;
     
+    setIsCapturing(true);
     try {
-      // Always try to consume credits, even for anonymous users
-      // The server will handle anonymous users in debug mode
-      try {
-        console.log("Attempting to consume credits for image capture");
-        const response = await apiRequest('POST', '/api/credits/consume', { amount: 30 });
-        
-        if (!response.ok) {
-          console.log("Credit consumption response not OK:", response.status);
-          const errorData = await response.json();
-          console.log("Credit consumption error:", errorData);
-          
-          if (response.status === 402) { // Insufficient credits
-            setShowPaywall(true);
-            return;
-          }
-          
-          // For other errors, log but continue (the server should handle anonymous users)
-          console.warn(errorData.error || 'Non-critical credit consumption error');
-        } else {
-          console.log("Credit consumption successful");
-        }
-      } catch (error) {
-        console.error('Failed to consume credits:', error);
-        // Continue with capture even if credit consumption fails
-        // The server will handle anonymous users appropriately
-      }
+      if (!(await consumeCaptureCredits())) return;
       
       // Get canvas context
       const canvas = canvasRef.current;
+      const video = videoRef.current;
       
-      // Capture the current processed frame
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
-      onCaptureImage(dataUrl);
+      // Re-render the current frame at the output size rather than copying the preview
+      const native = framedSize(framing, video.videoWidth, video.videoHeight);
+      const output = resolveOutputSize(outputSize, native, { width: canvas.width, height: canvas.height });
+      const rendered = await renderVideoFrame(
+        video,
+        frameSettingsRef.current,
+        output.width,
+        output.height,
+        output.width / native.width,
+        false,
+        framing
+      );
+      const dataUrl = rendered.toDataURL('image/jpeg', 0.9);
+      
+      // Also keep the unprocessed frame, at the camera's resolution the settings are measured against,
+      // so the capture can be exported as vectors
+      const sourceCanvas = document.createElement('canvas');
+      sourceCanvas.width = native.width;
+      sourceCanvas.height = native.height;
+      const sourceCtx = sourceCanvas.getContext('2d');
+      let sourceUrl: string | undefined;
+      if (sourceCtx) {
+        drawFrameLayout(sourceCtx, video, sourceCanvas.width, sourceCanvas.height, getFrameLayout(video, sourceCanvas));
+        sourceUrl = sourceCanvas.toDataURL('image/jpeg', 0.9);
+      }
+      
+      onCaptureImage(dataUrl, {
+        type: 'webcam',
+        width: native.width,
+        height: native.height,
+        url: sourceUrl,
+      });
     } catch (error) {
       console.error("Error capturing frame:", error);
       setError("Failed to capture image");
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  // Record a short burst of filtered frames for an animated GIF/APNG/WebP
+  const captureBurst = async () => {
+    if (!canvasRef.current || !isActive || !onCaptureBurst) return;
+    const canvas = canvasRef.current;
+    
+    setIsCapturingBurst(true);
+    try {
+      if (!(await consumeCaptureCredits())) return;
+      
+      const frames = await captureCanvasFrames(canvas, {
+        fps: BURST_FPS,
+        frameCount: BURST_FRAMES,
+        width: BURST_WIDTH,
+      });
+      // Frames come from the screen-sized preview; the source is the camera behind it
+      const native = getNativeSize() ?? { width: canvas.width, height: canvas.height };
+      onCaptureBurst(frames, { type: 'webcam', ...native });
+    } catch (error) {
+      console.error("Error capturing burst:", error);
+      setError("Failed to capture animation");
+    } finally {
+      setIsCapturingBurst(false);
     }
   };
   
@@ -207,6 +319,36 @@ export default function FilteredWebcam({
     }
   };
   
+  // Open the microphone only while the camera runs and something is mapped to it
+  useEffect(() => {
+    if (!isListening) {
+      setMicStatus('off');
+      return;
+    }
+    
+    let cancelled = false;
+    startMicrophoneAnalysis()
+      .then(analysis => {
+        if (cancelled) {
+          analysis.stop();
+          return;
+        }
+        audioAnalysisRef.current = analysis;
+        setMicStatus('listening');
+      })
+      .catch(micError => {
+        // The camera keeps working without the audio reaction
+        console.error("Microphone access error:", micError);
+        if (!cancelled) setMicStatus('unavailable');
+      });
+    
+    return () => {
+      cancelled = true;
+      audioAnalysisRef.current?.stop();
+      audioAnalysisRef.current = null;
+    };
+  }, [isListening]);
+  
   // Handle animation frame updates to process video with filter
   useEffect(() => {
     if (!isActive || !videoRef.current || !canvasRef.current) {
@@ -216,13 +358,15 @@ export default function FilteredWebcam({
     let animationId: number;
     const video = videoRef.current;
     const canvas = canvasRef.current;
+    const audioFollower = createAudioFollower();
+    let lastFrameTime = performance.now();
     
-    // Create a manual drawing function that applies a simplified dot matrix effect
-    // This approach bypasses the complex _processFrameCore function that might have issues
+    // Drawing loop that feeds each frame through the shared halftone kernel
+    // This bypasses the container sizing in _processFrameCore
     const drawDotMatrix = () => {
       if (video.readyState < 2 || !video.videoWidth || !video.videoHeight) {
         // Video not ready, draw loading message
-        const ctx = canvas.getContext('2d');
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
         if (ctx) {
           ctx.fillStyle = 'black';
           ctx.fillRect(0, 0, canvas.width, canvas.height);
@@ -236,106 +380,45 @@ export default function FilteredWebcam({
         return;
       }
       
-      // Ensure canvas has correct dimensions
-      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
+      // Ensure canvas has correct dimensions: the camera's, cropped by the framing,
+      // shrunk to what the element shows on screen; captures are rendered separately
+      const native = framedSize(framing, video.videoWidth, video.videoHeight);
+      const pixelRatio = window.devicePixelRatio || 1;
+      const fit = Math.min(
+        1,
+        (canvas.clientWidth * pixelRatio) / native.width || 1,
+        (canvas.clientHeight * pixelRatio) / native.height || 1
+      );
+      const width = Math.max(1, Math.round(native.width * fit));
+      const height = Math.max(1, Math.round(native.height * fit));
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
       }
       
-      const ctx = canvas.getContext('2d');
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
       if (!ctx) {
         animationId = requestAnimationFrame(drawDotMatrix);
         return;
       }
       
-      // Clear canvas
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      // First draw video onto a temporary canvas for sampling
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = video.videoWidth;
-      tempCanvas.height = video.videoHeight;
-      const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-      
-      if (!tempCtx) {
-        animationId = requestAnimationFrame(drawDotMatrix);
-        return;
-      }
-      
-      // Draw video to temp canvas
-      tempCtx.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
+      // Draw the framed raw frame, then apply the effect straight from its pixel buffer
+      drawFrameLayout(ctx, video, canvas.width, canvas.height, getFrameLayout(video, canvas));
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
       
-      // Extract settings
-      const { dotSize, contrast, brightness, isGrayscale, dotShape } = filterSettings;
-      const gridSize = Math.max(2, Math.min(20, Math.floor(dotSize)));
-      
-      // Apply dot matrix effect
-      ctx.fillStyle = 'white';
-      
-      // Calculate grid boundaries
-      const maxGridX = Math.floor(canvas.width / gridSize);
-      const maxGridY = Math.floor(canvas.height / gridSize);
-      
-      // Draw dots
-      for (let yi = 0; yi < maxGridY; yi++) {
-        for (let xi = 0; xi < maxGridX; xi++) {
-          // Sample point
-          const x = xi * gridSize;
-          const y = yi * gridSize;
-          
-          // Get pixel data
-          const data = tempCtx.getImageData(x, y, 1, 1).data;
-          
-          // Apply brightness and contrast
-          let r = Math.min(255, Math.max(0, data[0] * brightness));
-          let g = Math.min(255, Math.max(0, data[1] * brightness));
-          let b = Math.min(255, Math.max(0, data[2] * brightness));
-          
-          // Apply grayscale if enabled
-          let brightnessValue;
-          if (isGrayscale) {
-            const gray = Math.min(255, Math.max(0, (r + g + b) / 3));
-            brightnessValue = gray;
-          } else {
-            brightnessValue = (r + g + b) / 3;
-          }
-          
-          // Calculate dot size based on brightness
-          const maxRadius = Math.max(1, (gridSize / 2) * 0.8);
-          const radius = Math.max(0.5, (brightnessValue / 255) * maxRadius);
-          
-          // Draw dot if bright enough (skip really dark areas for better contrast)
-          if (brightnessValue > 30) {
-            const centerX = x + gridSize / 2;
-            const centerY = y + gridSize / 2;
-            
-            ctx.beginPath();
-            
-            // Draw appropriate shape
-            switch (dotShape) {
-              case 'square':
-                const size = radius * 1.8;
-                ctx.rect(centerX - size/2, centerY - size/2, size, size);
-                break;
-                
-              case 'cross':
-                const thickness = radius * 0.6;
-                const length = radius * 1.8;
-                ctx.rect(centerX - length/2, centerY - thickness/2, length, thickness);
-                ctx.rect(centerX - thickness/2, centerY - length/2, thickness, length);
-                break;
-                
-              case 'circle':
-              default:
-                ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-                break;
-            }
-            
-            ctx.fill();
-          }
-        }
+      // Step the audio follower by real time, since frames don't arrive at a fixed rate
+      const now = performance.now();
+      const analysis = audioAnalysisRef.current;
+      let frameSettings = filterSettings;
+      if (analysis && hasAudioMappings(audioReactive)) {
+        const bands = analysis.read(audioReactive.sensitivity);
+        const levels = followAudio(audioFollower, bands, (now - lastFrameTime) / 1000, audioReactive);
+        frameSettings = applyAudioReactive(filterSettings, audioReactive, levels);
       }
+      lastFrameTime = now;
+      frameSettingsRef.current = frameSettings;
+      // Same look as the camera's own pixels, at screen size
+      renderFilter(ctx, imageData, frameSettings, width / native.width);
       
       // Continue animation loop
       animationId = requestAnimationFrame(drawDotMatrix);
@@ -348,7 +431,7 @@ export default function FilteredWebcam({
     return () => {
       cancelAnimationFrame(animationId);
     };
-  }, [isActive, filterSettings]);
+  }, [isActive, filterSettings, audioReactive, framing]);
   
   // Clean up on unmount
   useEffect(() => {
@@ -383,6 +466,14 @@ export default function FilteredWebcam({
           </div>
         )}
         
+        {/* Microphone status for audio-reactive settings */}
+        {micStatus !== 'off' && (
+          <div className="absolute top-2 left-2 bg-black/70 text-white px-3 py-1 rounded-full text-sm font-medium flex items-center gap-1">
+            {micStatus === 'listening' ? <Mic size={14} /> : <MicOff size={14} />}
+            {micStatus === 'listening' ? 'Listening' : 'Microphone unavailable'}
+          </div>
+        )}
+        
         {error && (
           <div className="absolute inset-0 flex items-center justify-center bg-zinc-800/70">
             <p className="text-white text-center p-4">{error}</p>
@@ -443,12 +534,46 @@ export default function FilteredWebcam({
             onClick={captureFrame}
             variant="secondary"
             className="flex items-center gap-2"
-            disabled={hasTrialEnded && !hasPremiumAccess}
+            disabled={isCapturing || (hasTrialEnded && !hasPremiumAccess)}
           >
             <Download size={16} />
-            Capture
+            {isCapturing ? 'Rendering...' : 'Capture'}
           </Button>
         )}
+        
+        {isActive && onCaptureBurst && (
+          <Button 
+            onClick={captureBurst}
+            variant="secondary"
+            className="flex items-center gap-2"
+            disabled={isCapturingBurst || (hasTrialEnded && !hasPremiumAccess)}
+          >
+            <ImagePlay size={16} />
+            {isCapturingBurst ? 'Recording...' : 'Burst'}
+          </Button>
+        )}
+        
+        {isActive && (
+          <Button 
+            onClick={() => videoRef.current && setFramingSource(snapshotVideo(videoRef.current))}
+            variant="secondary"
+            className="flex items-center gap-2"
+            disabled={isCapturingBurst}
+          >
+            <Crop size={16} />
+            Frame
+          </Button>
+        )}
+        
+        <Button 
+          onClick={() => setShowOutputSize(true)}
+          variant="secondary"
+          className="flex items-center gap-2"
+          title="Output size"
+        >
+          <Maximize2 size={16} />
+          {describeOutputSize(outputSize)}
+        </Button>
       </div>
       
       {/* Paywall Modal */}
@@ -458,6 +583,25 @@ export default function FilteredWebcam({
         reason={hasTrialEnded ? "trial-ended" : "insufficient-credits"}
         onPurchaseCredits={handlePurchaseCredits}
       />
+      
+      {framingSource && (
+        <FramingDialog
+          source={framingSource}
+          framing={framing}
+          onApply={setFraming}
+          onClose={() => setFramingSource(null)}
+        />
+      )}
+      
+      {showOutputSize && (
+        <OutputSizeDialog
+          size={outputSize}
+          native={getNativeSize()}
+          screen={canvasRef.current && isActive ? { width: canvasRef.current.width, height: canvasRef.current.height } : null}
+          onApply={setOutputSize}
+          onClose={() => setShowOutputSize(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
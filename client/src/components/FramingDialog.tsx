@@ -0,0 +1,272 @@
+import { useEffect, useRef, useState } from 'react';
+import { FlipHorizontal, FlipVertical, RotateCcw, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { drawFrameLayout, getFramedLayout } from '@/utils/image-processing';
+import {
+  ASPECT_PRESETS,
+  DEFAULT_FRAMING,
+  aspectRatio,
+  orientedSize,
+  resolveCrop,
+  rotateFraming,
+  type AspectPresetId,
+  type FrameRect,
+  type Framing,
+} from '@shared/framing';
+
+/**
+ * A still of what's being framed, e.g. the current camera frame
+ */
+export type FramingSource = {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+};
+
+interface FramingDialogProps {
+  source: FramingSource;
+  framing: Framing;
+  onApply: (framing: Framing) => void;
+  onClose: () => void;
+}
+
+// Largest the preview is drawn, in CSS pixels
+const PREVIEW_WIDTH = 560;
+const PREVIEW_HEIGHT = 380;
+
+// Smallest crop box, as a share of the frame
+const MIN_CROP = 0.05;
+
+type DragHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+type Drag = {
+  handle: DragHandle;
+  pointerX: number;
+  pointerY: number;
+  crop: FrameRect; // Where the box was when the drag started
+};
+
+/**
+ * Still of a camera's current frame, for framing it
+ */
+export function snapshotVideo(video: HTMLVideoElement): FramingSource | null {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')?.drawImage(video, 0, 0);
+  return { image: canvas, width: canvas.width, height: canvas.height };
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Crop, turn and flip a source, with a fixed aspect when one is chosen
+ * The crop box is dragged over the turned and flipped source; its corners
+ * resize it, keeping the aspect.
+ */
+export default function FramingDialog({ source, framing, onApply, onClose }: FramingDialogProps) {
+  const [draft, setDraft] = useState<Framing>(framing);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const oriented = orientedSize(source.width, source.height, draft.rotation);
+  const scale = Math.min(PREVIEW_WIDTH / oriented.width, PREVIEW_HEIGHT / oriented.height, 1);
+  const previewWidth = Math.max(1, Math.round(oriented.width * scale));
+  const previewHeight = Math.max(1, Math.round(oriented.height * scale));
+
+  // The box as a share of the turned frame
+  const cropPixels = resolveCrop(draft, source.width, source.height);
+  const crop: FrameRect = {
+    x: cropPixels.x / oriented.width,
+    y: cropPixels.y / oriented.height,
+    width: cropPixels.width / oriented.width,
+    height: cropPixels.height / oriented.height,
+  };
+
+  // The whole turned and flipped source, with the crop shown on top
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const uncropped: Framing = { ...draft, aspect: 'free', crop: null };
+    drawFrameLayout(ctx, source.image, canvas.width, canvas.height,
+      getFramedLayout(uncropped, source.width, source.height, canvas.width, canvas.height));
+  }, [source, draft.rotation, draft.flipH, draft.flipV, previewWidth, previewHeight]);
+
+  const startDrag = (handle: DragHandle) => (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { handle, pointerX: event.clientX, pointerY: event.clientY, crop };
+  };
+
+  const updateDrag = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (event.clientX - drag.pointerX) / previewWidth;
+    const dy = (event.clientY - drag.pointerY) / previewHeight;
+    const start = drag.crop;
+
+    if (drag.handle === 'move') {
+      setDraft({
+        ...draft,
+        crop: {
+          ...start,
+          x: clamp(start.x + dx, 0, 1 - start.width),
+          y: clamp(start.y + dy, 0, 1 - start.height),
+        },
+      });
+      return;
+    }
+
+    // The opposite corner stays put
+    const west = drag.handle === 'nw' || drag.handle === 'sw';
+    const north = drag.handle === 'nw' || drag.handle === 'ne';
+    const anchorX = west ? start.x + start.width : start.x;
+    const anchorY = north ? start.y + start.height : start.y;
+    const maxWidth = west ? anchorX : 1 - anchorX;
+    const maxHeight = north ? anchorY : 1 - anchorY;
+
+    let width = clamp(start.width + (west ? -dx : dx), MIN_CROP, maxWidth);
+    let height = clamp(start.height + (north ? -dy : dy), MIN_CROP, maxHeight);
+
+    // A fixed aspect follows the width, shrinking both to stay in the frame
+    const ratio = aspectRatio(draft.aspect, oriented.width, oriented.height);
+    if (ratio) {
+      const shareRatio = (ratio * oriented.height) / oriented.width;
+      height = width / shareRatio;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = height * shareRatio;
+      }
+    }
+
+    setDraft({
+      ...draft,
+      crop: {
+        x: west ? anchorX - width : anchorX,
+        y: north ? anchorY - height : anchorY,
+        width,
+        height,
+      },
+    });
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handles: { handle: DragHandle; className: string }[] = [
+    { handle: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+    { handle: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+    { handle: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+    { handle: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+  ];
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Framing</DialogTitle>
+          <DialogDescription>
+            Crop, turn and flip before the filter runs. The preview, captures and recordings all use this framing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center bg-black rounded-md p-2">
+          <div className="relative overflow-hidden" style={{ width: previewWidth, height: previewHeight }}>
+            <canvas ref={canvasRef} width={previewWidth} height={previewHeight} className="block" />
+            <div
+              className="absolute border-2 border-white cursor-move touch-none"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+                // Dims everything outside the box
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+              }}
+              onPointerDown={startDrag('move')}
+              onPointerMove={updateDrag}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+            >
+              {handles.map(({ handle, className }) => (
+                <div
+                  key={handle}
+                  className={`absolute h-3 w-3 bg-white rounded-sm touch-none ${className}`}
+                  onPointerDown={startDrag(handle)}
+                  onPointerMove={updateDrag}
+                  onPointerUp={endDrag}
+                  onPointerCancel={endDrag}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label>Aspect</Label>
+            <Select
+              value={draft.aspect}
+              onValueChange={(aspect) => setDraft({ ...draft, aspect: aspect as AspectPresetId, crop: null })}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ASPECT_PRESETS.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-1">
+            <Button variant="outline" size="icon" title="Turn left" onClick={() => setDraft(rotateFraming(draft, false))}>
+              <RotateCcw size={16} />
+            </Button>
+            <Button variant="outline" size="icon" title="Turn right" onClick={() => setDraft(rotateFraming(draft, true))}>
+              <RotateCw size={16} />
+            </Button>
+            <Button
+              variant={draft.flipH ? 'secondary' : 'outline'}
+              size="icon"
+              title="Flip horizontally"
+              onClick={() => setDraft({ ...draft, flipH: !draft.flipH })}
+            >
+              <FlipHorizontal size={16} />
+            </Button>
+            <Button
+              variant={draft.flipV ? 'secondary' : 'outline'}
+              size="icon"
+              title="Flip vertically"
+              onClick={() => setDraft({ ...draft, flipV: !draft.flipV })}
+            >
+              <FlipVertical size={16} />
+            </Button>
+          </div>
+          <Button variant="ghost" className="ml-auto" onClick={() => setDraft(DEFAULT_FRAMING)}>
+            Reset
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => {
+              onApply(draft);
+              onClose();
+            }}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,376 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Download, FolderPlus, Pencil, Search, Share2, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ShareDialog from '@/components/ShareDialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { downloadFromServer } from '@/utils/file-utils';
+import { BUILT_IN_PRESETS } from '@shared/presets';
+import { listShapes } from '@shared/shapes';
+import type { MediaSort } from '@shared/gallery';
+
+/**
+ * An album as returned by /api/albums
+ */
+export type AlbumItem = {
+  id: number;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type SavedPreset = {
+  id: number;
+  name: string;
+};
+
+// Select value meaning "don't filter on this"
+export const ANY = 'any';
+
+/**
+ * What the gallery is narrowed down to; dates are yyyy-mm-dd in local time
+ */
+export type GalleryFilterState = {
+  album: string; // ANY, 'none' or an album ID
+  tag: string;
+  search: string;
+  from: string;
+  to: string;
+  sort: MediaSort;
+  preset: string; // A built-in preset ID or 'saved-<id>'
+  shape: string;
+};
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilterState = {
+  album: ANY,
+  tag: ANY,
+  search: '',
+  from: '',
+  to: '',
+  sort: 'newest',
+  preset: ANY,
+  shape: ANY,
+};
+
+const SORT_LABELS: Record<MediaSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  largest: 'Largest first',
+  smallest: 'Smallest first',
+};
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Query string for GET /api/media; the date range covers whole local days
+ */
+export function toMediaQueryParams(filters: GalleryFilterState, mediaType: 'image' | 'video' | null): URLSearchParams {
+  const params = new URLSearchParams();
+  if (mediaType) params.set('type', mediaType);
+  if (filters.album !== ANY) params.set('album', filters.album);
+  if (filters.tag !== ANY) params.set('tag', filters.tag);
+  if (filters.search.trim()) params.set('q', filters.search.trim());
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.sort !== 'newest') params.set('sort', filters.sort);
+  if (filters.preset !== ANY) params.set('preset', filters.preset);
+  if (filters.shape !== ANY) params.set('shape', filters.shape);
+  return params;
+}
+
+interface GalleryFiltersProps {
+  filters: GalleryFilterState;
+  onChange: (filters: GalleryFilterState) => void;
+  albums: AlbumItem[];
+}
+
+export default function GalleryFilters({ filters, onChange, albums }: GalleryFiltersProps) {
+  const { toast } = useToast();
+  const [search, setSearch] = useState(filters.search);
+  // null when closed; an album when renaming it, 'new' when creating one
+  const [editingAlbum, setEditingAlbum] = useState<AlbumItem | 'new' | null>(null);
+  const [sharingAlbum, setSharingAlbum] = useState<AlbumItem | null>(null);
+
+  const { data: tags = [] } = useQuery<string[]>({
+    queryKey: ['/api/tags'],
+  });
+
+  const { data: savedPresets } = useQuery<SavedPreset[] | null>({
+    queryKey: ['/api/presets'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  useEffect(() => {
+    if (search === filters.search) return;
+    const timer = setTimeout(() => onChange({ ...filters, search }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search, filters, onChange]);
+
+  const update = (changes: Partial<GalleryFilterState>) => onChange({ ...filters, ...changes });
+
+  const selectedAlbum = albums.find(album => String(album.id) === filters.album);
+  const isFiltered = JSON.stringify({ ...filters, sort: 'newest' }) !== JSON.stringify(DEFAULT_GALLERY_FILTERS);
+
+  const deleteAlbumMutation = useMutation({
+    mutationFn: async (album: AlbumItem) => {
+      await apiRequest('DELETE', `/api/albums/${album.id}`);
+      return album;
+    },
+    onSuccess: (album) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/albums'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+      update({ album: ANY });
+      toast({
+        title: 'Album deleted',
+        description: `"${album.name}" is gone; its items are still in your gallery.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute w-4 h-4 -translate-y-1/2 left-3 top-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search tags and albums"
+            maxLength={100}
+            className="pl-9"
+          />
+        </div>
+
+        <div className="flex items-end gap-1">
+          <div>
+            <Label className="block mb-1 text-xs text-muted-foreground">Album</Label>
+            <Select value={filters.album} onValueChange={(album) => update({ album })}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All albums</SelectItem>
+                <SelectItem value="none">Not in an album</SelectItem>
+                {albums.map(album => (
+                  <SelectItem key={album.id} value={String(album.id)}>{album.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="ghost" size="icon" title="New album" onClick={() => setEditingAlbum('new')}>
+            <FolderPlus className="w-4 h-4" />
+          </Button>
+          {filters.album !== ANY && (
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Download album as ZIP"
+              onClick={() => downloadFromServer(`/api/media/export?album=${filters.album}`)}
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          )}
+          {selectedAlbum && (
+            <>
+              <Button variant="ghost" size="icon" title="Share album" onClick={() => setSharingAlbum(selectedAlbum)}>
+                <Share2 className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" title="Rename album" onClick={() => setEditingAlbum(selectedAlbum)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete album (keeps its items)"
+                onClick={() => deleteAlbumMutation.mutate(selectedAlbum)}
+                disabled={deleteAlbumMutation.isPending}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+        </div>
+
+        <div>
+          <Label className="block mb-1 text-xs text-muted-foreground">Sort</Label>
+          <Select value={filters.sort} onValueChange={(sort) => update({ sort: sort as MediaSort })}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_LABELS) as MediaSort[]).map(sort => (
+                <SelectItem key={sort} value={sort}>{SORT_LABELS[sort]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <Label className="block mb-1 text-xs text-muted-foreground">Tag</Label>
+          <Select value={filters.tag} onValueChange={(tag) => update({ tag })}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any tag</SelectItem>
+              {tags.map(tag => (
+                <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label className="block mb-1 text-xs text-muted-foreground">Preset</Label>
+          <Select value={filters.preset} onValueChange={(preset) => update({ preset })}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any preset</SelectItem>
+              {BUILT_IN_PRESETS.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+              ))}
+              {(savedPresets ?? []).map(preset => (
+                <SelectItem key={preset.id} value={`saved-${preset.id}`}>{preset.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label className="block mb-1 text-xs text-muted-foreground">Dot shape</Label>
+          <Select value={filters.shape} onValueChange={(shape) => update({ shape })}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any shape</SelectItem>
+              {listShapes().map(shape => (
+                <SelectItem key={shape.name} value={shape.name}>{shape.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label className="block mb-1 text-xs text-muted-foreground">From</Label>
+          <Input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(event) => update({ from: event.target.value })}
+            className="w-40"
+          />
+        </div>
+
+        <div>
+          <Label className="block mb-1 text-xs text-muted-foreground">To</Label>
+          <Input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(event) => update({ to: event.target.value })}
+            className="w-40"
+          />
+        </div>
+
+        {isFiltered && (
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setSearch('');
+              onChange({ ...DEFAULT_GALLERY_FILTERS, sort: filters.sort });
+            }}
+          >
+            <X className="w-4 h-4 mr-2" />
+            Clear Filters
+          </Button>
+        )}
+      </div>
+
+      {sharingAlbum && (
+        <ShareDialog
+          target={{ albumId: sharingAlbum.id }}
+          title={`"${sharingAlbum.name}"`}
+          onClose={() => setSharingAlbum(null)}
+        />
+      )}
+
+      {editingAlbum && (
+        <AlbumNameDialog
+          album={editingAlbum === 'new' ? null : editingAlbum}
+          onClose={() => setEditingAlbum(null)}
+          onSaved={(album) => {
+            setEditingAlbum(null);
+            update({ album: String(album.id) });
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface AlbumNameDialogProps {
+  album: AlbumItem | null; // null creates a new album
+  onClose: () => void;
+  onSaved: (album: AlbumItem) => void;
+}
+
+/**
+ * Name a new album or rename an existing one
+ */
+export function AlbumNameDialog({ album, onClose, onSaved }: AlbumNameDialogProps) {
+  const [name, setName] = useState(album?.name ?? '');
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = album
+        ? await apiRequest('PATCH', `/api/albums/${album.id}`, { name })
+        : await apiRequest('POST', '/api/albums', { name });
+      return await res.json();
+    },
+    onSuccess: (saved: AlbumItem) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/albums'] });
+      onSaved(saved);
+    },
+  });
+
+  const canSave = name.trim().length > 0 && !saveMutation.isPending;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{album ? 'Rename Album' : 'New Album'}</DialogTitle>
+        </DialogHeader>
+        <Input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => event.key === 'Enter' && canSave && saveMutation.mutate()}
+          placeholder="Album name"
+          maxLength={60}
+          autoFocus
+        />
+        {saveMutation.error && <p className="text-sm text-destructive">{saveMutation.error.message}</p>}
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave}>
+            {album ? 'Rename' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,58 +1,134 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from './ui/button';
-import { Upload, Image as ImageIcon, Download, X } from 'lucide-react';
-import type { FilterSettings } from '@/pages/Home';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+import { Upload, Image as ImageIcon, Download, X, FileCode, FolderOpen, Crop } from 'lucide-react';
+import type { CaptureSource, FilterSettings } from '@/pages/Home';
+import { renderFilter, renderFramedImage } from '@/utils/image-processing';
+import { downloadAsSvg } from '@/utils/file-utils';
+import { supportsSvgExport } from '@shared/halftone-svg';
 import { apiRequest } from '@/lib/queryClient';
 import { useAuth } from '@/lib/clerk-provider';
 import PaywallModal from './PaywallModal';
+import BatchQueue from './BatchQueue';
+import FramingDialog, { type FramingSource } from './FramingDialog';
+import { useToast } from '@/hooks/use-toast';
+import { isImageFile, readDroppedImages } from '@/utils/batch-processing';
+import { UPLOAD_ACCEPT, decodeImageFile } from '@/utils/image-decoding';
+import { format } from 'date-fns';
+import { MAX_BATCH_ITEMS } from '@shared/batch';
+import { DEFAULT_FRAMING, isDefaultFraming, type Framing } from '@shared/framing';
 
 interface ImageUploaderProps {
-  onImageFiltered: (imageUrl: string) => void;
+  onImageFiltered: (imageUrl: string, source: CaptureSource) => void;
   filterSettings: FilterSettings;
+  initialImage?: string | null; // Loaded in place of an upload, e.g. to re-edit a gallery item
 }
 
 export default function ImageUploader({ 
   onImageFiltered,
-  filterSettings 
+  filterSettings,
+  initialImage
 }: ImageUploaderProps) {
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [filteredImage, setFilteredImage] = useState<string | null>(null);
+  const [appliedSettings, setAppliedSettings] = useState<FilterSettings | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
   const [showPaywall, setShowPaywall] = useState(false);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // The uploaded file, for switching between the pages of a TIFF or HEIF
+  const [sourceFile, setSourceFile] = useState<{ file: File; page: number; pageCount: number } | null>(null);
+  const [takenAt, setTakenAt] = useState<Date | null>(null);
+  const [keepTakenAt, setKeepTakenAt] = useState(false);
+  const [framing, setFraming] = useState<Framing>(DEFAULT_FRAMING);
+  const [framingSource, setFramingSource] = useState<FramingSource | null>(null);
+  // The original as framed; null when the framing leaves it as it is
+  const [framedImage, setFramedImage] = useState<{ url: string; width: number; height: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   const { user } = useAuth();
+  const { toast } = useToast();
 
-  // Handle file selection
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) {
-      setError('No file selected');
+  // One image opens in the editor; several go to the batch queue
+  const openFiles = (files: File[]) => {
+    const images = files.filter(isImageFile);
+    if (images.length === 0) {
+      setError(files.length > 0 ? 'Please select an image file' : 'No file selected');
+      return;
+    }
+
+    if (images.length === 1) {
+      openImageFile(images[0], 0);
       return;
     }
 
+    if (images.length > MAX_BATCH_ITEMS) {
+      toast({
+        title: 'Batch trimmed',
+        description: `Batches are limited to ${MAX_BATCH_ITEMS} images; the first ${MAX_BATCH_ITEMS} were added.`,
+      });
+    }
+    setError(null);
+    setBatchFiles(images.slice(0, MAX_BATCH_ITEMS));
+  };
+
+  // Handle file and folder selection
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    openFiles(Array.from(event.target.files ?? []));
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isProcessing || batchFiles) return;
+
+    try {
+      openFiles(await readDroppedImages(event.dataTransfer));
+    } catch (dropError) {
+      console.error('Error reading dropped files:', dropError);
+      setError('Could not read the dropped files');
+    }
+  };
+
+  // Formats the browser can't draw, and sideways photos, are decoded first
+  const openImageFile = async (file: File, page: number) => {
     // Reset states
     setError(null);
     setFilteredImage(null);
     setIsProcessing(true);
     setProgress(0);
 
-    // Check if the file is an image
-    if (!file.type.startsWith('image/')) {
-      setError('Please select an image file');
+    try {
+      const decoded = await decodeImageFile(file, page);
+      if (originalImage) URL.revokeObjectURL(originalImage);
+      setSourceFile({ file, page, pageCount: decoded.pageCount });
+      setTakenAt(decoded.takenAt);
+      setFraming(DEFAULT_FRAMING);
+      loadOriginalImage(URL.createObjectURL(decoded.blob));
+    } catch (decodeError) {
+      console.error('Error decoding image:', decodeError);
+      setError(decodeError instanceof Error ? decodeError.message : 'Failed to load image');
       setIsProcessing(false);
-      return;
     }
+  };
+
+  const closeBatch = () => {
+    setBatchFiles(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (folderInputRef.current) folderInputRef.current.value = '';
+  };
 
-    // Create object URL for the image file
-    const imageUrl = URL.createObjectURL(file);
+  // Load the image to get dimensions and prepare for processing
+  const loadOriginalImage = (imageUrl: string) => {
     setOriginalImage(imageUrl);
 
-    // Load the image to get dimensions and prepare for processing
     const img = new Image();
     img.onload = () => {
       // Store original image dimensions for maintaining aspect ratio
@@ -72,9 +148,79 @@ export default function ImageUploader({
     img.src = imageUrl;
   };
 
+  // What the filter runs on: the original, cropped, turned and flipped
+  const workingImage = framedImage ?? (originalImage ? { url: originalImage, ...imageDimensions } : null);
+
+  useEffect(() => {
+    if (!originalImage || isDefaultFraming(framing)) {
+      setFramedImage(null);
+      return;
+    }
+    let cancelled = false;
+
+    setIsProcessing(true);
+    renderFramedImage(originalImage, framing)
+      .then(framed => {
+        if (!cancelled) setFramedImage(framed);
+      })
+      .catch(framingError => {
+        console.error('Error framing image:', framingError);
+        if (!cancelled) setError('Failed to frame image');
+      })
+      .finally(() => {
+        if (!cancelled) setIsProcessing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [originalImage, framing]);
+
+  const openFraming = () => {
+    if (!originalImage) return;
+    const img = new Image();
+    img.onload = () => setFramingSource({ image: img, width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => setError('Failed to load image');
+    img.src = originalImage;
+  };
+
+  // Stored originals may live on another origin, so they're copied locally before
+  // being drawn; a cross-origin image would taint the canvas
+  useEffect(() => {
+    if (!initialImage) return;
+    let cancelled = false;
+
+    setError(null);
+    setFilteredImage(null);
+    setSourceFile(null);
+    setTakenAt(null);
+    setFraming(DEFAULT_FRAMING);
+    setIsProcessing(true);
+    setProgress(0);
+    fetch(initialImage)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch image: ${response.status}`);
+        return response.blob();
+      })
+      .then(blob => {
+        if (!cancelled) loadOriginalImage(URL.createObjectURL(blob));
+      })
+      .catch(fetchError => {
+        console.error('Error loading image:', fetchError);
+        if (!cancelled) {
+          setError('Failed to load image');
+          setIsProcessing(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initialImage]);
+
   // Apply filter to the loaded image
   const applyFilter = async () => {
-    if (!originalImage || !canvasRef.current) {
+    if (!workingImage || !canvasRef.current) {
       setError('No image loaded or canvas not available');
       return;
     }
@@ -142,10 +288,10 @@ export default function ImageUploader({
         return;
       }
 
-      // Set canvas dimensions to match original image
+      // Set canvas dimensions to match the framed image
       // This ensures we maintain the aspect ratio
-      canvas.width = imageDimensions.width;
-      canvas.height = imageDimensions.height;
+      canvas.width = workingImage.width;
+      canvas.height = workingImage.height;
 
       setProgress(30); // Update progress
 
@@ -158,7 +304,7 @@ export default function ImageUploader({
       }
 
       // Draw image to canvas while maintaining aspect ratio
-      ctx.drawImage(img, 0, 0, imageDimensions.width, imageDimensions.height);
+      ctx.drawImage(img, 0, 0, workingImage.width, workingImage.height);
       setProgress(50); // Update progress
 
       // Start processing with a small delay to allow UI to update
@@ -170,7 +316,14 @@ export default function ImageUploader({
         // Get the filtered image URL
         const filteredUrl = canvas.toDataURL('image/jpeg', 0.9);
         setFilteredImage(filteredUrl);
-        onImageFiltered(filteredUrl);
+        setAppliedSettings(filterSettings);
+        onImageFiltered(filteredUrl, {
+          type: 'uploaded-image',
+          width: workingImage.width,
+          height: workingImage.height,
+          url: workingImage.url,
+          takenAt: keepTakenAt && takenAt ? takenAt.toISOString() : undefined,
+        });
         setProgress(100); // Complete progress
         setIsProcessing(false);
       }, 100);
@@ -182,7 +335,7 @@ export default function ImageUploader({
       setProgress(0);
     };
 
-    img.src = originalImage;
+    img.src = workingImage.url;
   };
 
   // Clear the current image
@@ -192,6 +345,9 @@ export default function ImageUploader({
     setError(null);
     setProgress(0);
     setImageDimensions({ width: 0, height: 0 });
+    setSourceFile(null);
+    setTakenAt(null);
+    setFraming(DEFAULT_FRAMING);
     
     // Reset file input
     if (fileInputRef.current) {
@@ -199,96 +355,13 @@ export default function ImageUploader({
     }
   };
 
-  // Function to apply the dot matrix filter
+  // Function to apply the dot matrix filter with the shared halftone renderer
   const applyDotMatrixFilter = (canvas: HTMLCanvasElement, filterSettings: FilterSettings) => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // First draw image onto a temporary canvas for sampling
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = canvas.width;
-    tempCanvas.height = canvas.height;
-    const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-    
-    if (!tempCtx) return;
-    
-    // Copy image data to temp canvas
-    tempCtx.drawImage(canvas, 0, 0);
-    
-    // Extract settings
-    const { dotSize, contrast, brightness, isGrayscale, dotShape } = filterSettings;
-    const gridSize = Math.max(2, Math.min(20, Math.floor(dotSize)));
-    
-    // Clear the main canvas 
-    ctx.fillStyle = 'black';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Apply dot matrix effect
-    ctx.fillStyle = 'white';
-    
-    // Calculate grid boundaries
-    const maxGridX = Math.floor(canvas.width / gridSize);
-    const maxGridY = Math.floor(canvas.height / gridSize);
-    
-    // Draw dots
-    for (let yi = 0; yi < maxGridY; yi++) {
-      for (let xi = 0; xi < maxGridX; xi++) {
-        // Sample point
-        const x = xi * gridSize;
-        const y = yi * gridSize;
-        
-        // Get pixel data
-        const data = tempCtx.getImageData(x, y, 1, 1).data;
-        
-        // Apply brightness and contrast
-        let r = Math.min(255, Math.max(0, data[0] * brightness));
-        let g = Math.min(255, Math.max(0, data[1] * brightness));
-        let b = Math.min(255, Math.max(0, data[2] * brightness));
-        
-        // Apply grayscale if enabled
-        let brightnessValue;
-        if (isGrayscale) {
-          const gray = Math.min(255, Math.max(0, (r + g + b) / 3));
-          brightnessValue = gray;
-        } else {
-          brightnessValue = (r + g + b) / 3;
-        }
-        
-        // Calculate dot size based on brightness
-        const maxRadius = Math.max(1, (gridSize / 2) * 0.8);
-        const radius = Math.max(0.5, (brightnessValue / 255) * maxRadius);
-        
-        // Draw dot if bright enough (skip really dark areas for better contrast)
-        if (brightnessValue > 30) {
-          const centerX = x + gridSize / 2;
-          const centerY = y + gridSize / 2;
-          
-          ctx.beginPath();
-          
-          // Draw appropriate shape
-          switch (dotShape) {
-            case 'square':
-              const size = radius * 1.8;
-              ctx.rect(centerX - size/2, centerY - size/2, size, size);
-              break;
-              
-            case 'cross':
-              const thickness = radius * 0.6;
-              const length = radius * 1.8;
-              ctx.rect(centerX - length/2, centerY - thickness/2, length, thickness);
-              ctx.rect(centerX - thickness/2, centerY - length/2, thickness, length);
-              break;
-              
-            case 'circle':
-            default:
-              ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-              break;
-          }
-          
-          ctx.fill();
-        }
-      }
-    }
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    renderFilter(ctx, imageData, filterSettings);
   };
 
   // Function to download the filtered image
@@ -303,6 +376,23 @@ export default function ImageUploader({
     document.body.removeChild(link);
   };
 
+  // Function to download the filtered image as vectors
+  const downloadSvg = async () => {
+    if (!workingImage || !appliedSettings) return;
+    
+    setIsProcessing(true);
+    try {
+      // Use the settings the raster was rendered with so both downloads match
+      await downloadAsSvg(workingImage.url, appliedSettings, 'filtered-image.svg');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (batchFiles) {
+    return <BatchQueue files={batchFiles} filterSettings={filterSettings} onClose={closeBatch} />;
+  }
+
   return (
     <div className="flex flex-col bg-gray-900 rounded-lg overflow-hidden">
       {/* Hidden canvas for processing */}
@@ -313,13 +403,30 @@ export default function ImageUploader({
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept="image/*"
+        accept={UPLOAD_ACCEPT}
+        multiple
+        className="hidden"
+      />
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileChange}
         className="hidden"
+        // Not in React's input types, but supported by every major browser
+        {...{ webkitdirectory: '' }}
       />
       
-      {/* Preview area */}
-      <div className="relative w-full">
-        <div className="min-h-[300px] max-h-[600px] bg-black flex items-center justify-center p-2 overflow-hidden">
+      {/* Preview area, which also takes dropped files and folders */}
+      <div
+        className="relative w-full"
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <div className={`min-h-[300px] max-h-[600px] bg-black flex items-center justify-center p-2 overflow-hidden ${isDragging ? 'ring-2 ring-primary ring-inset' : ''}`}>
           {filteredImage ? (
             // Show filtered image if available
             <img 
@@ -327,10 +434,10 @@ export default function ImageUploader({
               alt="Filtered" 
               className="max-w-full max-h-full object-contain"
             />
-          ) : originalImage ? (
-            // Show original image if uploaded but not yet filtered
+          ) : workingImage ? (
+            // Show original image, as framed, if uploaded but not yet filtered
             <img 
-              src={originalImage} 
+              src={workingImage.url} 
               alt="Original" 
               className="max-w-full max-h-full object-contain opacity-70"
             />
@@ -339,6 +446,7 @@ export default function ImageUploader({
             <div className="text-gray-400 flex flex-col items-center">
               <ImageIcon size={48} className="mb-2 opacity-50" />
               <p>Upload an image to apply the filter</p>
+              <p className="text-xs mt-1">or drop several images or a folder to process them as a batch</p>
             </div>
           )}
           
@@ -372,15 +480,26 @@ export default function ImageUploader({
       {/* Actions */}
       <div className="p-3 flex flex-wrap gap-2">
         {!originalImage ? (
-          // Upload button when no image is loaded
-          <Button 
-            onClick={() => fileInputRef.current?.click()}
-            className="flex items-center gap-2"
-            disabled={isProcessing}
-          >
-            <Upload size={16} />
-            Upload Image
-          </Button>
+          // Upload buttons when no image is loaded
+          <>
+            <Button 
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2"
+              disabled={isProcessing}
+            >
+              <Upload size={16} />
+              Upload Images
+            </Button>
+            <Button 
+              onClick={() => folderInputRef.current?.click()}
+              variant="secondary"
+              className="flex items-center gap-2"
+              disabled={isProcessing}
+            >
+              <FolderOpen size={16} />
+              Upload Folder
+            </Button>
+          </>
         ) : (
           // Buttons when image is loaded
           <>
@@ -394,6 +513,49 @@ export default function ImageUploader({
                 Apply Filter
               </Button>
             )}
+
+            {!filteredImage && (
+              <Button 
+                onClick={openFraming}
+                variant="secondary"
+                className="flex items-center gap-2"
+                disabled={isProcessing}
+              >
+                <Crop size={16} />
+                Frame
+              </Button>
+            )}
+
+            {!filteredImage && sourceFile && sourceFile.pageCount > 1 && (
+              <Select
+                value={String(sourceFile.page)}
+                onValueChange={(value) => openImageFile(sourceFile.file, Number(value))}
+                disabled={isProcessing}
+              >
+                <SelectTrigger className="w-32 bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: sourceFile.pageCount }, (_, page) => (
+                    <SelectItem key={page} value={String(page)}>Page {page + 1}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {!filteredImage && takenAt && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="keep-taken-at"
+                  checked={keepTakenAt}
+                  onCheckedChange={setKeepTakenAt}
+                  disabled={isProcessing}
+                />
+                <Label htmlFor="keep-taken-at" className="text-sm text-gray-300">
+                  Keep capture date ({format(takenAt, 'PP')})
+                </Label>
+              </div>
+            )}
             
             {filteredImage && (
               <Button 
@@ -407,6 +569,18 @@ export default function ImageUploader({
               </Button>
             )}
             
+            {filteredImage && appliedSettings && supportsSvgExport(appliedSettings) && (
+              <Button 
+                onClick={downloadSvg}
+                variant="secondary"
+                className="flex items-center gap-2"
+                disabled={isProcessing}
+              >
+                <FileCode size={16} />
+                SVG
+              </Button>
+            )}
+            
             <Button 
               onClick={clearImage}
               variant="destructive"
@@ -420,6 +594,15 @@ export default function ImageUploader({
         )}
       </div>
       
+      {framingSource && (
+        <FramingDialog
+          source={framingSource}
+          framing={framing}
+          onApply={setFraming}
+          onClose={() => setFramingSource(null)}
+        />
+      )}
+      
       {/* Paywall Modal */}
       <PaywallModal 
         isOpen={showPaywall}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { MAX_TAGS_PER_MEDIA } from '@shared/gallery';
+import type { AlbumItem } from '@/components/GalleryFilters';
+import type { MediaItem } from '@/pages/Gallery';
+
+type MediaChanges = {
+  albumId?: number | null;
+  tags?: string[];
+};
+
+interface MediaOrganizerProps {
+  mediaId: number;
+  albumId: number | null;
+  tags: string[];
+  albums: AlbumItem[];
+  onUpdated: (media: MediaItem) => void;
+}
+
+/**
+ * Album picker and tag editor for one gallery item
+ */
+export default function MediaOrganizer({ mediaId, albumId, tags, albums, onUpdated }: MediaOrganizerProps) {
+  const { toast } = useToast();
+  const [newTag, setNewTag] = useState('');
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: MediaChanges) => {
+      const res = await apiRequest('PATCH', `/api/media/${mediaId}`, changes);
+      return await res.json();
+    },
+    onSuccess: (media: MediaItem) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      onUpdated(media);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Tags are lowercase on the server; matching that here keeps duplicates out
+  const addTag = () => {
+    const tag = newTag.trim().toLowerCase();
+    if (!tag) return;
+    setNewTag('');
+    if (!tags.includes(tag)) {
+      updateMutation.mutate({ tags: [...tags, tag] });
+    }
+  };
+
+  return (
+    <>
+      <div>
+        <h4 className="mb-1 text-sm font-semibold text-muted-foreground">Album</h4>
+        <Select
+          value={albumId === null ? 'none' : String(albumId)}
+          onValueChange={(value) => updateMutation.mutate({ albumId: value === 'none' ? null : Number(value) })}
+          disabled={updateMutation.isPending}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No album</SelectItem>
+            {albums.map(album => (
+              <SelectItem key={album.id} value={String(album.id)}>{album.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <h4 className="mb-1 text-sm font-semibold text-muted-foreground">Tags</h4>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+                {tag}
+                <button
+                  type="button"
+                  title={`Remove "${tag}"`}
+                  onClick={() => updateMutation.mutate({ tags: tags.filter(entry => entry !== tag) })}
+                  disabled={updateMutation.isPending}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        {tags.length < MAX_TAGS_PER_MEDIA && (
+          <Input
+            value={newTag}
+            onChange={(event) => setNewTag(event.target.value)}
+            onKeyDown={(event) => event.key === 'Enter' && addTag()}
+            placeholder="Add a tag"
+            maxLength={32}
+            className="h-8"
+            disabled={updateMutation.isPending}
+          />
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  MAX_DPI,
+  MAX_OUTPUT_MEGAPIXELS,
+  MAX_PRINT_INCHES,
+  MIN_DPI,
+  OUTPUT_SIZE_PRESETS,
+  findOutputSizePreset,
+  resolveOutputSize,
+  type OutputSize,
+} from '@shared/output-size';
+
+type PixelSize = { width: number; height: number };
+
+interface OutputSizeDialogProps {
+  size: OutputSize;
+  native: PixelSize | null; // The camera's pixels behind the preview, once it's running
+  screen: PixelSize | null; // The preview as drawn
+  onApply: (size: OutputSize) => void;
+  onClose: () => void;
+}
+
+// Select value for a print size typed in by hand
+const CUSTOM_PRINT = 'custom-print';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Choose how large captures and recordings come out
+ * The preview stays at screen size; this only changes what is saved.
+ */
+export default function OutputSizeDialog({ size, native, screen, onApply, onClose }: OutputSizeDialogProps) {
+  const [draft, setDraft] = useState<OutputSize>(size);
+  const [isCustom, setIsCustom] = useState(!findOutputSizePreset(size));
+  const [inches, setInches] = useState(draft.mode === 'print' ? String(draft.longEdgeInches) : '8');
+  const [dpi, setDpi] = useState(draft.mode === 'print' ? String(draft.dpi) : '300');
+
+  // Typed values apply once they're numbers; out-of-range ones are pulled back in
+  const customPrint = (nextInches: string, nextDpi: string): OutputSize | null => {
+    const longEdgeInches = Number(nextInches);
+    const dotsPerInch = Math.round(Number(nextDpi));
+    if (!(longEdgeInches > 0) || !(dotsPerInch > 0)) return null;
+    return {
+      mode: 'print',
+      longEdgeInches: clamp(longEdgeInches, 0.5, MAX_PRINT_INCHES),
+      dpi: clamp(dotsPerInch, MIN_DPI, MAX_DPI),
+    };
+  };
+
+  const selectValue = (value: string) => {
+    setIsCustom(value === CUSTOM_PRINT);
+    if (value === CUSTOM_PRINT) {
+      setDraft(customPrint(inches, dpi) ?? draft);
+      return;
+    }
+    const chosen = OUTPUT_SIZE_PRESETS.find(option => option.id === value);
+    if (chosen) setDraft(chosen.size);
+  };
+
+  const updatePrint = (nextInches: string, nextDpi: string) => {
+    setInches(nextInches);
+    setDpi(nextDpi);
+    const print = customPrint(nextInches, nextDpi);
+    if (print) setDraft(print);
+  };
+
+  const output = native && screen ? resolveOutputSize(draft, native, screen) : null;
+  // Anything at the cap, give or take rounding, was scaled down to it
+  const isLimited = !!output && output.width * output.height >= MAX_OUTPUT_MEGAPIXELS * 990_000;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Output Size</DialogTitle>
+          <DialogDescription>
+            Captures are re-rendered at this size with the same filter settings, whatever size the preview is on screen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Size</Label>
+            <Select value={isCustom ? CUSTOM_PRINT : findOutputSizePreset(draft)?.id} onValueChange={selectValue}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OUTPUT_SIZE_PRESETS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_PRINT}>Custom print size</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isCustom && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="output-inches">Long edge (inches)</Label>
+                <Input
+                  id="output-inches"
+                  type="number"
+                  min={0.5}
+                  max={MAX_PRINT_INCHES}
+                  step={0.5}
+                  value={inches}
+                  onChange={(event) => updatePrint(event.target.value, dpi)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="output-dpi">DPI</Label>
+                <Input
+                  id="output-dpi"
+                  type="number"
+                  min={MIN_DPI}
+                  max={MAX_DPI}
+                  step={1}
+                  value={dpi}
+                  onChange={(event) => updatePrint(inches, event.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {output
+              ? `Captures will be ${output.width}×${output.height} pixels.`
+              : 'The pixel size is shown once the camera is running.'}
+            {isLimited && ` Limited to ${MAX_OUTPUT_MEGAPIXELS} megapixels.`}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => {
+              onApply(draft);
+              onClose();
+            }}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,285 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download, Upload, Link2, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { BUILT_IN_PRESETS, createPresetFile } from "@shared/presets";
+import { hasKeyframes, type FilterTimeline } from "@shared/timeline";
+import {
+  createPresetThumbnail,
+  createShareUrl,
+  downloadPresetFile,
+  readPresetFile,
+} from "@/utils/preset-utils";
+import type { FilterSettings } from "@/pages/Home";
+
+type SavedPreset = {
+  id: number;
+  userId: number;
+  name: string;
+  filterSettings: FilterSettings;
+  timeline: FilterTimeline | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface PresetPickerProps {
+  filterSettings: FilterSettings;
+  setFilterSettings: React.Dispatch<React.SetStateAction<FilterSettings>>;
+  timeline: FilterTimeline;
+  setTimeline: React.Dispatch<React.SetStateAction<FilterTimeline>>;
+}
+
+/**
+ * Thumbnail button that applies a preset
+ */
+function PresetButton({
+  name,
+  filterSettings,
+  onApply,
+  children,
+}: {
+  name: string;
+  filterSettings: FilterSettings;
+  onApply: () => void;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="relative group">
+      <button
+        type="button"
+        className="flex flex-col items-center w-full rounded p-1 bg-gray-800 hover:bg-gray-700"
+        onClick={onApply}
+        title={name}
+      >
+        <img
+          src={createPresetThumbnail(filterSettings)}
+          alt=""
+          className="w-full aspect-square rounded-sm"
+        />
+        <span className="text-xs mt-1 truncate max-w-full">{name}</span>
+      </button>
+      {children}
+    </div>
+  );
+}
+
+export default function PresetPicker({ filterSettings, setFilterSettings, timeline, setTimeline }: PresetPickerProps) {
+  const { toast } = useToast();
+  const [presetName, setPresetName] = useState('');
+  // Timelines are saved with a preset only when they have keyframes
+  const savedTimeline = hasKeyframes(timeline) ? timeline : null;
+
+  // Saved presets need a signed-in user; logged-out visitors only see the built-ins
+  const { data: savedPresets } = useQuery<SavedPreset[] | null>({
+    queryKey: ['/api/presets'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const invalidatePresets = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/presets'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest('POST', '/api/presets', { name, filterSettings, timeline: savedTimeline });
+      return await res.json();
+    },
+    onSuccess: (preset: SavedPreset) => {
+      setPresetName('');
+      invalidatePresets();
+      toast({
+        title: "Preset Saved",
+        description: `"${preset.name}" has been added to your presets.`,
+      });
+    },
+    onError: showError("Couldn't save preset"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (preset: SavedPreset) => {
+      const res = await apiRequest('PATCH', `/api/presets/${preset.id}`, { filterSettings, timeline: savedTimeline });
+      return await res.json();
+    },
+    onSuccess: (preset: SavedPreset) => {
+      invalidatePresets();
+      toast({
+        title: "Preset Updated",
+        description: `"${preset.name}" now uses the current settings.`,
+      });
+    },
+    onError: showError("Couldn't update preset"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/presets/${id}`);
+    },
+    onSuccess: invalidatePresets,
+    onError: showError("Couldn't delete preset"),
+  });
+
+  // Presets without a timeline leave the current one alone
+  const applyPreset = (settings: FilterSettings, presetTimeline?: FilterTimeline | null) => {
+    setFilterSettings(settings);
+    if (presetTimeline) setTimeline(presetTimeline);
+  };
+
+  const currentPresetFile = () => createPresetFile(presetName.trim() || 'My Preset', filterSettings, savedTimeline);
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    saveMutation.mutate(name);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const preset = await readPresetFile(file);
+      applyPreset(preset.filterSettings, preset.timeline);
+      setPresetName(preset.name);
+      toast({
+        title: "Preset Imported",
+        description: `Applied "${preset.name}".`,
+      });
+    } catch (error) {
+      console.error('Error importing preset:', error);
+      showError("Couldn't import preset")(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  const handleCopyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(createShareUrl(currentPresetFile()));
+      toast({
+        title: "Link Copied",
+        description: "Anyone opening the link gets these exact settings.",
+      });
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      showError("Couldn't copy link")(new Error('Clipboard access was denied'));
+    }
+  };
+
+  return (
+    <div className="bg-app-dark-light rounded-xl shadow-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-800">
+        <h2 className="text-lg font-semibold">Presets</h2>
+      </div>
+      <div className="p-4 space-y-4">
+        {/* Built-in Presets */}
+        <div className="grid grid-cols-3 gap-2">
+          {BUILT_IN_PRESETS.map(preset => (
+            <PresetButton
+              key={preset.id}
+              name={preset.name}
+              filterSettings={preset.filterSettings}
+              onApply={() => applyPreset(preset.filterSettings)}
+            />
+          ))}
+        </div>
+
+        {/* Saved Presets */}
+        {savedPresets && (
+          <div>
+            <Label className="block text-label mb-2">My Presets</Label>
+            {savedPresets.length === 0 ? (
+              <p className="text-xs text-gray-400">Save the current settings to reuse them later</p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {savedPresets.map(preset => (
+                  <PresetButton
+                    key={preset.id}
+                    name={preset.name}
+                    filterSettings={preset.filterSettings}
+                    onApply={() => applyPreset(preset.filterSettings, preset.timeline)}
+                  >
+                    <div className="absolute top-1 right-1 hidden group-hover:flex gap-1">
+                      <button
+                        type="button"
+                        className="p-1 rounded bg-black/70 text-gray-300 hover:text-white"
+                        onClick={() => updateMutation.mutate(preset)}
+                        aria-label={`Overwrite ${preset.name} with the current settings`}
+                      >
+                        <Save className="h-3 w-3" />
+                      </button>
+                      <button
+                        type="button"
+                        className="p-1 rounded bg-black/70 text-gray-300 hover:text-white"
+                        onClick={() => deleteMutation.mutate(preset.id)}
+                        aria-label={`Delete ${preset.name}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </PresetButton>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2 mt-3">
+              <Input
+                value={presetName}
+                onChange={(event) => setPresetName(event.target.value)}
+                onKeyDown={(event) => event.key === 'Enter' && handleSave()}
+                placeholder="Preset name"
+                maxLength={60}
+                className="bg-gray-800 border-gray-700"
+              />
+              <Button
+                className="bg-zinc-100/20 hover:bg-zinc-100/30 text-white font-medium"
+                onClick={handleSave}
+                disabled={!presetName.trim() || saveMutation.isPending}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Import / Export */}
+        <div className="grid grid-cols-3 gap-2">
+          <Button
+            className="bg-gray-700 hover:bg-gray-600 text-white font-medium"
+            onClick={() => downloadPresetFile(currentPresetFile())}
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+          <label className="flex items-center justify-center text-sm bg-gray-700 hover:bg-gray-600 text-white font-medium rounded-md cursor-pointer">
+            <Upload className="h-4 w-4 mr-1" />
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </label>
+          <Button
+            className="bg-gray-700 hover:bg-gray-600 text-white font-medium"
+            onClick={handleCopyShareLink}
+          >
+            <Link2 className="h-4 w-4 mr-1" />
+            Share
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
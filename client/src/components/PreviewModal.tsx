@@ -1,7 +1,20 @@
-import React from "react";
-import { X, Download, Share2 } from "lucide-react";
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { X, Download, Share2, FileCode, ImagePlay, CloudUpload, Printer } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/clerk-provider";
+import { queryClient } from "@/lib/queryClient";
+import AnimationExportDialog from "@/components/AnimationExportDialog";
+import PrintExportDialog from "@/components/PrintExportDialog";
 import type { CapturedItem } from "@/pages/Home";
+import { downloadAsAnimation, downloadAsSvg, getFileExtension } from "@/utils/file-utils";
+import { ANIMATION_MIME_TYPES, type AnimationFormat } from "@/utils/animation-export";
+import { uploadCapturedItem } from "@/utils/media-upload";
+import { canPrint } from "@/utils/print-export";
+import { supportsSvgExport } from "@shared/halftone-svg";
 
 interface PreviewModalProps {
   item: CapturedItem;
@@ -12,18 +25,75 @@ export default function PreviewModal({
   item, 
   onClose 
 }: PreviewModalProps) {
+  const mimeType = item.mimeType ?? (item.type === "image" ? "image/jpeg" : "video/webm");
+  const extension = getFileExtension(mimeType);
+  const fileStem = () => `pixelcam_${new Date().toISOString().replace(/:/g, "-")}`;
+  
   const handleDownload = () => {
     const link = document.createElement("a");
     link.href = item.url;
-    link.download = `pixelcam_${new Date().toISOString().replace(/:/g, "-")}.${item.type === "image" ? "jpg" : "webm"}`;
+    link.download = `${fileStem()}.${extension}`;
     link.click();
   };
 
+  // Clips can be turned into GIF/APNG/WebP loops that play inline anywhere
+  const [showAnimationExport, setShowAnimationExport] = useState(false);
+
+  const handleAnimationExported = (blob: Blob, format: AnimationFormat) => {
+    setShowAnimationExport(false);
+    downloadAsAnimation(blob, `${fileStem()}.${getFileExtension(ANIMATION_MIME_TYPES[format])}`);
+  };
+
+  const [isExportingSvg, setIsExportingSvg] = useState(false);
+  const canExportSvg = item.type === "image" && !!item.source?.url && !!item.filterSettings &&
+    supportsSvgExport(item.filterSettings);
+
+  const handleDownloadSvg = async () => {
+    if (!item.source?.url || !item.filterSettings) return;
+    
+    setIsExportingSvg(true);
+    try {
+      await downloadAsSvg(item.source.url, item.filterSettings);
+    } finally {
+      setIsExportingSvg(false);
+    }
+  };
+
+  // Stills can be laid out on paper as a PDF or print-resolution PNG
+  const [showPrint, setShowPrint] = useState(false);
+  const isPrintable = item.type === "image" && canPrint(item.mimeType);
+
+  // Signed-in users can keep captures in their gallery
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isSaved, setIsSaved] = useState(false);
+  // Originals let the gallery re-render the capture later, at the cost of storage
+  const [keepOriginal, setKeepOriginal] = useState(true);
+
+  const saveMutation = useMutation({
+    mutationFn: () => uploadCapturedItem(item, { keepOriginal }),
+    onSuccess: () => {
+      setIsSaved(true);
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+      toast({
+        title: "Saved to Gallery",
+        description: `Your ${item.type} is in your gallery.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't save to gallery",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleShare = async () => {
     if (navigator.share) {
       try {
         const blob = await fetch(item.url).then(r => r.blob());
-        const file = new File([blob], `pixelcam.${item.type === "image" ? "jpg" : "webm"}`, { type: item.type === "image" ? "image/jpeg" : "video/webm" });
+        const file = new File([blob], `pixelcam.${extension}`, { type: mimeType });
         await navigator.share({
           title: 'PixelCam Capture',
           files: [file]
@@ -81,6 +151,44 @@ export default function PreviewModal({
               <Download className="h-5 w-5" />
               <span>Download</span>
             </Button>
+            {item.type === "video" && (
+              <Button 
+                className="flex items-center gap-2 bg-app-green hover:bg-green-600"
+                onClick={() => setShowAnimationExport(true)}
+              >
+                <ImagePlay className="h-5 w-5" />
+                <span>Download Animation</span>
+              </Button>
+            )}
+            {canExportSvg && (
+              <Button 
+                className="flex items-center gap-2 bg-app-green hover:bg-green-600"
+                onClick={handleDownloadSvg}
+                disabled={isExportingSvg}
+              >
+                <FileCode className="h-5 w-5" />
+                <span>{isExportingSvg ? "Exporting..." : "Download SVG"}</span>
+              </Button>
+            )}
+            {isPrintable && (
+              <Button 
+                className="flex items-center gap-2 bg-app-green hover:bg-green-600"
+                onClick={() => setShowPrint(true)}
+              >
+                <Printer className="h-5 w-5" />
+                <span>Print</span>
+              </Button>
+            )}
+            {user && (
+              <Button 
+                className="flex items-center gap-2 bg-app-blue hover:bg-blue-600"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || isSaved}
+              >
+                <CloudUpload className="h-5 w-5" />
+                <span>{saveMutation.isPending ? "Saving..." : isSaved ? "Saved" : "Save to Gallery"}</span>
+              </Button>
+            )}
             <Button 
               className="flex items-center gap-2 bg-app-blue hover:bg-blue-600"
               onClick={handleShare}
@@ -89,8 +197,36 @@ export default function PreviewModal({
               <span>Share</span>
             </Button>
           </div>
+          {user && item.source?.url && !isSaved && (
+            <div className="flex items-center gap-2 mt-4">
+              <Switch
+                id="keep-original"
+                checked={keepOriginal}
+                onCheckedChange={setKeepOriginal}
+                disabled={saveMutation.isPending}
+              />
+              <Label htmlFor="keep-original" className="text-sm text-gray-300">
+                Keep the original so it can be re-rendered later
+              </Label>
+            </div>
+          )}
         </div>
       </div>
+      
+      {showAnimationExport && (
+        <AnimationExportDialog
+          source={{ type: 'video', url: item.url }}
+          onClose={() => setShowAnimationExport(false)}
+          onComplete={handleAnimationExported}
+        />
+      )}
+
+      {showPrint && (
+        <PrintExportDialog
+          source={{ imageUrl: item.url, sourceUrl: item.source?.url, filterSettings: item.filterSettings }}
+          onClose={() => setShowPrint(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,362 @@
+import { useEffect, useRef, useState } from "react";
+import { FileText, ImageDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { downloadAsAnimation } from "@/utils/file-utils";
+import { exportPrint, type PrintFormat, type PrintSource } from "@/utils/print-export";
+import { MAX_OUTPUT_MEGAPIXELS } from "@shared/output-size";
+import {
+  DEFAULT_PRINT_SETTINGS,
+  MAX_LPI,
+  MAX_PRINT_DPI,
+  MIN_LPI,
+  MIN_PRINT_DPI,
+  PAPER_SIZES,
+  captureLpi,
+  computePrintLayout,
+  sheetPixelSize,
+  type PaperOrientation,
+  type PaperSizeId,
+  type PrintLayout,
+  type PrintSettings,
+} from "@shared/print-layout";
+
+interface PrintExportDialogProps {
+  source: PrintSource;
+  onClose: () => void;
+}
+
+const ORIENTATION_LABELS: Record<PaperOrientation, string> = {
+  auto: 'Match image',
+  portrait: 'Portrait',
+  landscape: 'Landscape',
+};
+
+// Longest edge of the layout preview, in CSS pixels
+const PREVIEW_SIZE = 280;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Typed inch and DPI values apply once they're numbers
+const parseOr = (value: string, fallback: number) => {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isFinite(number) ? number : fallback;
+};
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
+}
+
+/**
+ * Sketch of the sheet: bleed, trim, the capture and its crop marks
+ */
+function drawPreview(canvas: HTMLCanvasElement, layout: PrintLayout, image: HTMLImageElement): void {
+  const ratio = window.devicePixelRatio || 1;
+  const scale = PREVIEW_SIZE / Math.max(layout.width, layout.height);
+  canvas.width = Math.round(layout.width * scale * ratio);
+  canvas.height = Math.round(layout.height * scale * ratio);
+  canvas.style.width = `${Math.round(layout.width * scale)}px`;
+  canvas.style.height = `${Math.round(layout.height * scale)}px`;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(scale * ratio, 0, 0, scale * ratio, 0, 0);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, layout.width, layout.height);
+
+  const { bleed, trim, clip, image: placed } = layout;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(clip.x, clip.y, clip.width, clip.height);
+  ctx.clip();
+  ctx.drawImage(image, placed.x, placed.y, placed.width, placed.height);
+  ctx.restore();
+
+  const line = 1 / (scale * ratio);
+  ctx.lineWidth = line;
+  ctx.setLineDash([line * 4, line * 4]);
+  ctx.strokeStyle = '#ef4444';
+  ctx.strokeRect(bleed.x, bleed.y, bleed.width, bleed.height);
+  ctx.setLineDash([]);
+  ctx.strokeStyle = '#3b82f6';
+  ctx.strokeRect(trim.x, trim.y, trim.width, trim.height);
+
+  ctx.strokeStyle = '#000000';
+  ctx.beginPath();
+  for (const [x1, y1, x2, y2] of layout.cropMarks) {
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+  }
+  ctx.stroke();
+}
+
+/**
+ * Lay a capture out on paper and download it as a PDF or PNG
+ * Halftone dot sizes can be set as a screen ruling in lines per inch.
+ */
+export default function PrintExportDialog({ source, onClose }: PrintExportDialogProps) {
+  const [paper, setPaper] = useState<PaperSizeId>(DEFAULT_PRINT_SETTINGS.paper);
+  const [orientation, setOrientation] = useState<PaperOrientation>(DEFAULT_PRINT_SETTINGS.orientation);
+  const [dpi, setDpi] = useState(String(DEFAULT_PRINT_SETTINGS.dpi));
+  const [margin, setMargin] = useState(String(DEFAULT_PRINT_SETTINGS.margin));
+  const [bleed, setBleed] = useState(String(DEFAULT_PRINT_SETTINGS.bleed));
+  const [cropMarks, setCropMarks] = useState(DEFAULT_PRINT_SETTINGS.cropMarks);
+  const [lpi, setLpi] = useState<number | null>(DEFAULT_PRINT_SETTINGS.lpi);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [sourceWidth, setSourceWidth] = useState<number | null>(null);
+  const [exporting, setExporting] = useState<PrintFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const { sourceUrl, filterSettings } = source;
+  const canReRender = !!sourceUrl && !!filterSettings;
+  // Screen rulings only apply to halftones re-rendered from their source
+  const hasScreen = canReRender && filterSettings.effect !== 'dither';
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(source.imageUrl)
+      .then(img => !cancelled && setImage(img))
+      .catch(() => !cancelled && setError('Could not load the image.'));
+    // Filter settings are measured against the source, which may differ in size
+    if (sourceUrl && canReRender) {
+      loadImage(sourceUrl)
+        .then(img => !cancelled && setSourceWidth(img.naturalWidth))
+        .catch(() => !cancelled && setError('Could not load the original image.'));
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [source.imageUrl, sourceUrl, canReRender]);
+
+  const settings: PrintSettings = {
+    paper,
+    orientation,
+    dpi: Math.round(clamp(parseOr(dpi, DEFAULT_PRINT_SETTINGS.dpi), MIN_PRINT_DPI, MAX_PRINT_DPI)),
+    margin: clamp(parseOr(margin, DEFAULT_PRINT_SETTINGS.margin), 0, 4),
+    bleed: clamp(parseOr(bleed, DEFAULT_PRINT_SETTINGS.bleed), 0, 1),
+    cropMarks,
+    lpi: hasScreen ? lpi : null,
+  };
+  const layout = image ? computePrintLayout(settings, image.naturalWidth, image.naturalHeight) : null;
+  const sheet = layout ? sheetPixelSize(layout) : null;
+  const isSheetTooLarge = !!sheet && sheet.width * sheet.height > MAX_OUTPUT_MEGAPIXELS * 1_000_000;
+  const matchedLpi = hasScreen && layout && sourceWidth ? captureLpi(filterSettings, layout, sourceWidth) : null;
+
+  useEffect(() => {
+    if (previewRef.current && layout && image) {
+      drawPreview(previewRef.current, layout, image);
+    }
+  });
+
+  const handleMatchCapture = (match: boolean) => {
+    setLpi(match ? null : Math.round(clamp(matchedLpi ?? 60, MIN_LPI, MAX_LPI)));
+  };
+
+  const handleExport = async (format: PrintFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const blob = await exportPrint(source, settings, format);
+      const stem = `pixelcam_print_${new Date().toISOString().replace(/:/g, "-")}`;
+      downloadAsAnimation(blob, `${stem}.${format}`);
+    } catch (err) {
+      console.error('Error exporting print:', err);
+      setError(err instanceof Error ? err.message : 'Could not export the print.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const isExporting = exporting !== null;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isExporting && onClose()}>
+      <DialogContent className="max-w-2xl bg-app-dark-light border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle>Print</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {canReRender
+              ? 'The capture is re-rendered at print resolution from its original.'
+              : 'The capture is placed as it is, scaled to the paper.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 sm:grid-cols-2">
+          <div className="flex items-center justify-center rounded bg-gray-900 p-3 min-h-[200px]">
+            {layout ? (
+              <canvas ref={previewRef} className="shadow-lg" />
+            ) : (
+              <span className="text-sm text-gray-400">Loading…</span>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-label">Paper</Label>
+                <Select value={paper} onValueChange={(value) => setPaper(value as PaperSizeId)} disabled={isExporting}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAPER_SIZES.map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-label">Orientation</Label>
+                <Select
+                  value={orientation}
+                  onValueChange={(value) => setOrientation(value as PaperOrientation)}
+                  disabled={isExporting}
+                >
+                  <SelectTrigger className="bg-gray-800 border-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ORIENTATION_LABELS) as PaperOrientation[]).map(option => (
+                      <SelectItem key={option} value={option}>{ORIENTATION_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="print-dpi" className="text-label">DPI</Label>
+                <Input
+                  id="print-dpi"
+                  type="number"
+                  min={MIN_PRINT_DPI}
+                  max={MAX_PRINT_DPI}
+                  step={1}
+                  value={dpi}
+                  onChange={(event) => setDpi(event.target.value)}
+                  disabled={isExporting}
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="print-margin" className="text-label">Margin (in)</Label>
+                <Input
+                  id="print-margin"
+                  type="number"
+                  min={0}
+                  max={4}
+                  step={0.125}
+                  value={margin}
+                  onChange={(event) => setMargin(event.target.value)}
+                  disabled={isExporting}
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="print-bleed" className="text-label">Bleed (in)</Label>
+                <Input
+                  id="print-bleed"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.125}
+                  value={bleed}
+                  onChange={(event) => setBleed(event.target.value)}
+                  disabled={isExporting}
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">
+              A margin of 0 prints edge to edge, running the image into the bleed.
+            </p>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="print-crop-marks" className="text-label">Crop Marks</Label>
+              <Switch id="print-crop-marks" checked={cropMarks} onCheckedChange={setCropMarks} disabled={isExporting} />
+            </div>
+
+            {hasScreen && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="print-match-lpi" className="text-label">Keep Capture's Dot Size</Label>
+                  <Switch
+                    id="print-match-lpi"
+                    checked={lpi === null}
+                    onCheckedChange={handleMatchCapture}
+                    disabled={isExporting}
+                  />
+                </div>
+                {lpi === null ? (
+                  <p className="text-xs text-gray-400">
+                    {matchedLpi !== null && `Prints at ${matchedLpi.toFixed(1)} lines per inch.`}
+                  </p>
+                ) : (
+                  <div>
+                    <div className="flex justify-between">
+                      <Label className="text-label">Screen Ruling</Label>
+                      <span className="text-value">{lpi} LPI</span>
+                    </div>
+                    <Slider
+                      value={[lpi]}
+                      onValueChange={(value) => setLpi(value[0])}
+                      min={MIN_LPI}
+                      max={MAX_LPI}
+                      step={1}
+                      disabled={isExporting}
+                      className="mt-2"
+                    />
+                    <p className="text-xs text-gray-400 mt-2">
+                      Dots {(settings.dpi / lpi).toFixed(1)} pixels apart at {settings.dpi} DPI.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {sheet && (
+              <p className="text-xs text-gray-400">
+                PNG is {sheet.width}×{sheet.height} pixels.
+                {isSheetTooLarge && ` Over ${MAX_OUTPUT_MEGAPIXELS} megapixels; lower the DPI to export a PNG.`}
+              </p>
+            )}
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                className="bg-zinc-100/20 hover:bg-zinc-100/30 text-white font-medium"
+                onClick={() => handleExport('pdf')}
+                disabled={!layout || isExporting}
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                {exporting === 'pdf' ? 'Exporting…' : 'Download PDF'}
+              </Button>
+              <Button
+                className="bg-zinc-100/20 hover:bg-zinc-100/30 text-white font-medium"
+                onClick={() => handleExport('png')}
+                disabled={!layout || isExporting || isSheetTooLarge}
+              >
+                <ImageDown className="h-4 w-4 mr-2" />
+                {exporting === 'png' ? 'Exporting…' : 'Download PNG'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,317 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import BeforeAfterSlider from "@/components/BeforeAfterSlider";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { renderFilter } from "@/utils/image-processing";
+import { BUILT_IN_PRESETS } from "@shared/presets";
+import { DEFAULT_FILTER_SETTINGS } from "@shared/filter-settings";
+import type { FilterSettings } from "@/pages/Home";
+
+/**
+ * A re-render of a gallery item, as returned by /api/media/:id/versions
+ */
+export type MediaVersionItem = {
+  id: number;
+  mediaId: number;
+  mediaUrl: string; // Signed, so it stops working after a while
+  thumbnailUrl: string | null;
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+  filterSettings: FilterSettings;
+  createdAt: string;
+};
+
+type SavedPreset = {
+  id: number;
+  name: string;
+  filterSettings: FilterSettings;
+};
+
+type RenderFormat = 'png' | 'jpeg';
+
+interface ReRenderDialogProps {
+  mediaId: number;
+  originalUrl: string;
+  filterSettings: FilterSettings | null; // What the capture was made with
+  onClose: () => void;
+  onComplete: (version: MediaVersionItem) => void;
+}
+
+// Output sizes relative to the original; upscales are meant for print
+const SCALES = [1, 2, 3, 4];
+
+// Same limit the server puts on a single render
+const MAX_OUTPUT_MEGAPIXELS = 40;
+
+// Wait for slider drags to settle before re-running the preview
+const PREVIEW_DELAY_MS = 250;
+
+export default function ReRenderDialog({
+  mediaId,
+  originalUrl,
+  filterSettings: capturedSettings,
+  onClose,
+  onComplete,
+}: ReRenderDialogProps) {
+  const [filterSettings, setFilterSettings] = useState<FilterSettings>(capturedSettings ?? DEFAULT_FILTER_SETTINGS);
+  const [look, setLook] = useState(capturedSettings ? 'captured' : '');
+  const [scale, setScale] = useState(1);
+  const [format, setFormat] = useState<RenderFormat>('png');
+  const [original, setOriginal] = useState<{ url: string; image: HTMLImageElement } | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: savedPresets } = useQuery<SavedPreset[] | null>({
+    queryKey: ['/api/presets'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  // Copied to a local URL first; a cross-origin original would taint the preview canvas
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    fetch(originalUrl)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch original: ${response.status}`);
+        return response.blob();
+      })
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        const image = new Image();
+        image.onload = () => !cancelled && setOriginal({ url: image.src, image });
+        image.onerror = () => !cancelled && setError('Could not load the original');
+        image.src = objectUrl;
+      })
+      .catch(loadError => {
+        console.error('Error loading original:', loadError);
+        if (!cancelled) setError('Could not load the original');
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [originalUrl]);
+
+  // Preview at the original's size; larger outputs get proportionally finer dots
+  useEffect(() => {
+    if (!original) return;
+
+    const timer = setTimeout(() => {
+      const { image } = original;
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+
+      ctx.drawImage(image, 0, 0);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      renderFilter(ctx, imageData, filterSettings);
+      setPreviewUrl(canvas.toDataURL('image/jpeg', 0.9));
+    }, PREVIEW_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [original, filterSettings]);
+
+  const looks = useMemo(() => [
+    ...(capturedSettings ? [{ id: 'captured', name: 'As Captured', filterSettings: capturedSettings }] : []),
+    ...BUILT_IN_PRESETS,
+    ...(savedPresets ?? []).map(preset => ({ id: `saved-${preset.id}`, name: preset.name, filterSettings: preset.filterSettings })),
+  ], [capturedSettings, savedPresets]);
+
+  const handleLookChange = (id: string) => {
+    const selected = looks.find(option => option.id === id);
+    if (!selected) return;
+    setLook(id);
+    setFilterSettings({ ...DEFAULT_FILTER_SETTINGS, ...selected.filterSettings });
+  };
+
+  // Tweaking a look makes it a custom one
+  const updateSetting = <K extends keyof FilterSettings>(key: K, value: FilterSettings[K]) => {
+    setLook('');
+    setFilterSettings(current => ({ ...current, [key]: value }));
+  };
+
+  const sourceWidth = original?.image.naturalWidth ?? 0;
+  const sourceHeight = original?.image.naturalHeight ?? 0;
+  const scales = SCALES.filter(option =>
+    option === 1 || sourceWidth * sourceHeight * option * option <= MAX_OUTPUT_MEGAPIXELS * 1_000_000
+  );
+
+  const renderMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/media/${mediaId}/versions`, {
+        filterSettings,
+        width: sourceWidth * scale,
+        format,
+      });
+      return await res.json();
+    },
+    onSuccess: (version: MediaVersionItem) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/media/${mediaId}/versions`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
+      onComplete(version);
+    },
+    onError: (renderError: Error) => setError(renderError.message),
+  });
+
+  const isRendering = renderMutation.isPending;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isRendering && onClose()}>
+      <DialogContent className="max-w-2xl bg-app-dark-light border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle>Re-render</DialogTitle>
+        </DialogHeader>
+
+        {original && previewUrl ? (
+          <BeforeAfterSlider
+            beforeImage={original.url}
+            afterImage={previewUrl}
+            afterLabel="Preview"
+            className="h-[40vh]"
+          />
+        ) : (
+          <div className="flex items-center justify-center h-[40vh] rounded bg-black">
+            {!error && <Loader2 className="h-8 w-8 animate-spin text-gray-400" />}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {/* Look */}
+          <div>
+            <Label className="block text-label mb-2">Look</Label>
+            <Select value={look} onValueChange={handleLookChange} disabled={isRendering}>
+              <SelectTrigger className="bg-gray-800 border-gray-700">
+                <SelectValue placeholder="Custom" />
+              </SelectTrigger>
+              <SelectContent>
+                {looks.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Contrast */}
+          <div>
+            <div className="flex justify-between">
+              <Label className="text-label">Contrast</Label>
+              <span className="text-value">{filterSettings.contrast.toFixed(1)}</span>
+            </div>
+            <Slider
+              value={[filterSettings.contrast]}
+              onValueChange={(value) => updateSetting('contrast', value[0])}
+              min={0}
+              max={3}
+              step={0.1}
+              disabled={isRendering}
+              className="mt-2"
+            />
+          </div>
+
+          {/* Brightness */}
+          <div>
+            <div className="flex justify-between">
+              <Label className="text-label">Brightness</Label>
+              <span className="text-value">{filterSettings.brightness.toFixed(1)}</span>
+            </div>
+            <Slider
+              value={[filterSettings.brightness]}
+              onValueChange={(value) => updateSetting('brightness', value[0])}
+              min={0}
+              max={2}
+              step={0.1}
+              disabled={isRendering}
+              className="mt-2"
+            />
+          </div>
+
+          {filterSettings.effect === 'halftone' && (
+            <div>
+              <div className="flex justify-between">
+                <Label className="text-label">Dot Size</Label>
+                <span className="text-value">{filterSettings.dotSize}</span>
+              </div>
+              <Slider
+                value={[filterSettings.dotSize]}
+                onValueChange={(value) => updateSetting('dotSize', value[0])}
+                min={1}
+                max={30}
+                step={1}
+                disabled={isRendering}
+                className="mt-2"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            {/* Size */}
+            <div>
+              <Label className="block text-label mb-2">Size</Label>
+              <Select value={String(scale)} onValueChange={(value) => setScale(Number(value))} disabled={isRendering}>
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scales.map(option => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option === 1 ? 'Original' : `${option}×`} ({sourceWidth * option}×{sourceHeight * option})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Format */}
+            <div>
+              <Label className="block text-label mb-2">Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as RenderFormat)} disabled={isRendering}>
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="png">PNG</SelectItem>
+                  <SelectItem value="jpeg">JPEG</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-400">
+            The original stays as it is; the result is added to this item's history.
+          </p>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <Button
+            className="w-full bg-zinc-100/20 hover:bg-zinc-100/30 text-white font-medium"
+            onClick={() => {
+              setError(null);
+              renderMutation.mutate();
+            }}
+            disabled={!original || isRendering}
+          >
+            {isRendering ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            {isRendering ? 'Rendering…' : 'Render'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Code, Copy, Eye, Link2, Loader2, Lock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+/**
+ * A share link as returned to its owner by /api/shares
+ */
+type ShareLinkItem = {
+  id: number;
+  token: string;
+  mediaId: number | null;
+  albumId: number | null;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+  createdAt: string;
+  status: 'active' | 'expired' | 'revoked';
+  path: string;
+  embedPath: string;
+};
+
+export type ShareTarget = { mediaId: number } | { albumId: number };
+
+// Expiry choices, in days; 0 never expires
+const EXPIRY_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: 'Never' },
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+const STATUS_LABELS: Record<ShareLinkItem['status'], string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked',
+};
+
+function embedCode(link: ShareLinkItem): string {
+  return `<iframe src="${window.location.origin}${link.embedPath}" width="640" height="480" ` +
+    `frameborder="0" allow="fullscreen" allowfullscreen></iframe>`;
+}
+
+interface ShareDialogProps {
+  target: ShareTarget;
+  title: string;
+  onClose: () => void;
+}
+
+/**
+ * Create and manage public links to a capture or an album
+ */
+export default function ShareDialog({ target, title, onClose }: ShareDialogProps) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState('');
+  const [expiryDays, setExpiryDays] = useState('0');
+
+  const listKey = 'mediaId' in target
+    ? `/api/shares?mediaId=${target.mediaId}`
+    : `/api/shares?albumId=${target.albumId}`;
+
+  const { data: links = [], isLoading } = useQuery<ShareLinkItem[]>({
+    queryKey: [listKey],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const days = Number(expiryDays);
+      const res = await apiRequest('POST', '/api/shares', {
+        ...target,
+        ...(password && { password }),
+        ...(days > 0 && { expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() }),
+      });
+      return await res.json();
+    },
+    onSuccess: (link: ShareLinkItem) => {
+      setPassword('');
+      queryClient.invalidateQueries({ queryKey: [listKey] });
+      copyText(`${window.location.origin}${link.path}`, 'Link created and copied');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (link: ShareLinkItem) => {
+      await apiRequest('DELETE', `/api/shares/${link.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [listKey] });
+      toast({ title: 'Link revoked', description: 'Anyone opening it now sees that it was turned off.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const copyText = async (text: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: message });
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+      toast({ title: "Couldn't copy", description: text, variant: 'destructive' });
+    }
+  };
+
+  const passwordTooShort = password.length > 0 && password.length < 4;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share {title}</DialogTitle>
+          <DialogDescription>Anyone with the link can view it. Originals, settings and tags stay private.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[10rem]">
+            <Label className="block mb-1 text-xs text-muted-foreground">Password (optional)</Label>
+            <Input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              placeholder="No password"
+              maxLength={100}
+              autoComplete="new-password"
+            />
+          </div>
+          <div>
+            <Label className="block mb-1 text-xs text-muted-foreground">Expires</Label>
+            <Select value={expiryDays} onValueChange={setExpiryDays}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={passwordTooShort || createMutation.isPending}>
+            {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+            Create Link
+          </Button>
+        </div>
+        {passwordTooShort && <p className="text-sm text-destructive">Passwords need at least 4 characters.</p>}
+
+        <Separator />
+
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+          {isLoading && <Loader2 className="w-5 h-5 mx-auto animate-spin text-muted-foreground" />}
+          {!isLoading && links.length === 0 && (
+            <p className="text-sm text-center text-muted-foreground">No links yet.</p>
+          )}
+          {links.map(link => (
+            <div key={link.id} className={`p-2 space-y-1 border rounded-md ${link.status === 'active' ? '' : 'opacity-60'}`}>
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant={link.status === 'active' ? 'default' : 'secondary'}>{STATUS_LABELS[link.status]}</Badge>
+                {link.hasPassword && <Lock className="w-3.5 h-3.5 text-muted-foreground" aria-label="Password-protected" />}
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Eye className="w-3.5 h-3.5" />
+                  {link.viewCount}
+                </span>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {link.expiresAt ? `Expires ${format(new Date(link.expiresAt), 'PP')}` : 'No expiry'}
+                </span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Input readOnly value={`${window.location.origin}${link.path}`} className="h-8 text-xs" onFocus={(event) => event.target.select()} />
+                {link.status === 'active' && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Copy link"
+                      onClick={() => copyText(`${window.location.origin}${link.path}`, 'Link copied')}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Copy embed code"
+                      onClick={() => copyText(embedCode(link), 'Embed code copied')}
+                    >
+                      <Code className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(link)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,23 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
-import { Camera, FlipHorizontal, Upload, Image, Video } from "lucide-react";
-import type { FilterSettings } from "@/pages/Home";
-import { processWebcamFrame, processVideoFrame, processImageData } from "@/utils/image-processing";
+import { Camera, Crop, FlipHorizontal, Maximize2, Upload, Image, Video } from "lucide-react";
+import type { CaptureSource, FilterSettings } from "@/pages/Home";
+import {
+  getVideoNativeSize,
+  processWebcamFrame,
+  processVideoFrame,
+  processImageData,
+  renderVideoFrame,
+} from "@/utils/image-processing";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DEFAULT_FRAMING, type Framing } from "@shared/framing";
+import { DEFAULT_OUTPUT_SIZE, resolveOutputSize, type OutputSize } from "@shared/output-size";
+import FramingDialog, { snapshotVideo, type FramingSource } from "./FramingDialog";
+import OutputSizeDialog from "./OutputSizeDialog";
 
 interface SimpleMobileCameraProps {
   onCameraReady: () => void;
-  onCaptureImage: (imageUrl: string) => void;
+  onCaptureImage: (imageUrl: string, source: CaptureSource) => void;
   filterSettings: FilterSettings;
 }
 
@@ -28,6 +38,10 @@ export default function SimpleMobileCamera({
   const [isBackCamera, setIsBackCamera] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [framing, setFraming] = useState<Framing>(DEFAULT_FRAMING);
+  const [framingSource, setFramingSource] = useState<FramingSource | null>(null);
+  const [outputSize, setOutputSize] = useState<OutputSize>(DEFAULT_OUTPUT_SIZE);
+  const [showOutputSize, setShowOutputSize] = useState(false);
   
   // State for tabs and uploads
   const [activeTab, setActiveTab] = useState('camera');
@@ -143,15 +157,41 @@ export default function SimpleMobileCamera({
     startCamera(!isBackCamera);
   };
   
+  // The camera's pixels behind the preview, or null before it's showing
+  const getNativeSize = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!isCameraActive || !video?.videoWidth || !canvas) return null;
+    return getVideoNativeSize(video, canvas.width, canvas.height, framing);
+  };
+  
   // Capture the current frame
-  const captureImage = () => {
-    if (!canvasRef.current || !isCameraActive) return;
+  const captureImage = async () => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    const native = getNativeSize();
+    if (!canvas || !video || !native) return;
     
     setIsProcessing(true);
     
     try {
-      const dataUrl = canvasRef.current.toDataURL('image/jpeg', 0.9);
-      onCaptureImage(dataUrl);
+      // Re-rendered at the output size; the preview is only as large as the screen
+      const output = resolveOutputSize(outputSize, native, { width: canvas.width, height: canvas.height });
+      const rendered = await renderVideoFrame(
+        video,
+        filterSettings,
+        output.width,
+        output.height,
+        output.width / native.width,
+        isBackCamera,
+        framing
+      );
+      const dataUrl = rendered.toDataURL('image/jpeg', 0.9);
+      onCaptureImage(dataUrl, {
+        type: 'mobile-camera',
+        width: native.width,
+        height: native.height,
+      });
     } catch (error) {
       console.error('Capture failed:', error);
       setCameraError('Could not capture image');
@@ -173,7 +213,7 @@ export default function SimpleMobileCamera({
       
       // Process the image
       const img = document.createElement('img');
-      img.onload = () => {
+      img.onload = async () => {
         if (canvasRef.current) {
           const canvas = canvasRef.current;
           
@@ -190,7 +230,7 @@ export default function SimpleMobileCamera({
             const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
             
             // Process the image
-            processImageData(canvas, filterSettings, imageData);
+            await processImageData(canvas, filterSettings, imageData);
             
             setIsProcessing(false);
           }
@@ -292,7 +332,11 @@ export default function SimpleMobileCamera({
     
     try {
       const dataUrl = canvasRef.current.toDataURL('image/jpeg', 0.9);
-      onCaptureImage(dataUrl);
+      onCaptureImage(dataUrl, {
+        type: 'uploaded-video',
+        width: uploadedVideoRef.current?.videoWidth || canvasRef.current.width,
+        height: uploadedVideoRef.current?.videoHeight || canvasRef.current.height,
+      });
     } catch (error) {
       console.error('Save failed:', error);
     } finally {
@@ -314,7 +358,8 @@ export default function SimpleMobileCamera({
               videoRef.current,
               canvasRef.current,
               filterSettings,
-              isBackCamera
+              isBackCamera,
+              framing
             );
           } catch (error) {
             console.error('Frame processing error:', error);
@@ -348,7 +393,7 @@ export default function SimpleMobileCamera({
         cancelAnimationFrame(animationId);
       }
     };
-  }, [isCameraActive, filterSettings, isBackCamera]);
+  }, [isCameraActive, filterSettings, isBackCamera, framing]);
   
   // Handle tab changes
   useEffect(() => {
@@ -489,14 +534,14 @@ export default function SimpleMobileCamera({
               autoPlay
             />
             
-            {/* Canvas for Processing */}
+            {/* Canvas for Processing; contained, so a framed picture isn't cropped again */}
             <canvas
               ref={canvasRef}
               style={{ 
                 position: 'absolute',
                 width: '100%', 
                 height: '100%',
-                objectFit: 'cover'
+                objectFit: 'contain'
               }}
               width={640}
               height={480}
@@ -530,7 +575,17 @@ export default function SimpleMobileCamera({
           </div>
           
           {/* Camera Controls */}
-          <div className="p-3 bg-gray-900 flex justify-center">
+          <div className="p-3 bg-gray-900 flex justify-center items-center relative">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="absolute left-3 text-white"
+              title="Output size"
+              onClick={() => setShowOutputSize(true)}
+              disabled={isProcessing}
+            >
+              <Maximize2 className="h-5 w-5" />
+            </Button>
             <Button
               className="rounded-full h-14 w-14 bg-white hover:bg-gray-200"
               onClick={captureImage}
@@ -538,6 +593,16 @@ export default function SimpleMobileCamera({
             >
               <div className="rounded-full h-12 w-12 border-2 border-gray-800"></div>
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="absolute right-3 text-white"
+              title="Framing"
+              onClick={() => videoRef.current && setFramingSource(snapshotVideo(videoRef.current))}
+              disabled={!isCameraActive || isProcessing}
+            >
+              <Crop className="h-5 w-5" />
+            </Button>
           </div>
         </TabsContent>
         
@@ -691,6 +756,25 @@ export default function SimpleMobileCamera({
           </div>
         </TabsContent>
       </Tabs>
+      
+      {framingSource && (
+        <FramingDialog
+          source={framingSource}
+          framing={framing}
+          onApply={setFraming}
+          onClose={() => setFramingSource(null)}
+        />
+      )}
+      
+      {showOutputSize && (
+        <OutputSizeDialog
+          size={outputSize}
+          native={getNativeSize()}
+          screen={getNativeSize() && canvasRef.current ? { width: canvasRef.current.width, height: canvasRef.current.height } : null}
+          onApply={setOutputSize}
+          onClose={() => setShowOutputSize(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,256 @@
+import React, { useState } from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  ANIMATABLE_RANGES,
+  ANIMATABLE_SETTINGS,
+  EASINGS,
+  EMPTY_TIMELINE,
+  MAX_KEYFRAMES_PER_TRACK,
+  evaluateTrack,
+  hasKeyframes,
+  removeKeyframe,
+  setKeyframe,
+  type AnimatableSetting,
+  type Easing,
+  type FilterTimeline,
+  type Keyframe,
+} from "@shared/timeline";
+import type { FilterSettings } from "@/pages/Home";
+
+interface TimelineEditorProps {
+  timeline: FilterTimeline;
+  setTimeline: React.Dispatch<React.SetStateAction<FilterTimeline>>;
+  filterSettings: FilterSettings;
+}
+
+const EASING_LABELS: Record<Easing, string> = {
+  'linear': 'Linear',
+  'ease-in': 'Ease In',
+  'ease-out': 'Ease Out',
+  'ease-in-out': 'Ease In-Out',
+  'hold': 'Hold',
+};
+
+// Samples drawn across each track's curve preview
+const CURVE_SAMPLES = 60;
+
+/**
+ * Small plot of a track's value over the timeline
+ */
+function TrackCurve({ setting, keyframes, duration }: { setting: AnimatableSetting; keyframes: Keyframe[]; duration: number }) {
+  const { min, max } = ANIMATABLE_RANGES[setting];
+  const points = Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => {
+    const time = (i / CURVE_SAMPLES) * duration;
+    const value = evaluateTrack(keyframes, time);
+    return `${(i / CURVE_SAMPLES) * 100},${30 - ((value - min) / (max - min)) * 28}`;
+  });
+
+  return (
+    <svg viewBox="0 0 100 32" preserveAspectRatio="none" className="w-full h-8 bg-gray-800 rounded">
+      <polyline points={points.join(' ')} fill="none" stroke="currentColor" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+      {keyframes.filter(keyframe => keyframe.time <= duration).map((keyframe, index) => (
+        <circle
+          key={index}
+          cx={(keyframe.time / duration) * 100}
+          cy={30 - ((keyframe.value - min) / (max - min)) * 28}
+          r="1.5"
+          className="fill-zinc-100"
+        />
+      ))}
+    </svg>
+  );
+}
+
+export default function TimelineEditor({ timeline, setTimeline, filterSettings }: TimelineEditorProps) {
+  const [newTrack, setNewTrack] = useState<AnimatableSetting | ''>('');
+  const animatedSettings = ANIMATABLE_SETTINGS.filter(setting => timeline.tracks[setting]);
+  const availableSettings = ANIMATABLE_SETTINGS.filter(setting => !timeline.tracks[setting]);
+
+  const updateKeyframe = (setting: AnimatableSetting, index: number, changes: Partial<Keyframe>) => {
+    setTimeline(current => {
+      const keyframe = { ...current.tracks[setting]![index], ...changes };
+      return setKeyframe(removeKeyframe(current, setting, index), setting, keyframe);
+    });
+  };
+
+  // New tracks start with a keyframe holding the current slider value
+  const addTrack = (setting: AnimatableSetting) => {
+    setTimeline(current => setKeyframe(current, setting, {
+      time: 0,
+      value: filterSettings[setting],
+      easing: 'linear',
+    }));
+    setNewTrack('');
+  };
+
+  // Each new keyframe lands a second after the last one, at the current value
+  const addKeyframe = (setting: AnimatableSetting) => {
+    setTimeline(current => {
+      const keyframes = current.tracks[setting] ?? [];
+      const lastTime = keyframes.length > 0 ? keyframes[keyframes.length - 1].time : -1;
+      return setKeyframe(current, setting, {
+        time: Math.min(current.duration, lastTime + 1),
+        value: filterSettings[setting],
+        easing: 'linear',
+      });
+    });
+  };
+
+  const removeTrack = (setting: AnimatableSetting) => {
+    setTimeline(current => {
+      const tracks = { ...current.tracks };
+      delete tracks[setting];
+      return { ...current, tracks };
+    });
+  };
+
+  return (
+    <div className="bg-app-dark-light rounded-xl shadow-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Timeline</h2>
+        {hasKeyframes(timeline) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-gray-400 hover:text-white"
+            onClick={() => setTimeline(EMPTY_TIMELINE)}
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+      <div className="p-4 space-y-4">
+        <p className="text-xs text-gray-400">
+          Keyframed settings play back while recording and when exporting an uploaded video.
+        </p>
+
+        {/* Duration */}
+        <div>
+          <div className="flex justify-between">
+            <Label className="text-label">Duration</Label>
+            <span className="text-value">{timeline.duration}s</span>
+          </div>
+          <Slider
+            value={[timeline.duration]}
+            onValueChange={(value) => setTimeline(current => ({ ...current, duration: value[0] }))}
+            min={1}
+            max={60}
+            step={1}
+            className="mt-2"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label className="text-label">Loop</Label>
+          <Switch
+            checked={timeline.loop}
+            onCheckedChange={(loop) => setTimeline(current => ({ ...current, loop }))}
+          />
+        </div>
+
+        {/* Tracks */}
+        {animatedSettings.map(setting => {
+          const range = ANIMATABLE_RANGES[setting];
+          const keyframes = timeline.tracks[setting]!;
+
+          return (
+            <div key={setting} className="space-y-2 pl-1 border-l-2 border-gray-700 ml-1">
+              <div className="flex items-center justify-between pl-2">
+                <Label className="text-label text-sm">{range.label}</Label>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-white"
+                  onClick={() => removeTrack(setting)}
+                  aria-label={`Stop animating ${range.label}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="pl-2">
+                <TrackCurve setting={setting} keyframes={keyframes} duration={timeline.duration} />
+              </div>
+
+              {keyframes.map((keyframe, index) => (
+                <div key={`${keyframe.time}-${index}`} className="grid grid-cols-[4rem_1fr_6.5rem_auto] gap-2 items-center pl-2">
+                  <Input
+                    type="number"
+                    defaultValue={keyframe.time}
+                    min={0}
+                    max={timeline.duration}
+                    step={0.1}
+                    onBlur={(event) => {
+                      const time = Math.max(0, Math.min(timeline.duration, Number(event.target.value) || 0));
+                      if (time !== keyframe.time) updateKeyframe(setting, index, { time });
+                    }}
+                    className="h-8 px-2 bg-gray-800 border-gray-700 text-xs"
+                    aria-label="Keyframe time in seconds"
+                  />
+                  <div>
+                    <Slider
+                      value={[keyframe.value]}
+                      onValueChange={(value) => updateKeyframe(setting, index, { value: value[0] })}
+                      min={range.min}
+                      max={range.max}
+                      step={range.step}
+                    />
+                    <span className="text-value text-xs">{Number(keyframe.value.toFixed(2))}</span>
+                  </div>
+                  <Select
+                    value={keyframe.easing}
+                    onValueChange={(easing) => updateKeyframe(setting, index, { easing: easing as Easing })}
+                  >
+                    <SelectTrigger className="h-8 bg-gray-800 border-gray-700 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EASINGS.map(easing => (
+                        <SelectItem key={easing} value={easing}>{EASING_LABELS[easing]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-white"
+                    onClick={() => setTimeline(current => removeKeyframe(current, setting, index))}
+                    aria-label="Remove keyframe"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+
+              <Button
+                size="sm"
+                className="ml-2 bg-gray-700 hover:bg-gray-600 text-white"
+                onClick={() => addKeyframe(setting)}
+                disabled={keyframes.length >= MAX_KEYFRAMES_PER_TRACK}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Keyframe
+              </Button>
+            </div>
+          );
+        })}
+
+        {availableSettings.length > 0 && (
+          <Select value={newTrack} onValueChange={(value) => addTrack(value as AnimatableSetting)}>
+            <SelectTrigger className="bg-gray-800 border-gray-700">
+              <SelectValue placeholder="Animate a setting…" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableSettings.map(setting => (
+                <SelectItem key={setting} value={setting}>{ANIMATABLE_RANGES[setting].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
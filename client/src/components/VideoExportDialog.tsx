@@ -0,0 +1,333 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Film, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  VIDEO_FRAME_RATES,
+  VIDEO_HEIGHTS,
+  VIDEO_MIME_TYPES,
+  exportVideo,
+  getOutputSize,
+  getSupportedVideoFormats,
+  type VideoFormat,
+} from "@/utils/video-export";
+import { hasKeyframes, type FilterTimeline } from "@shared/timeline";
+import { hasAudioMappings, type AudioReactiveSettings } from "@shared/audio-reactive";
+import type { FilterSettings } from "@/pages/Home";
+
+interface VideoExportDialogProps {
+  file: File;
+  filterSettings: FilterSettings;
+  timeline?: FilterTimeline;
+  audioReactive?: AudioReactiveSettings;
+  onClose: () => void;
+  onComplete: (videoUrl: string, mimeType: string, hasAudio: boolean, sourceSize: { width: number; height: number }) => void;
+}
+
+// Shortest clip the trim handles can make, in seconds
+const MIN_CLIP_LENGTH = 0.1;
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+}
+
+export default function VideoExportDialog({
+  file,
+  filterSettings,
+  timeline,
+  audioReactive,
+  onClose,
+  onComplete,
+}: VideoExportDialogProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [sourceSize, setSourceSize] = useState({ width: 0, height: 0 });
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(0);
+  const [height, setHeight] = useState<number | null>(null);
+  const [fps, setFps] = useState(30);
+  const [format, setFormat] = useState<VideoFormat>('webm');
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [useTimeline, setUseTimeline] = useState(true);
+  const [useAudioReactive, setUseAudioReactive] = useState(true);
+  const [supportedFormats, setSupportedFormats] = useState<VideoFormat[] | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    getSupportedVideoFormats().then(formats => {
+      setSupportedFormats(formats);
+      if (formats.length > 0 && !formats.includes('webm')) {
+        setFormat(formats[0]);
+      }
+    });
+  }, []);
+
+  // Stop any running export when the dialog goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleLoadedMetadata = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = event.currentTarget;
+    setDuration(video.duration);
+    setEnd(video.duration);
+    setSourceSize({ width: video.videoWidth, height: video.videoHeight });
+  };
+
+  const seekPreview = (time: number) => {
+    if (previewRef.current) previewRef.current.currentTime = time;
+  };
+
+  const handleStartChange = (value: number[]) => {
+    const next = Math.min(value[0], end - MIN_CLIP_LENGTH);
+    setStart(Math.max(0, next));
+    seekPreview(next);
+  };
+
+  const handleEndChange = (value: number[]) => {
+    const next = Math.max(value[0], start + MIN_CLIP_LENGTH);
+    setEnd(Math.min(duration, next));
+    seekPreview(next);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+
+    try {
+      const result = await exportVideo(
+        file,
+        {
+          filterSettings,
+          format,
+          start,
+          end,
+          height,
+          fps,
+          includeAudio,
+          timeline: useTimeline ? timeline : null,
+          audioReactive: useAudioReactive ? audioReactive : null,
+        },
+        setProgress,
+        controller.signal
+      );
+      onComplete(URL.createObjectURL(result.blob), VIDEO_MIME_TYPES[format], result.hasAudio, sourceSize);
+    } catch (exportError) {
+      if (exportError instanceof DOMException && exportError.name === 'AbortError') {
+        setProgress(null);
+        return;
+      }
+      console.error('Error exporting video:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Video export failed');
+      setProgress(null);
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const isExporting = progress !== null;
+  const output = getOutputSize(sourceSize.width, sourceSize.height, height);
+  const frameCount = Math.max(1, Math.round((end - start) * fps));
+  const heightOptions = VIDEO_HEIGHTS.filter(option => option < sourceSize.height);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isExporting && onClose()}>
+      <DialogContent className="max-w-2xl bg-app-dark-light border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle>Export Video</DialogTitle>
+        </DialogHeader>
+
+        {previewUrl && (
+          <video
+            ref={previewRef}
+            src={previewUrl}
+            muted
+            playsInline
+            controls={!isExporting}
+            onLoadedMetadata={handleLoadedMetadata}
+            className="w-full max-h-[40vh] rounded bg-black"
+          />
+        )}
+
+        {supportedFormats && supportedFormats.length === 0 ? (
+          <p className="text-sm text-red-400">
+            This browser can't encode video. Try a recent version of Chrome, Edge or Safari.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {/* Trim */}
+            <div>
+              <div className="flex justify-between">
+                <Label className="text-label">Start</Label>
+                <span className="text-value">{formatTime(start)}</span>
+              </div>
+              <Slider
+                value={[start]}
+                onValueChange={handleStartChange}
+                min={0}
+                max={duration || 1}
+                step={0.1}
+                disabled={isExporting}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between">
+                <Label className="text-label">End</Label>
+                <span className="text-value">{formatTime(end)}</span>
+              </div>
+              <Slider
+                value={[end]}
+                onValueChange={handleEndChange}
+                min={0}
+                max={duration || 1}
+                step={0.1}
+                disabled={isExporting}
+                className="mt-2"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {/* Resolution */}
+              <div>
+                <Label className="block text-label mb-2">Resolution</Label>
+                <Select
+                  value={height === null ? 'original' : String(height)}
+                  onValueChange={(value) => setHeight(value === 'original' ? null : Number(value))}
+                  disabled={isExporting}
+                >
+                  <SelectTrigger className="bg-gray-800 border-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="original">Original ({sourceSize.height}p)</SelectItem>
+                    {heightOptions.map(option => (
+                      <SelectItem key={option} value={String(option)}>{option}p</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Frame Rate */}
+              <div>
+                <Label className="block text-label mb-2">Frame Rate</Label>
+                <Select
+                  value={String(fps)}
+                  onValueChange={(value) => setFps(Number(value))}
+                  disabled={isExporting}
+                >
+                  <SelectTrigger className="bg-gray-800 border-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VIDEO_FRAME_RATES.map(option => (
+                      <SelectItem key={option} value={String(option)}>{option} fps</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Format */}
+            <div>
+              <Label className="block text-label mb-2">Format</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['webm', 'mp4'] as VideoFormat[]).map(option => (
+                  <Button
+                    key={option}
+                    className={format === option ? "bg-zinc-100/20 text-white font-medium" : "bg-gray-700 hover:bg-gray-600 text-white font-medium"}
+                    onClick={() => setFormat(option)}
+                    disabled={isExporting || !supportedFormats?.includes(option)}
+                  >
+                    {option.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Audio */}
+            <div className="flex items-center justify-between">
+              <Label className="text-label">Keep Audio</Label>
+              <Switch
+                checked={includeAudio}
+                onCheckedChange={setIncludeAudio}
+                disabled={isExporting}
+              />
+            </div>
+
+            {/* Timeline */}
+            {hasKeyframes(timeline) && (
+              <div className="flex items-center justify-between">
+                <Label className="text-label">Play Timeline</Label>
+                <Switch
+                  checked={useTimeline}
+                  onCheckedChange={setUseTimeline}
+                  disabled={isExporting}
+                />
+              </div>
+            )}
+
+            {/* Audio Reactive */}
+            {hasAudioMappings(audioReactive) && (
+              <div className="flex items-center justify-between">
+                <Label className="text-label">React to Soundtrack</Label>
+                <Switch
+                  checked={useAudioReactive}
+                  onCheckedChange={setUseAudioReactive}
+                  disabled={isExporting}
+                />
+              </div>
+            )}
+
+            <p className="text-xs text-gray-400">
+              {frameCount} frames at {output.width}×{output.height}
+            </p>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {isExporting ? (
+              <div className="space-y-2">
+                <Progress value={progress * 100} className="h-2" />
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-400">Rendering… {Math.round(progress * 100)}%</span>
+                  <Button className="bg-gray-700 hover:bg-gray-600 text-white" onClick={handleCancel}>
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button
+                className="w-full bg-zinc-100/20 hover:bg-zinc-100/30 text-white font-medium"
+                onClick={handleExport}
+                disabled={!supportedFormats || duration === 0}
+              >
+                <Film className="h-4 w-4 mr-2" />
+                Export Video
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,19 +1,34 @@
 import React, { useRef, useState, useEffect } from "react";
 import { useWebcam } from "@/hooks/use-webcam";
-import { processWebcamFrame, processVideoFrame as processVideoWithFilters, processImageData } from "@/utils/image-processing";
+import {
+  getVideoNativeSize,
+  processWebcamFrame,
+  processVideoFrame as processVideoWithFilters,
+  processImageData,
+  renderVideoFrame,
+} from "@/utils/image-processing";
 import { Button } from "@/components/ui/button";
-import { Camera, Maximize, Video, Image, RefreshCw, FlipHorizontal, Wand2, Upload, Play, SplitSquareVertical } from "lucide-react";
+import { Camera, Crop, Maximize, Maximize2, Video, Image, RefreshCw, FlipHorizontal, Wand2, Upload, Play, SplitSquareVertical } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
-import type { FilterSettings } from "@/pages/Home";
+import type { CaptureSource, FilterSettings } from "@/pages/Home";
+import { applyTimeline, type FilterTimeline } from "@shared/timeline";
+import { DEFAULT_FRAMING, type Framing } from "@shared/framing";
+import { DEFAULT_OUTPUT_SIZE, describeOutputSize, resolveOutputSize, type OutputSize } from "@shared/output-size";
 import BeforeAfterSlider from "./BeforeAfterSlider";
+import FramingDialog, { snapshotVideo, type FramingSource } from "./FramingDialog";
+import OutputSizeDialog from "./OutputSizeDialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
+// Browser video encoders top out around 4K, whatever the capture size
+const MAX_RECORDING_EDGE = 3840;
+
 interface WebcamProps {
   onCameraReady: () => void;
-  onCaptureImage: (imageUrl: string) => void;
-  onRecordVideo: (videoUrl: string) => void;
+  onCaptureImage: (imageUrl: string, source: CaptureSource) => void;
+  onRecordVideo: (videoUrl: string, source: CaptureSource) => void;
   onStreamingChange: (isStreaming: boolean) => void;
   filterSettings: FilterSettings;
+  timeline?: FilterTimeline; // Played back from the start of each recording
 }
 
 export default function Webcam({
@@ -22,13 +37,22 @@ export default function Webcam({
   onRecordVideo,
   onStreamingChange,
   filterSettings,
+  timeline,
 }: WebcamProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [framing, setFraming] = useState<Framing>(DEFAULT_FRAMING);
+  const [framingSource, setFramingSource] = useState<FramingSource | null>(null);
+  const [outputSize, setOutputSize] = useState<OutputSize>(DEFAULT_OUTPUT_SIZE);
+  const [showOutputSize, setShowOutputSize] = useState(false);
+  // Filtered frames at the output size, fed to the recorder while recording
+  const recordingRef = useRef<{ canvas: HTMLCanvasElement; recorder: MediaRecorder; scale: number; pending: boolean } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState<number>(0);
+  // Read by the render loop, so keyframes advance without re-running its effect
+  const recordingStartRef = useRef<number | null>(null);
   const [showPlaceholder, setShowPlaceholder] = useState(true);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [showPaywall, setShowPaywall] = useState(false);
@@ -212,7 +236,7 @@ export default function Webcam({
       // Create temp image from original
       const img = document.createElement('img');
       
-      img.onload = () => {
+      img.onload = async () => {
         console.log("Image loaded with dimensions:", img.width, "x", img.height);
         
         if (canvasRef.current) {
@@ -267,16 +291,17 @@ export default function Webcam({
                 backupCtx.drawImage(img, 0, 0);
                 
                 // Now apply the filter to the main canvas
-                processImageData(
-                  canvasRef.current,
+                const canvas = canvasRef.current;
+                await processImageData(
+                  canvas,
                   filterSettings,
                   imageData // Pass the image data directly
                 );
                 
                 // Once processed, capture the result for comparison
-                const processedImageUrl = canvasRef.current.toDataURL('image/jpeg', 0.95);
+                const processedImageUrl = canvas.toDataURL('image/jpeg', 0.95);
                 console.log("Generated processed image URL:", processedImageUrl.substring(0, 50) + "...");
-                console.log("Processed image dimensions:", canvasRef.current.width, "x", canvasRef.current.height);
+                console.log("Processed image dimensions:", canvas.width, "x", canvas.height);
                 setAfterImage(processedImageUrl);
                 
                 // Show before/after comparison
@@ -360,13 +385,25 @@ export default function Webcam({
             videoReadyCheck = null;
           }
           
-          // Process the frame with current filter settings
-          processWebcamFrame(
-            videoRef.current,
-            canvasRef.current,
-            filterSettings,
-            isBackCamera
-          );
+          // Process the frame with current filter settings, animated by the timeline while recording
+          const recordingStart = recordingStartRef.current;
+          const frameSettings = recordingStart === null
+            ? filterSettings
+            : applyTimeline(filterSettings, timeline, (performance.now() - recordingStart) / 1000);
+          processWebcamFrame(videoRef.current, canvasRef.current, frameSettings, isBackCamera, framing);
+          
+          // The recording gets its own render at the output size, skipping frames while one is in flight
+          const recording = recordingRef.current;
+          if (recording && !recording.pending) {
+            recording.pending = true;
+            const { canvas: recordingCanvas, scale } = recording;
+            renderVideoFrame(videoRef.current, frameSettings, recordingCanvas.width, recordingCanvas.height, scale, isBackCamera, framing)
+              .then(rendered => recordingCanvas.getContext('2d')?.drawImage(rendered, 0, 0))
+              .catch(error => console.error("Recording frame failed:", error))
+              .finally(() => {
+                recording.pending = false;
+              });
+          }
           
           // If this is the first time we've successfully processed a frame, notify parent
           if (showPlaceholder) {
@@ -434,7 +471,7 @@ export default function Webcam({
         clearTimeout(videoReadyCheck);
       }
     };
-  }, [isCameraActive, filterSettings, isBackCamera, uploadedImageMode]);
+  }, [isCameraActive, filterSettings, timeline, isBackCamera, uploadedImageMode, framing]);
 
   // Set up recording timer
   useEffect(() => {
@@ -478,8 +515,10 @@ export default function Webcam({
           setShowPaywall(true);
           
           // If recording, stop it when paywall shows
-          if (isRecording && mediaRecorder) {
-            mediaRecorder.stop();
+          if (isRecording && recordingRef.current) {
+            recordingRef.current.recorder.stop();
+            recordingRef.current = null;
+            recordingStartRef.current = null;
             setIsRecording(false);
             onStreamingChange(false);
           }
@@ -553,8 +592,26 @@ export default function Webcam({
     };
   }, []);
 
+  // What the canvas is showing; it is always sized to its source
+  const getCaptureSource = (canvas: HTMLCanvasElement): CaptureSource => {
+    if (uploadedImageMode) {
+      return { type: "uploaded-image", width: canvas.width, height: canvas.height, url: beforeImage ?? undefined };
+    }
+    return { type: isProcessingVideo ? "uploaded-video" : "webcam", width: canvas.width, height: canvas.height };
+  };
+
+  // Whether the canvas shows the live camera, rather than an upload
+  const isLiveCamera = isCameraActive && !uploadedImageMode && !isProcessingVideo;
+  
+  // Size captures and recordings come out at, and how that compares to the camera's pixels
+  const getCameraOutput = (video: HTMLVideoElement, canvas: HTMLCanvasElement) => {
+    const native = getVideoNativeSize(video, canvas.width, canvas.height, framing);
+    const output = resolveOutputSize(outputSize, native, { width: canvas.width, height: canvas.height });
+    return { native, ...output, scale: output.width / native.width };
+  };
+  
   // Capture image
-  const captureImage = () => {
+  const captureImage = async () => {
     setIsProcessing(true); // Show loading indicator during capture
     
     if (!canvasRef.current) {
@@ -565,9 +622,21 @@ export default function Webcam({
     }
     
     try {
-      const dataUrl = canvasRef.current.toDataURL("image/jpeg", 0.95);
-      console.log("Captured image dimensions:", canvasRef.current.width, "x", canvasRef.current.height);
-      onCaptureImage(dataUrl);
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      let dataUrl: string;
+      let source = getCaptureSource(canvas);
+      if (isLiveCamera && video?.videoWidth) {
+        // Re-rendered at the output size; the preview is only as large as the screen
+        const output = getCameraOutput(video, canvas);
+        const rendered = await renderVideoFrame(video, filterSettings, output.width, output.height, output.scale, isBackCamera, framing);
+        dataUrl = rendered.toDataURL("image/jpeg", 0.95);
+        source = { ...source, ...output.native };
+      } else {
+        // Uploads are already drawn at their own size
+        dataUrl = canvas.toDataURL("image/jpeg", 0.95);
+      }
+      onCaptureImage(dataUrl, source);
       setIsProcessing(false); // Hide loading indicator on success
     } catch (error) {
       console.error("Error capturing image:", error);
@@ -583,19 +652,41 @@ export default function Webcam({
       setIsProcessing(true);
       
       try {
+        const canvas = canvasRef.current;
+        const video = videoRef.current;
+        if (!canvas || !video?.videoWidth) {
+          throw new Error("The camera isn't showing yet");
+        }
+        
+        // Record filtered frames at the output size, drawn by the render loop
+        const output = getCameraOutput(video, canvas);
+        const fit = Math.min(1, MAX_RECORDING_EDGE / Math.max(output.width, output.height));
+        const recordingCanvas = document.createElement("canvas");
+        // Most encoders need even dimensions
+        recordingCanvas.width = Math.max(2, Math.round((output.width * fit) / 2) * 2);
+        recordingCanvas.height = Math.max(2, Math.round((output.height * fit) / 2) * 2);
+        const recorder = new MediaRecorder(recordingCanvas.captureStream(30), { mimeType: mediaRecorder.mimeType });
+        recordingRef.current = {
+          canvas: recordingCanvas,
+          recorder,
+          scale: recordingCanvas.width / output.native.width,
+          pending: false,
+        };
+        
         // Start recording
         const chunks: BlobPart[] = [];
-        mediaRecorder.ondataavailable = (e) => {
+        const source = { ...getCaptureSource(canvas), ...output.native };
+        recorder.ondataavailable = (e) => {
           if (e.data.size > 0) {
             chunks.push(e.data);
           }
         };
         
-        mediaRecorder.onstop = () => {
+        recorder.onstop = () => {
           try {
             const blob = new Blob(chunks, { type: "video/webm" });
             const url = URL.createObjectURL(blob);
-            onRecordVideo(url);
+            onRecordVideo(url, source);
             setIsProcessing(false); // Hide loading indicator after successful processing
           } catch (error) {
             console.error("Error processing recorded video:", error);
@@ -604,20 +695,24 @@ export default function Webcam({
           }
         };
         
-        mediaRecorder.onerror = (event) => {
+        recorder.onerror = (event) => {
           console.error("MediaRecorder error:", event);
           setCameraError("Recording error. Please try again.");
           setIsProcessing(false); // Clear loading indicator on error
+          recordingStartRef.current = null;
+          recordingRef.current = null;
           setIsRecording(false);
         };
         
         // Start recording
-        mediaRecorder.start(100); // Record in 100ms chunks
+        recorder.start(100); // Record in 100ms chunks
+        recordingStartRef.current = performance.now();
         setIsRecording(true);
         onStreamingChange(true);
         setIsProcessing(false); // Hide loading indicator once recording starts
       } catch (error) {
         console.error("Error starting recording:", error);
+        recordingRef.current = null;
         setCameraError("Failed to start recording. Please try again.");
         setIsProcessing(false); // Clear loading indicator on error
       }
@@ -627,7 +722,9 @@ export default function Webcam({
       
       try {
         // Stop recording
-        mediaRecorder.stop();
+        recordingRef.current?.recorder.stop();
+        recordingRef.current = null;
+        recordingStartRef.current = null;
         setIsRecording(false);
         onStreamingChange(false);
         // Note: setIsProcessing(false) will be called in the onstop handler
@@ -764,7 +861,7 @@ export default function Webcam({
                               if (canvasRef.current) {
                                 // Create an image element from the file
                                 const img = document.createElement('img');
-                                img.onload = () => {
+                                img.onload = async () => {
                                   console.log("Image loaded with dimensions:", img.width, "x", img.height);
                                   
                                   // Clear the loading indicator if the user doesn't want to apply filters immediately
@@ -794,16 +891,17 @@ export default function Webcam({
                                       setShowPlaceholder(false);
                                       
                                       // Process the image immediately with filters
-                                      const imageData = ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
-                                      processImageData(
-                                        canvasRef.current,
+                                      const canvas = canvasRef.current;
+                                      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+                                      await processImageData(
+                                        canvas,
                                         filterSettings,
                                         imageData
                                       );
                                       
                                       // Store the processed image for the slider
-                                      const processedImageUrl = canvasRef.current.toDataURL('image/jpeg', 0.95);
-                                      console.log("Processed image dimensions:", canvasRef.current.width, "x", canvasRef.current.height);
+                                      const processedImageUrl = canvas.toDataURL('image/jpeg', 0.95);
+                                      console.log("Processed image dimensions:", canvas.width, "x", canvas.height);
                                       setAfterImage(processedImageUrl);
                                       setShowBeforeAfterComparison(true);
                                     }
@@ -1044,6 +1142,26 @@ export default function Webcam({
               <span>{isRecording ? `Stop (${formatTime(recordingTime)})` : 'Record'}</span>
             </Button>
           )}
+          
+          {/* The recording keeps the framing it started with */}
+          <Button
+            className="flex items-center space-x-1 bg-gray-700 hover:bg-gray-600"
+            onClick={() => videoRef.current && setFramingSource(snapshotVideo(videoRef.current))}
+            disabled={showPlaceholder || uploadedImageMode || isRecording}
+          >
+            <Crop className="h-5 w-5" />
+            <span>Frame</span>
+          </Button>
+          
+          <Button
+            className="flex items-center space-x-1 bg-gray-700 hover:bg-gray-600"
+            onClick={() => setShowOutputSize(true)}
+            disabled={isRecording}
+            title="Output size"
+          >
+            <Maximize2 className="h-5 w-5" />
+            <span>{describeOutputSize(outputSize)}</span>
+          </Button>
         </div>
         
         <div className="flex items-center space-x-2">
@@ -1088,6 +1206,27 @@ export default function Webcam({
           )}
         </div>
       </div>
+      
+      {framingSource && (
+        <FramingDialog
+          source={framingSource}
+          framing={framing}
+          onApply={setFraming}
+          onClose={() => setFramingSource(null)}
+        />
+      )}
+      
+      {showOutputSize && (
+        <OutputSizeDialog
+          size={outputSize}
+          native={isLiveCamera && videoRef.current?.videoWidth && canvasRef.current
+            ? getCameraOutput(videoRef.current, canvasRef.current).native
+            : null}
+          screen={isLiveCamera && canvasRef.current ? { width: canvasRef.current.width, height: canvasRef.current.height } : null}
+          onApply={setOutputSize}
+          onClose={() => setShowOutputSize(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -46,7 +46,9 @@ export async function apiRequest(
   // Prepare headers with auth token when available
   const headers: Record<string, string> = {};
   
-  if (data) {
+  // Multipart bodies set their own Content-Type with the boundary
+  const isFormData = data instanceof FormData;
+  if (data && !isFormData) {
     headers["Content-Type"] = "application/json";
   }
   
@@ -58,7 +60,7 @@ export async function apiRequest(
     const res = await fetch(url, {
       method,
       headers: headers,
-      body: data ? JSON.stringify(data) : undefined,
+      body: isFormData ? data : data ? JSON.stringify(data) : undefined,
       credentials: "include",
     });
 
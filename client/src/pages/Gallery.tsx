@@ -1,43 +1,170 @@
 import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { X, ArrowLeft, Trash2, Download, ExternalLink } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { X, ArrowLeft, Trash2, Download, ExternalLink, FileCode, ImagePlay, Wand2, Camera, RefreshCw, SplitSquareVertical, CheckSquare, Loader2, Share2, Printer } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
-import { downloadAsJpg, downloadAsVideo } from '../utils/file-utils';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import AnimationExportDialog from '@/components/AnimationExportDialog';
+import BeforeAfterSlider from '@/components/BeforeAfterSlider';
+import ReRenderDialog, { type MediaVersionItem } from '@/components/ReRenderDialog';
+import GalleryFilters, {
+  DEFAULT_GALLERY_FILTERS,
+  toMediaQueryParams,
+  type AlbumItem,
+  type GalleryFilterState,
+} from '@/components/GalleryFilters';
+import MediaOrganizer from '@/components/MediaOrganizer';
+import PrintExportDialog from '@/components/PrintExportDialog';
+import ShareDialog from '@/components/ShareDialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  downloadAsAnimation,
+  downloadAsJpg,
+  downloadAsVideo,
+  downloadAsSvg,
+  downloadFromServer,
+  downloadImageFromUrl,
+  getFileExtension,
+} from '../utils/file-utils';
+import { ANIMATION_MIME_TYPES, type AnimationFormat } from '../utils/animation-export';
+import { handOffToEditor } from '../utils/gallery-handoff';
+import { canPrint } from '../utils/print-export';
+import { supportsSvgExport } from '@shared/halftone-svg';
+import { MAX_EXPORT_ITEMS } from '@shared/gallery';
+import type { MediaSourceType } from '@shared/schema';
+import type { FilterSettings } from './Home';
 import { useAuth } from '../hooks/use-auth';
-import { Link } from 'wouter';
+import { Link, useLocation } from 'wouter';
 
-type MediaItem = {
+export type MediaItem = {
   id: number;
   mediaType: 'image' | 'video';
-  mediaUrl: string;
+  mediaUrl: string; // Signed, so it stops working after a while
+  thumbnailUrl: string | null;
+  mimeType: string | null;
+  size: number | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
   timestamp: string;
   userId: number;
+  sourceType: MediaSourceType | null;
+  sourceWidth: number | null;
+  sourceHeight: number | null;
+  sourceTakenAt: string | null; // When the uploaded photo was taken, if the user kept it
+  sourceUrl: string | null; // Unprocessed original, signed like mediaUrl
+  filterSettings: FilterSettings | null; // Complete, with defaults for options added since
+  albumId: number | null;
+  tags: string[];
 };
 
+// One page of GET /api/media
+type MediaPage = {
+  items: MediaItem[];
+  nextCursor: string | null;
+};
+
+const SOURCE_LABELS: Record<MediaSourceType, string> = {
+  'webcam': 'Webcam',
+  'mobile-camera': 'Mobile camera',
+  'uploaded-image': 'Uploaded image',
+  'uploaded-video': 'Uploaded video',
+};
+
+const MEDIA_URL_REFRESH_MS = 30 * 60 * 1000;
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export default function Gallery() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [selectedMedia, setSelectedMedia] = useState<MediaItem | null>(null);
   const [activeTab, setActiveTab] = useState<'all' | 'images' | 'videos'>('all');
+  const [animationItem, setAnimationItem] = useState<MediaItem | null>(null);
+  const [, setLocation] = useLocation();
+  // A re-render picked from the selected item's history, shown in place of the capture
+  const [selectedVersion, setSelectedVersion] = useState<MediaVersionItem | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [showReRender, setShowReRender] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showPrint, setShowPrint] = useState(false);
+  const [filters, setFilters] = useState<GalleryFilterState>(DEFAULT_GALLERY_FILTERS);
+  // Bulk selection, by media ID
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [confirmBulkDelete, setConfirmBulkDelete] = useState(false);
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+
+  // Filtering and sorting happen on the server; the tabs pick the media type
+  const mediaType = activeTab === 'images' ? 'image' : activeTab === 'videos' ? 'video' : null;
+  const mediaQuery = toMediaQueryParams(filters, mediaType).toString();
 
-  const { data: mediaItems = [], isLoading, refetch } = useQuery<MediaItem[]>({
-    queryKey: ['/api/media'],
+  // Refetch before the signed URLs (valid for an hour) run out
+  const {
+    data,
+    isLoading,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/media', mediaQuery],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(mediaQuery);
+      if (pageParam) params.set('cursor', pageParam);
+      const res = await apiRequest('GET', `/api/media?${params}`);
+      return await res.json() as MediaPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!user,
+    staleTime: MEDIA_URL_REFRESH_MS,
+    refetchInterval: MEDIA_URL_REFRESH_MS,
   });
+  const mediaItems = data?.pages.flatMap(page => page.items) ?? [];
 
-  const filteredMedia = mediaItems.filter(item => {
-    if (activeTab === 'all') return true;
-    if (activeTab === 'images') return item.mediaType === 'image';
-    if (activeTab === 'videos') return item.mediaType === 'video';
-    return true;
+  const { data: albums = [] } = useQuery<AlbumItem[]>({
+    queryKey: ['/api/albums'],
+    enabled: !!user,
+  });
+
+  // Only images are re-rendered, so only they have a history
+  const { data: versions = [] } = useQuery<MediaVersionItem[]>({
+    queryKey: [`/api/media/${selectedMedia?.id}/versions`],
+    enabled: selectedMedia?.mediaType === 'image',
+    staleTime: MEDIA_URL_REFRESH_MS,
+    refetchInterval: MEDIA_URL_REFRESH_MS,
   });
 
+  useEffect(() => {
+    setSelectedVersion(null);
+    setIsComparing(false);
+  }, [selectedMedia?.id]);
+
+  // A selection only covers what's listed, so it resets with the listing
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [mediaQuery]);
+
   const handleDownload = (item: MediaItem) => {
     if (item.mediaType === 'image') {
       downloadAsJpg(item.mediaUrl, `pixelcam-image-${item.id}`);
@@ -46,6 +173,82 @@ export default function Gallery() {
     }
   };
 
+  // Vector export needs the unprocessed source and the settings it was captured with
+  const handleDownloadSvg = (item: MediaItem, filterSettings = item.filterSettings) => {
+    if (item.mediaType !== 'image' || !item.sourceUrl || !filterSettings) return;
+    downloadAsSvg(item.sourceUrl, filterSettings, `pixelcam-image-${item.id}.svg`);
+  };
+
+  // Videos can also be saved as a GIF/APNG/WebP loop
+  const handleDownloadAnimation = (item: MediaItem) => {
+    if (item.mediaType !== 'video') return;
+    setAnimationItem(item);
+  };
+
+  // Reproduce a capture or one of its re-renders: the original with the same
+  // settings, or the settings on the live camera
+  const handleReEdit = (item: MediaItem, filterSettings: FilterSettings | null) => {
+    if (!filterSettings || !item.sourceUrl) return;
+    handOffToEditor({ mode: 'edit', filterSettings, sourceUrl: item.sourceUrl });
+    setLocation('/');
+  };
+
+  const handleApplyToCamera = (filterSettings: FilterSettings | null) => {
+    if (!filterSettings) return;
+    handOffToEditor({ mode: 'camera', filterSettings, sourceUrl: null });
+    setLocation('/');
+  };
+
+  const handleVersionRendered = (version: MediaVersionItem) => {
+    setShowReRender(false);
+    setSelectedVersion(version);
+    setIsComparing(true);
+    toast({
+      title: 'Re-render complete',
+      description: `Added a ${version.width} × ${version.height} version to this item's history.`,
+    });
+  };
+
+  const handleDownloadVersion = async (version: MediaVersionItem) => {
+    try {
+      await downloadImageFromUrl(
+        version.mediaUrl,
+        `pixelcam-image-${version.mediaId}-v${version.id}.${getFileExtension(version.mimeType)}`
+      );
+    } catch (error) {
+      console.error('Error downloading version:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to download this version',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteVersion = async (version: MediaVersionItem) => {
+    try {
+      await apiRequest('DELETE', `/api/media/${version.mediaId}/versions/${version.id}`);
+      if (selectedVersion?.id === version.id) {
+        setSelectedVersion(null);
+      }
+      queryClient.invalidateQueries({ queryKey: [`/api/media/${version.mediaId}/versions`] });
+    } catch (error) {
+      console.error('Error deleting version:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete this version',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAnimationExported = (blob: Blob, format: AnimationFormat) => {
+    if (animationItem) {
+      downloadAsAnimation(blob, `pixelcam-video-${animationItem.id}.${getFileExtension(ANIMATION_MIME_TYPES[format])}`);
+    }
+    setAnimationItem(null);
+  };
+
   const handleDelete = async (id: number) => {
     try {
       await fetch(`/api/media/${id}`, {
@@ -74,6 +277,87 @@ export default function Gallery() {
     }
   };
 
+  const toggleSelected = (item: MediaItem) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(item.id)) next.delete(item.id);
+      else next.add(item.id);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkDelete = async () => {
+    setConfirmBulkDelete(false);
+    setIsBulkWorking(true);
+    try {
+      await apiRequest('POST', '/api/media/bulk/delete', { ids: Array.from(selectedIds) });
+      toast({
+        title: 'Media deleted',
+        description: `Removed ${selectedIds.size} ${selectedIds.size === 1 ? 'item' : 'items'} from your gallery`,
+      });
+      stopSelecting();
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    } catch (error) {
+      console.error('Error deleting media:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete the selected media',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBulkWorking(false);
+    }
+  };
+
+  const handleBulkMove = async (albumId: number | null) => {
+    setIsBulkWorking(true);
+    try {
+      await apiRequest('POST', '/api/media/bulk/move', { ids: Array.from(selectedIds), albumId });
+      const album = albums.find(entry => entry.id === albumId);
+      toast({
+        title: 'Media moved',
+        description: album
+          ? `Moved ${selectedIds.size} ${selectedIds.size === 1 ? 'item' : 'items'} to "${album.name}"`
+          : `Took ${selectedIds.size} ${selectedIds.size === 1 ? 'item' : 'items'} out of their albums`,
+      });
+      stopSelecting();
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+    } catch (error) {
+      console.error('Error moving media:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to move the selected media',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBulkWorking(false);
+    }
+  };
+
+  // One ZIP with a manifest of each item's settings
+  const handleBulkDownload = () => {
+    if (selectedIds.size > MAX_EXPORT_ITEMS) {
+      toast({
+        title: 'Too many items',
+        description: `You can download up to ${MAX_EXPORT_ITEMS} items at once`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    downloadFromServer(`/api/media/export?ids=${Array.from(selectedIds).join(',')}`);
+  };
+
+  // What the detail view shows: the chosen re-render, or the capture itself
+  const displayedUrl = selectedVersion?.mediaUrl ?? selectedMedia?.mediaUrl;
+  const displayedSettings = selectedVersion?.filterSettings ?? selectedMedia?.filterSettings ?? null;
+  const canReRender = selectedMedia?.mediaType === 'image' && !!selectedMedia.sourceUrl;
+
   if (!user) {
     return (
       <div className="flex flex-col items-center justify-center h-screen gap-6 p-6">
@@ -105,50 +389,130 @@ export default function Gallery() {
             <TabsTrigger value="images">Images</TabsTrigger>
             <TabsTrigger value="videos">Videos</TabsTrigger>
           </TabsList>
-          <div className="text-sm text-muted-foreground">
-            {filteredMedia.length} {filteredMedia.length === 1 ? 'item' : 'items'}
+          <div className="flex items-center gap-3">
+            <div className="text-sm text-muted-foreground">
+              {mediaItems.length}{hasNextPage ? '+' : ''} {mediaItems.length === 1 && !hasNextPage ? 'item' : 'items'}
+            </div>
+            <Button
+              variant={isSelecting ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => isSelecting ? stopSelecting() : setIsSelecting(true)}
+            >
+              <CheckSquare className="w-4 h-4 mr-2" />
+              {isSelecting ? 'Done' : 'Select'}
+            </Button>
           </div>
         </div>
 
-        <TabsContent value="all" className="mt-0">
-          <GalleryGrid 
-            items={filteredMedia}
-            isLoading={isLoading}
-            onSelect={setSelectedMedia}
-            onDelete={handleDelete}
-            onDownload={handleDownload}
-          />
-        </TabsContent>
-        
-        <TabsContent value="images" className="mt-0">
-          <GalleryGrid 
-            items={filteredMedia}
-            isLoading={isLoading}
-            onSelect={setSelectedMedia}
-            onDelete={handleDelete}
-            onDownload={handleDownload}
-          />
-        </TabsContent>
-        
-        <TabsContent value="videos" className="mt-0">
-          <GalleryGrid 
-            items={filteredMedia}
-            isLoading={isLoading}
-            onSelect={setSelectedMedia}
-            onDelete={handleDelete}
-            onDownload={handleDownload}
-          />
-        </TabsContent>
+        <GalleryFilters filters={filters} onChange={setFilters} albums={albums} />
+
+        {isSelecting && (
+          <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 p-2 mb-4 border rounded-lg bg-background">
+            <span className="mr-2 text-sm">
+              {selectedIds.size} selected
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelectedIds(
+                selectedIds.size === mediaItems.length ? new Set() : new Set(mediaItems.map(item => item.id))
+              )}
+            >
+              {selectedIds.size === mediaItems.length && mediaItems.length > 0 ? 'Select None' : 'Select All Loaded'}
+            </Button>
+            <div className="flex-1" />
+            {isBulkWorking && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleBulkDownload}
+              disabled={selectedIds.size === 0 || isBulkWorking}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download ZIP
+            </Button>
+            <Select
+              value=""
+              onValueChange={(value) => handleBulkMove(value === 'none' ? null : Number(value))}
+              disabled={selectedIds.size === 0 || isBulkWorking}
+            >
+              <SelectTrigger className="h-9 w-44">
+                <SelectValue placeholder="Move to album…" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No album</SelectItem>
+                {albums.map(album => (
+                  <SelectItem key={album.id} value={String(album.id)}>{album.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setConfirmBulkDelete(true)}
+              disabled={selectedIds.size === 0 || isBulkWorking}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+        )}
+
+        <GalleryGrid 
+          items={mediaItems}
+          isLoading={isLoading}
+          isFiltered={mediaQuery !== ''}
+          selectedIds={isSelecting ? selectedIds : null}
+          onSelect={isSelecting ? toggleSelected : setSelectedMedia}
+          onDelete={handleDelete}
+          onDownload={handleDownload}
+          onDownloadSvg={handleDownloadSvg}
+          onDownloadAnimation={handleDownloadAnimation}
+        />
+
+        {hasNextPage && (
+          <div className="flex justify-center mt-6">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Load More
+            </Button>
+          </div>
+        )}
       </Tabs>
 
+      <AlertDialog open={confirmBulkDelete} onOpenChange={setConfirmBulkDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {selectedIds.size} {selectedIds.size === 1 ? 'item' : 'items'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              They're removed from your gallery along with their originals and re-renders. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleBulkDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Media Detail Modal */}
       <Dialog open={!!selectedMedia} onOpenChange={(open) => !open && setSelectedMedia(null)}>
         <DialogContent className="max-w-4xl p-0 overflow-hidden sm:rounded-lg">
           <div className="flex flex-col md:flex-row">
             <div className="relative md:w-3/4 bg-black">
-              {selectedMedia?.mediaType === 'image' && (
+              {selectedMedia?.mediaType === 'image' && isComparing && selectedMedia.sourceUrl && displayedUrl && (
+                <BeforeAfterSlider
+                  beforeImage={selectedMedia.sourceUrl}
+                  afterImage={displayedUrl}
+                  afterLabel={selectedVersion ? 'Re-render' : 'Capture'}
+                  className="h-[50vh] md:h-[70vh] rounded-none"
+                />
+              )}
+              {selectedMedia?.mediaType === 'image' && !(isComparing && selectedMedia.sourceUrl) && (
                 <img 
-                  src={selectedMedia.mediaUrl} 
+                  src={displayedUrl} 
                   alt="Selected media"
                   className="object-contain w-full h-[50vh] md:h-[70vh]" 
                 />
@@ -161,7 +525,7 @@ export default function Gallery() {
                 />
               )}
             </div>
-            <div className="flex flex-col p-4 md:w-1/4">
+            <div className="flex flex-col p-4 md:w-1/4 md:max-h-[70vh] overflow-y-auto">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-semibold">
                   {selectedMedia?.mediaType === 'image' ? 'Image' : 'Video'} Details
@@ -180,16 +544,172 @@ export default function Gallery() {
                   <h4 className="mb-1 text-sm font-semibold text-muted-foreground">Type</h4>
                   <p className="capitalize">{selectedMedia?.mediaType}</p>
                 </div>
+                {selectedVersion ? (
+                  <div>
+                    <h4 className="mb-1 text-sm font-semibold text-muted-foreground">Dimensions</h4>
+                    <p>{selectedVersion.width} × {selectedVersion.height}</p>
+                  </div>
+                ) : selectedMedia?.width && selectedMedia.height && (
+                  <div>
+                    <h4 className="mb-1 text-sm font-semibold text-muted-foreground">Dimensions</h4>
+                    <p>{selectedMedia.width} × {selectedMedia.height}</p>
+                  </div>
+                )}
+                {selectedMedia?.duration && (
+                  <div>
+                    <h4 className="mb-1 text-sm font-semibold text-muted-foreground">Duration</h4>
+                    <p>{selectedMedia.duration.toFixed(1)}s</p>
+                  </div>
+                )}
+                {selectedMedia?.sourceType && (
+                  <div>
+                    <h4 className="mb-1 text-sm font-semibold text-muted-foreground">Source</h4>
+                    <p>
+                      {SOURCE_LABELS[selectedMedia.sourceType]}
+                      {selectedMedia.sourceWidth && selectedMedia.sourceHeight
+                        ? ` (${selectedMedia.sourceWidth} × ${selectedMedia.sourceHeight})`
+                        : ''}
+                    </p>
+                  </div>
+                )}
+                {selectedMedia?.sourceTakenAt && (
+                  <div>
+                    <h4 className="mb-1 text-sm font-semibold text-muted-foreground">Taken</h4>
+                    <p>{format(new Date(selectedMedia.sourceTakenAt), 'PPp')}</p>
+                  </div>
+                )}
+                {selectedMedia && (
+                  <MediaOrganizer
+                    key={selectedMedia.id}
+                    mediaId={selectedMedia.id}
+                    albumId={selectedMedia.albumId}
+                    tags={selectedMedia.tags}
+                    albums={albums}
+                    onUpdated={setSelectedMedia}
+                  />
+                )}
+                {selectedMedia?.size && (
+                  <div>
+                    <h4 className="mb-1 text-sm font-semibold text-muted-foreground">Size</h4>
+                    <p>{formatFileSize(selectedVersion?.size ?? selectedMedia.size)}</p>
+                  </div>
+                )}
+                {selectedMedia && versions.length > 0 && (
+                  <div>
+                    <h4 className="mb-1 text-sm font-semibold text-muted-foreground">History</h4>
+                    <div className="space-y-1">
+                      <HistoryEntry
+                        thumbnailUrl={selectedMedia.thumbnailUrl ?? selectedMedia.mediaUrl}
+                        label="Capture"
+                        timestamp={selectedMedia.timestamp}
+                        isSelected={!selectedVersion}
+                        onSelect={() => setSelectedVersion(null)}
+                      />
+                      {versions.map((version, index) => (
+                        <HistoryEntry
+                          key={version.id}
+                          thumbnailUrl={version.thumbnailUrl ?? version.mediaUrl}
+                          label={`Version ${index + 1} · ${version.width} × ${version.height}`}
+                          timestamp={version.createdAt}
+                          isSelected={selectedVersion?.id === version.id}
+                          onSelect={() => setSelectedVersion(version)}
+                          onDelete={() => handleDeleteVersion(version)}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
               <div className="flex flex-col gap-2 mt-4">
                 <Button 
                   variant="outline" 
                   className="w-full"
-                  onClick={() => selectedMedia && handleDownload(selectedMedia)}
+                  onClick={() => {
+                    if (selectedVersion) handleDownloadVersion(selectedVersion);
+                    else if (selectedMedia) handleDownload(selectedMedia);
+                  }}
                 >
                   <Download className="w-4 h-4 mr-2" />
                   Download
                 </Button>
+                <Button 
+                  variant="outline" 
+                  className="w-full"
+                  onClick={() => setShowShare(true)}
+                >
+                  <Share2 className="w-4 h-4 mr-2" />
+                  Share
+                </Button>
+                {canReRender && (
+                  <Button 
+                    variant="outline" 
+                    className="w-full"
+                    onClick={() => setShowReRender(true)}
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Re-render
+                  </Button>
+                )}
+                {canReRender && (
+                  <Button 
+                    variant="outline" 
+                    className="w-full"
+                    onClick={() => setIsComparing(!isComparing)}
+                  >
+                    <SplitSquareVertical className="w-4 h-4 mr-2" />
+                    {isComparing ? 'Hide Original' : 'Compare with Original'}
+                  </Button>
+                )}
+                {selectedMedia?.mediaType === 'video' && (
+                  <Button 
+                    variant="outline" 
+                    className="w-full"
+                    onClick={() => handleDownloadAnimation(selectedMedia)}
+                  >
+                    <ImagePlay className="w-4 h-4 mr-2" />
+                    Download Animation
+                  </Button>
+                )}
+                {selectedMedia?.mediaType === 'image' && selectedMedia.sourceUrl && displayedSettings && (
+                  <Button 
+                    variant="outline" 
+                    className="w-full"
+                    onClick={() => handleReEdit(selectedMedia, displayedSettings)}
+                  >
+                    <Wand2 className="w-4 h-4 mr-2" />
+                    Re-edit with These Settings
+                  </Button>
+                )}
+                {displayedSettings && (
+                  <Button 
+                    variant="outline" 
+                    className="w-full"
+                    onClick={() => handleApplyToCamera(displayedSettings)}
+                  >
+                    <Camera className="w-4 h-4 mr-2" />
+                    Apply Settings to Camera
+                  </Button>
+                )}
+                {selectedMedia && canExportSvg(selectedMedia, displayedSettings) && (
+                  <Button 
+                    variant="outline" 
+                    className="w-full"
+                    onClick={() => handleDownloadSvg(selectedMedia, displayedSettings)}
+                  >
+                    <FileCode className="w-4 h-4 mr-2" />
+                    Download SVG
+                  </Button>
+                )}
+                {selectedMedia?.mediaType === 'image' && canPrint(selectedVersion?.mimeType ?? selectedMedia.mimeType) && (
+                  <Button 
+                    variant="outline" 
+                    className="w-full"
+                    onClick={() => setShowPrint(true)}
+                  >
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print
+                  </Button>
+                )}
                 <Button 
                   variant="destructive" 
                   className="w-full"
@@ -203,6 +723,86 @@ export default function Gallery() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {showReRender && selectedMedia?.sourceUrl && (
+        <ReRenderDialog
+          mediaId={selectedMedia.id}
+          originalUrl={selectedMedia.sourceUrl}
+          filterSettings={displayedSettings}
+          onClose={() => setShowReRender(false)}
+          onComplete={handleVersionRendered}
+        />
+      )}
+
+      {showShare && selectedMedia && (
+        <ShareDialog
+          target={{ mediaId: selectedMedia.id }}
+          title={`this ${selectedMedia.mediaType === 'image' ? 'image' : 'video'}`}
+          onClose={() => setShowShare(false)}
+        />
+      )}
+
+      {showPrint && selectedMedia && displayedUrl && (
+        <PrintExportDialog
+          source={{
+            imageUrl: displayedUrl,
+            sourceUrl: selectedMedia.sourceUrl ?? undefined,
+            filterSettings: displayedSettings ?? undefined,
+          }}
+          onClose={() => setShowPrint(false)}
+        />
+      )}
+
+      {animationItem && (
+        <AnimationExportDialog
+          source={{ type: 'video', url: animationItem.mediaUrl }}
+          onClose={() => setAnimationItem(null)}
+          onComplete={handleAnimationExported}
+        />
+      )}
+    </div>
+  );
+}
+
+function canExportSvg(item: MediaItem, filterSettings = item.filterSettings): boolean {
+  return item.mediaType === 'image' && !!item.sourceUrl && !!filterSettings &&
+    supportsSvgExport(filterSettings);
+}
+
+interface HistoryEntryProps {
+  thumbnailUrl: string;
+  label: string;
+  timestamp: string;
+  isSelected: boolean;
+  onSelect: () => void;
+  onDelete?: () => void;
+}
+
+function HistoryEntry({ thumbnailUrl, label, timestamp, isSelected, onSelect, onDelete }: HistoryEntryProps) {
+  return (
+    <div
+      className={`flex items-center gap-2 p-1 rounded cursor-pointer ${isSelected ? 'bg-muted' : 'hover:bg-muted/50'}`}
+      onClick={onSelect}
+    >
+      <img src={thumbnailUrl} alt="" className="object-cover w-10 h-10 rounded-sm" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm truncate">{label}</p>
+        <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(timestamp), { addSuffix: true })}</p>
+      </div>
+      {onDelete && (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="w-7 h-7"
+          title="Delete this version"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete();
+          }}
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      )}
     </div>
   );
 }
@@ -210,12 +810,16 @@ export default function Gallery() {
 interface GalleryGridProps {
   items: MediaItem[];
   isLoading: boolean;
+  isFiltered: boolean;
+  selectedIds: Set<number> | null; // Set while picking items for a bulk action
   onSelect: (item: MediaItem) => void;
   onDelete: (id: number) => void;
   onDownload: (item: MediaItem) => void;
+  onDownloadSvg: (item: MediaItem) => void;
+  onDownloadAnimation: (item: MediaItem) => void;
 }
 
-function GalleryGrid({ items, isLoading, onSelect, onDelete, onDownload }: GalleryGridProps) {
+function GalleryGrid({ items, isLoading, isFiltered, selectedIds, onSelect, onDelete, onDownload, onDownloadSvg, onDownloadAnimation }: GalleryGridProps) {
   if (isLoading) {
     return (
       <div className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-4">
@@ -226,6 +830,15 @@ function GalleryGrid({ items, isLoading, onSelect, onDelete, onDownload }: Galle
     );
   }
 
+  if (items.length === 0 && isFiltered) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 space-y-2 text-center border rounded-lg">
+        <h3 className="text-xl font-medium">No matches</h3>
+        <p className="text-muted-foreground">Nothing in your gallery matches these filters</p>
+      </div>
+    );
+  }
+
   if (items.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-12 space-y-4 text-center border rounded-lg">
@@ -246,22 +859,38 @@ function GalleryGrid({ items, isLoading, onSelect, onDelete, onDownload }: Galle
       {items.map((item) => (
         <Card 
           key={item.id} 
-          className="group relative overflow-hidden cursor-pointer transition-transform hover:scale-[1.02]"
+          className={`group relative overflow-hidden cursor-pointer transition-transform hover:scale-[1.02] ${selectedIds?.has(item.id) ? 'ring-2 ring-primary' : ''}`}
           onClick={() => onSelect(item)}
         >
+          {selectedIds && (
+            <Checkbox
+              checked={selectedIds.has(item.id)}
+              className="absolute z-10 bg-black/50 top-2 left-2"
+              onClick={(e) => e.stopPropagation()}
+              onCheckedChange={() => onSelect(item)}
+            />
+          )}
           {item.mediaType === 'image' && (
             <img
-              src={item.mediaUrl}
+              src={item.thumbnailUrl ?? item.mediaUrl}
               alt={`Captured image ${item.id}`}
               className="object-cover w-full aspect-square"
             />
           )}
           {item.mediaType === 'video' && (
             <div className="relative">
-              <video 
-                src={item.mediaUrl}
-                className="object-cover w-full aspect-square"
-              />
+              {item.thumbnailUrl ? (
+                <img
+                  src={item.thumbnailUrl}
+                  alt={`Captured video ${item.id}`}
+                  className="object-cover w-full aspect-square"
+                />
+              ) : (
+                <video 
+                  src={item.mediaUrl}
+                  className="object-cover w-full aspect-square"
+                />
+              )}
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="w-12 h-12 bg-black bg-opacity-50 rounded-full flex items-center justify-center">
                   <div className="w-4 h-4 ml-1 border-t-8 border-b-8 border-l-8 border-transparent border-l-white" />
@@ -269,7 +898,7 @@ function GalleryGrid({ items, isLoading, onSelect, onDelete, onDownload }: Galle
               </div>
             </div>
           )}
-          <div className="absolute inset-0 flex-col items-end justify-between p-3 transition-opacity bg-gradient-to-t from-black/50 to-transparent opacity-0 group-hover:opacity-100 flex">
+          <div className={`absolute inset-0 flex-col items-end justify-between p-3 transition-opacity bg-gradient-to-t from-black/50 to-transparent opacity-0 group-hover:opacity-100 ${selectedIds ? 'hidden' : 'flex'}`}>
             <div className="flex gap-1 self-end">
               <Button 
                 size="icon" 
@@ -282,6 +911,34 @@ function GalleryGrid({ items, isLoading, onSelect, onDelete, onDownload }: Galle
               >
                 <Download className="w-3.5 h-3.5" />
               </Button>
+              {item.mediaType === 'video' && (
+                <Button 
+                  size="icon" 
+                  variant="secondary" 
+                  className="w-7 h-7 rounded-full"
+                  title="Download as GIF, APNG or WebP"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDownloadAnimation(item);
+                  }}
+                >
+                  <ImagePlay className="w-3.5 h-3.5" />
+                </Button>
+              )}
+              {canExportSvg(item) && (
+                <Button 
+                  size="icon" 
+                  variant="secondary" 
+                  className="w-7 h-7 rounded-full"
+                  title="Download SVG"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDownloadSvg(item);
+                  }}
+                >
+                  <FileCode className="w-3.5 h-3.5" />
+                </Button>
+              )}
               <Button 
                 size="icon" 
                 variant="destructive" 
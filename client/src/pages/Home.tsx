@@ -10,29 +10,53 @@ import ControlPanel from "@/components/ControlPanel";
 import StatusBar from "@/components/StatusBar";
 import PreviewModal from "@/components/PreviewModal";
 import HelpModal from "@/components/HelpModal";
+import VideoExportDialog from "@/components/VideoExportDialog";
+import AnimationExportDialog from "@/components/AnimationExportDialog";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { FilterSettings } from "@shared/halftone";
+import type { MediaSourceType } from "@shared/schema";
+import { DEFAULT_FILTER_SETTINGS } from "@shared/filter-settings";
+import { PRESET_URL_PARAM } from "@shared/presets";
+import { EMPTY_TIMELINE, type FilterTimeline } from "@shared/timeline";
+import { DEFAULT_AUDIO_REACTIVE, type AudioReactiveSettings } from "@shared/audio-reactive";
+import { readSharedPreset } from "@/utils/preset-utils";
+import { takeGalleryHandoff } from "@/utils/gallery-handoff";
+import { ANIMATION_MIME_TYPES, type AnimationFormat } from "@/utils/animation-export";
+import type { AnimationFrame } from "@/utils/animation-encoders";
+
+// Where a capture came from, so the gallery can reproduce it
+export type CaptureSource = {
+  type: MediaSourceType;
+  width: number;
+  height: number;
+  url?: string; // Unprocessed frame, used to re-plan the halftone (e.g. SVG export)
+  takenAt?: string; // ISO date the uploaded photo was taken, when the user chose to keep it
+};
 
 export type CapturedItem = {
   id: string;
   type: "image" | "video";
   url: string;
+  mimeType?: string; // e.g. video/mp4 or image/gif; JPEG images and WebM videos when absent
   timestamp: Date;
+  source?: CaptureSource;
+  filterSettings?: FilterSettings; // Settings active when the item was captured
 };
 
-export type DotShape = 'circle' | 'square' | 'cross';
-
-export type FilterSettings = {
-  dotSize: number; // Size of primary halftone dots
-  contrast: number;
-  brightness: number;
-  isGrayscale: boolean;
-  dotShape: DotShape;  // Shape of the primary dots
-  useSecondLayer: boolean; // Whether to use a second layer of halftones
-  secondLayerOpacity: number; // Opacity of the second layer (0.0 to 1.0)
-  secondLayerOffset: number; // Offset of second layer for a more dynamic look
-};
+// Filter types live in the shared halftone core so the server can render too
+export type {
+  DotShape,
+  SamplingMode,
+  FilterEffect,
+  GridTopology,
+  ColorMode,
+  ColorChannel,
+  BlendMode,
+  ChannelSettings,
+  FilterSettings,
+} from "@shared/halftone";
 
 export default function Home() {
   const [showHelpModal, setShowHelpModal] = useState(false);
@@ -41,26 +65,55 @@ export default function Home() {
   const [previewItem, setPreviewItem] = useState<CapturedItem | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
   const [cameraReady, setCameraReady] = useState(false);
-  const [activeTab, setActiveTab] = useState("camera");
+  const [videoToExport, setVideoToExport] = useState<File | null>(null);
+  const [burst, setBurst] = useState<{ frames: AnimationFrame[]; source: CaptureSource } | null>(null);
   const isMobile = useIsMobile();
-  const [filterSettings, setFilterSettings] = useState<FilterSettings>({
-    dotSize: 10,
-    contrast: 1.5,
-    brightness: 1.0,
-    isGrayscale: true,
-    dotShape: 'circle', // Default shape
-    useSecondLayer: true, // Enable second layer by default
-    secondLayerOpacity: 0.5, // 50% opacity for second layer
-    secondLayerOffset: 5, // Offset for second layer
-  });
+  // A share link opens with its preset applied
+  const [sharedPreset] = useState(readSharedPreset);
+  // The gallery can send a capture's settings back, optionally with its original to re-edit
+  const [galleryHandoff] = useState(takeGalleryHandoff);
+  const [activeTab, setActiveTab] = useState(galleryHandoff?.mode === "edit" ? "image" : "camera");
+  const [filterSettings, setFilterSettings] = useState<FilterSettings>(
+    galleryHandoff?.filterSettings ?? sharedPreset?.filterSettings ?? DEFAULT_FILTER_SETTINGS
+  );
+  const [timeline, setTimeline] = useState<FilterTimeline>(sharedPreset?.timeline ?? EMPTY_TIMELINE);
+  const [audioReactive, setAudioReactive] = useState<AudioReactiveSettings>(DEFAULT_AUDIO_REACTIVE);
+
   const { toast } = useToast();
 
-  const handleCaptureImage = (imageUrl: string) => {
+  useEffect(() => {
+    if (!sharedPreset) return;
+    
+    toast({
+      title: "Preset Loaded",
+      description: `Applied the shared "${sharedPreset.name}" preset.`,
+    });
+    
+    // Drop the encoded preset from the address bar once it's applied
+    const url = new URL(window.location.href);
+    url.searchParams.delete(PRESET_URL_PARAM);
+    window.history.replaceState(null, '', url.toString());
+  }, [sharedPreset]);
+
+  useEffect(() => {
+    if (!galleryHandoff) return;
+    
+    toast({
+      title: "Settings Applied",
+      description: galleryHandoff.mode === "edit"
+        ? "The original image is loaded with the settings it was captured with."
+        : "The camera now uses the settings from your gallery.",
+    });
+  }, [galleryHandoff]);
+
+  const handleCaptureImage = (imageUrl: string, source: CaptureSource) => {
     const newItem: CapturedItem = {
       id: Math.random().toString(36).substring(2, 9),
       type: "image",
       url: imageUrl,
       timestamp: new Date(),
+      source,
+      filterSettings,
     };
     
     setCapturedItems((prev) => [newItem, ...prev]);
@@ -73,12 +126,14 @@ export default function Home() {
     });
   };
 
-  const handleRecordVideo = (videoUrl: string) => {
+  const handleRecordVideo = (videoUrl: string, source: CaptureSource) => {
     const newItem: CapturedItem = {
       id: Math.random().toString(36).substring(2, 9),
       type: "video",
       url: videoUrl,
       timestamp: new Date(),
+      source,
+      filterSettings,
     };
     
     setCapturedItems((prev) => [newItem, ...prev]);
@@ -89,114 +144,70 @@ export default function Home() {
     });
   };
 
+  // Camera bursts go through the animation dialog to pick a format and palette
+  const handleCaptureBurst = (frames: AnimationFrame[], source: CaptureSource) => {
+    setBurst({ frames, source });
+  };
+  
+  const handleAnimationExported = (blob: Blob, format: AnimationFormat) => {
+    const newItem: CapturedItem = {
+      id: Math.random().toString(36).substring(2, 9),
+      type: "image",
+      url: URL.createObjectURL(blob),
+      mimeType: ANIMATION_MIME_TYPES[format],
+      timestamp: new Date(),
+      source: burst?.source,
+      filterSettings,
+    };
+    
+    setCapturedItems((prev) => [newItem, ...prev]);
+    setBurst(null);
+    setPreviewItem(newItem);
+    setShowPreviewModal(true);
+    
+    toast({
+      title: "Animation Captured",
+      description: `Your ${format.toUpperCase()} loop is ready to download.`,
+    });
+  };
+
   const handleViewItem = (item: CapturedItem) => {
     setPreviewItem(item);
     setShowPreviewModal(true);
   };
   
+  // Uploaded videos go through the export dialog for trimming and encoding options
   const handleProcessVideo = (videoFile: File) => {
-    // Create a temporary video element
-    const videoEl = document.createElement('video');
-    videoEl.muted = true;
-    videoEl.playsInline = true;
-    
-    // Create a canvas element to render the processed frames
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) {
-      toast({
-        title: "Processing Error",
-        description: "Could not initialize canvas context for video processing.",
-        variant: "destructive"
-      });
-      return;
-    }
-    
-    // Create object URL for the file
-    const videoUrl = URL.createObjectURL(videoFile);
-    videoEl.src = videoUrl;
-    
-    // Once the video metadata is loaded, set up canvas dimensions
-    videoEl.onloadedmetadata = () => {
-      canvas.width = videoEl.videoWidth;
-      canvas.height = videoEl.videoHeight;
-      
-      // Temporary canvas for processing
-      const processCanvas = document.createElement('canvas');
-      processCanvas.width = videoEl.videoWidth;
-      processCanvas.height = videoEl.videoHeight;
-      
-      const processCtx = processCanvas.getContext('2d');
-      if (!processCtx) return;
-      
-      // Apply filter to the first frame
-      videoEl.currentTime = 0;
-      
-      videoEl.onseeked = async () => {
-        // Draw the current frame to the processing canvas
-        processCtx.drawImage(videoEl, 0, 0, canvas.width, canvas.height);
-        
-        // Get the image data
-        const imageData = processCtx.getImageData(0, 0, canvas.width, canvas.height);
-        
-        // Process the frame with our filter
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        // Import processImageData dynamically to avoid circular dependencies
-        const { processImageData } = await import('@/utils/image-processing');
-        
-        // Apply the filter to the frame
-        processImageData(canvas, filterSettings, imageData);
-        
-        // Convert the processed frame to a data URL
-        const processedImageUrl = canvas.toDataURL('image/jpeg', 0.9);
-        
-        // Create the captured item
-        const newItem: CapturedItem = {
-          id: Math.random().toString(36).substring(2, 9),
-          type: "image", // Store as image since we're just capturing a frame
-          url: processedImageUrl,
-          timestamp: new Date(),
-        };
-        
-        // Add to captured items
-        setCapturedItems((prev) => [newItem, ...prev]);
-        
-        // Show preview
-        setPreviewItem(newItem);
-        setShowPreviewModal(true);
-        
-        // Clean up
-        URL.revokeObjectURL(videoUrl);
-        
-        toast({
-          title: "Video Processed",
-          description: `Video "${videoFile.name}" has been processed with the current filter settings.`,
-        });
-      };
-      
-      // Start the video to trigger the onseeked event
-      videoEl.play().then(() => {
-        videoEl.pause();
-      }).catch(error => {
-        console.error("Error playing video:", error);
-        toast({
-          title: "Processing Error",
-          description: "Could not process video file. Please try another file.",
-          variant: "destructive"
-        });
-      });
+    setVideoToExport(videoFile);
+  };
+  
+  const handleVideoExported = (
+    videoUrl: string,
+    mimeType: string,
+    hasAudio: boolean,
+    sourceSize: { width: number; height: number }
+  ) => {
+    const newItem: CapturedItem = {
+      id: Math.random().toString(36).substring(2, 9),
+      type: "video",
+      url: videoUrl,
+      mimeType,
+      timestamp: new Date(),
+      source: { type: "uploaded-video", ...sourceSize },
+      filterSettings,
     };
     
-    videoEl.onerror = () => {
-      toast({
-        title: "Video Error",
-        description: "Could not load the video file. Please try another file.",
-        variant: "destructive"
-      });
-      URL.revokeObjectURL(videoUrl);
-    };
+    setCapturedItems((prev) => [newItem, ...prev]);
+    setVideoToExport(null);
+    setPreviewItem(newItem);
+    setShowPreviewModal(true);
+    
+    toast({
+      title: "Video Processed",
+      description: hasAudio
+        ? "Your video has been processed with the current filter settings."
+        : "Your video has been processed with the current filter settings (without audio).",
+    });
   };
 
   return (
@@ -238,7 +249,9 @@ export default function Home() {
                           setIsStreaming(active);
                         }}
                         onCaptureImage={handleCaptureImage}
+                        onCaptureBurst={handleCaptureBurst}
                         filterSettings={filterSettings}
+                        audioReactive={audioReactive}
                       />
                       {!isStreaming && (
                         <div className="absolute bottom-4 left-0 right-0 text-center text-foreground/70 italic text-sm">
@@ -256,6 +269,7 @@ export default function Home() {
                     <ImageUploader
                       onImageFiltered={handleCaptureImage}
                       filterSettings={filterSettings}
+                      initialImage={galleryHandoff?.mode === "edit" ? galleryHandoff.sourceUrl : null}
                     />
                   </div>
                 </TabsContent>
@@ -289,6 +303,7 @@ export default function Home() {
                   onRecordVideo={handleRecordVideo}
                   onStreamingChange={setIsStreaming}
                   filterSettings={filterSettings}
+                  timeline={timeline}
                 />
               )}
             </div>
@@ -298,6 +313,10 @@ export default function Home() {
             <ControlPanel
               filterSettings={filterSettings}
               setFilterSettings={setFilterSettings}
+              timeline={timeline}
+              setTimeline={setTimeline}
+              audioReactive={audioReactive}
+              setAudioReactive={setAudioReactive}
               cameraReady={cameraReady}
               capturedItems={capturedItems}
               onViewItem={handleViewItem}
@@ -316,6 +335,25 @@ export default function Home() {
         />
       )}
       
+      {videoToExport && (
+        <VideoExportDialog
+          file={videoToExport}
+          filterSettings={filterSettings}
+          timeline={timeline}
+          audioReactive={audioReactive}
+          onClose={() => setVideoToExport(null)}
+          onComplete={handleVideoExported}
+        />
+      )}
+      
+      {burst && (
+        <AnimationExportDialog
+          source={{ type: 'frames', frames: burst.frames }}
+          onClose={() => setBurst(null)}
+          onComplete={handleAnimationExported}
+        />
+      )}
+      
       {showHelpModal && (
         <HelpModal onClose={() => setShowHelpModal(false)} />
       )}
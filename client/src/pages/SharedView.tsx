@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { AlertCircle, Loader2, Lock } from 'lucide-react';
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+
+/**
+ * A capture as shown on a share page; URLs are signed and expire
+ */
+type SharedItem = {
+  id: number;
+  mediaType: 'image' | 'video';
+  mimeType: string | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  timestamp: string;
+  mediaUrl: string;
+  thumbnailUrl: string | null;
+};
+
+type PublicShare = {
+  kind: 'media' | 'album';
+  title: string;
+  items: SharedItem[];
+};
+
+type ShareResult =
+  | { state: 'ok'; share: PublicShare }
+  | { state: 'password'; error: string | null } // error is set after a wrong guess
+  | { state: 'gone'; error: string };
+
+/**
+ * Load a share link's content; protected links need the password POSTed
+ * Uses fetch directly, since the page has to tell a locked or dead link from
+ * a failed request.
+ */
+async function fetchShare(token: string, password: string | null): Promise<ShareResult> {
+  const url = `/api/public/shares/${encodeURIComponent(token)}`;
+  const res = password === null
+    ? await fetch(url)
+    : await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+
+  const body = await res.json().catch(() => null);
+  if (res.ok) {
+    return { state: 'ok', share: body };
+  }
+  if (res.status === 401 && body?.passwordRequired) {
+    return { state: 'password', error: password === null ? null : body.error };
+  }
+  // Too many wrong passwords: keep the prompt up and say to wait
+  if (res.status === 429 && body?.passwordRequired) {
+    return { state: 'password', error: body.error };
+  }
+  if (res.status === 404 || res.status === 410) {
+    return { state: 'gone', error: body?.error ?? 'This link is no longer available' };
+  }
+  throw new Error(body?.error ?? res.statusText);
+}
+
+interface SharedViewProps {
+  token: string;
+  embed?: boolean; // Bare layout for iframes
+}
+
+/**
+ * Public, read-only page for a share link
+ */
+export default function SharedView({ token, embed = false }: SharedViewProps) {
+  const [password, setPassword] = useState<string | null>(null);
+  const [openItem, setOpenItem] = useState<SharedItem | null>(null);
+
+  const { data, error, isLoading, isFetching } = useQuery({
+    queryKey: ['/api/public/shares', token, password],
+    queryFn: () => fetchShare(token, password),
+    placeholderData: (previous) => previous,
+  });
+
+  let content: React.ReactNode;
+  if (isLoading) {
+    content = (
+      <div className="flex items-center justify-center flex-1">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  } else if (error || !data || data.state === 'gone') {
+    content = (
+      <Message
+        title="Link unavailable"
+        description={data?.state === 'gone' ? data.error : "This share couldn't be loaded. Try again later."}
+      />
+    );
+  } else if (data.state === 'password') {
+    content = (
+      <PasswordPrompt
+        error={data.error}
+        isChecking={isFetching}
+        onSubmit={setPassword}
+      />
+    );
+  } else if (data.share.kind === 'media' && data.share.items[0]) {
+    content = (
+      <div className="flex items-center justify-center flex-1 min-h-0">
+        <SharedMedia item={data.share.items[0]} className={embed ? 'max-h-screen' : 'max-h-[80vh]'} />
+      </div>
+    );
+  } else {
+    content = (
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-4">
+        {data.share.items.map(item => (
+          <button
+            key={item.id}
+            className="overflow-hidden rounded-md aspect-square bg-muted focus:outline-none focus:ring-2 focus:ring-primary"
+            onClick={() => setOpenItem(item)}
+          >
+            <img
+              src={item.thumbnailUrl ?? item.mediaUrl}
+              alt={`${item.mediaType === 'video' ? 'Video' : 'Photo'} from ${format(new Date(item.timestamp), 'PP')}`}
+              className="object-cover w-full h-full"
+              loading="lazy"
+            />
+          </button>
+        ))}
+        {data.share.items.length === 0 && (
+          <p className="col-span-full py-12 text-center text-muted-foreground">This album is empty.</p>
+        )}
+      </div>
+    );
+  }
+
+  const title = data?.state === 'ok' ? data.share.title : null;
+
+  return (
+    <div className={embed ? 'flex flex-col h-screen p-2 overflow-auto' : 'container flex flex-col min-h-screen px-4 py-6 mx-auto'}>
+      {!embed && (
+        <header className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold truncate">{title ?? 'Shared capture'}</h1>
+          <Button variant="outline" asChild>
+            <Link href="/">Make your own</Link>
+          </Button>
+        </header>
+      )}
+
+      {content}
+
+      {embed && (
+        <a
+          href={`/s/${token}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 text-xs text-right text-muted-foreground hover:underline"
+        >
+          {title ? `${title} · ` : ''}Filtercamera.app
+        </a>
+      )}
+
+      <Dialog open={!!openItem} onOpenChange={(open) => !open && setOpenItem(null)}>
+        <DialogContent className="max-w-5xl p-2">
+          {openItem && <SharedMedia item={openItem} className="max-h-[85vh]" />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function SharedMedia({ item, className }: { item: SharedItem; className: string }) {
+  if (item.mediaType === 'video') {
+    return <video src={item.mediaUrl} poster={item.thumbnailUrl ?? undefined} controls className={`object-contain w-full ${className}`} />;
+  }
+  return (
+    <img
+      src={item.mediaUrl}
+      alt={`Photo from ${format(new Date(item.timestamp), 'PP')}`}
+      className={`object-contain w-full ${className}`}
+    />
+  );
+}
+
+interface PasswordPromptProps {
+  error: string | null;
+  isChecking: boolean;
+  onSubmit: (password: string) => void;
+}
+
+function PasswordPrompt({ error, isChecking, onSubmit }: PasswordPromptProps) {
+  const [value, setValue] = useState('');
+
+  return (
+    <div className="flex items-center justify-center flex-1">
+      <Card className="w-full max-w-sm">
+        <CardContent className="pt-6">
+          <form
+            className="space-y-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (value) onSubmit(value);
+            }}
+          >
+            <div className="flex items-center gap-2">
+              <Lock className="w-5 h-5 text-muted-foreground" />
+              <h2 className="font-semibold">This link is password-protected</h2>
+            </div>
+            <Input
+              type="password"
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+              placeholder="Password"
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={!value || isChecking}>
+              {isChecking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              View
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function Message({ title, description }: { title: string; description: string }) {
+  return (
+    <div className="flex items-center justify-center flex-1">
+      <Card className="w-full max-w-md">
+        <CardContent className="pt-6">
+          <div className="flex gap-2 mb-2">
+            <AlertCircle className="w-6 h-6 text-muted-foreground" />
+            <h2 className="text-lg font-semibold">{title}</h2>
+          </div>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
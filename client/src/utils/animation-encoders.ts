@@ -0,0 +1,765 @@
+/**
+ * Looping animation encoders: GIF, APNG and an animated WebP muxer
+ * Frames are quantized onto one shared palette first, so halftone output
+ * (mostly two or a handful of flat colors) stays crisp and compresses well.
+ * Only the part of each frame that changed is stored, and frames identical
+ * to the previous one are merged into its delay.
+ */
+
+export type PaletteMode = 'full' | 'auto' | 'grayscale' | '1-bit';
+
+export type PaletteOptions = {
+  mode: PaletteMode;
+  colors: number; // Palette size for 'auto', number of gray levels for 'grayscale'
+};
+
+/**
+ * One frame of an animation; delay is in milliseconds
+ */
+export type AnimationFrame = {
+  imageData: ImageData;
+  delay: number;
+};
+
+/**
+ * One already-encoded WebP image (RIFF file) to become an animation frame
+ */
+export type WebpFrame = {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  delay: number;
+};
+
+type IndexedFrames = {
+  palette: Uint8Array; // RGB triplets
+  frames: Uint8Array[]; // One palette index per pixel
+};
+
+type Region = { x: number; y: number; width: number; height: number };
+
+// Pixels sampled per frame when building an adaptive palette
+const PALETTE_SAMPLES_PER_FRAME = 65536;
+
+/* Byte helpers */
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function le16(value: number): Uint8Array {
+  return Uint8Array.of(value & 0xff, (value >> 8) & 0xff);
+}
+
+function le24(value: number): Uint8Array {
+  return Uint8Array.of(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff);
+}
+
+function le32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0, true);
+  return bytes;
+}
+
+function be16(value: number): Uint8Array {
+  return Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+}
+
+function be32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+}
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, character => character.charCodeAt(0) & 0x7f);
+}
+
+/* Palette */
+
+function luminance(r: number, g: number, b: number): number {
+  return (r + g + b) / 3;
+}
+
+/**
+ * Evenly spaced gray ramp from black to white
+ */
+function grayscalePalette(levels: number): Uint8Array {
+  const palette = new Uint8Array(levels * 3);
+  for (let i = 0; i < levels; i++) {
+    palette.fill(Math.round((i * 255) / (levels - 1)), i * 3, i * 3 + 3);
+  }
+  return palette;
+}
+
+/**
+ * Ink and paper: the most common dark and most common light color
+ * Falls back to black or white when the frames have no pixels on one side.
+ */
+function twoTonePalette(frames: ImageData[]): Uint8Array {
+  const dark = new Map<number, number>();
+  const light = new Map<number, number>();
+
+  for (const frame of frames) {
+    const data = frame.data;
+    const step = Math.max(1, Math.floor(data.length / 4 / PALETTE_SAMPLES_PER_FRAME)) * 4;
+    for (let i = 0; i < data.length; i += step) {
+      const color = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      const counts = luminance(data[i], data[i + 1], data[i + 2]) < 128 ? dark : light;
+      counts.set(color, (counts.get(color) ?? 0) + 1);
+    }
+  }
+
+  const mostCommon = (counts: Map<number, number>, fallback: number): number => {
+    let best = fallback;
+    let bestCount = 0;
+    counts.forEach((count, color) => {
+      if (count > bestCount) {
+        best = color;
+        bestCount = count;
+      }
+    });
+    return best;
+  };
+
+  const ink = mostCommon(dark, 0x000000);
+  const paper = mostCommon(light, 0xffffff);
+  return Uint8Array.of(ink >> 16, (ink >> 8) & 0xff, ink & 0xff, paper >> 16, (paper >> 8) & 0xff, paper & 0xff);
+}
+
+/**
+ * Every distinct color in the frames, or null when there are more than maxColors
+ */
+function exactPalette(frames: ImageData[], maxColors: number): Uint8Array | null {
+  const colors = new Set<number>();
+  let last = -1;
+
+  for (const frame of frames) {
+    const data = frame.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const color = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      if (color === last) continue;
+      last = color;
+      colors.add(color);
+      if (colors.size > maxColors) return null;
+    }
+  }
+
+  const palette = new Uint8Array(colors.size * 3);
+  let offset = 0;
+  colors.forEach(color => {
+    palette[offset++] = color >> 16;
+    palette[offset++] = (color >> 8) & 0xff;
+    palette[offset++] = color & 0xff;
+  });
+  return palette;
+}
+
+/**
+ * Median cut over a 15-bit color histogram of all frames
+ */
+function medianCutPalette(frames: ImageData[], maxColors: number): Uint8Array {
+  const counts = new Float64Array(32768);
+  const sums = new Float64Array(32768 * 3);
+
+  for (const frame of frames) {
+    const data = frame.data;
+    const step = Math.max(1, Math.floor(data.length / 4 / PALETTE_SAMPLES_PER_FRAME)) * 4;
+    for (let i = 0; i < data.length; i += step) {
+      const bin = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+      counts[bin]++;
+      sums[bin * 3] += data[i];
+      sums[bin * 3 + 1] += data[i + 1];
+      sums[bin * 3 + 2] += data[i + 2];
+    }
+  }
+
+  const bins: number[] = [];
+  for (let bin = 0; bin < counts.length; bin++) {
+    if (counts[bin] > 0) bins.push(bin);
+  }
+
+  const channel = (bin: number, axis: number): number => (bin >> (10 - axis * 5)) & 31;
+  const describe = (box: number[]) => {
+    let population = 0;
+    let widestAxis = 0;
+    let widestRange = -1;
+    for (let axis = 0; axis < 3; axis++) {
+      let low = 31, high = 0;
+      for (const bin of box) {
+        const value = channel(bin, axis);
+        if (value < low) low = value;
+        if (value > high) high = value;
+      }
+      if (high - low > widestRange) {
+        widestRange = high - low;
+        widestAxis = axis;
+      }
+    }
+    for (const bin of box) population += counts[bin];
+    return { bins: box, population, widestAxis, widestRange };
+  };
+
+  const boxes = [describe(bins)];
+  while (boxes.length < maxColors) {
+    // Split the box that covers the most pixels over the widest span
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      const score = box.population * box.widestRange;
+      if (box.bins.length > 1 && score > bestScore) {
+        bestScore = score;
+        target = index;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const sorted = box.bins.slice().sort((a, b) => channel(a, box.widestAxis) - channel(b, box.widestAxis));
+    let seen = 0;
+    let split = 1;
+    for (; split < sorted.length - 1; split++) {
+      seen += counts[sorted[split - 1]];
+      if (seen >= box.population / 2) break;
+    }
+    boxes.splice(target, 1, describe(sorted.slice(0, split)), describe(sorted.slice(split)));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    for (let c = 0; c < 3; c++) {
+      let total = 0;
+      for (const bin of box.bins) total += sums[bin * 3 + c];
+      palette[index * 3 + c] = Math.round(total / box.population);
+    }
+  });
+  return palette;
+}
+
+function nearestColor(palette: Uint8Array, r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i += 3) {
+    const dr = r - palette[i];
+    const dg = g - palette[i + 1];
+    const db = b - palette[i + 2];
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i / 3;
+    }
+  }
+  return best;
+}
+
+/**
+ * Quantize every frame onto one shared palette of at most 256 colors
+ * No dithering: halftone dots are already a spatial dither, and adding
+ * noise to them would only blur their edges and bloat the file.
+ */
+function quantizeFrames(frames: ImageData[], options: PaletteOptions): IndexedFrames {
+  const maxColors = Math.max(2, Math.min(256, Math.round(options.colors)));
+
+  if (options.mode === 'grayscale' || options.mode === '1-bit') {
+    const levels = options.mode === '1-bit' ? 2 : maxColors;
+    const palette = options.mode === '1-bit' ? twoTonePalette(frames) : grayscalePalette(levels);
+    // 1-bit splits halfway between ink and paper, so tinted two-tone halftones keep their colors
+    const low = luminance(palette[0], palette[1], palette[2]);
+    const high = luminance(palette[3 * (levels - 1)], palette[3 * (levels - 1) + 1], palette[3 * (levels - 1) + 2]);
+    const scale = high > low ? (levels - 1) / (high - low) : 0;
+
+    return {
+      palette,
+      frames: frames.map(frame => {
+        const data = frame.data;
+        const indices = new Uint8Array(frame.width * frame.height);
+        for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+          const level = Math.round((luminance(data[i], data[i + 1], data[i + 2]) - low) * scale);
+          indices[p] = Math.max(0, Math.min(levels - 1, level));
+        }
+        return indices;
+      }),
+    };
+  }
+
+  const exact = exactPalette(frames, maxColors);
+  const palette = exact ?? medianCutPalette(frames, maxColors);
+
+  const exactIndex = new Map<number, number>();
+  if (exact) {
+    for (let i = 0; i < exact.length; i += 3) {
+      exactIndex.set((exact[i] << 16) | (exact[i + 1] << 8) | exact[i + 2], i / 3);
+    }
+  }
+  // Nearest palette entry per 15-bit color, filled in as colors turn up
+  const binIndex = new Int16Array(32768).fill(-1);
+
+  return {
+    palette,
+    frames: frames.map(frame => {
+      const data = frame.data;
+      const indices = new Uint8Array(frame.width * frame.height);
+      for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+        if (exact) {
+          indices[p] = exactIndex.get((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]) ?? 0;
+          continue;
+        }
+        const bin = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+        if (binIndex[bin] < 0) {
+          binIndex[bin] = nearestColor(palette, data[i], data[i + 1], data[i + 2]);
+        }
+        indices[p] = binIndex[bin];
+      }
+      return indices;
+    }),
+  };
+}
+
+/**
+ * Frames redrawn with their quantized colors, for encoders that take RGBA
+ */
+export function applyPalette(frames: AnimationFrame[], options: PaletteOptions): AnimationFrame[] {
+  if (options.mode === 'full' || frames.length === 0) return frames;
+
+  const { palette, frames: indexed } = quantizeFrames(frames.map(frame => frame.imageData), options);
+  return frames.map((frame, index) => {
+    const { width, height } = frame.imageData;
+    const data = new Uint8ClampedArray(width * height * 4);
+    const indices = indexed[index];
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      const color = indices[p] * 3;
+      data[i] = palette[color];
+      data[i + 1] = palette[color + 1];
+      data[i + 2] = palette[color + 2];
+      data[i + 3] = 255;
+    }
+    return { imageData: new ImageData(data, width, height), delay: frame.delay };
+  });
+}
+
+/* Frame differencing */
+
+/**
+ * Bounding box of the pixels that differ between two frames, or null if none do
+ */
+function changedRegion(
+  current: ArrayLike<number>,
+  previous: ArrayLike<number>,
+  width: number,
+  height: number
+): Region | null {
+  let top = -1, bottom = -1, left = width, right = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let first = -1, last = -1;
+    for (let x = 0; x < width; x++) {
+      if (current[row + x] !== previous[row + x]) {
+        if (first < 0) first = x;
+        last = x;
+      }
+    }
+    if (first < 0) continue;
+
+    if (top < 0) top = y;
+    bottom = y;
+    if (first < left) left = first;
+    if (last > right) right = last;
+  }
+
+  if (top < 0) return null;
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * Regions to store per frame, folding unchanged frames into the previous delay
+ * `pixels` gives one comparable value per pixel (a palette index or packed RGBA).
+ */
+function planFrameUpdates(
+  pixels: ArrayLike<number>[],
+  delays: number[],
+  width: number,
+  height: number
+): { index: number; region: Region; delay: number }[] {
+  const updates: { index: number; region: Region; delay: number }[] = [];
+
+  pixels.forEach((frame, index) => {
+    const region = index === 0
+      ? { x: 0, y: 0, width, height }
+      : changedRegion(frame, pixels[index - 1], width, height);
+
+    if (region) {
+      updates.push({ index, region, delay: delays[index] });
+    } else {
+      updates[updates.length - 1].delay += delays[index];
+    }
+  });
+  return updates;
+}
+
+function cropIndices(indices: Uint8Array, width: number, region: Region): Uint8Array {
+  if (region.width === width && region.x === 0) {
+    return indices.subarray(region.y * width, (region.y + region.height) * width);
+  }
+  const cropped = new Uint8Array(region.width * region.height);
+  for (let y = 0; y < region.height; y++) {
+    const start = (region.y + y) * width + region.x;
+    cropped.set(indices.subarray(start, start + region.width), y * region.width);
+  }
+  return cropped;
+}
+
+/* GIF */
+
+/**
+ * GIF LZW compression with variable-width codes, up to 12 bits
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  const dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+  let buffer = 0;
+  let bufferBits = 0;
+
+  const write = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+
+  for (let i = 1; i < indices.length; i++) {
+    const next = indices[i];
+    const key = (prefix << 8) | next;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    write(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      // Table full: start over rather than keep coding with stale entries
+      write(clearCode);
+      dictionary.clear();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = next;
+  }
+
+  write(prefix);
+  write(endCode);
+  if (bufferBits > 0) output.push(buffer & 0xff);
+  return Uint8Array.from(output);
+}
+
+/**
+ * Split data into the length-prefixed sub-blocks GIF uses, plus the terminator
+ */
+function gifSubBlocks(data: Uint8Array): Uint8Array {
+  const blocks = new Uint8Array(data.length + Math.ceil(data.length / 255) + 1);
+  let offset = 0;
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    blocks[offset++] = block.length;
+    blocks.set(block, offset);
+    offset += block.length;
+  }
+  blocks[offset] = 0;
+  return blocks;
+}
+
+/**
+ * Encode frames as a GIF89a with one global color table
+ * GIF delays are in hundredths of a second, so each frame's delay is rounded
+ * on the running total to keep the overall timing exact.
+ */
+export function encodeGif(frames: AnimationFrame[], options: PaletteOptions, loop: boolean): Blob {
+  if (frames.length === 0) throw new Error('An animation needs at least one frame');
+
+  const { width, height } = frames[0].imageData;
+  // GIF has no true color, so 'full' falls back to the largest adaptive palette
+  const paletteOptions = options.mode === 'full' ? { mode: 'auto' as const, colors: 256 } : options;
+  const { palette, frames: indexed } = quantizeFrames(frames.map(frame => frame.imageData), paletteOptions);
+
+  // The color table holds a power of two entries, at least 2
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+  const colorTable = new Uint8Array(3 << tableBits);
+  colorTable.set(palette);
+  const minCodeSize = Math.max(2, tableBits);
+
+  let elapsed = 0;
+  const delays = frames.map(frame => {
+    const start = Math.round(elapsed / 10);
+    elapsed += frame.delay;
+    return Math.round(elapsed / 10) - start;
+  });
+
+  const parts: Uint8Array[] = [
+    ascii('GIF89a'),
+    le16(width),
+    le16(height),
+    Uint8Array.of(0x80 | ((tableBits - 1) << 4) | (tableBits - 1), 0, 0),
+    colorTable,
+  ];
+
+  if (loop) {
+    // NETSCAPE2.0 application extension; a loop count of 0 repeats forever
+    parts.push(Uint8Array.of(0x21, 0xff, 11), ascii('NETSCAPE2.0'), Uint8Array.of(3, 1, 0, 0, 0));
+  }
+
+  for (const { index, region, delay } of planFrameUpdates(indexed, delays, width, height)) {
+    // Graphic control extension: keep the previous frame under this one (disposal 1)
+    parts.push(Uint8Array.of(0x21, 0xf9, 4, 1 << 2), le16(Math.min(0xffff, delay)), Uint8Array.of(0, 0));
+    parts.push(
+      Uint8Array.of(0x2c),
+      le16(region.x),
+      le16(region.y),
+      le16(region.width),
+      le16(region.height),
+      Uint8Array.of(0),
+      Uint8Array.of(minCodeSize),
+      gifSubBlocks(lzwEncode(cropIndices(indexed[index], width, region), minCodeSize))
+    );
+  }
+
+  parts.push(Uint8Array.of(0x3b));
+  return new Blob([concat(parts)], { type: 'image/gif' });
+}
+
+/* APNG */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(parts: Uint8Array[]): number {
+  let crc = 0xffffffff;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) {
+      crc = CRC_TABLE[(crc ^ part[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, ...data: Uint8Array[]): Uint8Array {
+  const typeBytes = ascii(type);
+  const body = concat(data);
+  return concat([be32(body.length), typeBytes, body, be32(crc32([typeBytes, body]))]);
+}
+
+/**
+ * zlib-wrapped deflate, as IDAT and fdAT expect
+ */
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Unfiltered scanlines of a region, packing palette indices to the bit depth
+ */
+function pngScanlines(
+  pixels: Uint8Array,
+  stride: number,
+  region: Region,
+  bytesPerPixel: number,
+  bitDepth: number
+): Uint8Array {
+  const rowBytes = bitDepth < 8
+    ? Math.ceil((region.width * bitDepth) / 8)
+    : region.width * bytesPerPixel;
+  const output = new Uint8Array((rowBytes + 1) * region.height);
+
+  for (let y = 0; y < region.height; y++) {
+    // Each row starts with its filter type, 0 (none)
+    const rowStart = y * (rowBytes + 1) + 1;
+    const source = ((region.y + y) * stride + region.x) * bytesPerPixel;
+
+    if (bitDepth < 8) {
+      const perByte = 8 / bitDepth;
+      for (let x = 0; x < region.width; x++) {
+        const shift = 8 - bitDepth * ((x % perByte) + 1);
+        output[rowStart + Math.floor(x / perByte)] |= pixels[source + x] << shift;
+      }
+    } else {
+      output.set(pixels.subarray(source, source + rowBytes), rowStart);
+    }
+  }
+  return output;
+}
+
+/**
+ * Encode frames as an animated PNG
+ * Quantized palettes become an indexed PNG at the smallest bit depth that fits
+ * (1-bit halftones pack eight pixels per byte); 'full' stores 24-bit RGB.
+ */
+export async function encodeApng(frames: AnimationFrame[], options: PaletteOptions, loop: boolean): Promise<Blob> {
+  if (frames.length === 0) throw new Error('An animation needs at least one frame');
+
+  const { width, height } = frames[0].imageData;
+  let palette: Uint8Array | null = null;
+  let pixels: Uint8Array[];
+  let comparable: ArrayLike<number>[];
+  let bitDepth = 8;
+
+  if (options.mode === 'full') {
+    pixels = frames.map(frame => {
+      const data = frame.imageData.data;
+      const rgb = new Uint8Array(width * height * 3);
+      for (let p = 0, i = 0; i < data.length; p += 3, i += 4) {
+        rgb[p] = data[i];
+        rgb[p + 1] = data[i + 1];
+        rgb[p + 2] = data[i + 2];
+      }
+      return rgb;
+    });
+    comparable = frames.map(frame => new Uint32Array(frame.imageData.data.buffer, frame.imageData.data.byteOffset, width * height));
+  } else {
+    const quantized = quantizeFrames(frames.map(frame => frame.imageData), options);
+    palette = quantized.palette;
+    pixels = quantized.frames;
+    comparable = pixels;
+    const colors = palette.length / 3;
+    bitDepth = colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8;
+  }
+
+  const bytesPerPixel = palette ? 1 : 3;
+  const plan = planFrameUpdates(comparable, frames.map(frame => frame.delay), width, height);
+
+  const parts: Uint8Array[] = [
+    Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+    pngChunk('IHDR', be32(width), be32(height), Uint8Array.of(bitDepth, palette ? 3 : 2, 0, 0, 0)),
+  ];
+  if (palette) parts.push(pngChunk('PLTE', palette));
+  parts.push(pngChunk('acTL', be32(plan.length), be32(loop ? 0 : 1)));
+
+  let sequence = 0;
+  for (let step = 0; step < plan.length; step++) {
+    const { index, region, delay } = plan[step];
+    parts.push(pngChunk(
+      'fcTL',
+      be32(sequence++),
+      be32(region.width),
+      be32(region.height),
+      be32(region.x),
+      be32(region.y),
+      be16(Math.min(0xffff, Math.round(delay))),
+      be16(1000),
+      // Leave the frame in place and replace (not blend) the pixels it covers
+      Uint8Array.of(0, 0)
+    ));
+
+    const compressed = await deflate(pngScanlines(pixels[index], width, region, bytesPerPixel, bitDepth));
+    if (step === 0) {
+      parts.push(pngChunk('IDAT', compressed));
+    } else {
+      parts.push(pngChunk('fdAT', be32(sequence++), compressed));
+    }
+  }
+
+  parts.push(pngChunk('IEND'));
+  return new Blob([concat(parts)], { type: 'image/apng' });
+}
+
+/* WebP */
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  // Chunk payloads are padded to an even length
+  const padding = data.length % 2 ? Uint8Array.of(0) : new Uint8Array(0);
+  return concat([ascii(type), le32(data.length), data, padding]);
+}
+
+/**
+ * Image chunks (ALPH, VP8 or VP8L) of a still WebP file
+ */
+function webpImageChunks(file: Uint8Array): { chunks: Uint8Array[]; hasAlpha: boolean } {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const decoder = new TextDecoder('ascii');
+  if (decoder.decode(file.subarray(0, 4)) !== 'RIFF' || decoder.decode(file.subarray(8, 12)) !== 'WEBP') {
+    throw new Error('Not a WebP image');
+  }
+
+  const chunks: Uint8Array[] = [];
+  let hasAlpha = false;
+  for (let offset = 12; offset + 8 <= file.length;) {
+    const type = decoder.decode(file.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      chunks.push(file.subarray(offset, Math.min(end, file.length)));
+      // VP8L keeps alpha inline; its header has an alpha-is-used bit
+      if (type === 'ALPH' || (type === 'VP8L' && (file[offset + 12] & 0x10))) hasAlpha = true;
+    }
+    offset = end;
+  }
+
+  if (chunks.length === 0) throw new Error('WebP image has no image data');
+  return { chunks, hasAlpha };
+}
+
+/**
+ * Combine still WebP images into one animated WebP
+ */
+export function muxAnimatedWebp(frames: WebpFrame[], loop: boolean): Blob {
+  if (frames.length === 0) throw new Error('An animation needs at least one frame');
+
+  const width = Math.max(...frames.map(frame => frame.width));
+  const height = Math.max(...frames.map(frame => frame.height));
+  let hasAlpha = false;
+
+  const frameChunks = frames.map(frame => {
+    const image = webpImageChunks(frame.data);
+    hasAlpha ||= image.hasAlpha;
+    return riffChunk('ANMF', concat([
+      le24(0),
+      le24(0),
+      le24(frame.width - 1),
+      le24(frame.height - 1),
+      le24(Math.min(0xffffff, Math.round(frame.delay))),
+      // Overwrite instead of alpha-blending onto the previous frame
+      Uint8Array.of(0x02),
+      ...image.chunks,
+    ]));
+  });
+
+  const header = riffChunk('VP8X', concat([
+    Uint8Array.of(0x02 | (hasAlpha ? 0x10 : 0), 0, 0, 0),
+    le24(width - 1),
+    le24(height - 1),
+  ]));
+  // Background color (BGRA) the viewer may clear to, then the loop count
+  const animation = riffChunk('ANIM', concat([Uint8Array.of(0, 0, 0, 0), le16(loop ? 0 : 1)]));
+
+  const body = concat([ascii('WEBP'), header, animation, ...frameChunks]);
+  return new Blob([concat([ascii('RIFF'), le32(body.length), body])], { type: 'image/webp' });
+}
@@ -0,0 +1,220 @@
+import {
+  applyPalette,
+  encodeApng,
+  encodeGif,
+  muxAnimatedWebp,
+  type AnimationFrame,
+  type PaletteOptions,
+  type WebpFrame,
+} from "@/utils/animation-encoders";
+import { loadVideoMetadata, seekTo } from "@/utils/video-export";
+
+export type AnimationFormat = 'gif' | 'apng' | 'webp';
+
+export type AnimationExportOptions = {
+  format: AnimationFormat;
+  palette: PaletteOptions;
+  loop: boolean;
+};
+
+export type VideoCaptureOptions = {
+  start: number; // Seconds
+  end: number; // Seconds
+  fps: number;
+  width: number | null; // Output width; null keeps the source size
+};
+
+export const ANIMATION_MIME_TYPES: Record<AnimationFormat, string> = {
+  gif: 'image/gif',
+  apng: 'image/apng',
+  webp: 'image/webp',
+};
+
+// GIF delays are in hundredths of a second and browsers slow anything under
+// 2/100 down, so frame rates stop at 25
+export const ANIMATION_FRAME_RATES = [5, 10, 12, 15, 20, 25];
+export const ANIMATION_WIDTHS = [640, 480, 320, 240];
+
+// Every frame is held uncompressed until encoding, so clips stay short
+export const MAX_ANIMATION_FRAMES = 150;
+
+function abortError(): DOMException {
+  return new DOMException('Export cancelled', 'AbortError');
+}
+
+/**
+ * Animation formats this browser can produce
+ * GIF and APNG are encoded here; WebP frames come from the canvas encoder,
+ * which some browsers (Safari) don't have.
+ */
+export function getSupportedAnimationFormats(): AnimationFormat[] {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  const hasWebp = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  return hasWebp ? ['gif', 'apng', 'webp'] : ['gif', 'apng'];
+}
+
+/**
+ * Output size for a target width, keeping the aspect ratio; never upscales
+ */
+export function getAnimationSize(sourceWidth: number, sourceHeight: number, width: number | null): { width: number; height: number } {
+  const scale = width ? Math.min(1, width / sourceWidth) : 1;
+  return {
+    width: Math.max(1, Math.round(sourceWidth * scale)),
+    height: Math.max(1, Math.round(sourceHeight * scale)),
+  };
+}
+
+/**
+ * Delay (ms) of one frame, rounded on the running total so the clip length stays exact
+ */
+function frameDelay(frame: number, fps: number): number {
+  return Math.round(((frame + 1) * 1000) / fps) - Math.round((frame * 1000) / fps);
+}
+
+/**
+ * Grab frames from a recorded clip at a fixed rate
+ * The clip is already filtered, so frames are taken as they are. At most
+ * MAX_ANIMATION_FRAMES are read; `onProgress` gets 0-1.
+ */
+export async function captureVideoFrames(
+  url: string,
+  options: VideoCaptureOptions,
+  onProgress: (progress: number) => void,
+  signal: AbortSignal
+): Promise<AnimationFrame[]> {
+  const video = await loadVideoMetadata(url);
+  const start = Math.max(0, Math.min(options.start, video.duration));
+  const end = Math.max(start, Math.min(options.end, video.duration));
+  const frameCount = Math.min(MAX_ANIMATION_FRAMES, Math.max(1, Math.round((end - start) * options.fps)));
+  const { width, height } = getAnimationSize(video.videoWidth, video.videoHeight, options.width);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not initialize canvas context for animation export');
+  }
+
+  const frames: AnimationFrame[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (signal.aborted) throw abortError();
+
+    // Sample the middle of each output frame, as the video export does
+    const time = Math.min(start + (frame + 0.5) / options.fps, video.duration - 0.001);
+    await seekTo(video, time, signal);
+
+    ctx.drawImage(video, 0, 0, width, height);
+    frames.push({ imageData: ctx.getImageData(0, 0, width, height), delay: frameDelay(frame, options.fps) });
+    onProgress((frame + 1) / frameCount);
+  }
+
+  return frames;
+}
+
+/**
+ * Record a burst of frames from a live canvas, e.g. the filtered camera view
+ */
+export function captureCanvasFrames(
+  canvas: HTMLCanvasElement,
+  options: { fps: number; frameCount: number; width: number | null },
+  signal?: AbortSignal
+): Promise<AnimationFrame[]> {
+  const frameCount = Math.min(MAX_ANIMATION_FRAMES, Math.max(1, options.frameCount));
+  const { width, height } = getAnimationSize(canvas.width, canvas.height, options.width);
+
+  const frameCanvas = document.createElement('canvas');
+  frameCanvas.width = width;
+  frameCanvas.height = height;
+  const ctx = frameCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    return Promise.reject(new Error('Could not initialize canvas context for animation capture'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const frames: AnimationFrame[] = [];
+    const startTime = performance.now();
+    let timer: ReturnType<typeof setTimeout>;
+
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const grab = () => {
+      const frame = frames.length;
+      ctx.drawImage(canvas, 0, 0, width, height);
+      frames.push({ imageData: ctx.getImageData(0, 0, width, height), delay: frameDelay(frame, options.fps) });
+
+      if (frames.length === frameCount) {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve(frames);
+        return;
+      }
+      // Schedule against the start time so slow grabs don't stretch the burst
+      const nextTime = startTime + ((frame + 1) * 1000) / options.fps;
+      timer = setTimeout(grab, Math.max(0, nextTime - performance.now()));
+    };
+    grab();
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode the frame'))),
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Encode frames one by one with the browser's WebP encoder, then mux them
+ */
+async function encodeWebp(frames: AnimationFrame[], palette: PaletteOptions, loop: boolean, signal?: AbortSignal): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not initialize canvas context for animation export');
+  }
+
+  const webpFrames: WebpFrame[] = [];
+  for (const frame of applyPalette(frames, palette)) {
+    if (signal?.aborted) throw abortError();
+
+    const { width, height } = frame.imageData;
+    canvas.width = width;
+    canvas.height = height;
+    ctx.putImageData(frame.imageData, 0, 0);
+
+    // Chromium switches to lossless WebP at quality 1, which suits flat halftone colors
+    const blob = await canvasToBlob(canvas, 'image/webp', 1);
+    if (blob.type !== 'image/webp') {
+      throw new Error("This browser can't encode WebP images");
+    }
+    webpFrames.push({ data: new Uint8Array(await blob.arrayBuffer()), width, height, delay: frame.delay });
+  }
+
+  return muxAnimatedWebp(webpFrames, loop);
+}
+
+/**
+ * Encode captured frames as a looping (or play-once) animation
+ */
+export async function encodeAnimation(
+  frames: AnimationFrame[],
+  options: AnimationExportOptions,
+  signal?: AbortSignal
+): Promise<Blob> {
+  switch (options.format) {
+    case 'gif':
+      return encodeGif(frames, options.palette, options.loop);
+    case 'apng':
+      return encodeApng(frames, options.palette, options.loop);
+    case 'webp':
+      return encodeWebp(frames, options.palette, options.loop, signal);
+  }
+}
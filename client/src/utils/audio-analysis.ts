@@ -0,0 +1,74 @@
+import { AUDIO_WINDOW_SIZE, analyzeWindow, type AudioBands } from "@shared/audio-reactive";
+
+/**
+ * A running sound source that can be sampled once per rendered frame
+ */
+export type LiveAudioAnalysis = {
+  read: (sensitivity: number) => AudioBands;
+  stop: () => void;
+};
+
+/**
+ * Listen to the microphone
+ * Samples go through the shared analysis rather than the AnalyserNode's own
+ * FFT, so live results match what an export would compute.
+ */
+export async function startMicrophoneAnalysis(): Promise<LiveAudioAnalysis> {
+  if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+    throw new Error("Your browser doesn't support microphone access");
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    // Processing meant for calls flattens exactly the dynamics we want to follow
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    video: false,
+  });
+
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = AUDIO_WINDOW_SIZE;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(AUDIO_WINDOW_SIZE);
+
+  return {
+    read: (sensitivity) => {
+      analyser.getFloatTimeDomainData(samples);
+      return analyzeWindow(samples, context.sampleRate, sensitivity);
+    },
+    stop: () => {
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+    },
+  };
+}
+
+/**
+ * Band levels for every output frame of a decoded clip
+ * Each window is centered on the middle of its frame, the same point the
+ * video export samples pictures at. Channels are averaged to mono.
+ */
+export function analyzeAudioFrames(audio: AudioBuffer, fps: number, frameCount: number, sensitivity: number): AudioBands[] {
+  const mono = new Float32Array(audio.length);
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel);
+    for (let i = 0; i < audio.length; i++) {
+      mono[i] += data[i] / audio.numberOfChannels;
+    }
+  }
+
+  const frames: AudioBands[] = [];
+  const window = new Float32Array(AUDIO_WINDOW_SIZE);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const center = Math.round(((frame + 0.5) / fps) * audio.sampleRate);
+    const first = center - AUDIO_WINDOW_SIZE / 2;
+
+    // Past either end of the clip counts as silence
+    window.fill(0);
+    const from = Math.max(0, first);
+    const to = Math.min(mono.length, first + AUDIO_WINDOW_SIZE);
+    if (to > from) window.set(mono.subarray(from, to), from - first);
+
+    frames.push(analyzeWindow(window, audio.sampleRate, sensitivity));
+  }
+  return frames;
+}
@@ -0,0 +1,176 @@
+import { bufferSourceToBytes, type MuxerAudioTrack, type MuxerSample } from "@/utils/video-muxers";
+
+/*
+ * WebCodecs audio types, declared here until the TypeScript DOM lib ships them
+ */
+declare global {
+  interface AudioDataInit {
+    format: 'f32-planar';
+    sampleRate: number;
+    numberOfFrames: number;
+    numberOfChannels: number;
+    timestamp: number;
+    data: BufferSource;
+  }
+
+  interface AudioData {
+    close(): void;
+  }
+
+  var AudioData: {
+    prototype: AudioData;
+    new(init: AudioDataInit): AudioData;
+  };
+
+  interface EncodedAudioChunk {
+    readonly timestamp: number;
+    readonly duration: number | null;
+    readonly byteLength: number;
+    copyTo(destination: BufferSource): void;
+  }
+
+  interface AudioEncoderConfig {
+    codec: string;
+    sampleRate: number;
+    numberOfChannels: number;
+    bitrate?: number;
+  }
+
+  interface AudioEncoderInit {
+    output(chunk: EncodedAudioChunk, metadata?: { decoderConfig?: { description?: BufferSource } }): void;
+    error(error: DOMException): void;
+  }
+
+  interface AudioEncoder {
+    readonly state: CodecState;
+    readonly encodeQueueSize: number;
+    configure(config: AudioEncoderConfig): void;
+    encode(data: AudioData): void;
+    flush(): Promise<void>;
+    close(): void;
+  }
+
+  var AudioEncoder: {
+    prototype: AudioEncoder;
+    new(init: AudioEncoderInit): AudioEncoder;
+    isConfigSupported(config: AudioEncoderConfig): Promise<{ supported?: boolean }>;
+  } | undefined;
+}
+
+export type AudioCodec = 'opus' | 'mp4a.40.2';
+
+// Opus only runs at 48 kHz internally, and AAC handles it too, so audio is always resampled to it
+export const AUDIO_SAMPLE_RATE = 48000;
+
+const AUDIO_BITRATE = 128000;
+
+// Frames handed to the encoder per AudioData (100 ms)
+const AUDIO_BLOCK_FRAMES = 4800;
+
+export async function isAudioCodecSupported(codec: AudioCodec): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const support = await AudioEncoder.isConfigSupported({
+      codec,
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfChannels: 2,
+      bitrate: AUDIO_BITRATE,
+    });
+    return !!support.supported;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decode a media file's audio and cut it to [start, end) seconds
+ * Returns null when the file has no audio track the browser can decode.
+ */
+export async function decodeAudioTrack(file: Blob, start: number, end: number): Promise<AudioBuffer | null> {
+  const context = new OfflineAudioContext(2, 1, AUDIO_SAMPLE_RATE);
+
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    return null;
+  }
+
+  // Stereo at most; extra channels are dropped rather than downmixed
+  const channels = Math.min(2, decoded.numberOfChannels);
+  const first = Math.floor(start * AUDIO_SAMPLE_RATE);
+  const last = Math.min(decoded.length, Math.ceil(end * AUDIO_SAMPLE_RATE));
+  if (last <= first) return null;
+
+  const trimmed = new AudioBuffer({ numberOfChannels: channels, length: last - first, sampleRate: AUDIO_SAMPLE_RATE });
+  for (let channel = 0; channel < channels; channel++) {
+    trimmed.copyToChannel(decoded.getChannelData(channel).subarray(first, last), channel);
+  }
+  return trimmed;
+}
+
+/**
+ * Encode PCM audio into a muxer track
+ */
+export async function encodeAudio(
+  buffer: AudioBuffer,
+  codec: AudioCodec,
+  signal?: AbortSignal
+): Promise<MuxerAudioTrack> {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error('Audio encoding is not supported in this browser');
+  }
+
+  const samples: MuxerSample[] = [];
+  let description: Uint8Array | undefined;
+  let encoderError: DOMException | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      samples.push({ data, timestamp: chunk.timestamp, duration: chunk.duration ?? 0, keyFrame: true });
+      if (metadata?.decoderConfig?.description) {
+        description = bufferSourceToBytes(metadata.decoderConfig.description);
+      }
+    },
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+
+  const channels = buffer.numberOfChannels;
+  encoder.configure({ codec, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: channels, bitrate: AUDIO_BITRATE });
+
+  try {
+    for (let offset = 0; offset < buffer.length; offset += AUDIO_BLOCK_FRAMES) {
+      if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+      if (encoderError) throw encoderError;
+
+      const frames = Math.min(AUDIO_BLOCK_FRAMES, buffer.length - offset);
+      const planar = new Float32Array(frames * channels);
+      for (let channel = 0; channel < channels; channel++) {
+        planar.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+      }
+
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1e6),
+        data: planar,
+      });
+      encoder.encode(data);
+      data.close();
+    }
+
+    await encoder.flush();
+    if (encoderError) throw encoderError;
+  } finally {
+    // Encoder errors close it already
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  return { codec, sampleRate: AUDIO_SAMPLE_RATE, channels, description, samples };
+}
@@ -0,0 +1,100 @@
+import type { FilterSettings } from "@/pages/Home";
+import { loadImageData, processImageData } from "@/utils/image-processing";
+import { decodeImageFile, isDecodableImageFile } from "@/utils/image-decoding";
+
+export type ProcessedImage = {
+  blob: Blob; // JPEG
+  width: number;
+  height: number;
+};
+
+export function isImageFile(file: File): boolean {
+  return isDecodableImageFile(file);
+}
+
+/**
+ * Run the filter over one uploaded image at its full size
+ * Progress is reported as a percentage as the image is decoded, filtered and
+ * encoded. Multi-page files are processed from their first page.
+ */
+export async function processImageFile(
+  file: File,
+  filterSettings: FilterSettings,
+  onProgress?: (progress: number) => void
+): Promise<ProcessedImage> {
+  const { blob: decoded } = await decodeImageFile(file);
+  const url = URL.createObjectURL(decoded);
+  try {
+    const imageData = await loadImageData(url);
+    onProgress?.(30);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    await processImageData(canvas, filterSettings, imageData);
+    onProgress?.(80);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    if (!blob) {
+      throw new Error('Could not encode the image');
+    }
+    onProgress?.(100);
+    return { blob, width: imageData.width, height: imageData.height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Name of a processed image, unique within its batch
+ */
+export function processedFileName(file: File, taken: Set<string>): string {
+  const base = file.name.replace(/\.[^.]*$/, '') || 'image';
+  let name = `${base}-filtered.jpg`;
+  for (let n = 2; taken.has(name); n++) {
+    name = `${base}-filtered-${n}.jpg`;
+  }
+  taken.add(name);
+  return name;
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    // Directories hand out their entries in chunks until an empty one
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    for (let chunk = await readEntries(reader); chunk.length > 0; chunk = await readEntries(reader)) {
+      for (const child of chunk) {
+        files.push(...await readEntry(child));
+      }
+    }
+    return files;
+  }
+  return [];
+}
+
+/**
+ * Image files from a drop, including those inside dropped folders
+ */
+export async function readDroppedImages(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Browsers without entries only see the top-level files
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(readEntry))).flat()
+    : Array.from(dataTransfer.files);
+
+  return files
+    .filter(isImageFile)
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
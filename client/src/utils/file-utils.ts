@@ -1,3 +1,9 @@
+import { planHalftone, type FilterSettings } from "@shared/halftone";
+import { halftonePlanToSvg } from "@shared/halftone-svg";
+import { parseSvgPath } from "@shared/svg-path";
+import type { CustomShape } from "@shared/shapes";
+import { loadImageData } from "@/utils/image-processing";
+
 /**
  * Download the content of a canvas as a JPG file
  * With improved error handling and mobile compatibility
@@ -174,6 +180,161 @@ export function downloadAsVideo(blobUrl: string, filename?: string): void {
   }
 }
 
+/**
+ * Download a vector (SVG) version of a halftone
+ * Re-plans the dots from the unprocessed source image so every dot is a vector primitive
+ */
+export async function downloadAsSvg(
+  sourceUrl: string,
+  filterSettings: FilterSettings,
+  filename?: string
+): Promise<void> {
+  try {
+    const imageData = await loadImageData(sourceUrl);
+    const plan = planHalftone(imageData.data, imageData.width, imageData.height, filterSettings);
+    const svg = halftonePlanToSvg(plan);
+    const blobUrl = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    
+    // Create safe filename with timestamp
+    const now = new Date();
+    const timestamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}_${String(now.getHours()).padStart(2, '0')}-${String(now.getMinutes()).padStart(2, '0')}`;
+    const defaultFilename = `pixelcam_${timestamp}.svg`;
+    const safeFilename = filename || defaultFilename;
+    
+    // Check if browser is iOS (special handling needed)
+    const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
+    
+    if (isIOS) {
+      // For iOS, open the SVG in a new tab where it can be shared or saved
+      if (!window.open(blobUrl)) {
+        alert('Please allow pop-ups to save the SVG file');
+      }
+    } else {
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download = safeFilename;
+      document.body.appendChild(link);
+      link.click();
+      
+      // Remove link after a short delay
+      setTimeout(() => {
+        try {
+          document.body.removeChild(link);
+        } catch (e) {
+          // Link might already be removed, ignore
+        }
+      }, 100);
+    }
+    
+    // Give the browser time to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(blobUrl), 60000);
+  } catch (error) {
+    console.error('Error exporting SVG:', error);
+    alert('Unable to export SVG. Please try again.');
+  }
+}
+
+/**
+ * Download an encoded animation (GIF, APNG or WebP)
+ * Unlike video, iOS can save animated images: they open in a new tab where a
+ * long press offers "Save to Photos".
+ */
+export function downloadAsAnimation(blob: Blob, filename: string): void {
+  const blobUrl = URL.createObjectURL(blob);
+  const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
+  
+  if (isIOS) {
+    if (!window.open(blobUrl)) {
+      alert('Please allow pop-ups to save the animation');
+    }
+  } else {
+    const link = document.createElement('a');
+    link.href = blobUrl;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+  
+  // Give the browser time to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(blobUrl), 60000);
+}
+
+/**
+ * Download a stored file, such as a gallery re-render, as it is
+ * Saved the same way as animations, which iOS handles for any image or video.
+ */
+export async function downloadImageFromUrl(url: string, filename: string): Promise<void> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status}`);
+  }
+  downloadAsAnimation(await response.blob(), filename);
+}
+
+/**
+ * Save a file the server sends as an attachment, such as a gallery ZIP export
+ * The browser streams it to disk rather than it being held in memory here.
+ */
+export function downloadFromServer(url: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = '';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+/**
+ * File extension for a capture's MIME type
+ */
+export function getFileExtension(mimeType: string): string {
+  switch (mimeType) {
+    case 'image/gif':
+      return 'gif';
+    case 'image/apng':
+    case 'image/png':
+      return 'png';
+    case 'image/webp':
+      return 'webp';
+    case 'video/mp4':
+      return 'mp4';
+    case 'video/webm':
+      return 'webm';
+    default:
+      return 'jpg';
+  }
+}
+
+/**
+ * Read an uploaded SVG file as a custom dot shape
+ * Path data from every <path> element is combined; transforms and other
+ * element types are ignored.
+ */
+export async function readSvgShape(file: File): Promise<CustomShape> {
+  const text = await file.text();
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('The file is not a valid SVG');
+  }
+
+  const path = Array.from(doc.querySelectorAll('path'))
+    .map(element => element.getAttribute('d')?.trim() ?? '')
+    .filter(Boolean)
+    .join(' ');
+  if (!path || !parseSvgPath(path)?.length) {
+    throw new Error('The SVG has no usable <path> data');
+  }
+
+  // Shape names must fit the settings schema
+  const name = file.name
+    .replace(/\.svg$/i, '')
+    .replace(/[^\w -]+/g, '-')
+    .slice(0, 40) || 'shape';
+
+  return { name, path };
+}
+
 /**
  * Create a File object from a Blob or data URL
  * With improved error handling
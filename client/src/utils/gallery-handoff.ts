@@ -0,0 +1,46 @@
+import type { FilterSettings } from "@shared/halftone";
+import { DEFAULT_FILTER_SETTINGS, filterSettingsSchema } from "@shared/filter-settings";
+
+const HANDOFF_STORAGE_KEY = 'pixelcam-gallery-handoff';
+
+/**
+ * A gallery item's settings on their way to the editor
+ * "camera" applies them to the live view; "edit" also reloads the unprocessed
+ * original into the image uploader.
+ */
+export type GalleryHandoff = {
+  mode: 'camera' | 'edit';
+  filterSettings: FilterSettings;
+  sourceUrl: string | null;
+};
+
+/**
+ * Leave settings for the editor page to pick up once it opens
+ */
+export function handOffToEditor(handoff: GalleryHandoff): void {
+  sessionStorage.setItem(HANDOFF_STORAGE_KEY, JSON.stringify(handoff));
+}
+
+/**
+ * Settings left by the gallery, if any; each hand-off is only read once
+ * Settings missing newer options are completed with the defaults.
+ */
+export function takeGalleryHandoff(): GalleryHandoff | null {
+  const value = sessionStorage.getItem(HANDOFF_STORAGE_KEY);
+  if (!value) return null;
+  sessionStorage.removeItem(HANDOFF_STORAGE_KEY);
+
+  try {
+    const data = JSON.parse(value);
+    const settings = filterSettingsSchema.safeParse(data?.filterSettings);
+    if (!settings.success || (data.mode !== 'camera' && data.mode !== 'edit')) return null;
+
+    return {
+      mode: data.mode,
+      filterSettings: { ...DEFAULT_FILTER_SETTINGS, ...settings.data },
+      sourceUrl: typeof data.sourceUrl === 'string' ? data.sourceUrl : null,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,129 @@
+import type { FilterSettings } from "@/pages/Home";
+import type { FrameMatrix } from "@shared/framing";
+
+/**
+ * Where a source frame lands on the output canvas
+ */
+export type FrameLayout = {
+  drawX: number;
+  drawY: number;
+  drawWidth: number;
+  drawHeight: number;
+  mirror: boolean; // Flip horizontally before drawing
+  transform?: FrameMatrix; // Framing from source to output pixels; replaces the draw rectangle
+};
+
+/**
+ * A single frame to be rendered off the main thread
+ * The frame bitmap is transferred to the worker and closed there
+ */
+export type HalftoneJob = {
+  frame: ImageBitmap;
+  width: number; // Output width
+  height: number; // Output height
+  layout?: FrameLayout; // Defaults to stretching the frame over the output
+  filterSettings: FilterSettings;
+  scale?: number; // Multiplies the settings' pixel sizes; defaults to 1
+};
+
+export type HalftoneWorkerRequest = Omit<HalftoneJob, 'frame'> & {
+  id: number;
+  frame: ImageBitmap;
+};
+
+export type HalftoneWorkerResponse =
+  | { id: number; result: ImageBitmap }
+  | { id: number; error: string };
+
+type PendingJob = {
+  resolve: (result: ImageBitmap) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Create the worker-backed halftone renderer
+ * The worker is started lazily on the first job; if it fails to start or crashes,
+ * `supported` flips to false so callers fall back to main-thread rendering
+ */
+function createHalftoneService() {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingJob>();
+
+  const service = {
+    supported:
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap === 'function',
+
+    render(job: HalftoneJob): Promise<ImageBitmap> {
+      if (!service.supported) {
+        job.frame.close();
+        return Promise.reject(new Error("OffscreenCanvas rendering is not supported"));
+      }
+
+      const activeWorker = getWorker();
+      if (!activeWorker) {
+        job.frame.close();
+        return Promise.reject(new Error("Halftone worker is unavailable"));
+      }
+
+      const id = nextId++;
+      return new Promise<ImageBitmap>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        const request: HalftoneWorkerRequest = { ...job, id };
+        activeWorker.postMessage(request, [job.frame]);
+      });
+    },
+
+    terminate(): void {
+      worker?.terminate();
+      worker = null;
+      failAll("Halftone worker terminated");
+    },
+  };
+
+  function failAll(message: string) {
+    pending.forEach(job => job.reject(new Error(message)));
+    pending.clear();
+  }
+
+  function getWorker(): Worker | null {
+    if (worker) return worker;
+
+    try {
+      worker = new Worker(new URL('./halftone.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.error("Failed to start halftone worker:", error);
+      service.supported = false;
+      return null;
+    }
+
+    worker.onmessage = (event: MessageEvent<HalftoneWorkerResponse>) => {
+      const response = event.data;
+      const job = pending.get(response.id);
+      if (!job) return;
+      pending.delete(response.id);
+
+      if ('error' in response) {
+        job.reject(new Error(response.error));
+      } else {
+        job.resolve(response.result);
+      }
+    };
+
+    worker.onerror = (event) => {
+      console.error("Halftone worker crashed, falling back to main thread:", event.message);
+      service.supported = false;
+      worker?.terminate();
+      worker = null;
+      failAll("Halftone worker crashed");
+    };
+
+    return worker;
+  }
+
+  return service;
+}
+
+export const halftoneService = createHalftoneService();
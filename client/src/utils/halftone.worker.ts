@@ -0,0 +1,48 @@
+/**
+ * Halftone worker
+ * Draws each incoming frame onto an OffscreenCanvas, runs the selected effect
+ * and transfers the rendered bitmap back to the main thread
+ */
+import { drawFrameLayout, renderFilter } from "@/utils/image-processing";
+import type { HalftoneWorkerRequest, HalftoneWorkerResponse } from "@/utils/halftone-service";
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+function getContext(width: number, height: number): OffscreenCanvasRenderingContext2D | null {
+  if (!canvas) {
+    canvas = new OffscreenCanvas(width, height);
+    ctx = canvas.getContext('2d', { willReadFrequently: true });
+  } else if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return ctx;
+}
+
+function reply(response: HalftoneWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+self.addEventListener('message', (event: MessageEvent<HalftoneWorkerRequest>) => {
+  const { id, frame, width, height, layout, filterSettings, scale } = event.data;
+
+  try {
+    const context = getContext(width, height);
+    if (!canvas || !context) {
+      reply({ id, error: "Failed to get OffscreenCanvas context" });
+      return;
+    }
+
+    drawFrameLayout(context, frame, width, height, layout);
+    const imageData = context.getImageData(0, 0, width, height);
+    renderFilter(context, imageData, filterSettings, scale);
+
+    const result = canvas.transferToImageBitmap();
+    reply({ id, result }, [result]);
+  } catch (error) {
+    reply({ id, error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    frame.close();
+  }
+});
@@ -0,0 +1,260 @@
+import { isJpeg, isTiff, readExif, resetJpegOrientation } from "@shared/exif";
+
+/**
+ * Image decoding for uploads
+ * Browsers disagree on which formats they can draw: HEIC from iPhones only
+ * works in Safari, TIFF hardly anywhere, and RAW files nowhere. Everything is
+ * turned into an upright JPEG or PNG here before the editor sees it.
+ */
+
+export type DecodedImageFile = {
+  blob: Blob; // Upright, in a format every browser draws
+  pageCount: number; // Pages of a TIFF or images in a HEIF file; 1 otherwise
+  takenAt: Date | null; // From EXIF, when the camera recorded it
+};
+
+const HEIF_EXTENSIONS = ['heic', 'heif'];
+const TIFF_EXTENSIONS = ['tif', 'tiff'];
+const RAW_EXTENSIONS = [
+  'dng', 'cr2', 'cr3', 'crw', 'nef', 'nrw', 'arw', 'srf', 'sr2', 'orf',
+  'rw2', 'raf', 'pef', 'srw', 'x3f', '3fr', 'iiq', 'erf', 'kdc', 'mrw',
+];
+
+// HEIF major brands; AVIF shares the container but browsers draw it themselves
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+// Re-encoded photos should lose as little as possible
+const JPEG_QUALITY = 0.95;
+
+/**
+ * What file pickers offer: anything the browser calls an image, plus the
+ * formats it usually doesn't recognize
+ */
+export const UPLOAD_ACCEPT = ['image/*', ...[...HEIF_EXTENSIONS, ...TIFF_EXTENSIONS, ...RAW_EXTENSIONS].map(extension => `.${extension}`)].join(',');
+
+function getExtension(file: File): string {
+  const match = /\.([^.]+)$/.exec(file.name);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * Whether a file looks like an image we can decode, going by its type or name
+ * RAW files usually come without a MIME type.
+ */
+export function isDecodableImageFile(file: File): boolean {
+  const extension = getExtension(file);
+  return file.type.startsWith('image/') ||
+    HEIF_EXTENSIONS.includes(extension) ||
+    TIFF_EXTENSIONS.includes(extension) ||
+    RAW_EXTENSIONS.includes(extension);
+}
+
+function isHeif(bytes: Uint8Array): boolean {
+  if (bytes.length < 12) return false;
+  const box = String.fromCharCode(...Array.from(bytes.subarray(4, 12)));
+  const boxSize = (bytes[0] << 24 | bytes[1] << 16 | bytes[2] << 8 | bytes[3]) >>> 0;
+  const brands = String.fromCharCode(...Array.from(bytes.subarray(8, Math.min(bytes.length, Math.max(12, boxSize)))));
+  return box.startsWith('ftyp') && HEIF_BRANDS.includes(box.slice(4)) && !brands.includes('avif');
+}
+
+function parseTakenAt(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  // Without an offset, this reads as local time, which is what cameras record
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Draw an image the way an EXIF orientation (1-8) says to show it
+ */
+async function encodeUpright(
+  image: ImageBitmap,
+  orientation: number,
+  type: 'image/jpeg' | 'image/png'
+): Promise<Blob> {
+  const { width, height } = image;
+  const canvas = document.createElement('canvas');
+  canvas.width = orientation >= 5 ? height : width;
+  canvas.height = orientation >= 5 ? width : height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+  if (type === 'image/jpeg') {
+    // JPEG has no alpha; transparent areas go white rather than black
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(image, 0, 0);
+  image.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, JPEG_QUALITY));
+  if (!blob) {
+    throw new Error('Could not encode the image');
+  }
+  return blob;
+}
+
+/**
+ * A JPEG drawn upright by us rather than by the browser
+ * Older browsers ignore EXIF orientation and newer ones apply it, so the tag
+ * is cleared before drawing to get the same result everywhere.
+ */
+async function decodeJpeg(bytes: Uint8Array, orientation: number): Promise<Blob> {
+  const image = await createImageBitmap(new Blob([resetJpegOrientation(bytes)], { type: 'image/jpeg' }));
+  return encodeUpright(image, orientation, 'image/jpeg');
+}
+
+/**
+ * The largest baseline or progressive JPEG inside a file
+ * RAW files carry one as a preview of the photo as the camera rendered it.
+ * Lossless JPEGs (SOF3), which hold the raw sensor data, are skipped; browsers
+ * can't draw them.
+ */
+function findLargestEmbeddedJpeg(bytes: Uint8Array): Uint8Array | null {
+  let largest: Uint8Array | null = null;
+  let largestArea = 0;
+
+  for (let start = 0; start + 4 <= bytes.length; start++) {
+    if (bytes[start] !== 0xff || bytes[start + 1] !== 0xd8 || bytes[start + 2] !== 0xff) continue;
+
+    let offset = start + 2;
+    let area = 0;
+    let end = -1;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (length < 2) break;
+
+      if (marker >= 0xc0 && marker <= 0xc2 && offset + 9 <= bytes.length) {
+        area = ((bytes[offset + 5] << 8) | bytes[offset + 6]) * ((bytes[offset + 7] << 8) | bytes[offset + 8]);
+      }
+      if (marker === 0xda) {
+        // Entropy-coded data escapes 0xFF, so the first FFD9 ends the image
+        for (let i = offset + 2 + length; i + 1 < bytes.length; i++) {
+          if (bytes[i] === 0xff && bytes[i + 1] === 0xd9) {
+            end = i + 2;
+            break;
+          }
+        }
+        break;
+      }
+      offset += 2 + length;
+    }
+
+    if (end === -1 || area === 0) continue;
+    if (area > largestArea) {
+      largest = bytes.subarray(start, end);
+      largestArea = area;
+    }
+    start = end - 1;
+  }
+
+  return largest;
+}
+
+async function decodeRaw(bytes: Uint8Array): Promise<DecodedImageFile> {
+  const preview = findLargestEmbeddedJpeg(bytes);
+  if (!preview) {
+    throw new Error('This RAW file has no preview image to work from');
+  }
+
+  // Previews either carry their own EXIF or rely on the RAW's
+  const previewExif = readExif(preview);
+  const rawExif = readExif(bytes);
+  const orientation = previewExif?.orientation ?? rawExif?.orientation ?? 1;
+
+  return {
+    blob: await decodeJpeg(preview, orientation),
+    pageCount: 1,
+    takenAt: parseTakenAt(rawExif?.takenAt ?? previewExif?.takenAt),
+  };
+}
+
+async function decodeTiff(bytes: Uint8Array, page: number): Promise<DecodedImageFile> {
+  const { default: UTIF } = await import('utif');
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+  // Reduced-resolution copies (bit 0 of NewSubfileType) aren't pages
+  const pages = UTIF.decode(buffer).filter(ifd => {
+    const subfileType = ifd.t254 as number[] | undefined;
+    return ifd.t256 && ifd.t257 && !((subfileType?.[0] ?? 0) & 1);
+  });
+  const ifd = pages[Math.min(page, pages.length - 1)];
+  if (!ifd) {
+    throw new Error('This TIFF file has no images');
+  }
+
+  UTIF.decodeImage(buffer, ifd);
+  const rgba = UTIF.toRGBA8(ifd);
+  const image = await createImageBitmap(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height));
+  const orientation = (ifd.t274 as number[] | undefined)?.[0] ?? 1;
+
+  return {
+    blob: await encodeUpright(image, orientation >= 1 && orientation <= 8 ? orientation : 1, 'image/png'),
+    pageCount: pages.length,
+    takenAt: parseTakenAt(readExif(bytes)?.takenAt),
+  };
+}
+
+/**
+ * HEIC and HEIF, drawn with a bundled decoder
+ * The decoder applies the file's own rotation, which takes precedence over
+ * its EXIF orientation, so none is applied here.
+ */
+async function decodeHeif(file: File, bytes: Uint8Array, page: number): Promise<DecodedImageFile> {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: JPEG_QUALITY, multiple: true });
+  const images = Array.isArray(converted) ? converted : [converted];
+
+  return {
+    blob: images[Math.min(page, images.length - 1)],
+    pageCount: images.length,
+    takenAt: parseTakenAt(readExif(bytes)?.takenAt),
+  };
+}
+
+/**
+ * Decode an uploaded image into one the browser can draw, the right way up
+ * `page` picks the page of a multi-page TIFF or the image of a HEIF
+ * collection. Files the browser already draws upright come back untouched;
+ * metadata that's still in them is stripped by the server on upload.
+ */
+export async function decodeImageFile(file: File, page = 0): Promise<DecodedImageFile> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const extension = getExtension(file);
+
+  // Checked by name first; most RAW formats are TIFFs underneath
+  if (RAW_EXTENSIONS.includes(extension)) {
+    return decodeRaw(bytes);
+  }
+  if (isHeif(bytes)) {
+    return decodeHeif(file, bytes, page);
+  }
+  if (isTiff(bytes)) {
+    return decodeTiff(bytes, page);
+  }
+
+  const exif = isJpeg(bytes) ? readExif(bytes) : null;
+  const orientation = exif?.orientation ?? 1;
+  return {
+    blob: orientation === 1 ? file : await decodeJpeg(bytes, orientation),
+    pageCount: 1,
+    takenAt: parseTakenAt(exif?.takenAt),
+  };
+}
@@ -1,4 +1,10 @@
-import type { DotShape, FilterSettings } from "@/pages/Home";
+import { planHalftone, type DotLayer, type FilterSettings, type HalftonePlan } from "@shared/halftone";
+import { ditherRGBA } from "@shared/dither";
+import { halftoneService, type FrameLayout } from "@/utils/halftone-service";
+import { framedSize, framingMatrix, isDefaultFraming, type Framing } from "@shared/framing";
+
+// Canvases with a live frame currently being rendered by the worker
+const pendingFrames = new WeakSet<HTMLCanvasElement>();
 
 /**
  * Process a webcam stream with dot matrix/halftone and other effects
@@ -8,7 +14,8 @@ export function processWebcamFrame(
   video: HTMLVideoElement,
   canvas: HTMLCanvasElement,
   filterSettings: FilterSettings,
-  isBackCamera?: boolean
+  isBackCamera?: boolean,
+  framing?: Framing
 ): void {
   // Safety check inputs
   if (!canvas || !video) {
@@ -43,16 +50,9 @@ export function processWebcamFrame(
     ctx.fillText(`Camera state: ${video.readyState}/4`, canvas.width / 2, canvas.height / 2 + 30);
     return;
   }
-  
-  // Make sure canvas size matches video dimensions if not already set
-  if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
-    console.log("Setting canvas size to match video:", video.videoWidth, "x", video.videoHeight);
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-  }
 
   // Process the video frame
-  _processFrameCore(video, canvas, filterSettings, isBackCamera);
+  _processFrameCore(video, canvas, filterSettings, isBackCamera, framing);
 }
 
 /**
@@ -62,7 +62,8 @@ export function processWebcamFrame(
 export function processVideoFrame(
   video: HTMLVideoElement,
   canvas: HTMLCanvasElement,
-  filterSettings: FilterSettings
+  filterSettings: FilterSettings,
+  framing?: Framing
 ): void {
   // Safety check inputs
   if (!canvas || !video) {
@@ -76,18 +77,18 @@ export function processVideoFrame(
   }
 
   // Process the video frame with the core processing function
-  _processFrameCore(video, canvas, filterSettings, false);
+  _processFrameCore(video, canvas, filterSettings, false, framing);
 }
 
 /**
  * Process an image with dot matrix/halftone and other effects
- * This version is optimized for processing static images
+ * Resolves once the canvas holds the processed result
  */
-export function processImageData(
+export async function processImageData(
   canvas: HTMLCanvasElement,
   filterSettings: FilterSettings,
   imageData: ImageData
-): void {
+): Promise<void> {
   // Safety check inputs
   if (!canvas || !imageData) {
     console.error("Missing canvas or image data");
@@ -101,17 +102,30 @@ export function processImageData(
     return;
   }
 
-  // Put the image data on the canvas
-  ctx.putImageData(imageData, 0, 0);
-  
-  // Now process with the core processing function
-  // We create a fake video element with the right dimensions
-  const fakeVideo = document.createElement('video');
-  fakeVideo.width = imageData.width;
-  fakeVideo.height = imageData.height;
-  
-  // Process with core function
-  _processFrameCore(fakeVideo, canvas, filterSettings, false, imageData);
+  if (halftoneService.supported) {
+    try {
+      const frame = await createImageBitmap(imageData);
+      const result = await halftoneService.render({
+        frame,
+        width: imageData.width,
+        height: imageData.height,
+        filterSettings,
+      });
+      
+      ctx.fillStyle = 'black';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(result, 0, 0);
+      result.close();
+      return;
+    } catch (error) {
+      console.warn("Worker rendering failed, processing on the main thread:", error);
+    }
+  }
+
+  // Synchronous fallback on the main thread
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  renderFilter(ctx, imageData, filterSettings);
 }
 
 /**
@@ -128,7 +142,7 @@ export function processFrame(
   console.log("Legacy processFrame called, delegating to specialized functions");
   
   if (providedImageData) {
-    processImageData(canvas, filterSettings, providedImageData);
+    void processImageData(canvas, filterSettings, providedImageData);
   } else if (video) {
     processWebcamFrame(video, canvas, filterSettings, isBackCamera);
   } else {
@@ -136,28 +150,232 @@ export function processFrame(
   }
 }
 
+// Many Android back cameras need horizontal flipping
+function _needsMirror(isBackCamera?: boolean): boolean {
+  const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
+  const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
+  return isMobile && !!isBackCamera && !isIOS;
+}
+
 /**
- * Core implementation of the processing logic
- * Used by all the specialized processing functions
+ * Size the canvas to its container and work out how the video covers it
+ * A framed video is fitted inside the container in its framed shape instead.
+ * Only resizes when the dimensions change, since resizing clears the canvas
  */
-function _processFrameCore(
+function _layoutVideoFrame(
   video: HTMLVideoElement,
   canvas: HTMLCanvasElement,
+  isBackCamera?: boolean,
+  framing?: Framing
+): FrameLayout {
+  // Set fixed dimensions for canvas based on container
+  const canvasContainer = document.getElementById('canvas-container');
+  const containerWidth = canvasContainer?.clientWidth || window.innerWidth;
+  const containerHeight = canvasContainer?.clientHeight || window.innerHeight * 0.6;
+  
+  // Reset any previous transformations
+  canvas.style.transform = '';
+  
+  const mirror = _needsMirror(isBackCamera);
+  
+  if (framing && !isDefaultFraming(framing)) {
+    const framed = framedSize(framing, video.videoWidth, video.videoHeight);
+    const scale = Math.min(containerWidth / framed.width, containerHeight / framed.height);
+    const width = Math.max(1, Math.round(framed.width * scale));
+    const height = Math.max(1, Math.round(framed.height * scale));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    
+    // Letterboxed by the element's object-fit, as the canvas no longer matches the container
+    canvas.style.position = 'absolute';
+    canvas.style.top = '0';
+    canvas.style.left = '0';
+    
+    return getFramedLayout(framing, video.videoWidth, video.videoHeight, width, height, mirror);
+  }
+  
+  // Set canvas to match container size exactly
+  if (canvas.width !== containerWidth || canvas.height !== containerHeight) {
+    canvas.width = containerWidth;
+    canvas.height = containerHeight;
+  }
+  
+  // Clear any position styling that might interfere
+  canvas.style.position = 'absolute';
+  canvas.style.top = '0';
+  canvas.style.left = '0';
+  
+  return _coverLayout(video, canvas.width, canvas.height, mirror);
+}
+
+/**
+ * Where a video lands when it covers an output, keeping its aspect ratio
+ */
+function _coverLayout(video: HTMLVideoElement, width: number, height: number, mirror: boolean): FrameLayout {
+  const videoRatio = video.videoWidth / video.videoHeight;
+  const canvasRatio = width / height;
+  
+  let drawWidth = width;
+  let drawHeight = height;
+  let offsetX = 0;
+  let offsetY = 0;
+  
+  // If the video and canvas have different aspect ratios, we need to adjust
+  if (videoRatio > canvasRatio) {
+      // Video is wider than canvas - fit to height
+      drawHeight = height;
+      drawWidth = drawHeight * videoRatio;
+      offsetX = (width - drawWidth) / 2;
+  } else {
+      // Video is taller than canvas - fit to width
+      drawWidth = width;
+      drawHeight = drawWidth / videoRatio;
+      offsetY = (height - drawHeight) / 2;
+  }
+  
+  return {
+    drawX: offsetX,
+    drawY: offsetY,
+    drawWidth,
+    drawHeight,
+    mirror,
+  };
+}
+
+/**
+ * The camera pixels behind what a preview shows
+ * Filter settings are measured against these, so a capture looks the same
+ * whatever size the preview or the capture is.
+ */
+export function getVideoNativeSize(
+  video: HTMLVideoElement,
+  previewWidth: number,
+  previewHeight: number,
+  framing?: Framing
+): { width: number; height: number } {
+  if (framing && !isDefaultFraming(framing)) {
+    return framedSize(framing, video.videoWidth, video.videoHeight);
+  }
+  
+  // An unframed preview shows the middle of the video, in the preview's shape
+  const previewRatio = previewWidth / previewHeight;
+  if (video.videoWidth / video.videoHeight > previewRatio) {
+    return { width: Math.max(1, Math.round(video.videoHeight * previewRatio)), height: video.videoHeight };
+  }
+  return { width: video.videoWidth, height: Math.max(1, Math.round(video.videoWidth / previewRatio)) };
+}
+
+/**
+ * Render a video's current frame at an output size, framed as the preview shows it
+ * The output keeps the preview's shape; `scale` is its size relative to the
+ * camera pixels (see getVideoNativeSize). Resolves with a new canvas.
+ */
+export async function renderVideoFrame(
+  video: HTMLVideoElement,
   filterSettings: FilterSettings,
+  width: number,
+  height: number,
+  scale: number,
   isBackCamera?: boolean,
-  providedImageData?: ImageData
+  framing?: Framing
+): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Could not get canvas context");
+  }
+  
+  const mirror = _needsMirror(isBackCamera);
+  const layout = framing && !isDefaultFraming(framing)
+    ? getFramedLayout(framing, video.videoWidth, video.videoHeight, width, height, mirror)
+    : _coverLayout(video, width, height, mirror);
+  
+  if (halftoneService.supported) {
+    try {
+      const frame = await createImageBitmap(video);
+      const result = await halftoneService.render({ frame, width, height, layout, filterSettings, scale });
+      ctx.drawImage(result, 0, 0);
+      result.close();
+      return canvas;
+    } catch (error) {
+      console.warn("Worker rendering failed, processing on the main thread:", error);
+    }
+  }
+  
+  drawFrameLayout(ctx, video, width, height, layout);
+  renderFilter(ctx, ctx.getImageData(0, 0, width, height), filterSettings, scale);
+  return canvas;
+}
+
+/**
+ * Layout that draws a source framed onto an output of the given size
+ */
+export function getFramedLayout(
+  framing: Framing,
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  mirror = false
+): FrameLayout {
+  return {
+    drawX: 0,
+    drawY: 0,
+    drawWidth: width,
+    drawHeight: height,
+    mirror,
+    transform: framingMatrix(framing, sourceWidth, sourceHeight, width, height),
+  };
+}
+
+/**
+ * Draw a source frame onto a black canvas using the given layout
+ */
+export function drawFrameLayout(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  layout?: FrameLayout
 ): void {
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
   
-  // Extract settings with defaults for any missing or invalid values
-  const dotSize = filterSettings.dotSize <= 0 ? 5 : filterSettings.dotSize;
-  const contrast = filterSettings.contrast;
-  const brightness = filterSettings.brightness;
-  const isGrayscale = filterSettings.isGrayscale;
-  const dotShape = filterSettings.dotShape || 'circle';
-  const useSecondLayer = filterSettings.useSecondLayer ?? true;
-  const secondLayerOpacity = filterSettings.secondLayerOpacity ?? 0.5;
-  const secondLayerOffset = filterSettings.secondLayerOffset ?? 3;
+  if (!layout) {
+    ctx.drawImage(source, 0, 0, width, height);
+    return;
+  }
   
+  // Save context for transformations
+  ctx.save();
+  if (layout.mirror) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  if (layout.transform) {
+    ctx.transform(...layout.transform);
+    ctx.drawImage(source, 0, 0);
+  } else {
+    ctx.drawImage(source, layout.drawX, layout.drawY, layout.drawWidth, layout.drawHeight);
+  }
+  ctx.restore();
+}
+
+/**
+ * Core implementation of the processing logic for video sources
+ * Hands the frame to the worker when available, otherwise renders on the main thread
+ */
+function _processFrameCore(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  filterSettings: FilterSettings,
+  isBackCamera?: boolean,
+  framing?: Framing
+): void {
   // Get canvas context
   const ctx = canvas.getContext('2d');
   if (!ctx) {
@@ -165,376 +383,221 @@ function _processFrameCore(
     return;
   }
   
-  try {
-    // If we're dealing with a video stream (not an uploaded image)
-    let imageData: ImageData | null = null;
-    
-    if (providedImageData) {
-      // If image data was provided directly (for uploaded images)
-      console.log("Using provided image data:", providedImageData.width, "x", providedImageData.height);
-      imageData = providedImageData;
-      
-      // For uploaded images, we don't need to resize the canvas since it's already set correctly
-      // We just need to clear it before applying effects
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-    } else if (video) {
-      // We're processing a video stream
-      console.log("Processing video stream");
-      
-      // Ensure video has valid dimensions before proceeding
-      if (!video || !video.videoWidth || !video.videoHeight) {
-        if (video) {
-          console.warn("Video not ready yet, dimensions:", video.videoWidth, "x", video.videoHeight);
-          
-          // Try to get video dimensions once more by checking readyState
-          // ReadyState 3 or 4 means enough data has been loaded to determine dimensions
-          if (video.readyState < 2) {
-            console.log("Video still loading, readyState:", video.readyState);
-          }
-        } else {
-          console.warn("Video is null");
-        }
-        
-        // Add a helpful loading message to the canvas
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Add loading text
-        ctx.font = '16px sans-serif';
-        ctx.fillStyle = 'white';
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        ctx.fillText('Initializing camera...', canvas.width / 2, canvas.height / 2);
-        
-        // Show readyState to help debug
-        ctx.font = '12px sans-serif';
-        ctx.fillText(`Camera state: ${video ? video.readyState : 'N/A'}/4`, canvas.width / 2, canvas.height / 2 + 30);
-        
-        return;
-      }
-      
-      // Detect if device is mobile
-      const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
-      const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
-      
-      // Handle orientation and dimensions
-      let videoWidth = video.videoWidth;
-      let videoHeight = video.videoHeight;
-      console.log("Video dimensions:", videoWidth, "x", videoHeight);
-      
-      // Check if we need to adjust for portrait mode on mobile
-      const isPortrait = isMobile && window.innerHeight > window.innerWidth;
-      
-      // Set fixed dimensions for canvas based on container
-      const canvasContainer = document.getElementById('canvas-container');
-      const containerWidth = canvasContainer?.clientWidth || window.innerWidth;
-      const containerHeight = canvasContainer?.clientHeight || window.innerHeight * 0.6;
-      console.log("Container dimensions:", containerWidth, "x", containerHeight);
-      
-      // Reset any previous transformations
-      canvas.style.transform = '';
-      
-      // Set canvas to match container size exactly
-      canvas.width = containerWidth;
-      canvas.height = containerHeight;
-      
-      // Clear any position styling that might interfere
-      canvas.style.position = 'absolute';
-      canvas.style.top = '0';
-      canvas.style.left = '0';
-      
-      // Clear the canvas
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      // Save context for transformations
-      ctx.save();
-      
-      // Handle orientation for mobile devices
-      if (isMobile && isBackCamera && !isIOS) {
-        // Many Android back cameras need horizontal flipping
-        ctx.translate(canvas.width, 0);
-        ctx.scale(-1, 1);
-      }
-      
-      // Draw the original video to get pixel data
-      // Calculate how to fit the video while preserving aspect ratio
-      const videoRatio = video.videoWidth / video.videoHeight;
-      const canvasRatio = canvas.width / canvas.height;
-      
-      let drawWidth = canvas.width;
-      let drawHeight = canvas.height;
-      let offsetX = 0;
-      let offsetY = 0;
-      
-      // If the video and canvas have different aspect ratios, we need to adjust
-      if (videoRatio > canvasRatio) {
-          // Video is wider than canvas - fit to height
-          drawHeight = canvas.height;
-          drawWidth = drawHeight * videoRatio;
-          offsetX = (canvas.width - drawWidth) / 2;
-      } else {
-          // Video is taller than canvas - fit to width
-          drawWidth = canvas.width;
-          drawHeight = drawWidth / videoRatio;
-          offsetY = (canvas.height - drawHeight) / 2;
-      }
-      
-      // Draw video centered in canvas
-      ctx.drawImage(video, offsetX, offsetY, drawWidth, drawHeight);
-      
-      // Restore context to remove transformations before further processing
-      ctx.restore();
-      
-      // Get image data to process
-      try {
-        console.log("Getting image data from canvas:", canvas.width, "x", canvas.height);
-        imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      } catch (err) {
-        console.error("Failed to get image data:", err);
-        return;
-      }
-    }
-    
-    // Make sure we have image data before proceeding
-    if (!imageData) {
-      console.error("No image data available");
-      return;
-    }
-    
-    // Apply effects to image data
-    const data = imageData.data;
-    const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
-    
-    for (let i = 0; i < data.length; i += 4) {
-      // Apply brightness
-      data[i] = Math.min(255, Math.max(0, data[i] * brightness));
-      data[i + 1] = Math.min(255, Math.max(0, data[i + 1] * brightness));
-      data[i + 2] = Math.min(255, Math.max(0, data[i + 2] * brightness));
-      
-      // Apply contrast
-      data[i] = Math.min(255, Math.max(0, factor * (data[i] - 128) + 128));
-      data[i + 1] = Math.min(255, Math.max(0, factor * (data[i + 1] - 128) + 128));
-      data[i + 2] = Math.min(255, Math.max(0, factor * (data[i + 2] - 128) + 128));
-      
-      // Apply grayscale if enabled
-      if (isGrayscale) {
-        const avg = Math.min(255, Math.max(0, (data[i] + data[i + 1] + data[i + 2]) / 3));
-        data[i] = avg;
-        data[i + 1] = avg;
-        data[i + 2] = avg;
-      }
-    }
+  // Ensure video has valid dimensions before proceeding
+  if (!video.videoWidth || !video.videoHeight) {
+    console.warn("Video not ready yet, dimensions:", video.videoWidth, "x", video.videoHeight);
     
-    // Create temp canvas for dot matrix processing
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = canvas.width;
-    tempCanvas.height = canvas.height;
+    // Add a helpful loading message to the canvas
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
     
-    // Use a 2d rendering context optimized for frequent pixel manipulation
-    const tempCtx = tempCanvas.getContext('2d', { 
-      willReadFrequently: true,
-      alpha: false // We don't need alpha channel for dot effect processing
-    });
+    // Add loading text
+    ctx.font = '16px sans-serif';
+    ctx.fillStyle = 'white';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('Initializing camera...', canvas.width / 2, canvas.height / 2);
     
-    if (!tempCtx || !imageData) {
-      console.error("Failed to get temp canvas context or missing image data");
-      // If we can't get context, just render a black screen
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    // Show readyState to help debug
+    ctx.font = '12px sans-serif';
+    ctx.fillText(`Camera state: ${video.readyState}/4`, canvas.width / 2, canvas.height / 2 + 30);
+    return;
+  }
+  
+  const layout = _layoutVideoFrame(video, canvas, isBackCamera, framing);
+  const { width, height } = canvas;
+  
+  // Drawn at screen size, with the look of the camera's own pixels
+  const scale = width / getVideoNativeSize(video, width, height, framing).width;
+  
+  if (halftoneService.supported) {
+    // Drop the frame if the previous one is still in the worker, so sliders stay responsive
+    if (pendingFrames.has(canvas)) {
       return;
     }
+    pendingFrames.add(canvas);
     
-    console.log("Created temp canvas with size:", tempCanvas.width, "x", tempCanvas.height);
-    
-    try {
-      // Put processed image on temp canvas
-      tempCtx.putImageData(imageData, 0, 0);
-      console.log("Put image data on temp canvas");
-      
-      // Clear original canvas for dot effect
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      console.log("Cleared original canvas for dot effect");
-    } catch (err) {
-      console.error("Error preparing canvases:", err);
-      // Draw an error message instead of using putImageData
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      ctx.fillStyle = 'white';
-      ctx.font = '12px sans-serif';
-      ctx.textAlign = 'center';
-      ctx.fillText('Error preparing canvas', canvas.width / 2, canvas.height / 2);
-      return;
-    }
+    createImageBitmap(video)
+      .then(frame => halftoneService.render({ frame, width, height, layout, filterSettings, scale }))
+      .then(result => {
+        ctx.drawImage(result, 0, 0);
+        result.close();
+      })
+      .catch(error => {
+        console.error("Worker frame processing failed:", error);
+      })
+      .finally(() => {
+        pendingFrames.delete(canvas);
+      });
+    return;
+  }
+  
+  try {
+    // Synchronous fallback on the main thread
+    drawFrameLayout(ctx, video, width, height, layout);
+    const imageData = ctx.getImageData(0, 0, width, height);
     
-    // Calculate grid size with safety limits
-    const gridSize = Math.max(2, Math.min(20, Math.floor(dotSize))); 
+    // Render the effect from the frame's pixels
+    renderFilter(ctx, imageData, filterSettings, scale);
+  } catch (error) {
+    // On any failure, show a black screen
+    console.error("Error in image processing:", error);
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
     
-    // Set up for dot pattern
+    // Draw error message
     ctx.fillStyle = 'white';
+    ctx.font = '12px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('Camera processing error', canvas.width / 2, canvas.height / 2);
+  }
+}
+
+/**
+ * Pixel buffer accepted by the canvas renderer.
+ * Structural so synthetic buffers (e.g. in the benchmark harness) work outside the DOM.
+ */
+export type PixelBuffer = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+/**
+ * Minimal drawing surface used by the dot renderer
+ */
+export type DotPathContext = Pick<
+  CanvasRenderingContext2D,
+  'beginPath' | 'moveTo' | 'lineTo' | 'arc' | 'ellipse' | 'rect' | 'closePath' | 'fill' | 'fillRect'
+  | 'fillStyle' | 'globalAlpha' | 'globalCompositeOperation'
+>;
+
+/**
+ * Draw dot layers, one batched path and fill per layer in the layer's color and blend mode
+ */
+export function drawDotLayers(ctx: DotPathContext, layers: DotLayer[]): void {
+  for (const layer of layers) {
+    const { dots, count, shape } = layer;
+    ctx.fillStyle = layer.color;
+    ctx.globalAlpha = layer.alpha;
+    ctx.globalCompositeOperation = layer.blendMode;
+    ctx.beginPath();
     
-    // Calculate reasonable grid boundaries
-    const maxGridX = Math.min(500, Math.floor(canvas.width / gridSize)); 
-    const maxGridY = Math.min(500, Math.floor(canvas.height / gridSize));
-    
-    console.log("Grid size:", gridSize, "Grid boundaries:", maxGridX, "x", maxGridY);
-    
-    // Draw dot matrix pattern for primary layer
-    for (let yi = 0; yi < maxGridY; yi++) {
-      const y = yi * gridSize;
-      
-      for (let xi = 0; xi < maxGridX; xi++) {
-        const x = xi * gridSize;
-        
-        // Skip invalid coordinates
-        if (x < 0 || y < 0 || x >= tempCanvas.width || y >= tempCanvas.height) {
-          continue;
-        }
-        
-        try {
-          // Make sure x, y are within the canvas bounds
-          const safeX = Math.min(Math.max(0, x), tempCanvas.width - 1);
-          const safeY = Math.min(Math.max(0, y), tempCanvas.height - 1);
-          
-          // Get pixel data safely from corrected coordinates
-          const pixelData = tempCtx.getImageData(safeX, safeY, 1, 1).data;
-          
-          // Calculate brightness
-          const brightness = isGrayscale 
-            ? pixelData[0]
-            : (pixelData[0] + pixelData[1] + pixelData[2]) / 3;
-          
-          // Calculate dot size based on brightness
-          const maxRadius = Math.max(1, (gridSize / 2) * 0.8);
-          const radius = Math.max(0.5, Math.min(maxRadius, (brightness / 255) * maxRadius));
-          
-          // Calculate position with safety margins
-          const centerX = x + gridSize / 2;
-          const centerY = y + gridSize / 2;
-          
-          // Ensure the dot is within canvas bounds
-          if (radius <= 0 || 
-              centerX < radius || centerY < radius || 
-              centerX + radius >= canvas.width || centerY + radius >= canvas.height) {
-            continue;
-          }
-          
-          // Draw the dot based on selected shape
-          ctx.beginPath();
-          
-          switch (dotShape) {
-            case 'square':
-              // Draw square
-              const size = radius * 1.8; // Adjust size for better visual balance compared to circle
-              ctx.rect(centerX - size/2, centerY - size/2, size, size);
-              break;
-              
-            case 'cross':
-              // Draw cross
-              const thickness = radius * 0.6;
-              const length = radius * 1.8;
-              
-              // Horizontal line
-              ctx.rect(centerX - length/2, centerY - thickness/2, length, thickness);
-              
-              // Vertical line
-              ctx.rect(centerX - thickness/2, centerY - length/2, thickness, length);
-              break;
-              
-            case 'circle':
-            default:
-              // Draw circle (default)
-              ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-              break;
-          }
-          
-          ctx.fill();
-          
-        } catch (e) {
-          // Skip silently on error
-        }
-      }
+    // The shape registry supplies the outline; every dot joins the layer's path
+    for (let i = 0; i < count * 3; i += 3) {
+      shape.trace(ctx, dots[i], dots[i + 1], dots[i + 2]);
     }
     
-    // Draw second layer if enabled
-    if (useSecondLayer) {
-      // Apply a slight offset to create more dynamic range
-      const offset = secondLayerOffset || 3;
-      
-      // Set opacity for second layer
-      ctx.globalAlpha = secondLayerOpacity;
-      
-      // Draw second layer with smaller dots and offset
-      for (let yi = 0; yi < maxGridY; yi++) {
-        const y = yi * gridSize + offset;
-        
-        for (let xi = 0; xi < maxGridX; xi++) {
-          const x = xi * gridSize + offset;
-          
-          // Skip invalid coordinates
-          if (x < 0 || y < 0 || x >= tempCanvas.width || y >= tempCanvas.height) {
-            continue;
-          }
-          
-          try {
-            // Make sure x, y are within the canvas bounds
-            const safeX = Math.min(Math.max(0, x), tempCanvas.width - 1);
-            const safeY = Math.min(Math.max(0, y), tempCanvas.height - 1);
-            
-            // Get pixel data safely from corrected coordinates
-            const pixelData = tempCtx.getImageData(safeX, safeY, 1, 1).data;
-            
-            // Calculate brightness - invert for second layer to create contrast
-            const brightness = isGrayscale 
-              ? 255 - pixelData[0]
-              : 255 - ((pixelData[0] + pixelData[1] + pixelData[2]) / 3);
-            
-            // Second layer gets smaller dots
-            const maxRadius = Math.max(1, (gridSize / 3) * 0.8);
-            const radius = Math.max(0.3, Math.min(maxRadius, (brightness / 255) * maxRadius));
-            
-            // Calculate position with safety margins
-            const centerX = x + gridSize / 2;
-            const centerY = y + gridSize / 2;
-            
-            // Ensure the dot is within canvas bounds
-            if (radius <= 0 || 
-                centerX < radius || centerY < radius || 
-                centerX + radius >= canvas.width || centerY + radius >= canvas.height) {
-              continue;
-            }
-            
-            // Always use circles for second layer for better overlap
-            ctx.beginPath();
-            ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-            ctx.fill();
-            
-          } catch (e) {
-            // Skip silently on error
-          }
-        }
+    ctx.fill();
+  }
+  
+  // Reset opacity and blending for future drawing
+  ctx.globalAlpha = 1.0;
+  ctx.globalCompositeOperation = 'source-over';
+}
+
+/**
+ * Draw a render plan onto a canvas: the plan's background, then the dot layers
+ */
+export function drawHalftonePlan(ctx: DotPathContext, plan: HalftonePlan): void {
+  ctx.globalAlpha = 1.0;
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.fillStyle = plan.background;
+  ctx.fillRect(0, 0, plan.width, plan.height);
+  drawDotLayers(ctx, plan.layers);
+}
+
+/**
+ * Render the halftone of a frame onto a canvas
+ * The pixel buffer itself is left untouched
+ */
+export function renderHalftone(
+  ctx: DotPathContext,
+  imageData: PixelBuffer,
+  filterSettings: FilterSettings,
+  scale = 1
+): void {
+  const plan = planHalftone(imageData.data, imageData.width, imageData.height, filterSettings, scale);
+  drawHalftonePlan(ctx, plan);
+}
+
+/**
+ * Drawing surface for any effect: dot paths plus direct pixel writes
+ */
+export type FilterContext = DotPathContext & Pick<CanvasRenderingContext2D, 'putImageData'>;
+
+/**
+ * Render a frame onto a canvas with the effect selected in the settings
+ * The pixel buffer itself is left untouched; `scale` multiplies the
+ * settings' pixel sizes, as in planHalftone
+ */
+export function renderFilter(
+  ctx: FilterContext,
+  imageData: PixelBuffer,
+  filterSettings: FilterSettings,
+  scale = 1
+): void {
+  if (filterSettings.effect === 'dither') {
+    const output = ditherRGBA(imageData.data, imageData.width, imageData.height, filterSettings, scale);
+    ctx.putImageData(new ImageData(output, imageData.width, imageData.height), 0, 0);
+    return;
+  }
+  
+  renderHalftone(ctx, imageData, filterSettings, scale);
+}
+
+/**
+ * Load an image URL (data:, blob: or same-origin) into ImageData at its native size
+ */
+export function loadImageData(url: string): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
       }
       
-      // Reset opacity for future drawing
-      ctx.globalAlpha = 1.0;
-    }
-  } catch (error) {
-    // On any failure, show a black screen
-    console.error("Error in image processing:", error);
-    if (ctx) {
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
+}
+
+/**
+ * Draw an image URL framed, at its native resolution
+ * Resolves with a URL of the framed image, as a JPEG, and its size.
+ */
+export function renderFramedImage(url: string, framing: Framing): Promise<{ url: string; width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const { width, height } = framedSize(framing, img.naturalWidth, img.naturalHeight);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
       
-      // Draw error message
-      ctx.fillStyle = 'white';
-      ctx.font = '12px sans-serif';
-      ctx.textAlign = 'center';
-      ctx.fillText('Camera processing error', canvas.width / 2, canvas.height / 2);
-    }
-  }
+      drawFrameLayout(ctx, img, width, height, getFramedLayout(framing, img.naturalWidth, img.naturalHeight, width, height));
+      canvas.toBlob(blob => {
+        if (blob) {
+          resolve({ url: URL.createObjectURL(blob), width, height });
+        } else {
+          reject(new Error('Could not encode the framed image'));
+        }
+      }, 'image/jpeg', 0.95);
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
 }
 
 /**
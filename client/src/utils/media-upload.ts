@@ -0,0 +1,112 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { CapturedItem } from "@/pages/Home";
+import { getFileExtension } from "@/utils/file-utils";
+import { loadVideoMetadata, seekTo } from "@/utils/video-export";
+
+// Longest side of thumbnails made in the browser; the server scales them again
+const THUMBNAIL_SIZE = 640;
+
+export type UploadOptions = {
+  keepOriginal?: boolean; // Store the unprocessed frame so the item can be re-rendered
+  albumId?: number; // Album to file the capture in
+};
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the image'));
+    image.src = url;
+  });
+}
+
+/**
+ * JPEG still of an image or video frame, for types the server can't decode
+ */
+function drawThumbnail(source: CanvasImageSource, width: number, height: number): Promise<Blob | null> {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.resolve(null);
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+}
+
+/**
+ * The unprocessed frame as a JPEG or PNG, the formats the server re-renders from
+ */
+async function readOriginal(url: string): Promise<Blob | null> {
+  const original = await fetch(url).then(response => response.blob());
+  if (original.type === 'image/jpeg' || original.type === 'image/png') return original;
+
+  const image = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(image, 0, 0);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+}
+
+/**
+ * Save a capture to the signed-in user's gallery
+ * The file itself is uploaded; videos also send their size, length and a
+ * poster frame, and animations their first frame, since the server only
+ * decodes still JPEG and PNG. The unprocessed frame goes along too unless
+ * turned off, so the capture can be re-edited and re-rendered later.
+ */
+export async function uploadCapturedItem(item: CapturedItem, { keepOriginal = true, albumId }: UploadOptions = {}): Promise<void> {
+  const mimeType = item.mimeType ?? (item.type === 'image' ? 'image/jpeg' : 'video/webm');
+  const blob = await fetch(item.url).then(response => response.blob());
+
+  const form = new FormData();
+  form.append('media', blob, `capture.${getFileExtension(mimeType)}`);
+
+  if (item.type === 'video') {
+    const video = await loadVideoMetadata(item.url);
+    form.append('width', String(video.videoWidth));
+    form.append('height', String(video.videoHeight));
+    // MediaRecorder WebM files report an infinite duration until fully scanned
+    if (Number.isFinite(video.duration)) {
+      form.append('duration', String(video.duration));
+    }
+
+    await seekTo(video, Math.min(0.1, video.duration / 2 || 0), new AbortController().signal);
+    const poster = await drawThumbnail(video, video.videoWidth, video.videoHeight);
+    if (poster) form.append('thumbnail', poster, 'thumbnail.jpg');
+  } else if (mimeType !== 'image/jpeg' && mimeType !== 'image/png') {
+    const image = await loadImage(item.url);
+    const still = await drawThumbnail(image, image.naturalWidth, image.naturalHeight);
+    if (still) form.append('thumbnail', still, 'thumbnail.jpg');
+  }
+
+  if (item.filterSettings) {
+    form.append('filterSettings', JSON.stringify(item.filterSettings));
+  }
+  if (item.source) {
+    form.append('sourceType', item.source.type);
+    // Unknown until a camera or video has loaded
+    if (item.source.width > 0 && item.source.height > 0) {
+      form.append('sourceWidth', String(item.source.width));
+      form.append('sourceHeight', String(item.source.height));
+    }
+    if (item.source.takenAt) {
+      form.append('sourceTakenAt', item.source.takenAt);
+    }
+    if (keepOriginal && item.source.url) {
+      const original = await readOriginal(item.source.url);
+      if (original) form.append('source', original, `source.${getFileExtension(original.type)}`);
+    }
+  }
+
+  if (albumId !== undefined) {
+    form.append('albumId', String(albumId));
+  }
+
+  await apiRequest('POST', '/api/media', form);
+}
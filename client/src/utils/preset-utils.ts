@@ -0,0 +1,126 @@
+import type { FilterSettings } from "@shared/halftone";
+import {
+  PRESET_URL_PARAM,
+  decodePresetFromUrl,
+  encodePresetForUrl,
+  parsePresetFile,
+  type PresetFile,
+} from "@shared/presets";
+import { createThumbnail, renderFilter } from "@/utils/image-processing";
+
+// Size of the sample scene presets are previewed on
+const SAMPLE_SIZE = 128;
+
+let sampleImage: ImageData | null = null;
+const thumbnailCache = new Map<string, string>();
+
+/**
+ * Colorful sample scene with a lit sphere, so tone and color presets both read
+ */
+function getSampleImage(): ImageData | null {
+  if (sampleImage) return sampleImage;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  const background = ctx.createLinearGradient(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  background.addColorStop(0, '#1d3b8b');
+  background.addColorStop(0.5, '#c2417a');
+  background.addColorStop(1, '#f2c14e');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  const center = SAMPLE_SIZE / 2;
+  const sphere = ctx.createRadialGradient(center * 0.8, center * 0.8, 4, center, center, center * 0.7);
+  sphere.addColorStop(0, '#ffffff');
+  sphere.addColorStop(0.4, '#7fd1c7');
+  sphere.addColorStop(1, '#0b1a2a');
+  ctx.fillStyle = sphere;
+  ctx.beginPath();
+  ctx.arc(center, center, center * 0.7, 0, Math.PI * 2);
+  ctx.fill();
+
+  sampleImage = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  return sampleImage;
+}
+
+/**
+ * Thumbnail of a preset applied to the sample scene, cached per settings
+ */
+export function createPresetThumbnail(filterSettings: FilterSettings, size: number = 64): string {
+  const cacheKey = `${size}:${JSON.stringify(filterSettings)}`;
+  const cached = thumbnailCache.get(cacheKey);
+  if (cached) return cached;
+
+  const sample = getSampleImage();
+  if (!sample) return '';
+
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  renderFilter(ctx, sample, filterSettings);
+  const thumbnail = createThumbnail(canvas, size, size);
+  if (thumbnail) thumbnailCache.set(cacheKey, thumbnail);
+  return thumbnail;
+}
+
+/**
+ * Download a preset as a .json file
+ */
+export function downloadPresetFile(preset: PresetFile): void {
+  const json = JSON.stringify(preset, null, 2);
+  const blobUrl = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const safeName = preset.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'preset';
+
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = `pixelcam-preset-${safeName}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  setTimeout(() => URL.revokeObjectURL(blobUrl), 60000);
+}
+
+/**
+ * Read a preset from an uploaded .json file
+ */
+export async function readPresetFile(file: File): Promise<PresetFile> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const preset = parsePresetFile(data);
+  if (!preset) {
+    throw new Error('The file is not a valid preset');
+  }
+  return preset;
+}
+
+/**
+ * Link to the current page that opens with the preset applied
+ */
+export function createShareUrl(preset: PresetFile): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(PRESET_URL_PARAM, encodePresetForUrl(preset));
+  return url.toString();
+}
+
+/**
+ * Preset carried by the current page's share link, if any
+ */
+export function readSharedPreset(): PresetFile | null {
+  const value = new URLSearchParams(window.location.search).get(PRESET_URL_PARAM);
+  return value ? decodePresetFromUrl(value) : null;
+}
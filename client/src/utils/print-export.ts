@@ -0,0 +1,230 @@
+/**
+ * Print export
+ * Lays a capture out on paper and writes it as a PDF or a high-resolution
+ * PNG. Captures with their source and settings are re-rendered at print
+ * resolution, and halftones go into the PDF as vector dots when they can.
+ */
+
+import { planHalftone, type FilterSettings, type HalftonePlan } from '@shared/halftone';
+import { MAX_OUTPUT_MEGAPIXELS } from '@shared/output-size';
+import { computePrintLayout, printRenderScale, sheetPixelSize, type PrintLayout, type PrintSettings } from '@shared/print-layout';
+import { createPrintPdf, supportsVectorPdf, type PdfArtwork, type PdfStreamWriter } from '@shared/print-pdf';
+import { ANIMATION_MIME_TYPES } from './animation-export';
+import { drawHalftonePlan, loadImageData, renderFilter } from './image-processing';
+
+export type PrintSource = {
+  imageUrl: string; // The capture as saved
+  sourceUrl?: string; // Unprocessed source, to re-render from
+  filterSettings?: FilterSettings;
+};
+
+export type PrintFormat = 'pdf' | 'png';
+
+const JPEG_QUALITY = 0.95;
+
+/**
+ * Whether a capture is a still image that can be printed, not a clip or animation
+ * Images without a MIME type are JPEG captures.
+ */
+export function canPrint(mimeType: string | null | undefined): boolean {
+  if (!mimeType) return true;
+  return mimeType.startsWith('image/') && !Object.values(ANIMATION_MIME_TYPES).includes(mimeType);
+}
+
+// PNG chunk CRC, as in the animation encoders
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * zlib-wrapped deflate, as PDF FlateDecode streams expect
+ * Chunks are compressed as they're written, so only the deflated stream is
+ * held in memory.
+ */
+function deflate(): PdfStreamWriter {
+  const compression = new CompressionStream('deflate');
+  const writer = compression.writable.getWriter();
+  const output = new Response(compression.readable).arrayBuffer();
+  return {
+    write: chunk => writer.write(chunk),
+    close: async () => {
+      await writer.close();
+      return new Uint8Array(await output);
+    },
+  };
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode the print'))),
+      type,
+      quality
+    );
+  });
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  return [canvas, ctx];
+}
+
+/**
+ * Record the print resolution in a PNG, so layout apps place it at the right size
+ * The pHYs chunk goes straight after IHDR, which is always the first 33 bytes.
+ */
+async function withPngDpi(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Unit: meters
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return new Blob([bytes.subarray(0, 33), chunk, bytes.subarray(33)], { type: 'image/png' });
+}
+
+/**
+ * Pixel size the capture is drawn at on the print, within MAX_OUTPUT_MEGAPIXELS
+ */
+function artworkPixelSize(layout: PrintLayout): { width: number; height: number } {
+  const width = layout.image.width * layout.dpi;
+  const height = layout.image.height * layout.dpi;
+  const fit = Math.min(1, Math.sqrt((MAX_OUTPUT_MEGAPIXELS * 1_000_000) / (width * height)));
+  return {
+    width: Math.max(1, Math.round(width * fit)),
+    height: Math.max(1, Math.round(height * fit)),
+  };
+}
+
+/**
+ * The capture at print resolution: a halftone plan when it has one, pixels otherwise
+ */
+async function renderArtwork(
+  source: PrintSource,
+  settings: PrintSettings
+): Promise<{ layout: PrintLayout; plan: HalftonePlan | null; canvas: HTMLCanvasElement | null }> {
+  const { sourceUrl, filterSettings } = source;
+
+  if (!sourceUrl || !filterSettings) {
+    // Nothing to re-render from: place the capture's own pixels
+    const imageData = await loadImageData(source.imageUrl);
+    const [canvas, ctx] = createCanvas(imageData.width, imageData.height);
+    ctx.putImageData(imageData, 0, 0);
+    return { layout: computePrintLayout(settings, imageData.width, imageData.height), plan: null, canvas };
+  }
+
+  const sourceData = await loadImageData(sourceUrl);
+  const layout = computePrintLayout(settings, sourceData.width, sourceData.height);
+  const { width, height } = artworkPixelSize(layout);
+
+  // Resample the source to print resolution, then render the settings onto it
+  const [sourceCanvas, sourceCtx] = createCanvas(sourceData.width, sourceData.height);
+  sourceCtx.putImageData(sourceData, 0, 0);
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(sourceCanvas, 0, 0, width, height);
+  const imageData = ctx.getImageData(0, 0, width, height);
+
+  // Screen rulings only mean something for halftones; dithers keep their look
+  const lpi = filterSettings.effect === 'dither' ? null : settings.lpi;
+  const scale = printRenderScale(filterSettings, lpi, layout, sourceData.width, width);
+
+  if (filterSettings.effect === 'dither') {
+    renderFilter(ctx, imageData, filterSettings, scale);
+    return { layout, plan: null, canvas };
+  }
+  const plan = planHalftone(imageData.data, width, height, filterSettings, scale);
+  return { layout, plan, canvas: null };
+}
+
+function planToCanvas(plan: HalftonePlan): HTMLCanvasElement {
+  const [canvas, ctx] = createCanvas(plan.width, plan.height);
+  drawHalftonePlan(ctx, plan);
+  return canvas;
+}
+
+/**
+ * Draw the whole sheet: the capture clipped to the layout, then crop marks
+ */
+function drawSheet(layout: PrintLayout, artwork: HTMLCanvasElement): HTMLCanvasElement {
+  const size = sheetPixelSize(layout);
+  if (size.width * size.height > MAX_OUTPUT_MEGAPIXELS * 1_000_000) {
+    throw new Error(`The sheet is over ${MAX_OUTPUT_MEGAPIXELS} megapixels at ${layout.dpi} DPI`);
+  }
+
+  const [canvas, ctx] = createCanvas(size.width, size.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.scale(size.width / layout.width, size.height / layout.height);
+
+  const { clip, image } = layout;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(clip.x, clip.y, clip.width, clip.height);
+  ctx.clip();
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(artwork, image.x, image.y, image.width, image.height);
+  ctx.restore();
+
+  if (layout.cropMarks.length > 0) {
+    // Quarter-point hairlines, but never thinner than a pixel
+    ctx.lineWidth = Math.max(0.25 / 72, 1 / layout.dpi);
+    ctx.strokeStyle = '#000000';
+    ctx.beginPath();
+    for (const [x1, y1, x2, y2] of layout.cropMarks) {
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+    }
+    ctx.stroke();
+  }
+  return canvas;
+}
+
+/**
+ * Export a capture laid out for print
+ * PDFs hold halftones as vector dots when their blend modes allow it; PNGs
+ * are the whole sheet at the chosen DPI.
+ */
+export async function exportPrint(source: PrintSource, settings: PrintSettings, format: PrintFormat): Promise<Blob> {
+  const { layout, plan, canvas } = await renderArtwork(source, settings);
+
+  if (format === 'png') {
+    const sheet = drawSheet(layout, canvas ?? planToCanvas(plan!));
+    return withPngDpi(await canvasToBlob(sheet, 'image/png'), layout.dpi);
+  }
+
+  let artwork: PdfArtwork;
+  if (plan && supportsVectorPdf(plan)) {
+    artwork = { type: 'vector', plan };
+  } else {
+    const raster = canvas ?? planToCanvas(plan!);
+    const jpeg = await canvasToBlob(raster, 'image/jpeg', JPEG_QUALITY);
+    artwork = { type: 'jpeg', data: new Uint8Array(await jpeg.arrayBuffer()), width: raster.width, height: raster.height };
+  }
+  const pdf = await createPrintPdf(layout, artwork, deflate);
+  return new Blob([pdf], { type: 'application/pdf' });
+}
@@ -0,0 +1,301 @@
+import type { FilterSettings } from "@shared/halftone";
+import { applyTimeline, type FilterTimeline } from "@shared/timeline";
+import {
+  applyAudioReactive,
+  createAudioFollower,
+  followAudio,
+  hasAudioMappings,
+  type AudioBands,
+  type AudioReactiveSettings,
+} from "@shared/audio-reactive";
+import { analyzeAudioFrames } from "@/utils/audio-analysis";
+import { renderFilter } from "@/utils/image-processing";
+import { decodeAudioTrack, encodeAudio, isAudioCodecSupported, type AudioCodec } from "@/utils/audio-encoding";
+import {
+  bufferSourceToBytes,
+  muxMp4,
+  muxWebM,
+  type MuxerAudioTrack,
+  type MuxerSample,
+  type MuxerVideoTrack,
+} from "@/utils/video-muxers";
+
+export type VideoFormat = 'webm' | 'mp4';
+
+export type VideoExportOptions = {
+  filterSettings: FilterSettings;
+  format: VideoFormat;
+  start: number; // Trim in point, seconds
+  end: number; // Trim out point, seconds
+  height: number | null; // Output height; null keeps the source size
+  fps: number;
+  includeAudio: boolean;
+  timeline?: FilterTimeline | null; // Keyframed settings, timed from the trim in point
+  audioReactive?: AudioReactiveSettings | null; // Driven by the video's own soundtrack
+};
+
+export type VideoExportResult = {
+  blob: Blob;
+  hasAudio: boolean;
+};
+
+// All divide the MP4 video timescale evenly, so frame times stay exact
+export const VIDEO_FRAME_RATES = [12, 15, 24, 25, 30, 60];
+export const VIDEO_HEIGHTS = [1080, 720, 480, 360];
+
+export const VIDEO_MIME_TYPES: Record<VideoFormat, string> = {
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+};
+
+// Candidate codecs per container, most preferred first
+const FORMAT_CODECS: Record<VideoFormat, { video: string[]; audio: AudioCodec[] }> = {
+  webm: { video: ['vp09.00.40.08', 'vp8'], audio: ['opus'] },
+  mp4: { video: ['avc1.640028', 'avc1.4d0028', 'avc1.42001f'], audio: ['mp4a.40.2', 'opus'] },
+};
+
+// Seconds between forced keyframes, so the result stays seekable
+const KEYFRAME_INTERVAL = 2;
+
+// Frames allowed to wait in the encoder before rendering pauses
+const MAX_ENCODE_QUEUE = 8;
+
+// Share of the progress bar spent on audio when it's included
+const AUDIO_PROGRESS_SHARE = 0.1;
+
+function abortError(): DOMException {
+  return new DOMException('Export cancelled', 'AbortError');
+}
+
+function videoEncoderConfig(codec: string, width: number, height: number, fps: number): VideoEncoderConfig {
+  return {
+    codec,
+    width,
+    height,
+    framerate: fps,
+    // Halftone dots are all hard edges, so they need more bits than camera footage
+    bitrate: Math.round(width * height * fps * 0.15),
+    // MP4 stores H.264 length-prefixed, with the parameter sets in the avcC record
+    ...(codec.startsWith('avc1') && { avc: { format: 'avc' as const } }),
+  };
+}
+
+async function pickVideoCodec(format: VideoFormat, width: number, height: number, fps: number): Promise<string | null> {
+  if (typeof VideoEncoder === 'undefined') return null;
+
+  for (const codec of FORMAT_CODECS[format].video) {
+    try {
+      const support = await VideoEncoder.isConfigSupported(videoEncoderConfig(codec, width, height, fps));
+      if (support.supported) return codec;
+    } catch {
+      // Malformed or unknown codec strings throw; try the next one
+    }
+  }
+  return null;
+}
+
+async function pickAudioCodec(format: VideoFormat): Promise<AudioCodec | null> {
+  for (const codec of FORMAT_CODECS[format].audio) {
+    if (await isAudioCodecSupported(codec)) return codec;
+  }
+  return null;
+}
+
+/**
+ * Containers this browser can encode video into
+ */
+export async function getSupportedVideoFormats(): Promise<VideoFormat[]> {
+  const formats: VideoFormat[] = [];
+  for (const format of ['webm', 'mp4'] as VideoFormat[]) {
+    if (await pickVideoCodec(format, 1280, 720, 30)) formats.push(format);
+  }
+  return formats;
+}
+
+/**
+ * Load a video element far enough to know its duration and size
+ */
+export function loadVideoMetadata(url: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('Could not load the video file'));
+    video.src = url;
+  });
+}
+
+/**
+ * Output size for a target height, keeping the aspect ratio
+ * Never upscales, and rounds to even numbers since most encoders need them.
+ */
+export function getOutputSize(sourceWidth: number, sourceHeight: number, height: number | null): { width: number; height: number } {
+  const scale = height ? Math.min(1, height / sourceHeight) : 1;
+  return {
+    width: Math.max(2, Math.round((sourceWidth * scale) / 2) * 2),
+    height: Math.max(2, Math.round((sourceHeight * scale) / 2) * 2),
+  };
+}
+
+/**
+ * Seek a video and wait until the frame at that time can be drawn
+ */
+export function seekTo(video: HTMLVideoElement, time: number, signal: AbortSignal): Promise<void> {
+  if (Math.abs(video.currentTime - time) < 1e-6) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+      signal.removeEventListener('abort', handleAbort);
+    };
+    const handleSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('Could not read a frame from the video'));
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    signal.addEventListener('abort', handleAbort);
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Apply the filter to every frame of a video and encode the result
+ * Frames are visited by seeking to each output frame time, so the result is
+ * frame-accurate no matter how long filtering takes. `onProgress` gets 0-1.
+ */
+export async function exportVideo(
+  source: Blob,
+  options: VideoExportOptions,
+  onProgress: (progress: number) => void,
+  signal: AbortSignal
+): Promise<VideoExportResult> {
+  const { filterSettings, timeline, audioReactive, format, fps } = options;
+  const url = URL.createObjectURL(source);
+  let encoder: VideoEncoder | null = null;
+
+  try {
+    const video = await loadVideoMetadata(url);
+    const start = Math.max(0, Math.min(options.start, video.duration));
+    const end = Math.max(start, Math.min(options.end, video.duration));
+    const frameCount = Math.max(1, Math.round((end - start) * fps));
+    const { width, height } = getOutputSize(video.videoWidth, video.videoHeight, options.height);
+
+    const codec = await pickVideoCodec(format, width, height, fps);
+    if (!codec) {
+      throw new Error(`This browser can't encode ${format.toUpperCase()} video`);
+    }
+
+    // Audio first: it's quick, and a missing encoder shouldn't cost a full video pass
+    let audioTrack: MuxerAudioTrack | undefined;
+    let audioFrames: AudioBands[] | null = null;
+    const audioCodec = options.includeAudio ? await pickAudioCodec(format) : null;
+    const reactive = hasAudioMappings(audioReactive) ? audioReactive : null;
+    if (audioCodec || reactive) {
+      const audio = await decodeAudioTrack(source, start, end);
+      if (audio && audioCodec) {
+        audioTrack = await encodeAudio(audio, audioCodec, signal);
+      }
+      // Analyzed up front at the output frame rate, so every export of a clip reacts the same way
+      if (audio && reactive) {
+        audioFrames = analyzeAudioFrames(audio, fps, frameCount, reactive.sensitivity);
+      }
+    }
+    const videoProgressStart = options.includeAudio ? AUDIO_PROGRESS_SHARE : 0;
+    onProgress(videoProgressStart);
+
+    const samples: MuxerSample[] = [];
+    let description: Uint8Array | undefined;
+    let encoderError: DOMException | null = null;
+
+    encoder = new VideoEncoder({
+      output: (chunk, metadata) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        samples.push({ data, timestamp: chunk.timestamp, duration: chunk.duration ?? 0, keyFrame: chunk.type === 'key' });
+
+        if (metadata?.decoderConfig?.description) {
+          description = bufferSourceToBytes(metadata.decoderConfig.description);
+        }
+      },
+      error: (error) => {
+        encoderError = error;
+      },
+    });
+    encoder.configure(videoEncoderConfig(codec, width, height, fps));
+
+    const sourceCanvas = document.createElement('canvas');
+    sourceCanvas.width = width;
+    sourceCanvas.height = height;
+    const sourceCtx = sourceCanvas.getContext('2d', { willReadFrequently: true });
+
+    const outputCanvas = document.createElement('canvas');
+    outputCanvas.width = width;
+    outputCanvas.height = height;
+    const outputCtx = outputCanvas.getContext('2d');
+
+    if (!sourceCtx || !outputCtx) {
+      throw new Error('Could not initialize canvas context for video processing');
+    }
+
+    // Settings are measured against the source's pixels, so a scaled-down export keeps its look
+    const scale = width / video.videoWidth;
+    const frameDuration = 1e6 / fps;
+    const audioFollower = createAudioFollower();
+    const keyFrameEvery = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL));
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      if (signal.aborted) throw abortError();
+      if (encoderError) throw encoderError;
+
+      // Sample the middle of each output frame so rounding never lands on a frame boundary
+      const time = Math.min(start + (frame + 0.5) / fps, video.duration - 0.001);
+      await seekTo(video, time, signal);
+
+      sourceCtx.drawImage(video, 0, 0, width, height);
+      const imageData = sourceCtx.getImageData(0, 0, width, height);
+      let frameSettings = applyTimeline(filterSettings, timeline, frame / fps);
+      if (audioFrames && reactive) {
+        const levels = followAudio(audioFollower, audioFrames[frame], 1 / fps, reactive);
+        frameSettings = applyAudioReactive(frameSettings, reactive, levels);
+      }
+      renderFilter(outputCtx, imageData, frameSettings, scale);
+
+      const videoFrame = new VideoFrame(outputCanvas, {
+        timestamp: Math.round(frame * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(videoFrame, { keyFrame: frame % keyFrameEvery === 0 });
+      videoFrame.close();
+
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      onProgress(videoProgressStart + (1 - videoProgressStart) * ((frame + 1) / frameCount));
+    }
+
+    await encoder.flush();
+    if (encoderError) throw encoderError;
+
+    const videoTrack: MuxerVideoTrack = { codec, width, height, description, samples };
+    const blob = format === 'mp4' ? muxMp4(videoTrack, audioTrack) : muxWebM(videoTrack, audioTrack);
+
+    return { blob, hasAudio: !!audioTrack && audioTrack.samples.length > 0 };
+  } finally {
+    if (encoder && encoder.state !== 'closed') encoder.close();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,500 @@
+/**
+ * Minimal WebM and MP4 muxers for WebCodecs output
+ * Every encoded sample is already in memory when muxing starts, so both
+ * containers are written in one pass with known sizes: WebM as a single
+ * Segment of keyframe-aligned Clusters, MP4 as ftyp + mdat + moov with one
+ * chunk per track.
+ */
+
+/**
+ * One encoded frame or audio packet; times are in microseconds
+ */
+export type MuxerSample = {
+  data: Uint8Array;
+  timestamp: number;
+  duration: number;
+  keyFrame: boolean;
+};
+
+export type MuxerVideoTrack = {
+  codec: string; // WebCodecs codec string, e.g. 'vp8' or 'avc1.640028'
+  width: number;
+  height: number;
+  description?: Uint8Array; // Decoder configuration, e.g. the avcC record for H.264
+  samples: MuxerSample[];
+};
+
+export type MuxerAudioTrack = {
+  codec: string; // 'opus' or 'mp4a.40.2'
+  sampleRate: number;
+  channels: number;
+  description?: Uint8Array;
+  samples: MuxerSample[];
+};
+
+// Samples libopus holds back at the start of a stream (its lookahead at 48 kHz)
+const OPUS_PRE_SKIP = 312;
+
+/* Byte helpers */
+
+/**
+ * Copy of a decoder description, which WebCodecs may hand over as any BufferSource
+ */
+export function bufferSourceToBytes(source: BufferSource): Uint8Array {
+  return source instanceof ArrayBuffer
+    ? new Uint8Array(source.slice(0))
+    : new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function u8(value: number): Uint8Array {
+  return Uint8Array.of(value & 0xff);
+}
+
+function u16(value: number): Uint8Array {
+  return Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+}
+
+function u24(value: number): Uint8Array {
+  return Uint8Array.of((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+}
+
+function u32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+}
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, character => character.charCodeAt(0) & 0x7f);
+}
+
+function totalSize(samples: MuxerSample[]): number {
+  return samples.reduce((total, sample) => total + sample.data.length, 0);
+}
+
+/**
+ * End of the last sample in microseconds
+ */
+function trackEnd(samples: MuxerSample[]): number {
+  return samples.reduce((end, sample) => Math.max(end, sample.timestamp + sample.duration), 0);
+}
+
+/**
+ * OpusHead identification header (little-endian), used as WebM CodecPrivate
+ */
+function createOpusHead(channels: number, sampleRate: number): Uint8Array {
+  const bytes = new Uint8Array(19);
+  const view = new DataView(bytes.buffer);
+  bytes.set(ascii('OpusHead'));
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true);
+  view.setUint8(18, 0);
+  return bytes;
+}
+
+/* WebM */
+
+// Matroska element IDs, with their length marker bits included
+const EBML_IDS = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+};
+
+// Block times are 16-bit offsets from their cluster, in milliseconds
+const MAX_CLUSTER_SPAN_MS = 30000;
+
+function ebmlId(id: number): Uint8Array {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, value = id; i >= 0; i--, value = Math.floor(value / 256)) {
+    bytes[i] = value % 256;
+  }
+  return bytes;
+}
+
+/**
+ * Variable-length size with the shortest encoding that fits
+ */
+function ebmlSize(size: number): Uint8Array {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, value = size; i >= 0; i--, value = Math.floor(value / 256)) {
+    bytes[i] = value % 256;
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+function ebmlUint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return Uint8Array.from(bytes);
+}
+
+function ebmlFloat(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+/**
+ * Element as a list of parts, so large payloads are never copied
+ */
+function element(id: number, children: Uint8Array | Uint8Array[]): Uint8Array[] {
+  const parts = Array.isArray(children) ? children : [children];
+  const size = parts.reduce((total, part) => total + part.length, 0);
+  return [ebmlId(id), ebmlSize(size), ...parts];
+}
+
+function webmCodecId(codec: string): string {
+  if (codec.startsWith('vp09')) return 'V_VP9';
+  if (codec.startsWith('av01')) return 'V_AV1';
+  if (codec === 'vp8') return 'V_VP8';
+  if (codec === 'opus') return 'A_OPUS';
+  throw new Error(`Codec ${codec} can't be stored in WebM`);
+}
+
+/**
+ * Mux encoded tracks into a WebM file
+ */
+export function muxWebM(video: MuxerVideoTrack, audio?: MuxerAudioTrack): Blob {
+  const ids = EBML_IDS;
+
+  const header = element(ids.EBML, [
+    ...element(ids.EBMLVersion, ebmlUint(1)),
+    ...element(ids.EBMLReadVersion, ebmlUint(1)),
+    ...element(ids.EBMLMaxIDLength, ebmlUint(4)),
+    ...element(ids.EBMLMaxSizeLength, ebmlUint(8)),
+    ...element(ids.DocType, ascii('webm')),
+    ...element(ids.DocTypeVersion, ebmlUint(2)),
+    ...element(ids.DocTypeReadVersion, ebmlUint(2)),
+  ]);
+
+  const hasAudio = !!audio && audio.samples.length > 0;
+  const durationMs = Math.max(trackEnd(video.samples), hasAudio ? trackEnd(audio!.samples) : 0) / 1000;
+
+  const info = element(ids.Info, [
+    ...element(ids.TimecodeScale, ebmlUint(1000000)),
+    ...element(ids.Duration, ebmlFloat(durationMs)),
+    ...element(ids.MuxingApp, ascii('PixelCam')),
+    ...element(ids.WritingApp, ascii('PixelCam')),
+  ]);
+
+  const videoEntry = element(ids.TrackEntry, [
+    ...element(ids.TrackNumber, ebmlUint(1)),
+    ...element(ids.TrackUID, ebmlUint(1)),
+    ...element(ids.TrackType, ebmlUint(1)),
+    ...element(ids.CodecID, ascii(webmCodecId(video.codec))),
+    ...(video.description ? element(ids.CodecPrivate, video.description) : []),
+    ...element(ids.Video, [
+      ...element(ids.PixelWidth, ebmlUint(video.width)),
+      ...element(ids.PixelHeight, ebmlUint(video.height)),
+    ]),
+  ]);
+
+  const audioEntry = hasAudio ? element(ids.TrackEntry, [
+    ...element(ids.TrackNumber, ebmlUint(2)),
+    ...element(ids.TrackUID, ebmlUint(2)),
+    ...element(ids.TrackType, ebmlUint(2)),
+    ...element(ids.CodecID, ascii(webmCodecId(audio!.codec))),
+    ...element(ids.CodecPrivate, audio!.description ?? createOpusHead(audio!.channels, audio!.sampleRate)),
+    ...element(ids.CodecDelay, ebmlUint(Math.round((OPUS_PRE_SKIP / 48000) * 1e9))),
+    ...element(ids.SeekPreRoll, ebmlUint(80000000)),
+    ...element(ids.Audio, [
+      ...element(ids.SamplingFrequency, ebmlFloat(audio!.sampleRate)),
+      ...element(ids.Channels, ebmlUint(audio!.channels)),
+    ]),
+  ]) : [];
+
+  const tracks = element(ids.Tracks, [...videoEntry, ...audioEntry]);
+
+  // Interleave both tracks by time; each video keyframe starts a new cluster
+  const blocks = [
+    ...video.samples.map(sample => ({ track: 1, sample })),
+    ...(hasAudio ? audio!.samples.map(sample => ({ track: 2, sample })) : []),
+  ].sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.track - b.track);
+
+  const clusters: Uint8Array[] = [];
+  let clusterStart = -1;
+  let clusterBlocks: Uint8Array[] = [];
+
+  const flushCluster = () => {
+    if (clusterBlocks.length === 0) return;
+    clusters.push(...element(ids.Cluster, [
+      ...element(ids.Timecode, ebmlUint(clusterStart)),
+      ...clusterBlocks,
+    ]));
+    clusterBlocks = [];
+  };
+
+  for (const { track, sample } of blocks) {
+    const time = Math.round(sample.timestamp / 1000);
+    const startsCluster = clusterStart < 0 ||
+      (track === 1 && sample.keyFrame) ||
+      time - clusterStart > MAX_CLUSTER_SPAN_MS;
+
+    if (startsCluster) {
+      flushCluster();
+      clusterStart = time;
+    }
+
+    const blockHeader = new Uint8Array(4);
+    const view = new DataView(blockHeader.buffer);
+    view.setUint8(0, 0x80 | track);
+    view.setInt16(1, time - clusterStart);
+    view.setUint8(3, sample.keyFrame || track === 2 ? 0x80 : 0);
+    clusterBlocks.push(...element(ids.SimpleBlock, [blockHeader, sample.data]));
+  }
+  flushCluster();
+
+  const segment = element(ids.Segment, [...info, ...tracks, ...clusters]);
+  return new Blob([...header, ...segment], { type: 'video/webm' });
+}
+
+/* MP4 */
+
+// Track timescale for video; divides evenly by every supported frame rate
+const MP4_VIDEO_TIMESCALE = 90000;
+const MP4_MOVIE_TIMESCALE = 1000;
+
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+// Per-sample tables are passed pre-joined, since long videos have too many entries to spread into arguments
+function box(type: string, ...children: Uint8Array[]): Uint8Array {
+  const payload = concat(children);
+  return concat([u32(payload.length + 8), ascii(type), payload]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...children: Uint8Array[]): Uint8Array {
+  return box(type, u8(version), u24(flags), ...children);
+}
+
+function matrix(): Uint8Array {
+  return concat(IDENTITY_MATRIX.map(u32));
+}
+
+/**
+ * Sample timing table, run-length encoded
+ */
+function createStts(samples: MuxerSample[], timescale: number): Uint8Array {
+  const toUnits = (microseconds: number) => Math.round((microseconds * timescale) / 1e6);
+  const entries: Array<[number, number]> = [];
+
+  samples.forEach((sample, index) => {
+    const next = samples[index + 1];
+    const delta = next
+      ? toUnits(next.timestamp) - toUnits(sample.timestamp)
+      : toUnits(sample.duration);
+    const last = entries[entries.length - 1];
+    if (last && last[1] === delta) {
+      last[0]++;
+    } else {
+      entries.push([1, delta]);
+    }
+  });
+
+  return fullBox('stts', 0, 0, u32(entries.length), concat(entries.flatMap(([count, delta]) => [u32(count), u32(delta)])));
+}
+
+/**
+ * MPEG-4 descriptor with a single-byte length
+ */
+function descriptor(tag: number, ...children: Uint8Array[]): Uint8Array {
+  const payload = concat(children);
+  return concat([u8(tag), u8(payload.length), payload]);
+}
+
+// Sample rates in AudioSpecificConfig index order
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/**
+ * AAC-LC AudioSpecificConfig, for encoders that don't report one
+ */
+function createAudioSpecificConfig(sampleRate: number, channels: number): Uint8Array {
+  const rateIndex = Math.max(0, AAC_SAMPLE_RATES.indexOf(sampleRate));
+  const objectType = 2;
+  return u16((objectType << 11) | (rateIndex << 7) | (channels << 3));
+}
+
+function audioSampleEntry(audio: MuxerAudioTrack): Uint8Array {
+  const fields = [
+    new Uint8Array(6), u16(1), // Reserved, data reference index
+    new Uint8Array(8), // Reserved
+    u16(audio.channels), u16(16), u16(0), u16(0),
+    u32(audio.sampleRate * 65536),
+  ];
+
+  if (audio.codec === 'opus') {
+    const dOps = box('dOps',
+      u8(0), u8(audio.channels), u16(OPUS_PRE_SKIP), u32(audio.sampleRate), u16(0), u8(0)
+    );
+    return box('Opus', ...fields, dOps);
+  }
+
+  const esds = fullBox('esds', 0, 0, descriptor(0x03,
+    u16(1), u8(0),
+    descriptor(0x04,
+      u8(0x40), u8(0x15), u24(0), u32(0), u32(0),
+      descriptor(0x05, audio.description ?? createAudioSpecificConfig(audio.sampleRate, audio.channels))
+    ),
+    descriptor(0x06, u8(0x02))
+  ));
+  return box('mp4a', ...fields, esds);
+}
+
+function videoSampleEntry(video: MuxerVideoTrack): Uint8Array {
+  if (!video.codec.startsWith('avc1') || !video.description) {
+    throw new Error(`Codec ${video.codec} can't be stored in MP4`);
+  }
+
+  return box('avc1',
+    new Uint8Array(6), u16(1), // Reserved, data reference index
+    new Uint8Array(16), // Pre-defined and reserved
+    u16(video.width), u16(video.height),
+    u32(0x00480000), u32(0x00480000), // 72 dpi
+    u32(0), u16(1), // Reserved, frame count
+    new Uint8Array(32), // Compressor name
+    u16(0x0018), u16(0xffff),
+    box('avcC', video.description)
+  );
+}
+
+function trak(
+  trackId: number,
+  kind: 'video' | 'audio',
+  samples: MuxerSample[],
+  timescale: number,
+  sampleEntry: Uint8Array,
+  chunkOffset: number,
+  size?: { width: number; height: number }
+): Uint8Array {
+  const end = trackEnd(samples);
+  const movieDuration = Math.round((end * MP4_MOVIE_TIMESCALE) / 1e6);
+  const mediaDuration = Math.round((end * timescale) / 1e6);
+
+  const tkhd = fullBox('tkhd', 0, 3,
+    u32(0), u32(0), u32(trackId), u32(0), u32(movieDuration),
+    new Uint8Array(8), u16(0), u16(0),
+    u16(kind === 'audio' ? 0x0100 : 0), u16(0),
+    matrix(),
+    u32((size?.width ?? 0) * 65536), u32((size?.height ?? 0) * 65536)
+  );
+
+  const mdhd = fullBox('mdhd', 0, 0,
+    u32(0), u32(0), u32(timescale), u32(mediaDuration), u16(0x55c4), u16(0)
+  );
+
+  const hdlr = fullBox('hdlr', 0, 0,
+    u32(0), ascii(kind === 'video' ? 'vide' : 'soun'), new Uint8Array(12),
+    ascii(kind === 'video' ? 'VideoHandler\0' : 'SoundHandler\0')
+  );
+
+  const mediaHeader = kind === 'video'
+    ? fullBox('vmhd', 0, 1, u16(0), u16(0), u16(0), u16(0))
+    : fullBox('smhd', 0, 0, u16(0), u16(0));
+
+  const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+
+  const keyFrames = samples.flatMap((sample, index) => sample.keyFrame ? [index + 1] : []);
+  const stbl = box('stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry),
+    createStts(samples, timescale),
+    // Every audio sample is a sync sample, so audio tracks leave out stss
+    ...(kind === 'video' ? [fullBox('stss', 0, 0, u32(keyFrames.length), concat(keyFrames.map(u32)))] : []),
+    fullBox('stsc', 0, 0, u32(1), u32(1), u32(samples.length), u32(1)),
+    fullBox('stsz', 0, 0, u32(0), u32(samples.length), concat(samples.map(sample => u32(sample.data.length)))),
+    fullBox('stco', 0, 0, u32(1), u32(chunkOffset))
+  );
+
+  return box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', mediaHeader, dinf, stbl)));
+}
+
+/**
+ * Mux encoded tracks into an MP4 file
+ * Video must be H.264 in avc (length-prefixed) format; audio AAC or Opus.
+ */
+export function muxMp4(video: MuxerVideoTrack, audio?: MuxerAudioTrack): Blob {
+  const hasAudio = !!audio && audio.samples.length > 0;
+
+  const ftyp = box('ftyp', ascii('isom'), u32(0x200), ascii('isom'), ascii('iso2'), ascii('avc1'), ascii('mp41'));
+
+  // Samples go into mdat in track order, one chunk per track
+  const videoSize = totalSize(video.samples);
+  const audioSize = hasAudio ? totalSize(audio!.samples) : 0;
+  const mdatHeader = concat([u32(videoSize + audioSize + 8), ascii('mdat')]);
+  const videoOffset = ftyp.length + mdatHeader.length;
+
+  const end = Math.max(trackEnd(video.samples), hasAudio ? trackEnd(audio!.samples) : 0);
+  const mvhd = fullBox('mvhd', 0, 0,
+    u32(0), u32(0), u32(MP4_MOVIE_TIMESCALE), u32(Math.round((end * MP4_MOVIE_TIMESCALE) / 1e6)),
+    u32(0x00010000), u16(0x0100), u16(0), new Uint8Array(8),
+    matrix(), new Uint8Array(24),
+    u32(hasAudio ? 3 : 2)
+  );
+
+  const videoTrak = trak(
+    1, 'video', video.samples, MP4_VIDEO_TIMESCALE, videoSampleEntry(video), videoOffset,
+    { width: video.width, height: video.height }
+  );
+  const audioTrak = hasAudio
+    ? trak(2, 'audio', audio!.samples, audio!.sampleRate, audioSampleEntry(audio!), videoOffset + videoSize)
+    : new Uint8Array(0);
+
+  const moov = box('moov', mvhd, videoTrak, audioTrak);
+
+  return new Blob([
+    ftyp,
+    mdatHeader,
+    ...video.samples.map(sample => sample.data),
+    ...(hasAudio ? audio!.samples.map(sample => sample.data) : []),
+    moov,
+  ], { type: 'video/mp4' });
+}
@@ -0,0 +1,149 @@
+/**
+ * Headless benchmark for the halftone kernel
+ * Renders synthetic frames through planHalftone/drawDotLayers against a
+ * path-counting context so timings can be compared between changes.
+ * Pass --raster to also time the software rasterizer used on the server, and
+ * --color cmyk|rgb to benchmark a color separation instead of mono. --grid
+ * selects the screen topology and --angle its rotation.
+ *
+ * Usage: npm run bench:halftone [-- --width 1920 --height 1080 --frames 30 --raster --color cmyk --grid hex --angle 45]
+ */
+import {
+  planHalftone,
+  rasterizeHalftone,
+  type ColorMode,
+  type FilterSettings,
+  type GridTopology,
+  type SamplingMode,
+} from "../shared/halftone";
+import { DEFAULT_CHANNELS, DEFAULT_DITHER_SETTINGS } from "../shared/filter-settings";
+import {
+  drawDotLayers,
+  type DotPathContext,
+  type PixelBuffer,
+} from "../client/src/utils/image-processing";
+
+function readArg(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = Number(process.argv[index + 1]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const width = readArg("width", 1920);
+const height = readArg("height", 1080);
+const frames = readArg("frames", 30);
+const includeRaster = process.argv.includes("--raster");
+const colorArg = process.argv[process.argv.indexOf("--color") + 1];
+const colorMode: ColorMode = colorArg === "cmyk" || colorArg === "rgb" ? colorArg : "mono";
+const gridArg = process.argv[process.argv.indexOf("--grid") + 1];
+const gridTopology: GridTopology =
+  gridArg === "hex" || gridArg === "radial" || gridArg === "stochastic" ? gridArg : "square";
+const screenAngle = readArg("angle", 0);
+
+// Diagonal gradient with deterministic noise so every cell has a different value
+function createSyntheticFrame(w: number, h: number, seed: number): PixelBuffer {
+  const data = new Uint8ClampedArray(w * h * 4);
+  let state = seed;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      state = (state * 1664525 + 1013904223) >>> 0;
+      const noise = (state >>> 24) - 128;
+      const base = ((x / w + y / h) / 2) * 255;
+      const i = (y * w + x) * 4;
+      data[i] = base + noise * 0.3;
+      data[i + 1] = base * 0.8 + noise * 0.2;
+      data[i + 2] = 255 - base;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: w, height: h };
+}
+
+// Stand-in for CanvasRenderingContext2D that only counts path operations
+function createCountingContext() {
+  const counts = { subpaths: 0, fills: 0 };
+  const ctx: DotPathContext = {
+    fillStyle: "black",
+    globalAlpha: 1,
+    globalCompositeOperation: "source-over",
+    beginPath() {},
+    moveTo() {},
+    lineTo() {},
+    closePath() { counts.subpaths++; },
+    arc() { counts.subpaths++; },
+    ellipse() { counts.subpaths++; },
+    rect() { counts.subpaths++; },
+    fill() { counts.fills++; },
+    fillRect() {},
+  };
+  return { ctx, counts };
+}
+
+const baseSettings: FilterSettings = {
+  effect: "halftone",
+  dotSize: 4,
+  contrast: 1.5,
+  brightness: 1.0,
+  isGrayscale: true,
+  dotShape: "circle",
+  shapeBands: [],
+  customShapes: [],
+  useSecondLayer: true,
+  secondLayerOpacity: 0.5,
+  secondLayerOffset: 5,
+  sampling: "point",
+  screenAngle,
+  gridTopology,
+  colorMode,
+  channels: DEFAULT_CHANNELS,
+  dither: DEFAULT_DITHER_SETTINGS,
+};
+
+const source = createSyntheticFrame(width, height, 42);
+const samplingModes: SamplingMode[] = ["point", "area"];
+
+console.log(
+  `Halftone kernel benchmark: ${width}x${height} ${colorMode} ${gridTopology} ${screenAngle}°, ${frames} frames per case`
+);
+console.log("dotSize  sampling  plan(ms)  draw(ms)  raster(ms)  total(ms)  fps     subpaths");
+
+for (const dotSize of [2, 3, 4, 8]) {
+  for (const sampling of samplingModes) {
+    const settings: FilterSettings = { ...baseSettings, dotSize, sampling };
+    const { ctx, counts } = createCountingContext();
+    let planTime = 0;
+    let drawTime = 0;
+    let rasterTime = 0;
+
+    for (let frame = 0; frame < frames; frame++) {
+      let start = performance.now();
+      const plan = planHalftone(source.data, width, height, settings);
+      planTime += performance.now() - start;
+
+      start = performance.now();
+      drawDotLayers(ctx, plan.layers);
+      drawTime += performance.now() - start;
+
+      if (includeRaster) {
+        start = performance.now();
+        rasterizeHalftone(plan);
+        rasterTime += performance.now() - start;
+      }
+    }
+
+    const total = (planTime + drawTime + rasterTime) / frames;
+    console.log(
+      [
+        String(dotSize).padEnd(7),
+        sampling.padEnd(8),
+        (planTime / frames).toFixed(2).padStart(8),
+        (drawTime / frames).toFixed(2).padStart(8),
+        (rasterTime / frames).toFixed(2).padStart(10),
+        total.toFixed(2).padStart(9),
+        (1000 / total).toFixed(1).padStart(6),
+        String(Math.round(counts.subpaths / frames)).padStart(10),
+      ].join("  ")
+    );
+  }
+}
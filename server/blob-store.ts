@@ -0,0 +1,319 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rm, stat } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { pipeline } from "stream/promises";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export type BlobObject = {
+  body: Readable;
+  contentType: string;
+  size: number;
+};
+
+export type PutBlobOptions = {
+  contentType: string;
+  contentLength: number;
+};
+
+/**
+ * Where uploaded media bytes live
+ * Keys are slash-separated paths like "media/12/<uuid>.jpg". Clients never see
+ * keys directly, only time-limited signed URLs.
+ */
+export interface BlobStore {
+  put(key: string, body: Buffer | Readable, options: PutBlobOptions): Promise<void>;
+  get(key: string): Promise<BlobObject | null>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+// Letters, digits, dashes, dots and underscores in slash-separated segments, never ".."
+const KEY_PATTERN = /^[\w.-]+(\/[\w.-]+)*$/;
+
+export function isValidBlobKey(key: string): boolean {
+  return KEY_PATTERN.test(key) && !key.split('/').some(segment => segment === '.' || segment === '..');
+}
+
+function assertValidKey(key: string): void {
+  if (!isValidBlobKey(key)) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Blobs as files under a directory, served back through signed app URLs
+ */
+export class LocalBlobStore implements BlobStore {
+  constructor(
+    private root: string,
+    private secret: string,
+    private urlPrefix: string = '/api/blobs'
+  ) {}
+
+  pathFor(key: string): string {
+    assertValidKey(key);
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async put(key: string, body: Buffer | Readable, options: PutBlobOptions): Promise<void> {
+    const filePath = this.pathFor(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, createWriteStream(filePath));
+  }
+
+  async get(key: string): Promise<BlobObject | null> {
+    const filePath = this.pathFor(key);
+    try {
+      const info = await stat(filePath);
+      return { body: createReadStream(filePath), contentType: contentTypeForKey(key), size: info.size };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private sign(key: string, expires: number): string {
+    return hmac(this.secret, `${key}:${expires}`).toString('hex');
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    assertValidKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${this.urlPrefix}/${key}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  /**
+   * Check the query of a URL made by getSignedUrl
+   */
+  verifySignedUrl(key: string, expires: string, signature: string): boolean {
+    const expiresAt = parseInt(expires, 10);
+    if (!isValidBlobKey(key) || isNaN(expiresAt) || expiresAt < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(this.sign(key, expiresAt), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
+
+export type S3BlobStoreConfig = {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // Bucket in the path rather than the host; MinIO and most stand-ins need it
+};
+
+// RFC 3986 encoding as SigV4 expects, optionally leaving path slashes alone
+function encodeRfc3986(value: string, keepSlashes: boolean = false): string {
+  const encoded = encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return keepSlashes ? encoded.replace(/%2F/g, '/') : encoded;
+}
+
+/**
+ * Blobs in an S3-compatible bucket, signed with AWS Signature Version 4
+ * Talks plain HTTP through fetch, so it works the same against AWS, R2 or a
+ * local MinIO stand-in.
+ */
+export class S3BlobStore implements BlobStore {
+  constructor(private config: S3BlobStoreConfig) {}
+
+  private objectUrl(key: string): URL {
+    assertValidKey(key);
+    const endpoint = new URL(this.config.endpoint);
+    const objectPath = encodeRfc3986(key, true);
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${this.config.bucket}/${objectPath}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${objectPath}`);
+  }
+
+  private signingKey(date: string): Buffer {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, date);
+    const regionKey = hmac(dateKey, this.config.region);
+    const serviceKey = hmac(regionKey, 's3');
+    return hmac(serviceKey, 'aws4_request');
+  }
+
+  private scope(date: string): string {
+    return `${date}/${this.config.region}/s3/aws4_request`;
+  }
+
+  /**
+   * Signature over a canonical request; headers must already be lower-case
+   */
+  private signature(
+    method: string,
+    url: URL,
+    query: Record<string, string>,
+    headers: Record<string, string>,
+    payloadHash: string,
+    amzDate: string
+  ): string {
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+    const headerNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      headerNames.map(name => `${name}:${headers[name].trim()}\n`).join(''),
+      headerNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const date = amzDate.slice(0, 8);
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, this.scope(date), sha256Hex(canonicalRequest)].join('\n');
+    return createHmac('sha256', this.signingKey(date)).update(stringToSign).digest('hex');
+  }
+
+  private async request(method: string, key: string, body?: Buffer | Readable, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    const url = this.objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    // Streams can't be hashed up front; S3 accepts unsigned payloads over the signed headers
+    const payloadHash = Buffer.isBuffer(body) ? sha256Hex(body) : body ? 'UNSIGNED-PAYLOAD' : sha256Hex('');
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...extraHeaders,
+    };
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const signature = this.signature(method, url, {}, headers, payloadHash, amzDate);
+
+    const { host, ...sendHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...sendHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${this.scope(amzDate.slice(0, 8))}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body: body ? (Buffer.isBuffer(body) ? body : Readable.toWeb(body) as ReadableStream) : undefined,
+      // Node's fetch needs this to send a streamed body
+      duplex: 'half',
+    } as RequestInit);
+  }
+
+  async put(key: string, body: Buffer | Readable, options: PutBlobOptions): Promise<void> {
+    const response = await this.request('PUT', key, body, {
+      'content-length': String(options.contentLength),
+      'content-type': options.contentType,
+    });
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<BlobObject | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 download failed with status ${response.status}`);
+    }
+    return {
+      body: Readable.fromWeb(response.body as WebReadableStream),
+      contentType: response.headers.get('content-type') || contentTypeForKey(key),
+      size: parseInt(response.headers.get('content-length') || '0', 10),
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    // Deleting a missing object is a 204 on S3 but some stand-ins answer 404
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with status ${response.status}`);
+    }
+  }
+
+  /**
+   * Presigned GET URL, so browsers load media straight from the bucket
+   */
+  async getSignedUrl(key: string, expiresInSeconds: number, now: Date = new Date()): Promise<string> {
+    const url = this.objectUrl(key);
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${this.scope(amzDate.slice(0, 8))}`,
+      'X-Amz-Date': amzDate,
+      // SigV4 caps presigned URLs at seven days
+      'X-Amz-Expires': String(Math.min(expiresInSeconds, 7 * 24 * 60 * 60)),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const signature = this.signature('GET', url, query, { host: url.host }, 'UNSIGNED-PAYLOAD', amzDate);
+
+    const search = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+    return `${url.origin}${url.pathname}?${search}&X-Amz-Signature=${signature}`;
+  }
+}
+
+// Served content types by extension, for stores that don't keep one per object
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  apng: 'image/apng',
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+};
+
+function contentTypeForKey(key: string): string {
+  const extension = key.slice(key.lastIndexOf('.') + 1).toLowerCase();
+  return EXTENSION_CONTENT_TYPES[extension] || 'application/octet-stream';
+}
+
+/**
+ * Blob store picked from the environment
+ * MEDIA_STORAGE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY
+ * (plus S3_ENDPOINT for anything but AWS); otherwise files go under
+ * MEDIA_STORAGE_DIR, ./uploads by default.
+ */
+function createBlobStore(): BlobStore {
+  if (process.env.MEDIA_STORAGE === 's3') {
+    const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error("MEDIA_STORAGE=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+    const region = process.env.S3_REGION || 'us-east-1';
+    return new S3BlobStore({
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      // A custom endpoint is usually MinIO or another stand-in, which wants path-style URLs
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : !!process.env.S3_ENDPOINT,
+    });
+  }
+
+  return new LocalBlobStore(
+    path.resolve(process.env.MEDIA_STORAGE_DIR || 'uploads'),
+    process.env.MEDIA_URL_SECRET || process.env.SESSION_SECRET || 'pixelcam_media_secret'
+  );
+}
+
+export const blobStore = createBlobStore();
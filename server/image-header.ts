@@ -0,0 +1,76 @@
+import { readExif } from "@shared/exif";
+
+export type MediaDimensions = {
+  width: number;
+  height: number;
+};
+
+/**
+ * Pixel size read from an image's header, without decoding it
+ */
+export function readImageDimensions(data: Buffer, mimeType: string): MediaDimensions | null {
+  switch (mimeType) {
+    case 'image/png':
+    case 'image/apng':
+      // IHDR is always the first chunk
+      return data.length >= 24 ? { width: data.readUInt32BE(16), height: data.readUInt32BE(20) } : null;
+
+    case 'image/gif':
+      return data.length >= 10 ? { width: data.readUInt16LE(6), height: data.readUInt16LE(8) } : null;
+
+    case 'image/webp':
+      return readWebpDimensions(data);
+
+    case 'image/jpeg': {
+      // Reported the way the photo is shown, which EXIF may turn on its side
+      const dimensions = readJpegDimensions(data);
+      const orientation = readExif(data)?.orientation ?? 1;
+      return dimensions && orientation >= 5 ? { width: dimensions.height, height: dimensions.width } : dimensions;
+    }
+
+    default:
+      return null;
+  }
+}
+
+function readWebpDimensions(data: Buffer): MediaDimensions | null {
+  if (data.length < 30) return null;
+  const chunk = data.toString('latin1', 12, 16);
+
+  if (chunk === 'VP8X') {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  if (chunk === 'VP8 ') {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L') {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  return null;
+}
+
+function readJpegDimensions(data: Buffer): MediaDimensions | null {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+
+    // Any start-of-frame except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
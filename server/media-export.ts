@@ -0,0 +1,124 @@
+import type { Writable } from "stream";
+import type { Album, CapturedMedia, MediaSourceType } from "@shared/schema";
+import type { FilterSettings } from "@shared/halftone";
+import { DEFAULT_FILTER_SETTINGS } from "@shared/filter-settings";
+import { blobStore } from "./blob-store";
+import { MEDIA_TYPES } from "./media";
+import { ZipWriter } from "./zip";
+
+export const MEDIA_EXPORT_TYPE = 'pixelcam-export';
+export const MEDIA_EXPORT_VERSION = 1;
+
+// Total size of the files in one export, well inside the 4 GB a plain ZIP can hold
+export const MAX_EXPORT_SIZE = 2 * 1024 * 1024 * 1024;
+
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+export type ExportItem = {
+  media: CapturedMedia;
+  tags: string[];
+  album: Album | null;
+};
+
+type ManifestItem = {
+  file: string | null; // Path in the archive; null when there's no stored file
+  id: number;
+  mediaType: string;
+  mimeType: string | null;
+  size: number | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  timestamp: string;
+  source: { type: MediaSourceType; width: number | null; height: number | null; takenAt: string | null } | null;
+  album: string | null;
+  tags: string[];
+  filterSettings: FilterSettings | null; // Complete, so the look can be reproduced
+};
+
+/**
+ * manifest.json, written last so it only lists files that made it in
+ */
+export type MediaExportManifest = {
+  type: typeof MEDIA_EXPORT_TYPE;
+  version: typeof MEDIA_EXPORT_VERSION;
+  exportedAt: string;
+  album: string | null; // Set when a whole album was exported
+  items: ManifestItem[];
+};
+
+/**
+ * Name of a capture's file inside an export
+ */
+export function exportFileName(media: CapturedMedia): string {
+  const extension = (media.mimeType && MEDIA_TYPES[media.mimeType]?.extension) ?? 'bin';
+  return `pixelcam-${media.mediaType}-${media.id}.${extension}`;
+}
+
+/**
+ * Download name of an export: the album's name, or the date
+ */
+export function exportArchiveName(album: Album | null, now: Date = new Date()): string {
+  const slug = album?.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug ? `pixelcam-${slug}.zip` : `pixelcam-export-${now.toISOString().slice(0, 10)}.zip`;
+}
+
+/**
+ * Bytes an export will hold, before ZIP headers
+ */
+export function exportSize(items: ExportItem[]): number {
+  return items.reduce((total, item) => total + (item.media.size ?? 0), 0);
+}
+
+/**
+ * Stream a ZIP of the captures' stored files plus a manifest to output
+ * Files are read from the blob store one at a time. A file that has gone
+ * missing is left out and listed with a null file rather than failing the
+ * whole export.
+ */
+export async function writeMediaExport(output: Writable, items: ExportItem[], album: Album | null): Promise<void> {
+  const zip = new ZipWriter(output);
+  const manifestItems: ManifestItem[] = [];
+
+  for (const { media, tags, album: itemAlbum } of items) {
+    let file: string | null = null;
+    const blob = media.storageKey ? await blobStore.get(media.storageKey) : null;
+    if (blob) {
+      file = exportFileName(media);
+      await zip.addFile(file, blob.body, media.timestamp);
+    }
+
+    manifestItems.push({
+      file,
+      id: media.id,
+      mediaType: media.mediaType,
+      mimeType: media.mimeType,
+      size: media.size,
+      width: media.width,
+      height: media.height,
+      duration: media.duration,
+      timestamp: media.timestamp.toISOString(),
+      source: media.sourceType
+        ? {
+          type: media.sourceType,
+          width: media.sourceWidth,
+          height: media.sourceHeight,
+          takenAt: media.sourceTakenAt?.toISOString() ?? null,
+        }
+        : null,
+      album: itemAlbum?.name ?? null,
+      tags,
+      filterSettings: media.filterSettings ? { ...DEFAULT_FILTER_SETTINGS, ...media.filterSettings } : null,
+    });
+  }
+
+  const manifest: MediaExportManifest = {
+    type: MEDIA_EXPORT_TYPE,
+    version: MEDIA_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    album: album?.name ?? null,
+    items: manifestItems,
+  };
+  await zip.addFile(MANIFEST_FILE_NAME, Buffer.from(JSON.stringify(manifest, null, 2)));
+  await zip.finish();
+}
@@ -0,0 +1,26 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readExif } from "@shared/exif";
+import { stripImageMetadata } from "./media";
+import { encodeImage, RenderInputError } from "./render";
+
+const image = (format: 'png' | 'jpeg') => encodeImage(new Uint8ClampedArray(8 * 8 * 4).fill(255), 8, 8, format);
+
+describe("stripImageMetadata", () => {
+  it("strips JPEGs and PNGs", () => {
+    assert.equal(readExif(stripImageMetadata(image('jpeg'), 'image/jpeg')), null);
+    assert.deepEqual(stripImageMetadata(image('png'), 'image/png'), image('png'));
+  });
+
+  it("refuses images it can't read through instead of storing their metadata", () => {
+    const truncated = image('jpeg').subarray(0, 100);
+    assert.throws(() => stripImageMetadata(truncated, 'image/jpeg'), RenderInputError);
+    assert.throws(() => stripImageMetadata(image('png').subarray(0, 60), 'image/png'), RenderInputError);
+    assert.throws(() => stripImageMetadata(image('png'), 'image/jpeg'), RenderInputError);
+  });
+
+  it("leaves other types as they are", () => {
+    const gif = Buffer.from("GIF89a");
+    assert.equal(stripImageMetadata(gif, 'image/gif'), gif);
+  });
+});
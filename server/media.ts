@@ -0,0 +1,180 @@
+import { decodeImage, encodeImage, RenderInputError, type DecodedImage } from "./render";
+import { readExif, stripJpegMetadata, stripPngMetadata } from "@shared/exif";
+
+export { readImageDimensions, type MediaDimensions } from "./image-header";
+
+export type MediaKind = 'image' | 'video';
+
+// Accepted uploads by MIME type, with the extension their blobs are stored under
+export const MEDIA_TYPES: Record<string, { kind: MediaKind; extension: string }> = {
+  'image/jpeg': { kind: 'image', extension: 'jpg' },
+  'image/png': { kind: 'image', extension: 'png' },
+  'image/apng': { kind: 'image', extension: 'png' },
+  'image/gif': { kind: 'image', extension: 'gif' },
+  'image/webp': { kind: 'image', extension: 'webp' },
+  'video/webm': { kind: 'video', extension: 'webm' },
+  'video/mp4': { kind: 'video', extension: 'mp4' },
+};
+
+export const MAX_MEDIA_SIZE: Record<MediaKind, number> = {
+  image: 20 * 1024 * 1024,
+  video: 200 * 1024 * 1024,
+};
+
+// Client-made thumbnails (video frames, animations) are small stills
+export const MAX_THUMBNAIL_UPLOAD_SIZE = 2 * 1024 * 1024;
+
+// Longest side of generated thumbnails
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 80;
+
+/**
+ * MIME type an upload's leading bytes actually belong to, or null
+ * Clients can claim any Content-Type, so stored media is typed by content.
+ */
+export function sniffMediaType(header: Buffer): string | null {
+  if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (header.length >= 8 && header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    // An acTL chunk before the image data marks an animated PNG
+    const dataStart = header.indexOf('IDAT');
+    const animation = header.indexOf('acTL');
+    return animation !== -1 && (dataStart === -1 || animation < dataStart) ? 'image/apng' : 'image/png';
+  }
+  if (header.length >= 6 && (header.toString('latin1', 0, 6) === 'GIF87a' || header.toString('latin1', 0, 6) === 'GIF89a')) {
+    return 'image/gif';
+  }
+  if (header.length >= 12 && header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'video/webm';
+  }
+  if (header.length >= 8 && header.toString('latin1', 4, 8) === 'ftyp') {
+    return 'video/mp4';
+  }
+  return null;
+}
+
+/**
+ * Decode a stored PNG or JPEG; animated PNGs decode to their first frame
+ * JPEGs come out the right way up, following their EXIF orientation.
+ */
+export function decodeMediaImage(data: Buffer, mimeType: string): DecodedImage {
+  const image = decodeImage(data, mimeType === 'image/apng' ? 'image/png' : mimeType);
+  return mimeType === 'image/jpeg' ? orientImage(image, readExif(data)?.orientation ?? 1) : image;
+}
+
+/**
+ * Flip and rotate pixels as an EXIF orientation (2-8) says to show them
+ */
+function orientImage(image: DecodedImage, orientation: number): DecodedImage {
+  if (orientation < 2 || orientation > 8) return image;
+
+  const { width, height } = image;
+  const transposed = orientation >= 5;
+  const outputWidth = transposed ? height : width;
+  const output = new Uint8ClampedArray(image.data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let tx: number, ty: number;
+      switch (orientation) {
+        case 2: tx = width - 1 - x; ty = y; break;
+        case 3: tx = width - 1 - x; ty = height - 1 - y; break;
+        case 4: tx = x; ty = height - 1 - y; break;
+        case 5: tx = y; ty = x; break;
+        case 6: tx = height - 1 - y; ty = x; break;
+        case 7: tx = height - 1 - y; ty = width - 1 - x; break;
+        default: tx = y; ty = width - 1 - x; break;
+      }
+      const i = (y * width + x) * 4;
+      output.set(image.data.subarray(i, i + 4), (ty * outputWidth + tx) * 4);
+    }
+  }
+
+  return { width: outputWidth, height: transposed ? width : height, data: output };
+}
+
+/**
+ * Copy of an image without EXIF, GPS and text metadata
+ * Only JPEG and PNG carry any that's worth removing; other types are returned
+ * as they are. JPEGs keep their orientation. Throws RenderInputError for
+ * JPEGs and PNGs that can't be read through, rather than store them with
+ * their metadata.
+ */
+export function stripImageMetadata(data: Buffer, mimeType: string): Buffer {
+  let stripped: Uint8Array | null = data;
+  if (mimeType === 'image/jpeg') {
+    stripped = stripJpegMetadata(data);
+  } else if (mimeType === 'image/png' || mimeType === 'image/apng') {
+    stripped = stripPngMetadata(data);
+  }
+  if (!stripped) {
+    throw new RenderInputError("The image is damaged or incomplete");
+  }
+  return stripped === data ? data : Buffer.from(stripped.buffer, stripped.byteOffset, stripped.byteLength);
+}
+
+/**
+ * Small JPEG preview of a PNG or JPEG image
+ */
+export function createThumbnail(data: Buffer, mimeType: string): Buffer {
+  return createThumbnailFromPixels(decodeMediaImage(data, mimeType));
+}
+
+/**
+ * Small JPEG preview of decoded pixels
+ * Box-filtered down so the longest side is at most THUMBNAIL_SIZE.
+ */
+export function createThumbnailFromPixels(image: DecodedImage): Buffer {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  const output = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * image.height) / height);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * image.height) / height));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * image.width) / width);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * image.width) / width));
+
+      // Transparent areas go white, since JPEG has no alpha
+      let r = 0, g = 0, b = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          const alpha = image.data[i + 3] / 255;
+          r += image.data[i] * alpha + 255 * (1 - alpha);
+          g += image.data[i + 1] * alpha + 255 * (1 - alpha);
+          b += image.data[i + 2] * alpha + 255 * (1 - alpha);
+        }
+      }
+
+      const count = (bottom - top) * (right - left);
+      const o = (y * width + x) * 4;
+      output[o] = r / count;
+      output[o + 1] = g / count;
+      output[o + 2] = b / count;
+      output[o + 3] = 255;
+    }
+  }
+
+  return encodeImage(output, width, height, 'jpeg', THUMBNAIL_QUALITY);
+}
+
+/**
+ * Whether the server can decode an image, to make thumbnails or re-render it
+ */
+export function canDecodeImage(mimeType: string): boolean {
+  return mimeType === 'image/jpeg' || mimeType === 'image/png' || mimeType === 'image/apng';
+}
+
+/**
+ * Whether the server can make a thumbnail itself; other types need one from the client
+ */
+export function canCreateThumbnail(mimeType: string): boolean {
+  return canDecodeImage(mimeType);
+}
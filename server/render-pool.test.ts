@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PNG } from "pngjs";
+import { DEFAULT_FILTER_SETTINGS } from "@shared/filter-settings";
+import { encodeImage, RenderInputError } from "./render";
+import { createThumbnailOffThread, decodeImageOffThread, renderImageOffThread } from "./render-pool";
+
+// Opaque PNG with a horizontal gray ramp
+function rampPng(width: number, height: number): Buffer {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    pixels.fill(Math.round(((i % width) / (width - 1)) * 255), i * 4, i * 4 + 3);
+    pixels[i * 4 + 3] = 255;
+  }
+  return encodeImage(pixels, width, height, 'png');
+}
+
+describe("render pool", () => {
+  it("decodes uploads on a worker", async () => {
+    const image = await decodeImageOffThread(rampPng(64, 32), 'image/png');
+    assert.equal(image.width, 64);
+    assert.equal(image.height, 32);
+    assert.ok(image.data instanceof Uint8ClampedArray);
+    assert.deepEqual(Array.from(image.data.subarray(0, 4)), [0, 0, 0, 255]);
+  });
+
+  it("resizes, renders and encodes, with an optional thumbnail", async () => {
+    const image = await decodeImageOffThread(rampPng(64, 32), 'image/png');
+    const { encoded, thumbnail } = await renderImageOffThread(image, {
+      width: 32,
+      height: 16,
+      filterSettings: DEFAULT_FILTER_SETTINGS,
+      format: 'png',
+      quality: 90,
+      thumbnail: true,
+    });
+
+    const output = PNG.sync.read(encoded);
+    assert.equal(output.width, 32);
+    assert.equal(output.height, 16);
+    assert.ok(thumbnail && thumbnail[0] === 0xff && thumbnail[1] === 0xd8);
+    // The pixels went to the worker rather than being copied
+    assert.equal(image.data.byteLength, 0);
+  });
+
+  it("makes JPEG thumbnails", async () => {
+    const thumbnail = await createThumbnailOffThread(rampPng(64, 32), 'image/png');
+    assert.deepEqual(Array.from(thumbnail.subarray(0, 2)), [0xff, 0xd8]);
+  });
+
+  it("passes input errors back with their status", async () => {
+    await assert.rejects(decodeImageOffThread(Buffer.from("not an image"), 'image/png'), (error: unknown) =>
+      error instanceof RenderInputError && error.status === 400
+    );
+    await assert.rejects(decodeImageOffThread(Buffer.from("GIF89a"), 'image/gif'), (error: unknown) =>
+      error instanceof RenderInputError && error.status === 415
+    );
+  });
+
+  it("keeps the event loop free while rendering", async () => {
+    const image = await decodeImageOffThread(rampPng(1200, 1200), 'image/png');
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 5);
+    try {
+      await renderImageOffThread(image, {
+        width: 1200,
+        height: 1200,
+        filterSettings: { ...DEFAULT_FILTER_SETTINGS, sampling: 'area' },
+        format: 'png',
+        quality: 90,
+      });
+    } finally {
+      clearInterval(timer);
+    }
+    assert.ok(ticks > 1);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Render pool
+ * Server renders decode, filter and encode images of up to
+ * MAX_RENDER_MEGAPIXELS, which takes seconds of CPU and a lot of memory. They
+ * run in a few worker threads so they never stall other requests; jobs past
+ * what the workers can take wait in a short queue, and beyond that are turned
+ * away as busy.
+ */
+
+import { Worker } from "worker_threads";
+import { extname } from "path";
+import { fileURLToPath } from "url";
+import os from "os";
+import type { FilterSettings } from "@shared/halftone";
+import { RenderInputError, type DecodedImage, type RenderFormat } from "./render";
+
+// One core is left for serving requests
+const RENDER_WORKERS = Math.max(1, Math.min(4, os.cpus().length - 1));
+
+// Decodes allowed to wait for a worker; more than this and the server is busy.
+// Renders always wait, as they follow a decode and the user has paid by then.
+const MAX_QUEUED_RENDERS = 8;
+
+export type RenderJob =
+  | { type: 'decode'; data: Uint8Array; mimeType: string; orient: boolean }
+  | { type: 'thumbnail'; data: Uint8Array; mimeType: string }
+  | {
+      type: 'render';
+      image: DecodedImage;
+      width: number;
+      height: number;
+      filterSettings: FilterSettings;
+      format: RenderFormat;
+      quality: number;
+      thumbnail: boolean;
+    };
+
+export type RenderedImage = { encoded: Uint8Array; thumbnail: Uint8Array | null };
+
+export type RenderJobResult = DecodedImage | RenderedImage | Uint8Array;
+
+export type RenderWorkerMessage =
+  | { result: RenderJobResult }
+  | { error: { name: string; message: string; status?: number } };
+
+export class RenderBusyError extends Error {
+  status = 503;
+
+  constructor() {
+    super("The server is busy rendering, try again shortly");
+    this.name = 'RenderBusyError';
+  }
+}
+
+type Task = {
+  job: RenderJob;
+  transfer: ArrayBuffer[];
+  resolve: (result: RenderJobResult) => void;
+  reject: (error: Error) => void;
+};
+
+// The worker runs from source in development and from the bundle in production
+const workerUrl = new URL(`./render-worker${extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+
+function startWorker(): Worker {
+  if (workerUrl.pathname.endsWith('.ts')) {
+    // Workers don't inherit tsx's loader, so register it before loading the source
+    return new Worker(
+      `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(workerUrl.href)}); })`,
+      { eval: true }
+    );
+  }
+  return new Worker(workerUrl);
+}
+
+const idle: Worker[] = [];
+const queue: Task[] = [];
+let workerCount = 0;
+
+function runTask(worker: Worker, task: Task): void {
+  const finish = () => {
+    worker.off('message', onMessage);
+    worker.off('error', onError);
+    worker.off('exit', onExit);
+  };
+  const onMessage = (message: RenderWorkerMessage) => {
+    finish();
+    if ('error' in message) {
+      const { name, message: text, status } = message.error;
+      task.reject(name === 'RenderInputError' ? new RenderInputError(text, status) : new Error(text));
+    } else {
+      task.resolve(message.result);
+    }
+    release(worker);
+  };
+  // A worker that dies mid-job, say out of memory, is replaced by the next job that needs one
+  const onError = (error: Error) => {
+    finish();
+    workerCount--;
+    task.reject(error);
+    worker.terminate();
+    next();
+  };
+  const onExit = (code: number) => onError(new Error(`Render worker stopped with exit code ${code}`));
+
+  worker.on('message', onMessage);
+  worker.on('error', onError);
+  worker.on('exit', onExit);
+  worker.postMessage(task.job, task.transfer);
+}
+
+function release(worker: Worker): void {
+  const task = queue.shift();
+  if (task) {
+    runTask(worker, task);
+  } else {
+    // Idle workers don't keep the process alive
+    worker.unref();
+    idle.push(worker);
+  }
+}
+
+function next(): void {
+  const task = queue.shift();
+  if (!task) return;
+  workerCount++;
+  runTask(startWorker(), task);
+}
+
+function submit(job: RenderJob, transfer: ArrayBuffer[], mayTurnAway: boolean): Promise<RenderJobResult> {
+  return new Promise((resolve, reject) => {
+    const task = { job, transfer, resolve, reject };
+    const worker = idle.pop();
+    if (worker) {
+      worker.ref();
+      runTask(worker, task);
+    } else if (workerCount < RENDER_WORKERS) {
+      workerCount++;
+      runTask(startWorker(), task);
+    } else if (!mayTurnAway || queue.length < MAX_QUEUED_RENDERS) {
+      queue.push(task);
+    } else {
+      reject(new RenderBusyError());
+    }
+  });
+}
+
+// Pixel buffers are moved to the other thread rather than copied, when they own their memory
+export function transferable(data: Uint8ClampedArray): ArrayBuffer[] {
+  return data.byteOffset === 0 && data.byteLength === data.buffer.byteLength ? [data.buffer as ArrayBuffer] : [];
+}
+
+/**
+ * Decode an uploaded PNG or JPEG on a render worker
+ * Throws RenderBusyError when too many renders are waiting. With `orient`, decodes as decodeMediaImage does: first frames of animated
+ * PNGs, and JPEGs turned the right way up.
+ */
+export async function decodeImageOffThread(data: Buffer, mimeType: string, orient = false): Promise<DecodedImage> {
+  return await submit({ type: 'decode', data, mimeType, orient }, [], true) as DecodedImage;
+}
+
+/**
+ * Small JPEG preview of a PNG or JPEG image, made on a render worker
+ * Throws RenderBusyError when too many renders are waiting.
+ */
+export async function createThumbnailOffThread(data: Buffer, mimeType: string): Promise<Buffer> {
+  const thumbnail = await submit({ type: 'thumbnail', data, mimeType }, [], true) as Uint8Array;
+  return Buffer.from(thumbnail.buffer, thumbnail.byteOffset, thumbnail.byteLength);
+}
+
+/**
+ * Resize, filter and encode decoded pixels on a render worker
+ * The image's pixels are handed over to the worker and can't be used after.
+ */
+export async function renderImageOffThread(
+  image: DecodedImage,
+  options: { width: number; height: number; filterSettings: FilterSettings; format: RenderFormat; quality: number; thumbnail?: boolean }
+): Promise<{ encoded: Buffer; thumbnail: Buffer | null }> {
+  const { encoded, thumbnail } = await submit(
+    { type: 'render', image, thumbnail: false, ...options },
+    transferable(image.data),
+    false
+  ) as RenderedImage;
+  return {
+    encoded: Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength),
+    thumbnail: thumbnail && Buffer.from(thumbnail.buffer, thumbnail.byteOffset, thumbnail.byteLength),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Render worker
+ * Runs the CPU-heavy parts of server renders off the request thread: decoding
+ * uploads, making thumbnails, and resizing, filtering and encoding renders. Started by the pool in
+ * render-pool.ts, one job at a time.
+ */
+
+import { parentPort } from "worker_threads";
+import { renderEffectRGBA } from "@shared/effects";
+import { createThumbnail, createThumbnailFromPixels, decodeMediaImage } from "./media";
+import { decodeImage, encodeImage, resizeImage } from "./render";
+import { transferable, type RenderJob, type RenderJobResult, type RenderWorkerMessage } from "./render-pool";
+
+function run(job: RenderJob): RenderJobResult {
+  if (job.type === 'decode' || job.type === 'thumbnail') {
+    const data = Buffer.from(job.data.buffer, job.data.byteOffset, job.data.byteLength);
+    if (job.type === 'thumbnail') return createThumbnail(data, job.mimeType);
+    return job.orient ? decodeMediaImage(data, job.mimeType) : decodeImage(data, job.mimeType);
+  }
+
+  const { width, height } = job;
+  const resized = resizeImage(job.image, width, height);
+  const output = renderEffectRGBA(resized.data, width, height, job.filterSettings);
+  return {
+    encoded: encodeImage(output, width, height, job.format, job.quality),
+    thumbnail: job.thumbnail ? createThumbnailFromPixels({ width, height, data: output }) : null,
+  };
+}
+
+parentPort!.on('message', (job: RenderJob) => {
+  let message: RenderWorkerMessage;
+  let transfer: ArrayBuffer[] = [];
+  try {
+    const result = run(job);
+    if ('data' in result) transfer = transferable(result.data);
+    message = { result };
+  } catch (error) {
+    const { name, message: text, status } = error as Error & { status?: number };
+    message = { error: { name, message: text, status } };
+  }
+  parentPort!.postMessage(message, transfer);
+});
@@ -0,0 +1,143 @@
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import { readImageDimensions } from "./image-header";
+
+export type RenderFormat = 'png' | 'jpeg';
+
+export const RENDER_MIME_TYPES: Record<RenderFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+};
+
+// Upper bound on decoded image size to keep a single render from exhausting memory
+export const MAX_RENDER_MEGAPIXELS = 40;
+
+export type DecodedImage = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+};
+
+export class RenderInputError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RenderInputError';
+  }
+}
+
+function checkImageSize(width: number, height: number): void {
+  if (width * height > MAX_RENDER_MEGAPIXELS * 1_000_000) {
+    throw new RenderInputError(`Image exceeds ${MAX_RENDER_MEGAPIXELS} megapixels`, 413);
+  }
+}
+
+/**
+ * Decode an uploaded PNG or JPEG into an RGBA buffer
+ */
+export function decodeImage(buffer: Buffer, mimeType: string): DecodedImage {
+  // Measure from the header first, so oversized images never get their pixels allocated
+  const declared = readImageDimensions(buffer, mimeType === 'image/jpg' ? 'image/jpeg' : mimeType);
+  if (declared) checkImageSize(declared.width, declared.height);
+
+  let decoded: { width: number; height: number; data: Uint8Array };
+
+  try {
+    if (mimeType === 'image/png') {
+      decoded = PNG.sync.read(buffer);
+    } else if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') {
+      decoded = jpeg.decode(buffer, {
+        useTArray: true,
+        formatAsRGBA: true,
+        maxResolutionInMP: MAX_RENDER_MEGAPIXELS,
+      });
+    } else {
+      throw new RenderInputError(`Unsupported image type: ${mimeType}`, 415);
+    }
+  } catch (error) {
+    if (error instanceof RenderInputError) throw error;
+    throw new RenderInputError(`Could not decode image: ${(error as Error).message}`);
+  }
+
+  checkImageSize(decoded.width, decoded.height);
+
+  return {
+    width: decoded.width,
+    height: decoded.height,
+    data: new Uint8ClampedArray(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength),
+  };
+}
+
+/**
+ * Encode an RGBA buffer as PNG or JPEG
+ */
+export function encodeImage(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  format: RenderFormat,
+  quality: number = 90
+): Buffer {
+  const pixels = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  if (format === 'jpeg') {
+    return jpeg.encode({ data: pixels, width, height }, quality).data;
+  }
+
+  const png = new PNG({ width, height });
+  pixels.copy(png.data);
+  return PNG.sync.write(png);
+}
+
+/**
+ * Resample an RGBA image to a new size
+ * Enlarging interpolates bilinearly; shrinking averages each output pixel's
+ * footprint so fine detail doesn't alias.
+ */
+export function resizeImage(image: DecodedImage, width: number, height: number): DecodedImage {
+  if (width === image.width && height === image.height) return image;
+
+  const output = new Uint8ClampedArray(width * height * 4);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+
+      if (scaleX > 1 || scaleY > 1) {
+        const top = Math.floor(y * scaleY);
+        const bottom = Math.max(top + 1, Math.min(image.height, Math.floor((y + 1) * scaleY)));
+        const left = Math.floor(x * scaleX);
+        const right = Math.max(left + 1, Math.min(image.width, Math.floor((x + 1) * scaleX)));
+        const count = (bottom - top) * (right - left);
+        for (let c = 0; c < 4; c++) {
+          let sum = 0;
+          for (let sy = top; sy < bottom; sy++) {
+            for (let sx = left; sx < right; sx++) {
+              sum += image.data[(sy * image.width + sx) * 4 + c];
+            }
+          }
+          output[o + c] = sum / count;
+        }
+        continue;
+      }
+
+      // Sample at pixel centers, clamped to the edges
+      const sx = Math.min(image.width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+      const sy = Math.min(image.height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(image.width - 1, x0 + 1);
+      const y1 = Math.min(image.height - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      for (let c = 0; c < 4; c++) {
+        const topValue = image.data[(y0 * image.width + x0) * 4 + c] * (1 - fx) + image.data[(y0 * image.width + x1) * 4 + c] * fx;
+        const bottomValue = image.data[(y1 * image.width + x0) * 4 + c] * (1 - fx) + image.data[(y1 * image.width + x1) * 4 + c] * fx;
+        output[o + c] = topValue * (1 - fy) + bottomValue * fy;
+      }
+    }
+  }
+
+  return { width, height, data: output };
+}
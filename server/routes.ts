@@ -6,16 +6,72 @@ import { Strategy as LocalStrategy } from "passport-local";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { Strategy as GitHubStrategy } from "passport-github2";
 import { WebSocketServer } from "ws";
-import { storage } from "./storage";
+import { storage, type MediaCursor } from "./storage";
 import bcrypt from "bcrypt";
 import dotenv from "dotenv";
 import Stripe from "stripe";
 import { z } from "zod";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, mediaSourceTypeEnum } from "@shared/schema";
+import { filterSettingsSchema, DEFAULT_FILTER_SETTINGS } from "@shared/filter-settings";
+import { BUILT_IN_PRESETS, presetNameSchema } from "@shared/presets";
+import { albumNameSchema, MAX_EXPORT_ITEMS, MAX_MEDIA_PAGE_SIZE, MEDIA_SORTS, mediaTagSchema, mediaTagsSchema } from "@shared/gallery";
+import { MAX_SHARE_LINK_DAYS, sharePasswordSchema } from "@shared/sharing";
+import { BATCH_ITEM_CREDIT_COST, MAX_BATCH_ITEMS } from "@shared/batch";
+import type { FilterSettings } from "@shared/halftone";
+import { filterTimelineSchema } from "@shared/timeline";
+import multer from "multer";
+import os from "os";
+import { createReadStream } from "fs";
+import { open, readFile, unlink } from "fs/promises";
+import { v4 as uuidv4 } from "uuid";
+import type { Album, CapturedMedia, CreditReservation, MediaVersion } from "@shared/schema";
+import {
+  RenderInputError,
+  MAX_RENDER_MEGAPIXELS,
+  RENDER_MIME_TYPES,
+  type RenderFormat,
+} from "./render";
+import { createThumbnailOffThread, decodeImageOffThread, renderImageOffThread, RenderBusyError } from "./render-pool";
+import { blobStore, LocalBlobStore } from "./blob-store";
+import {
+  exportArchiveName,
+  exportSize,
+  MAX_EXPORT_SIZE,
+  writeMediaExport,
+  type ExportItem,
+} from "./media-export";
+import {
+  buildOEmbed,
+  createShareToken,
+  getPasswordRetryAfter,
+  getPreviewImageKey,
+  openShareLink,
+  parseSharePageUrl,
+  recordWrongPassword,
+  toOwnerShareLink,
+  toPublicShare,
+} from "./sharing";
+import {
+  MAX_MEDIA_SIZE,
+  MAX_THUMBNAIL_UPLOAD_SIZE,
+  MEDIA_TYPES,
+  canCreateThumbnail,
+  canDecodeImage,
+  readImageDimensions,
+  sniffMediaType,
+  stripImageMetadata,
+} from "./media";
 import { clerkMiddleware, requireAuth as clerkRequireAuth, getClerkUser } from "./clerk-middleware";
 
 dotenv.config();
 
+declare module "express-session" {
+  interface SessionData {
+    // Set once the session holds credit reservations, so it's kept and its ID stays stable
+    reservesCredits?: boolean;
+  }
+}
+
 // Initialize Stripe with more robust error checking
 let stripe: Stripe | null = null;
 
@@ -81,6 +137,284 @@ function isAuthenticated(req: Request, res: Response, next: NextFunction) {
   res.status(401).json({ error: "Not authenticated" });
 }
 
+// Credits charged per server-side render, same as client-side image processing
+const RENDER_CREDIT_COST = 30;
+
+// How long a batch has to settle its credit reservation
+const CREDIT_RESERVATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const creditReservationSchema = z.object({
+  items: z.number().int().min(1).max(MAX_BATCH_ITEMS),
+});
+
+// A batch item reported as processed, by its position in the batch
+const completeReservationItemSchema = z.object({
+  item: z.number().int().min(0),
+});
+
+// Multipart parser for /api/render, keeping the upload in memory
+const renderUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024, files: 1 },
+});
+
+// Multipart parser for /api/media; uploads can be long videos, so they spool to disk
+const mediaUpload = multer({
+  storage: multer.diskStorage({ destination: os.tmpdir() }),
+  limits: { fileSize: Math.max(MAX_MEDIA_SIZE.image, MAX_MEDIA_SIZE.video), files: 3 },
+});
+
+// Wrap a multer middleware so upload errors come back as JSON
+function handleUploadErrors(upload: (req: Request, res: Response, callback: (err: unknown) => void) => void) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        const status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+        return res.status(status).json({ error: err.message });
+      }
+      if (err) {
+        return next(err);
+      }
+      next();
+    });
+  };
+}
+
+const handleRenderUpload = handleUploadErrors(renderUpload.single("image"));
+
+const handleMediaUpload = handleUploadErrors(mediaUpload.fields([
+  { name: "media", maxCount: 1 },
+  { name: "thumbnail", maxCount: 1 },
+  { name: "source", maxCount: 1 },
+]));
+
+// Signed media URLs stay valid this long; the gallery refetches well within it
+const MEDIA_URL_TTL_SECONDS = 60 * 60;
+
+// Sizes the client reports for videos, which the server can't measure itself
+const videoMetadataSchema = z.object({
+  width: z.coerce.number().int().positive().max(16384),
+  height: z.coerce.number().int().positive().max(16384),
+  duration: z.coerce.number().positive().max(24 * 60 * 60),
+}).partial();
+
+// Where a capture came from; an uploaded source frame's own size wins over the reported one
+const sourceMetadataSchema = z.object({
+  sourceType: z.enum(mediaSourceTypeEnum.enumValues),
+  sourceWidth: z.coerce.number().int().positive().max(16384),
+  sourceHeight: z.coerce.number().int().positive().max(16384),
+  sourceTakenAt: z.coerce.date(),
+}).partial();
+
+// Album an upload goes straight into, e.g. the one a batch is saved to
+const uploadAlbumSchema = z.object({
+  albumId: z.coerce.number().int().positive().optional(),
+});
+
+// Re-rendering a capture from its original, at any size up to the render limit
+const reRenderSchema = z.object({
+  filterSettings: filterSettingsSchema,
+  width: z.number().int().positive().max(16384),
+  format: z.enum(['png', 'jpeg']).default('png'),
+  quality: z.number().int().min(1).max(100).default(90),
+});
+
+// Query string of GET /api/media; "album" is an album ID or "none", "preset"
+// a built-in preset ID or "saved-<id>"
+const mediaQuerySchema = z.object({
+  cursor: z.string().max(200),
+  limit: z.coerce.number().int().min(1).max(MAX_MEDIA_PAGE_SIZE),
+  type: z.enum(['image', 'video']),
+  album: z.union([z.literal('none'), z.coerce.number().int().positive()]),
+  tag: mediaTagSchema,
+  q: z.string().trim().min(1).max(100),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  sort: z.enum(MEDIA_SORTS),
+  preset: z.string().max(100),
+  shape: z.string().min(1).max(100),
+}).partial();
+
+const DEFAULT_MEDIA_PAGE_SIZE = 40;
+
+// Cursors are opaque to clients: the last item's sort position, base64url-encoded JSON
+const mediaCursorSchema = z.object({
+  id: z.number().int(),
+  size: z.number().int(),
+});
+
+function encodeMediaCursor(media: CapturedMedia): string {
+  const cursor: MediaCursor = { id: media.id, size: media.size ?? 0 };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeMediaCursor(cursor: string): MediaCursor | null {
+  try {
+    const result = mediaCursorSchema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString()));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Query string of GET /api/media/export: either "ids", comma-separated, or an
+// "album" ID or "none"
+const mediaExportSchema = z.object({
+  ids: z.string()
+    .regex(/^\d+(,\d+)*$/, "Expected comma-separated IDs")
+    .transform(value => Array.from(new Set(value.split(',').map(Number))))
+    .pipe(z.array(z.number().int().positive()).max(MAX_EXPORT_ITEMS)),
+  album: z.union([z.literal('none'), z.coerce.number().int().positive()]),
+}).partial().refine(query => (query.ids === undefined) !== (query.album === undefined), {
+  message: "Give either ids or album",
+});
+
+// Album and tags of one capture; omitted fields stay as they are
+const mediaUpdateSchema = z.object({
+  albumId: z.number().int().positive().nullable(), // null takes it out of its album
+  tags: mediaTagsSchema,
+}).partial();
+
+// Captures per bulk request
+const MAX_BULK_MEDIA = 100;
+
+const bulkMediaSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(MAX_BULK_MEDIA),
+});
+
+const bulkMoveSchema = bulkMediaSchema.extend({
+  albumId: z.number().int().positive().nullable(),
+});
+
+// Albums per user, so the album picker stays a short list
+const MAX_ALBUMS_PER_USER = 100;
+
+const albumBodySchema = z.object({
+  name: albumNameSchema,
+});
+
+// Body of POST /api/shares: a capture or an album, optionally locked and timed
+const shareLinkBodySchema = z.object({
+  mediaId: z.number().int().positive(),
+  albumId: z.number().int().positive(),
+  password: sharePasswordSchema,
+  expiresAt: z.coerce.date(),
+}).partial().refine(body => (body.mediaId === undefined) !== (body.albumId === undefined), {
+  message: "Share either mediaId or albumId",
+});
+
+// Query string of GET /api/shares, narrowing the list to one capture or album
+const shareLinkQuerySchema = z.object({
+  mediaId: z.coerce.number().int().positive(),
+  albumId: z.coerce.number().int().positive(),
+}).partial();
+
+// Share links per user, revoked ones included
+const MAX_SHARE_LINKS_PER_USER = 500;
+
+// Query string of GET /api/oembed; only JSON is offered
+const oEmbedQuerySchema = z.object({
+  url: z.string().url(),
+  maxwidth: z.coerce.number().int().positive().optional(),
+  maxheight: z.coerce.number().int().positive().optional(),
+  format: z.string().optional(),
+});
+
+function requestOrigin(req: Request): string {
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * Media row as returned to clients, with signed URLs in place of storage keys
+ * Settings saved before newer filter options existed are filled in with their
+ * defaults, so they reproduce the capture as it was made.
+ */
+async function withSignedUrls(media: CapturedMedia, tags: string[] = []) {
+  const { storageKey, thumbnailKey, sourceKey, ...rest } = media;
+  return {
+    ...rest,
+    tags,
+    mediaUrl: storageKey ? await blobStore.getSignedUrl(storageKey, MEDIA_URL_TTL_SECONDS) : media.mediaUrl,
+    thumbnailUrl: thumbnailKey ? await blobStore.getSignedUrl(thumbnailKey, MEDIA_URL_TTL_SECONDS) : null,
+    sourceUrl: sourceKey ? await blobStore.getSignedUrl(sourceKey, MEDIA_URL_TTL_SECONDS) : media.sourceUrl,
+    filterSettings: media.filterSettings ? { ...DEFAULT_FILTER_SETTINGS, ...media.filterSettings } : null,
+  };
+}
+
+// Several media rows as returned to clients, with their tags looked up in one go
+async function withTagsAndSignedUrls(media: CapturedMedia[]) {
+  const tags = await storage.getMediaTags(media.map(item => item.id));
+  return Promise.all(media.map(item => withSignedUrls(
+    item,
+    tags.filter(entry => entry.mediaId === item.id).map(entry => entry.tag),
+  )));
+}
+
+async function versionWithSignedUrls(version: MediaVersion) {
+  const { storageKey, thumbnailKey, ...rest } = version;
+  return {
+    ...rest,
+    mediaUrl: await blobStore.getSignedUrl(storageKey, MEDIA_URL_TTL_SECONDS),
+    thumbnailUrl: thumbnailKey ? await blobStore.getSignedUrl(thumbnailKey, MEDIA_URL_TTL_SECONDS) : null,
+  };
+}
+
+async function readBlob(key: string): Promise<Buffer | null> {
+  const blob = await blobStore.get(key);
+  if (!blob) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of blob.body) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readFileHeader(filePath: string, length: number): Promise<Buffer> {
+  const file = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+// Blobs are cleaned up after the row is gone, so a failure here only leaks storage
+async function deleteBlobs(keys: (string | null)[]): Promise<void> {
+  for (const key of keys) {
+    if (!key) continue;
+    try {
+      await blobStore.delete(key);
+    } catch (error) {
+      console.error(`Failed to delete blob ${key}:`, error);
+    }
+  }
+}
+
+// Delete a capture with its versions, then their stored files
+async function deleteMediaAndBlobs(media: CapturedMedia): Promise<void> {
+  const versions = await storage.getMediaVersions(media.id);
+  await storage.deleteCapturedMedia(media.id);
+  await deleteBlobs([
+    media.storageKey,
+    media.thumbnailKey,
+    media.sourceKey,
+    ...versions.flatMap(version => [version.storageKey, version.thumbnailKey]),
+  ]);
+}
+
+// Saved presets per user, so the list stays small enough to render thumbnails for
+const MAX_PRESETS_PER_USER = 100;
+
+// Body of POST /api/presets; PATCH accepts any subset
+const presetBodySchema = z.object({
+  name: presetNameSchema,
+  filterSettings: filterSettingsSchema,
+  timeline: filterTimelineSchema.nullable().optional(), // null removes a saved timeline
+});
+
 // Check subscription status middleware
 async function hasActiveSubscription(req: Request, res: Response, next: NextFunction) {
   if (!req.user) {
@@ -593,44 +927,353 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // API endpoint to get a list of captured media
+  // API endpoint to list captured media a page at a time, with signed URLs for
+  // stored files; see mediaQuerySchema for the filters. Responds with
+  // { items, nextCursor }, nextCursor being null on the last page
   app.get("/api/media", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = (req.user as any).id;
-      const media = await storage.getCapturedMedia(userId);
-      res.json(media);
+
+      const result = mediaQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid media query", 
+          details: result.error.errors 
+        });
+      }
+      const query = result.data;
+      const limit = query.limit ?? DEFAULT_MEDIA_PAGE_SIZE;
+
+      const after = query.cursor ? decodeMediaCursor(query.cursor) : undefined;
+      if (after === null) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+
+      // A preset matches captures made with exactly its settings
+      let filterSettings: Partial<FilterSettings> | undefined;
+      if (query.preset?.startsWith('saved-')) {
+        const preset = await storage.getFilterPresetById(parseInt(query.preset.slice('saved-'.length), 10));
+        if (!preset || preset.userId !== userId) {
+          return res.status(404).json({ error: "Preset not found" });
+        }
+        filterSettings = { ...DEFAULT_FILTER_SETTINGS, ...preset.filterSettings };
+      } else if (query.preset) {
+        const preset = BUILT_IN_PRESETS.find(option => option.id === query.preset);
+        if (!preset) {
+          return res.status(404).json({ error: "Preset not found" });
+        }
+        filterSettings = preset.filterSettings;
+      }
+      if (query.shape) {
+        filterSettings = { ...filterSettings, dotShape: query.shape };
+      }
+
+      // One extra row tells whether there's another page
+      const media = await storage.findCapturedMedia(userId, {
+        mediaType: query.type,
+        albumId: query.album === 'none' ? null : query.album,
+        tag: query.tag,
+        search: query.q,
+        from: query.from,
+        to: query.to,
+        filterSettings,
+        sort: query.sort ?? 'newest',
+        after,
+        limit: limit + 1,
+      });
+      const items = media.slice(0, limit);
+
+      res.json({
+        items: await withTagsAndSignedUrls(items),
+        nextCursor: media.length > limit ? encodeMediaCursor(items[items.length - 1]) : null,
+      });
     } catch (error) {
       console.error("Error fetching media:", error);
       res.status(500).json({ error: "Failed to fetch media" });
     }
   });
 
+  // API endpoint to download captures as a ZIP, with a manifest.json of their
+  // timestamps, tags and filter settings; see mediaExportSchema. The archive
+  // is streamed as it's built, so nothing is held in memory
+  app.get("/api/media/export", isAuthenticated, async (req: Request, res: Response) => {
+    let isStreaming = false;
+
+    try {
+      const userId = (req.user as any).id;
+
+      const result = mediaExportSchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid export", 
+          details: result.error.errors 
+        });
+      }
+
+      let media: CapturedMedia[];
+      let album: Album | null = null;
+      if (result.data.ids) {
+        const found = await Promise.all(result.data.ids.map(id => storage.getCapturedMediaById(id)));
+
+        if (found.some(item => !item)) {
+          return res.status(404).json({ error: "Media not found" });
+        }
+
+        if (found.some(item => item!.userId !== userId)) {
+          return res.status(403).json({ error: "You don't have permission to export this media" });
+        }
+
+        media = found as CapturedMedia[];
+      } else {
+        if (result.data.album !== 'none') {
+          const found = await storage.getAlbumById(result.data.album!);
+
+          if (!found) {
+            return res.status(404).json({ error: "Album not found" });
+          }
+
+          if (found.userId !== userId) {
+            return res.status(403).json({ error: "You don't have permission to export this album" });
+          }
+
+          album = found;
+        }
+
+        media = await storage.findCapturedMedia(userId, {
+          albumId: album?.id ?? null,
+          sort: 'oldest',
+          limit: MAX_EXPORT_ITEMS + 1,
+        });
+        if (media.length > MAX_EXPORT_ITEMS) {
+          return res.status(413).json({ error: `Exports are limited to ${MAX_EXPORT_ITEMS} items` });
+        }
+      }
+
+      const [tags, albums] = await Promise.all([
+        storage.getMediaTags(media.map(item => item.id)),
+        storage.getAlbums(userId),
+      ]);
+      const items: ExportItem[] = media.map(item => ({
+        media: item,
+        tags: tags.filter(entry => entry.mediaId === item.id).map(entry => entry.tag),
+        album: albums.find(entry => entry.id === item.albumId) ?? null,
+      }));
+
+      if (exportSize(items) > MAX_EXPORT_SIZE) {
+        return res.status(413).json({ error: `Exports are limited to ${MAX_EXPORT_SIZE / (1024 * 1024 * 1024)} GB; select fewer items` });
+      }
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${exportArchiveName(album)}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      isStreaming = true;
+      await writeMediaExport(res, items, album);
+      res.end();
+    } catch (error) {
+      console.error("Error exporting media:", error);
+      // Past the headers, cutting the response short is the only way to signal failure
+      if (isStreaming) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ error: "Failed to export media" });
+    }
+  });
+
   // API endpoint to save captured media
-  app.post("/api/media", isAuthenticated, async (req: Request, res: Response) => {
+  // Expects multipart/form-data with a "media" file, an optional "thumbnail"
+  // (JPEG or PNG, needed for videos and animations), optional "filterSettings"
+  // JSON, "width", "height" and "duration" for videos, and optionally where it
+  // came from: "sourceType", "sourceWidth", "sourceHeight" and the unprocessed
+  // "source" frame
+  app.post("/api/media", isAuthenticated, handleMediaUpload, async (req: Request, res: Response) => {
+    const files = (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+    const file = files.media?.[0];
+    const thumbnailFile = files.thumbnail?.[0];
+    const sourceFile = files.source?.[0];
+    const uploadedKeys: string[] = [];
+
     try {
       const userId = (req.user as any).id;
 
-      // Validate request body
-      const { mediaType, mediaUrl } = req.body;
+      if (!file) {
+        return res.status(400).json({ error: "Missing media file" });
+      }
+
+      // Typed by content, since clients can claim any Content-Type
+      const mimeType = sniffMediaType(await readFileHeader(file.path, 4096));
+      const accepted = mimeType ? MEDIA_TYPES[mimeType] : undefined;
+      if (!mimeType || !accepted) {
+        return res.status(415).json({ error: "Unsupported media type" });
+      }
+      if (file.size > MAX_MEDIA_SIZE[accepted.kind]) {
+        return res.status(413).json({ error: `${accepted.kind === 'image' ? 'Images' : 'Videos'} are limited to ${MAX_MEDIA_SIZE[accepted.kind] / (1024 * 1024)} MB` });
+      }
+
+      // Filter settings are optional, but must be valid when present
+      let filterSettings = null;
+      if (req.body.filterSettings) {
+        let rawSettings: unknown;
+        try {
+          rawSettings = JSON.parse(req.body.filterSettings);
+        } catch (e) {
+          return res.status(400).json({ error: "Filter settings must be valid JSON" });
+        }
+        const settingsResult = filterSettingsSchema.safeParse(rawSettings);
+        if (!settingsResult.success) {
+          return res.status(400).json({ 
+            error: "Invalid filter settings", 
+            details: settingsResult.error.errors 
+          });
+        }
+        filterSettings = { ...DEFAULT_FILTER_SETTINGS, ...settingsResult.data };
+      }
+
+      // Images are measured here; videos rely on what the browser reported.
+      // They're stored without EXIF, so locations and camera details stay private
+      let dimensions: { width?: number; height?: number; duration?: number } = {};
+      let thumbnail: Buffer | null = null;
+      let imageData: Buffer | null = null;
+      if (accepted.kind === 'image') {
+        const data = imageData = stripImageMetadata(await readFile(file.path), mimeType);
+        dimensions = readImageDimensions(data, mimeType) ?? {};
+        if (canCreateThumbnail(mimeType)) {
+          // Thumbnails decode the whole image, so check its size before making one
+          if ((dimensions.width ?? 0) * (dimensions.height ?? 0) > MAX_RENDER_MEGAPIXELS * 1_000_000) {
+            return res.status(413).json({ error: `Images are limited to ${MAX_RENDER_MEGAPIXELS} megapixels` });
+          }
+          thumbnail = await createThumbnailOffThread(data, mimeType);
+        }
+      } else {
+        const metadataResult = videoMetadataSchema.safeParse(req.body);
+        if (!metadataResult.success) {
+          return res.status(400).json({ 
+            error: "Invalid video metadata", 
+            details: metadataResult.error.errors 
+          });
+        }
+        dimensions = metadataResult.data;
+      }
+
+      const sourceResult = sourceMetadataSchema.safeParse(req.body);
+      if (!sourceResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid source metadata", 
+          details: sourceResult.error.errors 
+        });
+      }
+      const source = sourceResult.data;
+
+      const albumResult = uploadAlbumSchema.safeParse(req.body);
+      if (!albumResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid album", 
+          details: albumResult.error.errors 
+        });
+      }
+      const { albumId } = albumResult.data;
+
+      if (albumId !== undefined) {
+        const album = await storage.getAlbumById(albumId);
+
+        if (!album) {
+          return res.status(404).json({ error: "Album not found" });
+        }
+
+        if (album.userId !== userId) {
+          return res.status(403).json({ error: "You don't have permission to add to this album" });
+        }
+      }
+
+      // The unprocessed frame is stored as sent, in a format the server can re-render from
+      let sourceMimeType: string | null = null;
+      let sourceData: Buffer | null = null;
+      if (sourceFile) {
+        sourceMimeType = sniffMediaType(await readFileHeader(sourceFile.path, 4096));
+        if (!sourceMimeType || !canDecodeImage(sourceMimeType)) {
+          return res.status(415).json({ error: "Source frame must be a JPEG or PNG image" });
+        }
+        if (sourceFile.size > MAX_MEDIA_SIZE.image) {
+          return res.status(413).json({ error: "Source frame is too large" });
+        }
+        sourceData = stripImageMetadata(await readFile(sourceFile.path), sourceMimeType);
+        const sourceDimensions = readImageDimensions(sourceData, sourceMimeType);
+        if (sourceDimensions) {
+          source.sourceWidth = sourceDimensions.width;
+          source.sourceHeight = sourceDimensions.height;
+        }
+      }
+
+      // Client thumbnails are re-encoded rather than stored as sent
+      if (!thumbnail && thumbnailFile) {
+        if (thumbnailFile.size > MAX_THUMBNAIL_UPLOAD_SIZE) {
+          return res.status(413).json({ error: "Thumbnail is too large" });
+        }
+        const thumbnailData = await readFile(thumbnailFile.path);
+        const thumbnailType = sniffMediaType(thumbnailData);
+        if (!thumbnailType || !canCreateThumbnail(thumbnailType)) {
+          return res.status(415).json({ error: "Thumbnail must be a JPEG or PNG image" });
+        }
+        thumbnail = await createThumbnailOffThread(thumbnailData, thumbnailType);
+      }
+
+      const baseKey = `media/${userId}/${uuidv4()}`;
+      const storageKey = `${baseKey}.${accepted.extension}`;
+      if (imageData) {
+        await blobStore.put(storageKey, imageData, { contentType: mimeType, contentLength: imageData.length });
+      } else {
+        await blobStore.put(storageKey, createReadStream(file.path), { contentType: mimeType, contentLength: file.size });
+      }
+      uploadedKeys.push(storageKey);
 
-      if (!mediaType || !mediaUrl) {
-        return res.status(400).json({ error: "Missing required fields" });
+      let thumbnailKey: string | null = null;
+      if (thumbnail) {
+        thumbnailKey = `${baseKey}-thumb.jpg`;
+        await blobStore.put(thumbnailKey, thumbnail, { contentType: 'image/jpeg', contentLength: thumbnail.length });
+        uploadedKeys.push(thumbnailKey);
       }
 
-      if (mediaType !== 'image' && mediaType !== 'video') {
-        return res.status(400).json({ error: "Invalid media type" });
+      let sourceKey: string | null = null;
+      if (sourceData && sourceMimeType) {
+        sourceKey = `${baseKey}-source.${MEDIA_TYPES[sourceMimeType].extension}`;
+        await blobStore.put(sourceKey, sourceData, { contentType: sourceMimeType, contentLength: sourceData.length });
+        uploadedKeys.push(sourceKey);
       }
 
       const media = await storage.createCapturedMedia({
         userId,
-        mediaType,
-        mediaUrl
+        mediaType: accepted.kind,
+        mediaUrl: null,
+        storageKey,
+        thumbnailKey,
+        mimeType,
+        size: imageData?.length ?? file.size,
+        width: dimensions.width ?? null,
+        height: dimensions.height ?? null,
+        duration: dimensions.duration ?? null,
+        sourceType: source.sourceType ?? null,
+        sourceWidth: source.sourceWidth ?? null,
+        sourceHeight: source.sourceHeight ?? null,
+        sourceTakenAt: source.sourceTakenAt ?? null,
+        sourceKey,
+        sourceUrl: null,
+        filterSettings,
+        albumId: albumId ?? null
       });
 
-      res.json(media);
+      res.status(201).json(await withSignedUrls(media));
     } catch (error) {
+      await deleteBlobs(uploadedKeys);
+      if (error instanceof RenderInputError || error instanceof RenderBusyError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error saving media:", error);
       res.status(500).json({ error: "Failed to save media" });
+    } finally {
+      // Multer's temp files are ours to remove
+      for (const upload of [file, thumbnailFile, sourceFile]) {
+        if (upload) await unlink(upload.path).catch(() => {});
+      }
     }
   });
 
@@ -655,8 +1298,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "You don't have permission to delete this media" });
       }
 
-      // Delete the media
-      await storage.deleteCapturedMedia(mediaId);
+      await deleteMediaAndBlobs(media);
 
       res.json({ success: true });
     } catch (error) {
@@ -665,151 +1307,1145 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Simulated debug credits for anonymous users
-  let simulatedDebugCredits = 30;
-  
-  // Credit system API routes - with debug bypass option
-  app.get("/api/credits", async (req: Request, res: Response) => {
-    console.log("Credits endpoint called - debug mode enabled");
-    
+  // API endpoint to move a capture to another album and/or replace its tags
+  app.patch("/api/media/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      // Debug mode for testing without authentication
-      const DEBUG_MODE = true; // Set to false in production
-      
-      console.log("Auth headers:", req.headers.authorization ? "Present" : "Missing");
-      
-      if (DEBUG_MODE) {
-        // For debugging only - bypass authentication
-        console.log("Debug mode enabled - bypassing strict auth checks");
-        
-        try {
-          // Try to get user but don't error out if we can't
-          const clerkUser = getClerkUser(req);
-          console.log("Clerk user:", clerkUser ? "Found" : "Not found");
-          
-          if (clerkUser && clerkUser.email) {
-            const user = await storage.getUserByEmail(clerkUser.email);
-            if (user) {
-              const credits = await storage.getUserCredits(user.id);
-              console.log(`Found user ${user.id} with ${credits} credits`);
-              return res.status(200).json({ credits, debug: false });
-            }
-          }
-          
-          // If authentication failed or user not found, return debug credits
-          console.log(`No authenticated user found, returning debug credits: ${simulatedDebugCredits}`);
-          return res.status(200).json({ credits: simulatedDebugCredits, debug: true });
-        } catch (e) {
-          console.error("Error in auth flow:", e);
-          return res.status(200).json({ credits: simulatedDebugCredits, debug: true });
-        }
-      } else {
-        // Normal production flow with authentication required
-        // Apply auth middleware manually since we removed it from the route definition
-        if (!req.isAuthenticated() && !getClerkUser(req)) {
-          return res.status(401).json({ error: "Not authenticated" });
-        }
-        
-        const clerkUser = getClerkUser(req);
-        if (!clerkUser || !clerkUser.email) {
-          return res.status(401).json({ error: "Unauthorized - user email required" });
-        }
-        
-        const user = await storage.getUserByEmail(clerkUser.email);
-        if (!user) {
-          return res.status(404).json({ error: "User not found" });
+      const userId = (req.user as any).id;
+      const mediaId = parseInt(req.params.id, 10);
+
+      if (isNaN(mediaId)) {
+        return res.status(400).json({ error: "Invalid media ID" });
+      }
+
+      const result = mediaUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid media update", 
+          details: result.error.errors 
+        });
+      }
+      const { albumId, tags } = result.data;
+
+      const media = await storage.getCapturedMediaById(mediaId);
+
+      if (!media) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      if (media.userId !== userId) {
+        return res.status(403).json({ error: "You don't have permission to edit this media" });
+      }
+
+      if (albumId) {
+        const album = await storage.getAlbumById(albumId);
+        if (!album || album.userId !== userId) {
+          return res.status(404).json({ error: "Album not found" });
         }
-        
-        const credits = await storage.getUserCredits(user.id);
-        return res.status(200).json({ credits });
       }
+
+      if (albumId !== undefined) {
+        await storage.moveCapturedMedia([mediaId], albumId);
+      }
+      if (tags) {
+        await storage.setMediaTags(mediaId, tags);
+      }
+
+      const updated = await storage.getCapturedMediaById(mediaId);
+      const [item] = await withTagsAndSignedUrls(updated ? [updated] : []);
+      res.json(item);
     } catch (error) {
-      console.error("Error fetching user credits:", error);
-      return res.status(500).json({ error: "Failed to fetch credits" });
+      console.error("Error updating media:", error);
+      res.status(500).json({ error: "Failed to update media" });
     }
   });
-  
-  // Consume credits
-  app.post("/api/credits/consume", async (req: Request, res: Response) => {
+
+  // API endpoint to delete several captures at once; none are deleted unless
+  // all of them belong to the user
+  app.post("/api/media/bulk/delete", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { amount = 30 } = req.body; // Default to 30 credits for image processing
-      
-      // Debug mode for testing
-      const DEBUG_MODE = true; // Set to false in production
+      const userId = (req.user as any).id;
 
-      console.log("Credit consumption endpoint called");
-      console.log("Auth headers:", req.headers.authorization ? "Present" : "Missing");
-      
-      // Try to get the authenticated user
-      const clerkUser = getClerkUser(req);
-      
-      // If debug mode is enabled or user is not authenticated
-      if (DEBUG_MODE || !clerkUser) {
-        console.log("Debug mode or non-authenticated user");
-        
-        // Check if they have enough credits
-        if (simulatedDebugCredits < amount) {
-          console.log(`Insufficient debug credits: ${simulatedDebugCredits} < ${amount}`);
-          return res.status(402).json({ 
-            error: "Insufficient credits", 
-            credits: simulatedDebugCredits,
-            required: amount,
-            debug: true
-          });
-        }
-        
-        // If they have enough credits, simulate consumption
-        simulatedDebugCredits = Math.max(0, simulatedDebugCredits - amount);
-        console.log(`Simulated debug credits reduced by ${amount} to ${simulatedDebugCredits}`);
-        
-        return res.status(200).json({ 
-          success: true, 
-          credits: simulatedDebugCredits,
-          debug: true
+      const result = bulkMediaSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid selection", 
+          details: result.error.errors 
         });
       }
-      
-      // For authenticated users, proceed with normal flow
-      if (!clerkUser.email) {
-        return res.status(401).json({ error: "Unauthorized - user email required" });
+
+      const media = await Promise.all(result.data.ids.map(id => storage.getCapturedMediaById(id)));
+
+      if (media.some(item => !item)) {
+        return res.status(404).json({ error: "Media not found" });
       }
-      
-      const user = await storage.getUserByEmail(clerkUser.email);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+
+      if (media.some(item => item!.userId !== userId)) {
+        return res.status(403).json({ error: "You don't have permission to delete this media" });
       }
-      
-      // Check if user has enough credits
-      const currentCredits = await storage.getUserCredits(user.id);
-      if (currentCredits < amount) {
-        return res.status(402).json({ 
-          error: "Insufficient credits", 
-          credits: currentCredits,
-          required: amount
+
+      for (const item of media) {
+        await deleteMediaAndBlobs(item!);
+      }
+
+      res.json({ success: true, deleted: media.length });
+    } catch (error) {
+      console.error("Error deleting media:", error);
+      res.status(500).json({ error: "Failed to delete media" });
+    }
+  });
+
+  // API endpoint to move several captures into an album, or out of any with
+  // an albumId of null
+  app.post("/api/media/bulk/move", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+
+      const result = bulkMoveSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid selection", 
+          details: result.error.errors 
+        });
+      }
+      const { ids, albumId } = result.data;
+
+      const media = await Promise.all(ids.map(id => storage.getCapturedMediaById(id)));
+
+      if (media.some(item => !item)) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      if (media.some(item => item!.userId !== userId)) {
+        return res.status(403).json({ error: "You don't have permission to edit this media" });
+      }
+
+      if (albumId !== null) {
+        const album = await storage.getAlbumById(albumId);
+        if (!album || album.userId !== userId) {
+          return res.status(404).json({ error: "Album not found" });
+        }
+      }
+
+      await storage.moveCapturedMedia(ids, albumId);
+
+      res.json({ success: true, moved: ids.length });
+    } catch (error) {
+      console.error("Error moving media:", error);
+      res.status(500).json({ error: "Failed to move media" });
+    }
+  });
+
+  // API endpoint to list a capture's re-renders, oldest first
+  app.get("/api/media/:id/versions", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const mediaId = parseInt(req.params.id, 10);
+
+      if (isNaN(mediaId)) {
+        return res.status(400).json({ error: "Invalid media ID" });
+      }
+
+      const media = await storage.getCapturedMediaById(mediaId);
+
+      if (!media) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      if (media.userId !== userId) {
+        return res.status(403).json({ error: "You don't have permission to view this media" });
+      }
+
+      const versions = await storage.getMediaVersions(mediaId);
+      res.json(await Promise.all(versions.map(versionWithSignedUrls)));
+    } catch (error) {
+      console.error("Error fetching media versions:", error);
+      res.status(500).json({ error: "Failed to fetch media versions" });
+    }
+  });
+
+  // API endpoint to re-render a capture from its stored original
+  // Expects JSON with "filterSettings", the output "width" (the height follows
+  // the original's aspect ratio), and optional "format" and "quality".
+  // The capture itself is left untouched; the result is added as a new version.
+  app.post("/api/media/:id/versions", isAuthenticated, async (req: Request, res: Response) => {
+    const uploadedKeys: string[] = [];
+
+    try {
+      const userId = (req.user as any).id;
+      const mediaId = parseInt(req.params.id, 10);
+
+      if (isNaN(mediaId)) {
+        return res.status(400).json({ error: "Invalid media ID" });
+      }
+
+      const media = await storage.getCapturedMediaById(mediaId);
+
+      if (!media) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      if (media.userId !== userId) {
+        return res.status(403).json({ error: "You don't have permission to edit this media" });
+      }
+
+      if (!media.sourceKey) {
+        return res.status(409).json({ error: "This capture has no stored original to re-render" });
+      }
+
+      const result = reRenderSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid re-render options", 
+          details: result.error.errors 
+        });
+      }
+      const { width, format, quality } = result.data;
+      const filterSettings = { ...DEFAULT_FILTER_SETTINGS, ...result.data.filterSettings };
+
+      const original = await readBlob(media.sourceKey);
+      if (!original) {
+        return res.status(404).json({ error: "The stored original is missing" });
+      }
+      const originalType = sniffMediaType(original);
+      if (!originalType || !canDecodeImage(originalType)) {
+        return res.status(415).json({ error: "Only JPEG and PNG originals can be re-rendered" });
+      }
+
+      // Decode and size-check before charging so failed renders don't cost credits
+      const image = await decodeImageOffThread(original, originalType, true);
+      const height = Math.max(1, Math.round((width * image.height) / image.width));
+      if (width * height > MAX_RENDER_MEGAPIXELS * 1_000_000) {
+        return res.status(413).json({ error: `Re-renders are limited to ${MAX_RENDER_MEGAPIXELS} megapixels` });
+      }
+
+      const credits = await consumeCredits(req, RENDER_CREDIT_COST, 'Gallery re-render');
+      if (credits.status !== 200) {
+        return res.status(credits.status).json(credits.body);
+      }
+
+      const rendered = await renderImageOffThread(image, { width, height, filterSettings, format, quality, thumbnail: true });
+      const { encoded } = rendered;
+      const thumbnail = rendered.thumbnail!;
+
+      const baseKey = `media/${userId}/${uuidv4()}`;
+      const storageKey = `${baseKey}.${format === 'jpeg' ? 'jpg' : 'png'}`;
+      await blobStore.put(storageKey, encoded, { contentType: RENDER_MIME_TYPES[format], contentLength: encoded.length });
+      uploadedKeys.push(storageKey);
+
+      const thumbnailKey = `${baseKey}-thumb.jpg`;
+      await blobStore.put(thumbnailKey, thumbnail, { contentType: 'image/jpeg', contentLength: thumbnail.length });
+      uploadedKeys.push(thumbnailKey);
+
+      const version = await storage.createMediaVersion({
+        mediaId,
+        storageKey,
+        thumbnailKey,
+        mimeType: RENDER_MIME_TYPES[format],
+        size: encoded.length,
+        width,
+        height,
+        filterSettings,
+      });
+
+      res.setHeader("X-Credits-Remaining", String(credits.body.credits));
+      res.status(201).json(await versionWithSignedUrls(version));
+    } catch (error) {
+      await deleteBlobs(uploadedKeys);
+      if (error instanceof RenderInputError || error instanceof RenderBusyError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error re-rendering media:", error);
+      res.status(500).json({ error: "Failed to re-render media" });
+    }
+  });
+
+  // API endpoint to delete one re-render of a capture
+  app.delete("/api/media/:id/versions/:versionId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const mediaId = parseInt(req.params.id, 10);
+      const versionId = parseInt(req.params.versionId, 10);
+
+      if (isNaN(mediaId) || isNaN(versionId)) {
+        return res.status(400).json({ error: "Invalid media ID" });
+      }
+
+      const media = await storage.getCapturedMediaById(mediaId);
+      const version = await storage.getMediaVersionById(versionId);
+
+      if (!media || !version || version.mediaId !== mediaId) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      if (media.userId !== userId) {
+        return res.status(403).json({ error: "You don't have permission to delete this media" });
+      }
+
+      await storage.deleteMediaVersion(versionId);
+      await deleteBlobs([version.storageKey, version.thumbnailKey]);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting media version:", error);
+      res.status(500).json({ error: "Failed to delete media version" });
+    }
+  });
+
+  // Signed links to files in the local blob store; S3 URLs point at the bucket instead
+  if (blobStore instanceof LocalBlobStore) {
+    const localStore = blobStore;
+    app.get("/api/blobs/*", (req: Request, res: Response) => {
+      const key = req.params[0];
+      const { expires, signature } = req.query;
+
+      if (typeof expires !== 'string' || typeof signature !== 'string' || !localStore.verifySignedUrl(key, expires, signature)) {
+        return res.status(403).json({ error: "Invalid or expired link" });
+      }
+
+      // Keys are never reused, so the file can be cached until the link expires
+      const maxAge = Math.max(0, parseInt(expires, 10) - Math.floor(Date.now() / 1000));
+      res.setHeader("Cache-Control", `private, max-age=${maxAge}`);
+      res.sendFile(localStore.pathFor(key), (err) => {
+        if (err && !res.headersSent) {
+          res.status(404).json({ error: "File not found" });
+        }
+      });
+    });
+  }
+
+  // API endpoint to list the user's albums by name
+  app.get("/api/albums", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const albums = await storage.getAlbums(userId);
+      res.json(albums);
+    } catch (error) {
+      console.error("Error fetching albums:", error);
+      res.status(500).json({ error: "Failed to fetch albums" });
+    }
+  });
+
+  // API endpoint to create an album
+  app.post("/api/albums", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+
+      const result = albumBodySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid album", 
+          details: result.error.errors 
+        });
+      }
+
+      const existing = await storage.getAlbums(userId);
+      if (existing.length >= MAX_ALBUMS_PER_USER) {
+        return res.status(400).json({ error: `You can have up to ${MAX_ALBUMS_PER_USER} albums` });
+      }
+
+      const album = await storage.createAlbum({ userId, name: result.data.name });
+
+      res.status(201).json(album);
+    } catch (error) {
+      console.error("Error creating album:", error);
+      res.status(500).json({ error: "Failed to create album" });
+    }
+  });
+
+  // API endpoint to rename an album
+  app.patch("/api/albums/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const albumId = parseInt(req.params.id, 10);
+
+      if (isNaN(albumId)) {
+        return res.status(400).json({ error: "Invalid album ID" });
+      }
+
+      const result = albumBodySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid album", 
+          details: result.error.errors 
+        });
+      }
+
+      const album = await storage.getAlbumById(albumId);
+
+      if (!album) {
+        return res.status(404).json({ error: "Album not found" });
+      }
+
+      if (album.userId !== userId) {
+        return res.status(403).json({ error: "You don't have permission to edit this album" });
+      }
+
+      const updated = await storage.updateAlbum(albumId, { name: result.data.name });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating album:", error);
+      res.status(500).json({ error: "Failed to update album" });
+    }
+  });
+
+  // API endpoint to delete an album; its captures stay in the gallery
+  app.delete("/api/albums/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const albumId = parseInt(req.params.id, 10);
+
+      if (isNaN(albumId)) {
+        return res.status(400).json({ error: "Invalid album ID" });
+      }
+
+      const album = await storage.getAlbumById(albumId);
+
+      if (!album) {
+        return res.status(404).json({ error: "Album not found" });
+      }
+
+      if (album.userId !== userId) {
+        return res.status(403).json({ error: "You don't have permission to delete this album" });
+      }
+
+      await storage.deleteAlbum(albumId);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting album:", error);
+      res.status(500).json({ error: "Failed to delete album" });
+    }
+  });
+
+  // API endpoint to list every tag the user has used, for filtering and suggestions
+  app.get("/api/tags", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const tags = await storage.getUserTags(userId);
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ error: "Failed to fetch tags" });
+    }
+  });
+
+  // API endpoint to list the user's share links, optionally for one capture or album
+  app.get("/api/shares", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+
+      const result = shareLinkQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid share link query",
+          details: result.error.errors
+        });
+      }
+
+      const { mediaId, albumId } = result.data;
+      const links = (await storage.getShareLinks(userId)).filter(link =>
+        (mediaId === undefined || link.mediaId === mediaId) &&
+        (albumId === undefined || link.albumId === albumId)
+      );
+
+      res.json(links.map(toOwnerShareLink));
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ error: "Failed to fetch share links" });
+    }
+  });
+
+  // API endpoint to create a public link to a capture or an album
+  app.post("/api/shares", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+
+      const result = shareLinkBodySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid share link",
+          details: result.error.errors
+        });
+      }
+
+      const { mediaId, albumId, password, expiresAt } = result.data;
+
+      if (expiresAt) {
+        const latest = Date.now() + MAX_SHARE_LINK_DAYS * 24 * 60 * 60 * 1000;
+        if (expiresAt.getTime() <= Date.now() || expiresAt.getTime() > latest) {
+          return res.status(400).json({ error: `Links can expire up to ${MAX_SHARE_LINK_DAYS} days from now` });
+        }
+      }
+
+      if (mediaId !== undefined) {
+        const media = await storage.getCapturedMediaById(mediaId);
+
+        if (!media) {
+          return res.status(404).json({ error: "Media not found" });
+        }
+
+        if (media.userId !== userId) {
+          return res.status(403).json({ error: "You don't have permission to share this media" });
+        }
+      } else if (albumId !== undefined) {
+        const album = await storage.getAlbumById(albumId);
+
+        if (!album) {
+          return res.status(404).json({ error: "Album not found" });
+        }
+
+        if (album.userId !== userId) {
+          return res.status(403).json({ error: "You don't have permission to share this album" });
+        }
+      }
+
+      const existing = await storage.getShareLinks(userId);
+      if (existing.length >= MAX_SHARE_LINKS_PER_USER) {
+        return res.status(400).json({ error: `You can have up to ${MAX_SHARE_LINKS_PER_USER} share links` });
+      }
+
+      const link = await storage.createShareLink({
+        userId,
+        token: createShareToken(),
+        mediaId: mediaId ?? null,
+        albumId: albumId ?? null,
+        passwordHash: password ? await bcrypt.hash(password, 10) : null,
+        expiresAt: expiresAt ?? null,
+      });
+
+      res.status(201).json(toOwnerShareLink(link));
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      res.status(500).json({ error: "Failed to create share link" });
+    }
+  });
+
+  // API endpoint to revoke a share link; it stays listed so its views are kept
+  app.delete("/api/shares/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const linkId = parseInt(req.params.id, 10);
+
+      if (isNaN(linkId)) {
+        return res.status(400).json({ error: "Invalid share link ID" });
+      }
+
+      const link = await storage.getShareLinkById(linkId);
+
+      if (!link) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+
+      if (link.userId !== userId) {
+        return res.status(403).json({ error: "You don't have permission to revoke this share link" });
+      }
+
+      const revoked = link.revokedAt ? link : await storage.revokeShareLink(linkId);
+
+      res.json(toOwnerShareLink(revoked ?? link));
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ error: "Failed to revoke share link" });
+    }
+  });
+
+  /**
+   * Public view of a share link
+   * Protected links answer 401 with passwordRequired until the password is
+   * POSTed to the same URL. Each successful view is counted.
+   */
+  const sendSharedContent = async (req: Request, res: Response, password?: unknown) => {
+    try {
+      const opened = await openShareLink(req.params.token);
+      if ('error' in opened) {
+        return res.status(opened.status).json({ error: opened.error });
+      }
+
+      const { link, content } = opened;
+      if (link.passwordHash) {
+        if (typeof password !== 'string') {
+          return res.status(401).json({ error: "This link needs a password", passwordRequired: true });
+        }
+
+        const ip = req.ip ?? req.socket.remoteAddress ?? 'unknown';
+        const blockedFor = getPasswordRetryAfter(ip);
+        if (blockedFor > 0 || !await bcrypt.compare(password, link.passwordHash)) {
+          const retryAfter = blockedFor || recordWrongPassword(link.token, ip);
+          if (retryAfter === 0) {
+            return res.status(401).json({ error: "Wrong password", passwordRequired: true });
+          }
+          res.setHeader("Retry-After", String(retryAfter));
+          return res.status(429).json({ error: "Too many password attempts, try again later", passwordRequired: true });
+        }
+      }
+
+      await storage.incrementShareLinkViews(link.id);
+
+      res.setHeader("Cache-Control", "no-store");
+      res.json(await toPublicShare(link, content));
+    } catch (error) {
+      console.error("Error fetching shared content:", error);
+      res.status(500).json({ error: "Failed to fetch shared content" });
+    }
+  };
+
+  app.get("/api/public/shares/:token", (req: Request, res: Response) => sendSharedContent(req, res));
+
+  app.post("/api/public/shares/:token", (req: Request, res: Response) => sendSharedContent(req, res, req.body?.password));
+
+  // Public preview image of a share link, for link previews; not counted as a view
+  app.get("/api/public/shares/:token/preview", async (req: Request, res: Response) => {
+    try {
+      const opened = await openShareLink(req.params.token);
+      if ('error' in opened) {
+        return res.status(opened.status).json({ error: opened.error });
+      }
+
+      const key = getPreviewImageKey(opened.link, opened.content);
+      const blob = key ? await blobStore.get(key) : null;
+      if (!blob) {
+        return res.status(404).json({ error: "No preview for this link" });
+      }
+
+      // Short-lived so a revoked link's preview doesn't linger in caches
+      res.setHeader("Content-Type", blob.contentType);
+      res.setHeader("Cache-Control", "public, max-age=300");
+      blob.body.on('error', (error) => {
+        console.error("Error streaming share preview:", error);
+        res.destroy();
+      });
+      blob.body.pipe(res);
+    } catch (error) {
+      console.error("Error fetching share preview:", error);
+      res.status(500).json({ error: "Failed to fetch share preview" });
+    }
+  });
+
+  // oEmbed provider for share pages, so other sites can embed them from a link
+  app.get("/api/oembed", async (req: Request, res: Response) => {
+    try {
+      const result = oEmbedQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid oEmbed request",
+          details: result.error.errors
+        });
+      }
+
+      const { url, maxwidth, maxheight, format } = result.data;
+      if (format && format !== 'json') {
+        return res.status(501).json({ error: "Only JSON is supported" });
+      }
+
+      const token = parseSharePageUrl(url);
+      if (!token) {
+        return res.status(404).json({ error: "Not a share link" });
+      }
+
+      // oEmbed consumers only expect 404 for links that can't be embedded
+      const opened = await openShareLink(token);
+      if ('error' in opened) {
+        return res.status(404).json({ error: opened.error });
+      }
+
+      res.json(buildOEmbed(opened.link, opened.content, requestOrigin(req), maxwidth, maxheight));
+    } catch (error) {
+      console.error("Error building oEmbed response:", error);
+      res.status(500).json({ error: "Failed to build oEmbed response" });
+    }
+  });
+
+  // API endpoint to list the user's saved filter presets
+  app.get("/api/presets", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const presets = await storage.getFilterPresets(userId);
+      res.json(presets);
+    } catch (error) {
+      console.error("Error fetching presets:", error);
+      res.status(500).json({ error: "Failed to fetch presets" });
+    }
+  });
+
+  // API endpoint to save the current settings as a preset
+  app.post("/api/presets", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+
+      const result = presetBodySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid preset", 
+          details: result.error.errors 
+        });
+      }
+
+      const existing = await storage.getFilterPresets(userId);
+      if (existing.length >= MAX_PRESETS_PER_USER) {
+        return res.status(400).json({ error: `You can save up to ${MAX_PRESETS_PER_USER} presets` });
+      }
+
+      // Stored complete so the preset renders the same after defaults change
+      const preset = await storage.createFilterPreset({
+        userId,
+        name: result.data.name,
+        filterSettings: { ...DEFAULT_FILTER_SETTINGS, ...result.data.filterSettings },
+        timeline: result.data.timeline ?? null,
+      });
+
+      res.json(preset);
+    } catch (error) {
+      console.error("Error saving preset:", error);
+      res.status(500).json({ error: "Failed to save preset" });
+    }
+  });
+
+  // API endpoint to rename a preset or replace its settings
+  app.patch("/api/presets/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const presetId = parseInt(req.params.id, 10);
+
+      if (isNaN(presetId)) {
+        return res.status(400).json({ error: "Invalid preset ID" });
+      }
+
+      const result = presetBodySchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          error: "Invalid preset", 
+          details: result.error.errors 
         });
       }
+
+      const preset = await storage.getFilterPresetById(presetId);
+
+      if (!preset) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+
+      if (preset.userId !== userId) {
+        return res.status(403).json({ error: "You don't have permission to edit this preset" });
+      }
+
+      const updated = await storage.updateFilterPreset(presetId, {
+        ...(result.data.name !== undefined && { name: result.data.name }),
+        ...(result.data.filterSettings && {
+          filterSettings: { ...DEFAULT_FILTER_SETTINGS, ...result.data.filterSettings },
+        }),
+        ...(result.data.timeline !== undefined && { timeline: result.data.timeline }),
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating preset:", error);
+      res.status(500).json({ error: "Failed to update preset" });
+    }
+  });
+
+  // API endpoint to delete a preset
+  app.delete("/api/presets/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const presetId = parseInt(req.params.id, 10);
+
+      if (isNaN(presetId)) {
+        return res.status(400).json({ error: "Invalid preset ID" });
+      }
+
+      const preset = await storage.getFilterPresetById(presetId);
+
+      if (!preset) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+
+      if (preset.userId !== userId) {
+        return res.status(403).json({ error: "You don't have permission to delete this preset" });
+      }
+
+      await storage.deleteFilterPreset(presetId);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting preset:", error);
+      res.status(500).json({ error: "Failed to delete preset" });
+    }
+  });
+
+  // Simulated debug credits for anonymous users
+  let simulatedDebugCredits = 30;
+  
+  // Credit system API routes - with debug bypass option
+  app.get("/api/credits", async (req: Request, res: Response) => {
+    console.log("Credits endpoint called - debug mode enabled");
+    
+    try {
+      // Debug mode for testing without authentication
+      const DEBUG_MODE = true; // Set to false in production
       
-      // Deduct credits
-      const updatedUser = await storage.updateUserCredits(user.id, currentCredits - amount);
+      console.log("Auth headers:", req.headers.authorization ? "Present" : "Missing");
       
-      // Record transaction
-      await storage.createTransaction({
-        userId: user.id,
-        amount: amount,
-        type: 'usage',
-        description: 'Image processing'
-      });
+      if (DEBUG_MODE) {
+        // For debugging only - bypass authentication
+        console.log("Debug mode enabled - bypassing strict auth checks");
+        
+        try {
+          // Try to get user but don't error out if we can't
+          const clerkUser = getClerkUser(req);
+          console.log("Clerk user:", clerkUser ? "Found" : "Not found");
+          
+          if (clerkUser && clerkUser.email) {
+            const user = await storage.getUserByEmail(clerkUser.email);
+            if (user) {
+              const credits = await storage.getUserCredits(user.id);
+              console.log(`Found user ${user.id} with ${credits} credits`);
+              return res.status(200).json({ credits, debug: false });
+            }
+          }
+          
+          // If authentication failed or user not found, return debug credits
+          console.log(`No authenticated user found, returning debug credits: ${simulatedDebugCredits}`);
+          return res.status(200).json({ credits: simulatedDebugCredits, debug: true });
+        } catch (e) {
+          console.error("Error in auth flow:", e);
+          return res.status(200).json({ credits: simulatedDebugCredits, debug: true });
+        }
+      } else {
+        // Normal production flow with authentication required
+        // Apply auth middleware manually since we removed it from the route definition
+        if (!req.isAuthenticated() && !getClerkUser(req)) {
+          return res.status(401).json({ error: "Not authenticated" });
+        }
+        
+        const clerkUser = getClerkUser(req);
+        if (!clerkUser || !clerkUser.email) {
+          return res.status(401).json({ error: "Unauthorized - user email required" });
+        }
+        
+        const user = await storage.getUserByEmail(clerkUser.email);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        
+        const credits = await storage.getUserCredits(user.id);
+        return res.status(200).json({ credits });
+      }
+    } catch (error) {
+      console.error("Error fetching user credits:", error);
+      return res.status(500).json({ error: "Failed to fetch credits" });
+    }
+  });
+  
+  type CreditConsumptionResult = {
+    status: number;
+    body: Record<string, unknown>;
+  };
+
+  // Shared credit consumption path used by /api/credits/consume and server-side rendering
+  async function consumeCredits(req: Request, amount: number, description: string): Promise<CreditConsumptionResult> {
+    // Debug mode for testing
+    const DEBUG_MODE = true; // Set to false in production
+
+    console.log("Auth headers:", req.headers.authorization ? "Present" : "Missing");
+    
+    // Try to get the authenticated user
+    const clerkUser = getClerkUser(req);
+    
+    // If debug mode is enabled or user is not authenticated
+    if (DEBUG_MODE || !clerkUser) {
+      console.log("Debug mode or non-authenticated user");
+      
+      // Check if they have enough credits
+      if (simulatedDebugCredits < amount) {
+        console.log(`Insufficient debug credits: ${simulatedDebugCredits} < ${amount}`);
+        return {
+          status: 402,
+          body: {
+            error: "Insufficient credits", 
+            credits: simulatedDebugCredits,
+            required: amount,
+            debug: true
+          }
+        };
+      }
       
-      return res.status(200).json({ 
+      // If they have enough credits, simulate consumption
+      simulatedDebugCredits = Math.max(0, simulatedDebugCredits - amount);
+      console.log(`Simulated debug credits reduced by ${amount} to ${simulatedDebugCredits}`);
+      
+      return {
+        status: 200,
+        body: { 
+          success: true, 
+          credits: simulatedDebugCredits,
+          debug: true
+        }
+      };
+    }
+    
+    // For authenticated users, proceed with normal flow
+    if (!clerkUser.email) {
+      return { status: 401, body: { error: "Unauthorized - user email required" } };
+    }
+    
+    const user = await storage.getUserByEmail(clerkUser.email);
+    if (!user) {
+      return { status: 404, body: { error: "User not found" } };
+    }
+    
+    // Check if user has enough credits
+    const currentCredits = await storage.getUserCredits(user.id);
+    if (currentCredits < amount) {
+      return {
+        status: 402,
+        body: {
+          error: "Insufficient credits", 
+          credits: currentCredits,
+          required: amount
+        }
+      };
+    }
+    
+    // Deduct credits
+    const updatedUser = await storage.updateUserCredits(user.id, currentCredits - amount);
+    
+    // Record transaction
+    await storage.createTransaction({
+      userId: user.id,
+      amount: amount,
+      type: 'usage',
+      description
+    });
+    
+    return {
+      status: 200,
+      body: { 
         success: true, 
         credits: updatedUser ? await storage.getUserCredits(user.id) : currentCredits - amount 
-      });
+      }
+    };
+  }
+  
+  // Consume credits
+  app.post("/api/credits/consume", async (req: Request, res: Response) => {
+    try {
+      const { amount = 30 } = req.body; // Default to 30 credits for image processing
+
+      console.log("Credit consumption endpoint called");
+      
+      const result = await consumeCredits(req, amount, 'Image processing');
+      return res.status(result.status).json(result.body);
     } catch (error) {
       console.error("Error consuming credits:", error);
       return res.status(500).json({ error: "Failed to process credit consumption" });
     }
   });
   
+  /**
+   * Credits set aside for a batch of client-side processing
+   * The whole batch is charged up front so it can't run out of credits half
+   * way. The client reports each item as it finishes, and settling refunds
+   * the items the server never heard back about. Reservations that are never
+   * settled stay charged.
+   *
+   * Reservations are advisory. Batch images are filtered in the browser and
+   * can be downloaded without ever reaching the server, so it has only the
+   * client's word for which ones were processed; a client that reports
+   * nothing is refunded in full. What the server does enforce is that each
+   * reservation is used by the session that made it, refunds at most what it
+   * charged, and settles once.
+   */
+
+  // Put credits back where a reservation took them from
+  async function refundCredits(reservation: CreditReservation, amount: number, description: string): Promise<number> {
+    if (reservation.debug) {
+      simulatedDebugCredits += amount;
+      return simulatedDebugCredits;
+    }
+
+    const user = reservation.userId ? await storage.getUser(reservation.userId) : undefined;
+    if (!user) {
+      throw new Error("Reservation owner not found");
+    }
+
+    const currentCredits = await storage.getUserCredits(user.id);
+    await storage.updateUserCredits(user.id, currentCredits + amount);
+    await storage.createTransaction({
+      userId: user.id,
+      amount,
+      type: 'refund',
+      description
+    });
+    return currentCredits + amount;
+  }
+
+  // A live reservation the caller may use: made in this session, and by this user if signed in
+  async function findOwnReservation(req: Request): Promise<{ reservation: CreditReservation } | { status: number; error: string }> {
+    const reservation = await storage.getCreditReservation(req.params.id);
+    if (!reservation || reservation.settledAt || reservation.expiresAt <= new Date()) {
+      return { status: 404, error: "Reservation not found" };
+    }
+
+    const email = getClerkUser(req)?.email;
+    const user = email ? await storage.getUserByEmail(email) : undefined;
+    if (reservation.sessionId !== req.sessionID || reservation.userId !== (user?.id ?? null)) {
+      return { status: 403, error: "You don't have permission to use this reservation" };
+    }
+    return { reservation };
+  }
+
+  // Reserve credits for a batch of images
+  app.post("/api/credits/reserve", async (req: Request, res: Response) => {
+    try {
+      const result = creditReservationSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid reservation",
+          details: result.error.errors
+        });
+      }
+
+      const { items } = result.data;
+      const credits = await consumeCredits(req, items * BATCH_ITEM_CREDIT_COST, `Batch processing (${items} images)`);
+      if (credits.status !== 200) {
+        return res.status(credits.status).json(credits.body);
+      }
+
+      req.session.reservesCredits = true;
+
+      const email = getClerkUser(req)?.email;
+      const user = email ? await storage.getUserByEmail(email) : undefined;
+      const reservation = await storage.createCreditReservation({
+        id: uuidv4(),
+        userId: user?.id ?? null,
+        sessionId: req.sessionID,
+        debug: credits.body.debug === true,
+        items,
+        expiresAt: new Date(Date.now() + CREDIT_RESERVATION_TTL_MS),
+      });
+
+      res.status(201).json({
+        reservationId: reservation.id,
+        items,
+        amount: items * BATCH_ITEM_CREDIT_COST,
+        credits: credits.body.credits,
+        expiresAt: reservation.expiresAt.toISOString(),
+      });
+    } catch (error) {
+      console.error("Error reserving credits:", error);
+      res.status(500).json({ error: "Failed to reserve credits" });
+    }
+  });
+
+  // Record one item of a reserved batch as processed, as the client reports it; repeats count once
+  app.post("/api/credits/reservations/:id/items", async (req: Request, res: Response) => {
+    try {
+      const result = completeReservationItemSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid item",
+          details: result.error.errors
+        });
+      }
+
+      const found = await findOwnReservation(req);
+      if ('error' in found) {
+        return res.status(found.status).json({ error: found.error });
+      }
+      if (result.data.item >= found.reservation.items) {
+        return res.status(400).json({ error: "Item is outside the reserved batch" });
+      }
+
+      await storage.completeCreditReservationItem(found.reservation.id, result.data.item);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error recording batch item:", error);
+      res.status(500).json({ error: "Failed to record batch item" });
+    }
+  });
+
+  // Settle a reservation once its batch is done, refunding the items that weren't processed
+  app.post("/api/credits/reservations/:id/settle", async (req: Request, res: Response) => {
+    try {
+      const found = await findOwnReservation(req);
+      if ('error' in found) {
+        return res.status(found.status).json({ error: found.error });
+      }
+
+      // Settled once; a second call finds nothing to refund
+      const settled = await storage.settleCreditReservation(found.reservation.id);
+      if (!settled) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+
+      const { reservation, completed } = settled;
+      const unused = reservation.items - Math.min(completed, reservation.items);
+      const refunded = unused * BATCH_ITEM_CREDIT_COST;
+      const credits = refunded > 0
+        ? await refundCredits(reservation, refunded, `Batch processing refund (${unused} of ${reservation.items} images)`)
+        : null;
+
+      res.json({ refunded, ...(credits !== null && { credits }) });
+    } catch (error) {
+      console.error("Error settling credit reservation:", error);
+      res.status(500).json({ error: "Failed to settle reservation" });
+    }
+  });
+
+  // Server-side halftone or dither rendering for uploaded images
+  // Expects multipart/form-data with an "image" file (PNG or JPEG), optional
+  // "settings" (FilterSettings JSON), "format" ("png" | "jpeg") and "quality" (1-100)
+  app.post("/api/render", handleRenderUpload, async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "Missing image file" });
+      }
+      
+      let rawSettings: unknown = {};
+      if (req.body.settings) {
+        try {
+          rawSettings = JSON.parse(req.body.settings);
+        } catch (e) {
+          return res.status(400).json({ error: "Filter settings must be valid JSON" });
+        }
+      }
+      
+      const settingsResult = filterSettingsSchema.safeParse(rawSettings);
+      if (!settingsResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid filter settings", 
+          details: settingsResult.error.errors 
+        });
+      }
+      const filterSettings = { ...DEFAULT_FILTER_SETTINGS, ...settingsResult.data };
+      
+      const format: RenderFormat = req.body.format === 'jpeg' || req.body.format === 'jpg' ? 'jpeg' : 'png';
+      const quality = Math.min(100, Math.max(1, parseInt(req.body.quality, 10) || 90));
+      
+      // Decode before charging so malformed uploads don't cost credits
+      const image = await decodeImageOffThread(req.file.buffer, req.file.mimetype);
+      
+      const credits = await consumeCredits(req, RENDER_CREDIT_COST, 'Server render');
+      if (credits.status !== 200) {
+        return res.status(credits.status).json(credits.body);
+      }
+      
+      const { encoded } = await renderImageOffThread(image, { width: image.width, height: image.height, filterSettings, format, quality });
+      
+      res.setHeader("Content-Type", RENDER_MIME_TYPES[format]);
+      res.setHeader("Content-Length", encoded.length);
+      res.setHeader("X-Credits-Remaining", String(credits.body.credits));
+      return res.send(encoded);
+    } catch (error) {
+      if (error instanceof RenderInputError || error instanceof RenderBusyError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error rendering image:", error);
+      return res.status(500).json({ error: "Failed to render image" });
+    }
+  });
+  
   // Purchase credits with Stripe Checkout
   app.post("/api/checkout/create-session", clerkRequireAuth, async (req: Request, res: Response) => {
     if (!stripe) {
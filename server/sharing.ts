@@ -0,0 +1,307 @@
+import { randomBytes } from "crypto";
+import type { Album, CapturedMedia, ShareLink } from "@shared/schema";
+import {
+  MAX_SHARED_ALBUM_ITEMS,
+  SHARE_TOKEN_PATTERN,
+  shareEmbedPath,
+  sharePath,
+} from "@shared/sharing";
+import { blobStore } from "./blob-store";
+import { storage } from "./storage";
+
+export const SITE_NAME = 'Filtercamera.app';
+
+// Signed URLs handed to viewers; the viewer page refetches well within this
+const SHARED_URL_TTL_SECONDS = 60 * 60;
+
+// Size of embeds when there's nothing better to go on
+const DEFAULT_EMBED_WIDTH = 640;
+const DEFAULT_EMBED_HEIGHT = 480;
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export type SharedContent = {
+  title: string;
+  album: Album | null;
+  items: CapturedMedia[];
+};
+
+export type OpenedShareLink =
+  | { link: ShareLink; content: SharedContent }
+  | { status: number; error: string };
+
+export function createShareToken(): string {
+  return randomBytes(18).toString('base64url');
+}
+
+export function getShareLinkStatus(link: ShareLink, now: Date = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+/**
+ * A share link as shown to its owner, with the password hash left out
+ */
+export function toOwnerShareLink(link: ShareLink) {
+  const { passwordHash, ...rest } = link;
+  return {
+    ...rest,
+    hasPassword: !!passwordHash,
+    status: getShareLinkStatus(link),
+    path: sharePath(link.token),
+    embedPath: shareEmbedPath(link.token),
+  };
+}
+
+// Wrong share passwords allowed per window, for each link and for each client
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_PASSWORD_ATTEMPTS_PER_LINK = 20;
+const MAX_PASSWORD_ATTEMPTS_PER_IP = 10;
+
+// Failed attempts by "link:<token>" or "ip:<address>", counted in fixed windows
+const passwordAttempts = new Map<string, { count: number; resetAt: number }>();
+
+function secondsUntilRetry(key: string, limit: number, now: number): number {
+  const entry = passwordAttempts.get(key);
+  return entry && entry.resetAt > now && entry.count >= limit
+    ? Math.ceil((entry.resetAt - now) / 1000)
+    : 0;
+}
+
+/**
+ * Seconds until a client may try another share password, or 0 if it may now
+ * Checked before the password is, so one address can't work through many
+ * links or keep guessing at one.
+ */
+export function getPasswordRetryAfter(ip: string, now: number = Date.now()): number {
+  return secondsUntilRetry(`ip:${ip}`, MAX_PASSWORD_ATTEMPTS_PER_IP, now);
+}
+
+/**
+ * Count a wrong password, returning the seconds the client should wait before
+ * trying again, or 0
+ * Wrong guesses on a link are also limited across all addresses. That limit
+ * only turns away wrong passwords, so guessers can't lock out viewers who
+ * have the right one.
+ */
+export function recordWrongPassword(token: string, ip: string, now: number = Date.now()): number {
+  // Drop finished windows so the map only holds recent failures
+  passwordAttempts.forEach((entry, key) => {
+    if (entry.resetAt <= now) passwordAttempts.delete(key);
+  });
+
+  for (const key of [`link:${token}`, `ip:${ip}`]) {
+    const entry = passwordAttempts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      passwordAttempts.set(key, { count: 1, resetAt: now + PASSWORD_ATTEMPT_WINDOW_MS });
+    }
+  }
+  return Math.max(
+    secondsUntilRetry(`link:${token}`, MAX_PASSWORD_ATTEMPTS_PER_LINK, now),
+    secondsUntilRetry(`ip:${ip}`, MAX_PASSWORD_ATTEMPTS_PER_IP, now)
+  );
+}
+
+function mediaTitle(media: CapturedMedia): string {
+  const date = media.timestamp.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+  return `${media.mediaType === 'video' ? 'Video' : 'Photo'} from ${date}`;
+}
+
+/**
+ * Find a viewable link and what it shows
+ * Unknown links and links to deleted items are 404s; revoked and expired
+ * ones are 410s, so viewers can say why a link stopped working.
+ */
+export async function openShareLink(token: string): Promise<OpenedShareLink> {
+  const link = SHARE_TOKEN_PATTERN.test(token) ? await storage.getShareLinkByToken(token) : undefined;
+  if (!link) {
+    return { status: 404, error: "Share link not found" };
+  }
+
+  const status = getShareLinkStatus(link);
+  if (status === 'revoked') {
+    return { status: 410, error: "This link has been turned off" };
+  }
+  if (status === 'expired') {
+    return { status: 410, error: "This link has expired" };
+  }
+
+  if (link.mediaId) {
+    const media = await storage.getCapturedMediaById(link.mediaId);
+    if (media) {
+      return { link, content: { title: mediaTitle(media), album: null, items: [media] } };
+    }
+  } else if (link.albumId) {
+    const album = await storage.getAlbumById(link.albumId);
+    if (album) {
+      const items = await storage.findCapturedMedia(album.userId, {
+        albumId: album.id,
+        sort: 'oldest',
+        limit: MAX_SHARED_ALBUM_ITEMS,
+      });
+      return { link, content: { title: album.name, album, items } };
+    }
+  }
+  return { status: 404, error: "Share link not found" };
+}
+
+/**
+ * Shared content as sent to viewers
+ * Only the finished captures are public: originals, filter settings and tags
+ * stay with the owner.
+ */
+export async function toPublicShare(link: ShareLink, content: SharedContent) {
+  return {
+    kind: link.albumId ? 'album' : 'media',
+    title: content.title,
+    items: await Promise.all(content.items.map(async media => ({
+      id: media.id,
+      mediaType: media.mediaType,
+      mimeType: media.mimeType,
+      width: media.width,
+      height: media.height,
+      duration: media.duration,
+      timestamp: media.timestamp,
+      mediaUrl: media.storageKey ? await blobStore.getSignedUrl(media.storageKey, SHARED_URL_TTL_SECONDS) : media.mediaUrl,
+      thumbnailUrl: media.thumbnailKey ? await blobStore.getSignedUrl(media.thumbnailKey, SHARED_URL_TTL_SECONDS) : null,
+    }))),
+  };
+}
+
+/**
+ * Blob key of the image link previews show, if the link may have one
+ * Password-protected links show nothing of what's behind them.
+ */
+export function getPreviewImageKey(link: ShareLink, content: SharedContent): string | null {
+  if (link.passwordHash) return null;
+  const first = content.items[0];
+  if (!first) return null;
+  return first.thumbnailKey ?? (first.mediaType === 'image' ? first.storageKey : null);
+}
+
+function previewDescription(link: ShareLink, content: SharedContent): string {
+  if (link.passwordHash) return `Password-protected, shared from ${SITE_NAME}`;
+  if (content.album) {
+    const count = content.items.length;
+    return `${count} ${count === 1 ? 'capture' : 'captures'} shared from ${SITE_NAME}`;
+  }
+  return `Made with ${SITE_NAME}`;
+}
+
+// Titles of protected links would give away what they hide
+function previewTitle(link: ShareLink, content: SharedContent): string {
+  return link.passwordHash ? 'Shared capture' : content.title;
+}
+
+/**
+ * oEmbed "rich" response for a share link: an iframe of the embed viewer,
+ * sized to the capture and kept within the consumer's limits
+ */
+export function buildOEmbed(link: ShareLink, content: SharedContent, origin: string, maxWidth?: number, maxHeight?: number) {
+  const first = content.items[0];
+  const aspect = !content.album && first?.width && first.height
+    ? first.width / first.height
+    : DEFAULT_EMBED_WIDTH / DEFAULT_EMBED_HEIGHT;
+
+  let width = Math.min(DEFAULT_EMBED_WIDTH, maxWidth ?? Infinity);
+  let height = Math.round(width / aspect);
+  if (maxHeight && height > maxHeight) {
+    height = maxHeight;
+    width = Math.round(height * aspect);
+  }
+
+  const title = previewTitle(link, content);
+  const previewKey = getPreviewImageKey(link, content);
+  return {
+    version: '1.0',
+    type: 'rich',
+    provider_name: SITE_NAME,
+    provider_url: origin,
+    title,
+    width,
+    height,
+    html: `<iframe src="${escapeHtml(`${origin}${shareEmbedPath(link.token)}`)}" width="${width}" height="${height}" ` +
+      `title="${escapeHtml(title)}" frameborder="0" allow="fullscreen" allowfullscreen></iframe>`,
+    ...(previewKey && {
+      thumbnail_url: `${origin}/api/public/shares/${link.token}/preview`,
+    }),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+const SHARE_PAGE_PATTERN = /^\/s\/([^/]+)(?:\/embed)?\/?$/;
+
+export function isSharePagePath(pathname: string): boolean {
+  return SHARE_PAGE_PATTERN.test(pathname);
+}
+
+/**
+ * index.html for a share page, with Open Graph tags and oEmbed discovery
+ * Link previews are made by crawlers that don't run scripts, so the tags have
+ * to be in the HTML itself. Other pages are returned unchanged.
+ */
+export async function withShareHeadTags(html: string, url: string, origin: string): Promise<string> {
+  const match = SHARE_PAGE_PATTERN.exec(new URL(url, origin).pathname);
+  if (!match) return html;
+
+  try {
+    const token = decodeURIComponent(match[1]);
+    const opened = await openShareLink(token);
+
+    let tags: string[];
+    if ('error' in opened) {
+      tags = [
+        `<title>${escapeHtml(`${opened.error} · ${SITE_NAME}`)}</title>`,
+        `<meta property="og:title" content="${escapeHtml(opened.error)}">`,
+      ];
+    } else {
+      const { link, content } = opened;
+      const title = previewTitle(link, content);
+      const pageUrl = `${origin}${sharePath(link.token)}`;
+      const hasPreview = !!getPreviewImageKey(link, content);
+      tags = [
+        `<title>${escapeHtml(`${title} · ${SITE_NAME}`)}</title>`,
+        `<meta property="og:title" content="${escapeHtml(title)}">`,
+        `<meta property="og:description" content="${escapeHtml(previewDescription(link, content))}">`,
+        `<meta property="og:type" content="website">`,
+        `<meta property="og:url" content="${escapeHtml(pageUrl)}">`,
+        ...(hasPreview ? [`<meta property="og:image" content="${escapeHtml(`${origin}/api/public/shares/${link.token}/preview`)}">`] : []),
+        `<meta name="twitter:card" content="${hasPreview ? 'summary_large_image' : 'summary'}">`,
+        `<link rel="alternate" type="application/json+oembed" href="${escapeHtml(`${origin}/api/oembed?url=${encodeURIComponent(pageUrl)}&format=json`)}" title="${escapeHtml(title)}">`,
+      ];
+    }
+
+    // Shared pages are unlisted; search engines shouldn't index them
+    tags.push(
+      `<meta property="og:site_name" content="${SITE_NAME}">`,
+      `<meta name="robots" content="noindex">`,
+    );
+    // A replacer function, so `$'` and the like in album names aren't expanded as patterns
+    return html.replace(/<title>[\s\S]*?<\/title>/, () => tags.join('\n  '));
+  } catch (error) {
+    console.error("Error adding share page tags:", error);
+    return html;
+  }
+}
+
+/**
+ * Token of a share page URL, as given to the oEmbed endpoint
+ */
+export function parseSharePageUrl(url: string): string | null {
+  try {
+    const match = SHARE_PAGE_PATTERN.exec(new URL(url).pathname);
+    return match ? decodeURIComponent(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,15 +1,23 @@
 import { 
-  users, capturedMedia, subscriptions, sessions, transactions,
+  users, albums, capturedMedia, mediaTags, mediaVersions, shareLinks, filterPresets, subscriptions, sessions, transactions,
+  creditReservations, creditReservationItems,
   type User, type InsertUser, type CapturedMedia, 
-  type InsertCapturedMedia, type Subscription, type InsertSubscription,
-  type Transaction, type InsertTransaction
+  type InsertCapturedMedia, type MediaVersion, type InsertMediaVersion,
+  type Album, type InsertAlbum, type MediaTag,
+  type ShareLink, type InsertShareLink,
+  type FilterPreset, type InsertFilterPreset,
+  type Subscription, type InsertSubscription,
+  type Transaction, type InsertTransaction,
+  type CreditReservation, type InsertCreditReservation
 } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, exists, gt, gte, ilike, inArray, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import * as bcrypt from "bcrypt";
 import dotenv from "dotenv";
 import { v4 as uuidv4 } from "uuid";
+import type { FilterSettings } from "@shared/halftone";
+import type { MediaSort } from "@shared/gallery";
 
 dotenv.config();
 
@@ -25,6 +33,30 @@ const client = postgres(process.env.DATABASE_URL, {
 
 const db = drizzle(client);
 
+// Position after the last item of the previous page
+export type MediaCursor = {
+  id: number;
+  size: number; // Only used by the size sorts; missing sizes count as 0
+};
+
+/**
+ * Which of a user's captures to list, and in what order
+ * Filters left undefined match everything; an albumId of null matches captures
+ * outside any album.
+ */
+export type MediaQuery = {
+  mediaType?: 'image' | 'video';
+  albumId?: number | null;
+  tag?: string;
+  search?: string; // Part of a tag or album name
+  from?: Date;
+  to?: Date;
+  filterSettings?: Partial<FilterSettings>; // Settings the capture must have been made with
+  sort: MediaSort;
+  after?: MediaCursor;
+  limit: number;
+};
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
@@ -40,10 +72,45 @@ export interface IStorage {
   
   // Media methods
   getCapturedMedia(userId: number): Promise<CapturedMedia[]>;
+  findCapturedMedia(userId: number, query: MediaQuery): Promise<CapturedMedia[]>;
   getCapturedMediaById(id: number): Promise<CapturedMedia | undefined>;
   createCapturedMedia(media: InsertCapturedMedia): Promise<CapturedMedia>;
+  moveCapturedMedia(ids: number[], albumId: number | null): Promise<void>;
   deleteCapturedMedia(id: number): Promise<void>;
   
+  // Media tag methods; tags go when their media is deleted
+  getMediaTags(mediaIds: number[]): Promise<MediaTag[]>;
+  getUserTags(userId: number): Promise<string[]>;
+  setMediaTags(mediaId: number, tags: string[]): Promise<void>;
+  
+  // Album methods; deleting an album leaves its media outside any album
+  getAlbums(userId: number): Promise<Album[]>;
+  getAlbumById(id: number): Promise<Album | undefined>;
+  createAlbum(album: InsertAlbum): Promise<Album>;
+  updateAlbum(id: number, album: Partial<InsertAlbum>): Promise<Album | undefined>;
+  deleteAlbum(id: number): Promise<void>;
+  
+  // Media version methods; versions go when their media is deleted
+  getMediaVersions(mediaId: number): Promise<MediaVersion[]>;
+  getMediaVersionById(id: number): Promise<MediaVersion | undefined>;
+  createMediaVersion(version: InsertMediaVersion): Promise<MediaVersion>;
+  deleteMediaVersion(id: number): Promise<void>;
+  
+  // Share link methods; links go when what they share is deleted
+  getShareLinks(userId: number): Promise<ShareLink[]>;
+  getShareLinkById(id: number): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  revokeShareLink(id: number): Promise<ShareLink | undefined>;
+  incrementShareLinkViews(id: number): Promise<void>;
+  
+  // Filter preset methods
+  getFilterPresets(userId: number): Promise<FilterPreset[]>;
+  getFilterPresetById(id: number): Promise<FilterPreset | undefined>;
+  createFilterPreset(preset: InsertFilterPreset): Promise<FilterPreset>;
+  updateFilterPreset(id: number, preset: Partial<InsertFilterPreset>): Promise<FilterPreset | undefined>;
+  deleteFilterPreset(id: number): Promise<void>;
+  
   // Subscription methods
   getSubscription(userId: number): Promise<Subscription | undefined>;
   getAllSubscriptions(): Promise<Subscription[]>;
@@ -54,6 +121,13 @@ export interface IStorage {
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
   getUserTransactions(userId: number): Promise<Transaction[]>;
   
+  // Credit reservation methods; completed items are counted once each, as clients report them
+  createCreditReservation(reservation: InsertCreditReservation): Promise<CreditReservation>;
+  getCreditReservation(id: string): Promise<CreditReservation | undefined>;
+  completeCreditReservationItem(id: string, item: number): Promise<void>;
+  // Marks a reservation settled, or returns undefined if it already was
+  settleCreditReservation(id: string): Promise<{ reservation: CreditReservation; completed: number } | undefined>;
+  
   // Session methods
   createSession(userId: number, expiresInDays: number): Promise<string>;
   getSessionData(sessionId: string): Promise<any>;
@@ -146,6 +220,75 @@ export class PostgresStorage implements IStorage {
       .where(eq(capturedMedia.userId, userId));
   }
   
+  async findCapturedMedia(userId: number, query: MediaQuery): Promise<CapturedMedia[]> {
+    const conditions: (SQL | undefined)[] = [eq(capturedMedia.userId, userId)];
+    
+    if (query.mediaType) {
+      conditions.push(eq(capturedMedia.mediaType, query.mediaType));
+    }
+    if (query.albumId !== undefined) {
+      conditions.push(query.albumId === null ? isNull(capturedMedia.albumId) : eq(capturedMedia.albumId, query.albumId));
+    }
+    if (query.tag) {
+      conditions.push(exists(db
+        .select()
+        .from(mediaTags)
+        .where(and(eq(mediaTags.mediaId, capturedMedia.id), eq(mediaTags.tag, query.tag)))));
+    }
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(or(
+        exists(db
+          .select()
+          .from(mediaTags)
+          .where(and(eq(mediaTags.mediaId, capturedMedia.id), ilike(mediaTags.tag, pattern)))),
+        exists(db
+          .select()
+          .from(albums)
+          .where(and(eq(albums.id, capturedMedia.albumId), ilike(albums.name, pattern)))),
+      ));
+    }
+    if (query.from) {
+      conditions.push(gte(capturedMedia.timestamp, query.from));
+    }
+    if (query.to) {
+      conditions.push(lte(capturedMedia.timestamp, query.to));
+    }
+    if (query.filterSettings) {
+      conditions.push(sql`${capturedMedia.filterSettings} @> ${JSON.stringify(query.filterSettings)}::jsonb`);
+    }
+    
+    // Keyset pagination; ids break ties between equal sizes
+    const size = sql<number>`coalesce(${capturedMedia.size}, 0)`;
+    const { after } = query;
+    let orderBy: SQL[];
+    switch (query.sort) {
+      case 'newest':
+        if (after) conditions.push(lt(capturedMedia.id, after.id));
+        orderBy = [desc(capturedMedia.id)];
+        break;
+      case 'oldest':
+        if (after) conditions.push(gt(capturedMedia.id, after.id));
+        orderBy = [asc(capturedMedia.id)];
+        break;
+      case 'largest':
+        if (after) conditions.push(or(lt(size, after.size), and(eq(size, after.size), lt(capturedMedia.id, after.id))));
+        orderBy = [desc(size), desc(capturedMedia.id)];
+        break;
+      case 'smallest':
+        if (after) conditions.push(or(gt(size, after.size), and(eq(size, after.size), gt(capturedMedia.id, after.id))));
+        orderBy = [asc(size), asc(capturedMedia.id)];
+        break;
+    }
+    
+    return await db
+      .select()
+      .from(capturedMedia)
+      .where(and(...conditions))
+      .orderBy(...orderBy)
+      .limit(query.limit);
+  }
+  
   async getCapturedMediaById(id: number): Promise<CapturedMedia | undefined> {
     const result = await db
       .select()
@@ -164,12 +307,220 @@ export class PostgresStorage implements IStorage {
     return result[0];
   }
   
+  async moveCapturedMedia(ids: number[], albumId: number | null): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(capturedMedia)
+      .set({ albumId })
+      .where(inArray(capturedMedia.id, ids));
+  }
+  
   async deleteCapturedMedia(id: number): Promise<void> {
     await db
       .delete(capturedMedia)
       .where(eq(capturedMedia.id, id));
   }
   
+  async getMediaTags(mediaIds: number[]): Promise<MediaTag[]> {
+    if (mediaIds.length === 0) return [];
+    return await db
+      .select()
+      .from(mediaTags)
+      .where(inArray(mediaTags.mediaId, mediaIds))
+      .orderBy(asc(mediaTags.tag));
+  }
+  
+  async getUserTags(userId: number): Promise<string[]> {
+    const result = await db
+      .selectDistinct({ tag: mediaTags.tag })
+      .from(mediaTags)
+      .innerJoin(capturedMedia, eq(mediaTags.mediaId, capturedMedia.id))
+      .where(eq(capturedMedia.userId, userId))
+      .orderBy(asc(mediaTags.tag));
+      
+    return result.map(row => row.tag);
+  }
+  
+  async setMediaTags(mediaId: number, tags: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(mediaTags)
+        .where(eq(mediaTags.mediaId, mediaId));
+      if (tags.length > 0) {
+        await tx
+          .insert(mediaTags)
+          .values(tags.map(tag => ({ mediaId, tag })));
+      }
+    });
+  }
+  
+  async getAlbums(userId: number): Promise<Album[]> {
+    return await db
+      .select()
+      .from(albums)
+      .where(eq(albums.userId, userId))
+      .orderBy(asc(albums.name));
+  }
+  
+  async getAlbumById(id: number): Promise<Album | undefined> {
+    const result = await db
+      .select()
+      .from(albums)
+      .where(eq(albums.id, id));
+      
+    return result[0];
+  }
+  
+  async createAlbum(album: InsertAlbum): Promise<Album> {
+    const result = await db
+      .insert(albums)
+      .values(album)
+      .returning();
+      
+    return result[0];
+  }
+  
+  async updateAlbum(id: number, album: Partial<InsertAlbum>): Promise<Album | undefined> {
+    const result = await db
+      .update(albums)
+      .set({ ...album, updatedAt: new Date() })
+      .where(eq(albums.id, id))
+      .returning();
+      
+    return result[0];
+  }
+  
+  async deleteAlbum(id: number): Promise<void> {
+    await db
+      .delete(albums)
+      .where(eq(albums.id, id));
+  }
+  
+  async getMediaVersions(mediaId: number): Promise<MediaVersion[]> {
+    return await db
+      .select()
+      .from(mediaVersions)
+      .where(eq(mediaVersions.mediaId, mediaId))
+      .orderBy(asc(mediaVersions.id));
+  }
+  
+  async getMediaVersionById(id: number): Promise<MediaVersion | undefined> {
+    const result = await db
+      .select()
+      .from(mediaVersions)
+      .where(eq(mediaVersions.id, id));
+      
+    return result[0];
+  }
+  
+  async createMediaVersion(version: InsertMediaVersion): Promise<MediaVersion> {
+    const result = await db
+      .insert(mediaVersions)
+      .values(version)
+      .returning();
+      
+    return result[0];
+  }
+  
+  async deleteMediaVersion(id: number): Promise<void> {
+    await db
+      .delete(mediaVersions)
+      .where(eq(mediaVersions.id, id));
+  }
+  
+  async getShareLinks(userId: number): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.userId, userId))
+      .orderBy(desc(shareLinks.id));
+  }
+  
+  async getShareLinkById(id: number): Promise<ShareLink | undefined> {
+    const result = await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.id, id));
+      
+    return result[0];
+  }
+  
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const result = await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.token, token));
+      
+    return result[0];
+  }
+  
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const result = await db
+      .insert(shareLinks)
+      .values(link)
+      .returning();
+      
+    return result[0];
+  }
+  
+  async revokeShareLink(id: number): Promise<ShareLink | undefined> {
+    const result = await db
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(eq(shareLinks.id, id))
+      .returning();
+      
+    return result[0];
+  }
+  
+  async incrementShareLinkViews(id: number): Promise<void> {
+    await db
+      .update(shareLinks)
+      .set({ viewCount: sql`${shareLinks.viewCount} + 1` })
+      .where(eq(shareLinks.id, id));
+  }
+  
+  async getFilterPresets(userId: number): Promise<FilterPreset[]> {
+    return await db
+      .select()
+      .from(filterPresets)
+      .where(eq(filterPresets.userId, userId));
+  }
+  
+  async getFilterPresetById(id: number): Promise<FilterPreset | undefined> {
+    const result = await db
+      .select()
+      .from(filterPresets)
+      .where(eq(filterPresets.id, id));
+      
+    return result[0];
+  }
+  
+  async createFilterPreset(preset: InsertFilterPreset): Promise<FilterPreset> {
+    const result = await db
+      .insert(filterPresets)
+      .values(preset)
+      .returning();
+      
+    return result[0];
+  }
+  
+  async updateFilterPreset(id: number, preset: Partial<InsertFilterPreset>): Promise<FilterPreset | undefined> {
+    const result = await db
+      .update(filterPresets)
+      .set({ ...preset, updatedAt: new Date() })
+      .where(eq(filterPresets.id, id))
+      .returning();
+      
+    return result[0];
+  }
+  
+  async deleteFilterPreset(id: number): Promise<void> {
+    await db
+      .delete(filterPresets)
+      .where(eq(filterPresets.id, id));
+  }
+  
   async getSubscription(userId: number): Promise<Subscription | undefined> {
     const result = await db
       .select()
@@ -262,28 +613,121 @@ export class PostgresStorage implements IStorage {
       .from(transactions)
       .where(eq(transactions.userId, userId));
   }
+  
+  async createCreditReservation(reservation: InsertCreditReservation): Promise<CreditReservation> {
+    const result = await db
+      .insert(creditReservations)
+      .values(reservation)
+      .returning();
+      
+    return result[0];
+  }
+  
+  async getCreditReservation(id: string): Promise<CreditReservation | undefined> {
+    const result = await db
+      .select()
+      .from(creditReservations)
+      .where(eq(creditReservations.id, id));
+      
+    return result[0];
+  }
+  
+  async completeCreditReservationItem(id: string, item: number): Promise<void> {
+    await db
+      .insert(creditReservationItems)
+      .values({ reservationId: id, item })
+      .onConflictDoNothing();
+  }
+  
+  async settleCreditReservation(id: string): Promise<{ reservation: CreditReservation; completed: number } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only the first settle finds it unsettled, so refunds can't be claimed twice
+      const result = await tx
+        .update(creditReservations)
+        .set({ settledAt: new Date() })
+        .where(and(eq(creditReservations.id, id), isNull(creditReservations.settledAt)))
+        .returning();
+      if (!result[0]) return undefined;
+
+      const [{ completed }] = await tx
+        .select({ completed: sql<number>`count(*)::int` })
+        .from(creditReservationItems)
+        .where(eq(creditReservationItems.reservationId, id));
+      return { reservation: result[0], completed };
+    });
+  }
+}
+
+/**
+ * Order of two captures in a listing: negative when a comes first
+ */
+function compareMedia(a: MediaCursor, b: MediaCursor, sort: MediaSort): number {
+  switch (sort) {
+    case 'newest':
+      return b.id - a.id;
+    case 'oldest':
+      return a.id - b.id;
+    case 'largest':
+      return b.size - a.size || b.id - a.id;
+    case 'smallest':
+      return a.size - b.size || a.id - b.id;
+  }
+}
+
+// Same matching as Postgres' jsonb @> operator
+function jsonContains(value: unknown, subset: unknown): boolean {
+  if (Array.isArray(subset)) {
+    return Array.isArray(value) && subset.every(item => value.some(entry => jsonContains(entry, item)));
+  }
+  if (subset !== null && typeof subset === 'object') {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+      Object.entries(subset).every(([key, item]) => jsonContains((value as Record<string, unknown>)[key], item));
+  }
+  return value === subset;
 }
 
 // For backwards compatibility and development environment
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private mediaItems: Map<number, CapturedMedia>;
+  private versions: Map<number, MediaVersion>;
+  private tags: Map<number, string[]>; // By media id
+  private userAlbums: Map<number, Album>;
+  private links: Map<number, ShareLink>;
+  private presets: Map<number, FilterPreset>;
   private userSubscriptions: Map<number, Subscription>;
   private userSessions: Map<string, any>;
   private userTransactions: Map<number, Transaction>;
+  private reservations: Map<string, CreditReservation>;
+  private reservationItems: Map<string, Set<number>>; // Completed items by reservation id
   currentId: number;
   mediaId: number;
+  versionId: number;
+  albumId: number;
+  shareLinkId: number;
+  presetId: number;
   subscriptionId: number;
   transactionId: number;
 
   constructor() {
     this.users = new Map();
     this.mediaItems = new Map();
+    this.versions = new Map();
+    this.tags = new Map();
+    this.userAlbums = new Map();
+    this.links = new Map();
+    this.presets = new Map();
     this.userSubscriptions = new Map();
     this.userSessions = new Map();
     this.userTransactions = new Map();
+    this.reservations = new Map();
+    this.reservationItems = new Map();
     this.currentId = 1;
     this.mediaId = 1;
+    this.versionId = 1;
+    this.albumId = 1;
+    this.shareLinkId = 1;
+    this.presetId = 1;
     this.subscriptionId = 1;
     this.transactionId = 1;
   }
@@ -394,6 +838,28 @@ export class MemStorage implements IStorage {
     return result;
   }
   
+  async findCapturedMedia(userId: number, query: MediaQuery): Promise<CapturedMedia[]> {
+    const search = query.search?.toLowerCase();
+    const toCursor = (media: CapturedMedia): MediaCursor => ({ id: media.id, size: media.size ?? 0 });
+    
+    return Array.from(this.mediaItems.values())
+      .filter(media => {
+        const tags = this.tags.get(media.id) ?? [];
+        const album = media.albumId !== null ? this.userAlbums.get(media.albumId) : undefined;
+        return media.userId === userId &&
+          (!query.mediaType || media.mediaType === query.mediaType) &&
+          (query.albumId === undefined || media.albumId === query.albumId) &&
+          (!query.tag || tags.includes(query.tag)) &&
+          (!search || tags.some(tag => tag.includes(search)) || !!album?.name.toLowerCase().includes(search)) &&
+          (!query.from || media.timestamp >= query.from) &&
+          (!query.to || media.timestamp <= query.to) &&
+          (!query.filterSettings || jsonContains(media.filterSettings, query.filterSettings)) &&
+          (!query.after || compareMedia(toCursor(media), query.after, query.sort) > 0);
+      })
+      .sort((a, b) => compareMedia(toCursor(a), toCursor(b), query.sort))
+      .slice(0, query.limit);
+  }
+  
   async getCapturedMediaById(id: number): Promise<CapturedMedia | undefined> {
     return this.mediaItems.get(id);
   }
@@ -406,15 +872,220 @@ export class MemStorage implements IStorage {
       timestamp: new Date(),
       userId: media.userId || null,
       mediaType: media.mediaType,
-      mediaUrl: media.mediaUrl
+      mediaUrl: media.mediaUrl ?? null,
+      storageKey: media.storageKey ?? null,
+      thumbnailKey: media.thumbnailKey ?? null,
+      mimeType: media.mimeType ?? null,
+      size: media.size ?? null,
+      width: media.width ?? null,
+      height: media.height ?? null,
+      duration: media.duration ?? null,
+      sourceType: media.sourceType ?? null,
+      sourceWidth: media.sourceWidth ?? null,
+      sourceHeight: media.sourceHeight ?? null,
+      sourceTakenAt: media.sourceTakenAt ?? null,
+      sourceKey: media.sourceKey ?? null,
+      sourceUrl: media.sourceUrl || null,
+      filterSettings: media.filterSettings || null,
+      albumId: media.albumId ?? null
     };
     
     this.mediaItems.set(id, capturedMedia);
     return capturedMedia;
   }
   
+  async moveCapturedMedia(ids: number[], albumId: number | null): Promise<void> {
+    ids.forEach(id => {
+      const media = this.mediaItems.get(id);
+      if (media) this.mediaItems.set(id, { ...media, albumId });
+    });
+  }
+  
   async deleteCapturedMedia(id: number): Promise<void> {
     this.mediaItems.delete(id);
+    this.tags.delete(id);
+    Array.from(this.links.values())
+      .filter(link => link.mediaId === id)
+      .forEach(link => this.links.delete(link.id));
+    // Mirror the database's cascade
+    Array.from(this.versions.values())
+      .filter(version => version.mediaId === id)
+      .forEach(version => this.versions.delete(version.id));
+  }
+  
+  async getMediaTags(mediaIds: number[]): Promise<MediaTag[]> {
+    return mediaIds.flatMap(mediaId =>
+      [...(this.tags.get(mediaId) ?? [])].sort().map(tag => ({ mediaId, tag }))
+    );
+  }
+  
+  async getUserTags(userId: number): Promise<string[]> {
+    const tags = new Set<string>();
+    Array.from(this.tags.entries()).forEach(([mediaId, mediaTags]) => {
+      if (this.mediaItems.get(mediaId)?.userId === userId) {
+        mediaTags.forEach(tag => tags.add(tag));
+      }
+    });
+    return Array.from(tags).sort();
+  }
+  
+  async setMediaTags(mediaId: number, tags: string[]): Promise<void> {
+    if (tags.length > 0) {
+      this.tags.set(mediaId, [...tags]);
+    } else {
+      this.tags.delete(mediaId);
+    }
+  }
+  
+  async getAlbums(userId: number): Promise<Album[]> {
+    return Array.from(this.userAlbums.values())
+      .filter(album => album.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getAlbumById(id: number): Promise<Album | undefined> {
+    return this.userAlbums.get(id);
+  }
+  
+  async createAlbum(album: InsertAlbum): Promise<Album> {
+    const id = this.albumId++;
+    const now = new Date();
+    const newAlbum: Album = {
+      ...album,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    this.userAlbums.set(id, newAlbum);
+    return newAlbum;
+  }
+  
+  async updateAlbum(id: number, album: Partial<InsertAlbum>): Promise<Album | undefined> {
+    const existing = this.userAlbums.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...album, updatedAt: new Date() };
+    this.userAlbums.set(id, updated);
+    return updated;
+  }
+  
+  async deleteAlbum(id: number): Promise<void> {
+    this.userAlbums.delete(id);
+    Array.from(this.links.values())
+      .filter(link => link.albumId === id)
+      .forEach(link => this.links.delete(link.id));
+    // Mirror the database's "set null"
+    Array.from(this.mediaItems.values())
+      .filter(media => media.albumId === id)
+      .forEach(media => this.mediaItems.set(media.id, { ...media, albumId: null }));
+  }
+  
+  async getMediaVersions(mediaId: number): Promise<MediaVersion[]> {
+    return Array.from(this.versions.values()).filter(version => version.mediaId === mediaId);
+  }
+  
+  async getMediaVersionById(id: number): Promise<MediaVersion | undefined> {
+    return this.versions.get(id);
+  }
+  
+  async createMediaVersion(version: InsertMediaVersion): Promise<MediaVersion> {
+    const id = this.versionId++;
+    const mediaVersion: MediaVersion = {
+      ...version,
+      id,
+      thumbnailKey: version.thumbnailKey ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.versions.set(id, mediaVersion);
+    return mediaVersion;
+  }
+  
+  async deleteMediaVersion(id: number): Promise<void> {
+    this.versions.delete(id);
+  }
+  
+  async getShareLinks(userId: number): Promise<ShareLink[]> {
+    return Array.from(this.links.values())
+      .filter(link => link.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getShareLinkById(id: number): Promise<ShareLink | undefined> {
+    return this.links.get(id);
+  }
+  
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    return Array.from(this.links.values()).find(link => link.token === token);
+  }
+  
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const id = this.shareLinkId++;
+    const shareLink: ShareLink = {
+      ...link,
+      id,
+      mediaId: link.mediaId ?? null,
+      albumId: link.albumId ?? null,
+      passwordHash: link.passwordHash ?? null,
+      expiresAt: link.expiresAt ?? null,
+      revokedAt: null,
+      viewCount: 0,
+      createdAt: new Date(),
+    };
+    
+    this.links.set(id, shareLink);
+    return shareLink;
+  }
+  
+  async revokeShareLink(id: number): Promise<ShareLink | undefined> {
+    const existing = this.links.get(id);
+    if (!existing) return undefined;
+    
+    const revoked = { ...existing, revokedAt: new Date() };
+    this.links.set(id, revoked);
+    return revoked;
+  }
+  
+  async incrementShareLinkViews(id: number): Promise<void> {
+    const link = this.links.get(id);
+    if (link) this.links.set(id, { ...link, viewCount: link.viewCount + 1 });
+  }
+  
+  async getFilterPresets(userId: number): Promise<FilterPreset[]> {
+    return Array.from(this.presets.values()).filter(preset => preset.userId === userId);
+  }
+  
+  async getFilterPresetById(id: number): Promise<FilterPreset | undefined> {
+    return this.presets.get(id);
+  }
+  
+  async createFilterPreset(preset: InsertFilterPreset): Promise<FilterPreset> {
+    const id = this.presetId++;
+    const now = new Date();
+    const filterPreset: FilterPreset = {
+      ...preset,
+      timeline: preset.timeline ?? null,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    this.presets.set(id, filterPreset);
+    return filterPreset;
+  }
+  
+  async updateFilterPreset(id: number, preset: Partial<InsertFilterPreset>): Promise<FilterPreset | undefined> {
+    const existing = this.presets.get(id);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...preset, updatedAt: new Date() };
+    this.presets.set(id, updated);
+    return updated;
+  }
+  
+  async deleteFilterPreset(id: number): Promise<void> {
+    this.presets.delete(id);
   }
   
   async getSubscription(userId: number): Promise<Subscription | undefined> {
@@ -526,6 +1197,37 @@ export class MemStorage implements IStorage {
     
     return result;
   }
+  
+  async createCreditReservation(reservation: InsertCreditReservation): Promise<CreditReservation> {
+    const newReservation: CreditReservation = {
+      ...reservation,
+      userId: reservation.userId ?? null,
+      debug: reservation.debug ?? false,
+      settledAt: null,
+      createdAt: new Date(),
+    };
+    
+    this.reservations.set(newReservation.id, newReservation);
+    this.reservationItems.set(newReservation.id, new Set());
+    return newReservation;
+  }
+  
+  async getCreditReservation(id: string): Promise<CreditReservation | undefined> {
+    return this.reservations.get(id);
+  }
+  
+  async completeCreditReservationItem(id: string, item: number): Promise<void> {
+    this.reservationItems.get(id)?.add(item);
+  }
+  
+  async settleCreditReservation(id: string): Promise<{ reservation: CreditReservation; completed: number } | undefined> {
+    const existing = this.reservations.get(id);
+    if (!existing || existing.settledAt) return undefined;
+    
+    const settled = { ...existing, settledAt: new Date() };
+    this.reservations.set(id, settled);
+    return { reservation: settled, completed: this.reservationItems.get(id)?.size ?? 0 };
+  }
 }
 
 // Use PostgreSQL storage for production, memory storage for development
@@ -8,6 +8,7 @@ const __dirname = dirname(__filename);
 import { type Server } from "http";
 import viteConfig from "../vite.config";
 import { nanoid } from "nanoid";
+import { isSharePagePath, withShareHeadTags } from "./sharing";
 
 const viteLogger = createLogger();
 
@@ -61,7 +62,11 @@ export async function setupVite(app: Express, server: Server) {
         `src="/src/main.tsx"`,
         `src="/src/main.tsx?v=${nanoid()}"`,
       );
-      const page = await vite.transformIndexHtml(url, template);
+      const page = await withShareHeadTags(
+        await vite.transformIndexHtml(url, template),
+        url,
+        `${req.protocol}://${req.get("host")}`,
+      );
       res.status(200).set({ "Content-Type": "text/html" }).end(page);
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
@@ -82,7 +87,18 @@ export function serveStatic(app: Express) {
   app.use(express.static(distPath));
 
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  app.use("*", async (req, res, next) => {
+    if (!isSharePagePath(req.originalUrl.split("?")[0])) {
+      return res.sendFile(path.resolve(distPath, "index.html"));
+    }
+
+    // share pages carry link-preview tags for the link they show
+    try {
+      const template = await fs.promises.readFile(path.resolve(distPath, "index.html"), "utf-8");
+      const page = await withShareHeadTags(template, req.originalUrl, `${req.protocol}://${req.get("host")}`);
+      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+    } catch (e) {
+      next(e);
+    }
   });
 }
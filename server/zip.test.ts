@@ -0,0 +1,199 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { PassThrough, Readable, Writable } from "stream";
+import { crc32 } from "zlib";
+import type { Album, CapturedMedia } from "@shared/schema";
+import { ZipWriter } from "./zip";
+
+type ZipEntry = {
+  name: string;
+  crc: number;
+  size: number;
+  offset: number;
+  data: Buffer;
+  modified: { time: number; date: number };
+};
+
+/**
+ * Read an archive back through its central directory, checking every local
+ * header and data descriptor against it on the way
+ */
+function readZip(archive: Buffer): ZipEntry[] {
+  const end = archive.length - 22;
+  assert.equal(archive.readUInt32LE(end), 0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  assert.equal(archive.readUInt16LE(end + 8), count);
+  const directorySize = archive.readUInt32LE(end + 12);
+  const directoryOffset = archive.readUInt32LE(end + 16);
+  assert.equal(directoryOffset + directorySize, end);
+
+  const entries: ZipEntry[] = [];
+  let position = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    assert.equal(archive.readUInt32LE(position), 0x02014b50);
+    assert.equal(archive.readUInt16LE(position + 8), 0x0808);
+    assert.equal(archive.readUInt16LE(position + 10), 0); // Stored
+    const crc = archive.readUInt32LE(position + 16);
+    const size = archive.readUInt32LE(position + 20);
+    assert.equal(archive.readUInt32LE(position + 24), size);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+    const modified = { time: archive.readUInt16LE(position + 12), date: archive.readUInt16LE(position + 14) };
+    position += 46 + nameLength;
+
+    // The local header names the same file, with its CRC and sizes deferred
+    assert.equal(archive.readUInt32LE(offset), 0x04034b50);
+    assert.equal(archive.readUInt16LE(offset + 6), 0x0808);
+    assert.equal(archive.readUInt32LE(offset + 14), 0);
+    assert.equal(archive.readUInt16LE(offset + 26), nameLength);
+    assert.equal(archive.toString('utf8', offset + 30, offset + 30 + nameLength), name);
+
+    const dataStart = offset + 30 + nameLength;
+    const data = archive.subarray(dataStart, dataStart + size);
+    const descriptor = dataStart + size;
+    assert.equal(archive.readUInt32LE(descriptor), 0x08074b50);
+    assert.equal(archive.readUInt32LE(descriptor + 4), crc);
+    assert.equal(archive.readUInt32LE(descriptor + 8), size);
+    assert.equal(archive.readUInt32LE(descriptor + 12), size);
+
+    entries.push({ name, crc, size, offset, data, modified });
+  }
+  assert.equal(position, end);
+  return entries;
+}
+
+// Output that takes a little while over each chunk, so writes back up
+function slowOutput(): { output: Writable; done: Promise<Buffer> } {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    highWaterMark: 16,
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk);
+      setImmediate(callback);
+    },
+  });
+  const done = new Promise<Buffer>(resolve => output.on('finish', () => resolve(Buffer.concat(chunks))));
+  return { output, done };
+}
+
+describe("ZipWriter", () => {
+  it("writes entries that read back with their names, CRCs and sizes", async () => {
+    const files: [string, Buffer][] = [
+      ["first.txt", Buffer.from("halftone dots")],
+      ["folder/ünïcode.bin", Buffer.from([0, 1, 2, 255, 254])],
+      ["empty", Buffer.alloc(0)],
+    ];
+    const { output, done } = slowOutput();
+    const zip = new ZipWriter(output);
+    for (const [name, data] of files) {
+      await zip.addFile(name, data, new Date(Date.UTC(2024, 5, 1, 12, 30, 10)));
+    }
+    // Streams are read a chunk at a time
+    await zip.addFile("streamed.txt", Readable.from([Buffer.from("one "), Buffer.from("two")]));
+    await zip.finish();
+    output.end();
+
+    const entries = readZip(await done);
+    assert.deepEqual(entries.map(entry => entry.name), [...files.map(([name]) => name), "streamed.txt"]);
+    files.forEach(([, data], i) => {
+      assert.deepEqual(entries[i].data, data);
+      assert.equal(entries[i].size, data.length);
+      assert.equal(entries[i].crc, crc32(data));
+    });
+    assert.equal(entries[3].data.toString(), "one two");
+    assert.equal(entries[3].crc, crc32("one two"));
+
+    // 12:30:10 on 2024-06-01, in MS-DOS fields
+    assert.deepEqual(entries[0].modified, { time: (12 << 11) | (30 << 5) | 5, date: (44 << 9) | (6 << 5) | 1 });
+  });
+
+  it("writes an empty archive", async () => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+    await new ZipWriter(output).finish();
+    assert.deepEqual(readZip(Buffer.concat(chunks)), []);
+  });
+
+  it("fails once the output has been closed", async () => {
+    const output = new PassThrough();
+    const zip = new ZipWriter(output);
+    output.destroy();
+    await assert.rejects(zip.addFile("late.txt", Buffer.from("too late")), /closed/);
+  });
+});
+
+describe("writeMediaExport", () => {
+  let root: string;
+  let blobStore: typeof import("./blob-store").blobStore;
+  let writeMediaExport: typeof import("./media-export").writeMediaExport;
+  let exportFileName: typeof import("./media-export").exportFileName;
+
+  before(async () => {
+    // The shared blob store is set up from the environment as it's first imported
+    root = await mkdtemp(path.join(os.tmpdir(), 'zip-test-'));
+    process.env.MEDIA_STORAGE_DIR = root;
+    ({ blobStore } = await import("./blob-store"));
+    ({ writeMediaExport, exportFileName } = await import("./media-export"));
+  });
+
+  after(() => rm(root, { recursive: true, force: true }));
+
+  const media = (id: number, overrides: Partial<CapturedMedia> = {}): CapturedMedia => ({
+    id,
+    userId: 1,
+    mediaType: 'image',
+    mediaUrl: null,
+    storageKey: `media/1/${id}.png`,
+    thumbnailKey: null,
+    mimeType: 'image/png',
+    size: 4,
+    width: 2,
+    height: 2,
+    duration: null,
+    sourceType: null,
+    sourceWidth: null,
+    sourceHeight: null,
+    sourceTakenAt: null,
+    sourceKey: null,
+    sourceUrl: null,
+    filterSettings: null,
+    albumId: null,
+    timestamp: new Date(Date.UTC(2024, 0, 2)),
+    ...overrides,
+  });
+
+  it("stores each capture's file and a manifest listing them", async () => {
+    const album: Album = { id: 7, userId: 1, name: "Trip", createdAt: new Date(), updatedAt: new Date() };
+    const kept = media(1, { filterSettings: { dotSize: 6 } as CapturedMedia['filterSettings'] });
+    const missing = media(2, { storageKey: 'media/1/gone.png' });
+    await blobStore.put(kept.storageKey!, Buffer.from("png!"), { contentType: 'image/png', contentLength: 4 });
+
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+    await writeMediaExport(output, [
+      { media: kept, tags: ["beach"], album },
+      { media: missing, tags: [], album: null },
+    ], album);
+
+    const entries = readZip(Buffer.concat(chunks));
+    assert.deepEqual(entries.map(entry => entry.name), [exportFileName(kept), "manifest.json"]);
+    assert.equal(entries[0].data.toString(), "png!");
+
+    const manifest = JSON.parse(entries[1].data.toString());
+    assert.equal(manifest.type, 'pixelcam-export');
+    assert.equal(manifest.album, "Trip");
+    assert.deepEqual(manifest.items.map((item: { file: string | null }) => item.file), [exportFileName(kept), null]);
+    assert.equal(manifest.items[0].album, "Trip");
+    assert.deepEqual(manifest.items[0].tags, ["beach"]);
+    // Stored settings are filled out to a complete set
+    assert.equal(manifest.items[0].filterSettings.dotSize, 6);
+    assert.ok('colorMode' in manifest.items[0].filterSettings);
+    assert.equal(manifest.items[1].filterSettings, null);
+  });
+});
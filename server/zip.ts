@@ -0,0 +1,146 @@
+import { crc32 } from "zlib";
+import type { Readable, Writable } from "stream";
+
+// Largest archive without ZIP64 extensions
+export const MAX_ZIP_SIZE = 0xffffffff;
+export const MAX_ZIP_ENTRIES = 0xffff;
+
+// Bit 3: sizes and CRC follow the data; bit 11: names are UTF-8
+const ENTRY_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+
+type CentralEntry = {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+};
+
+/**
+ * MS-DOS time and date fields, in UTC
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getUTCFullYear());
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+/**
+ * Streaming ZIP writer
+ * Entries are stored uncompressed, since media files are already compressed,
+ * and written as they're read with the CRC in a trailing data descriptor, so
+ * only one chunk is in memory at a time however large the archive gets.
+ */
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+
+  constructor(private output: Writable) {}
+
+  /**
+   * Append a file; resolves once it has been handed to the output
+   */
+  async addFile(name: string, body: Buffer | Readable, modified: Date = new Date()): Promise<void> {
+    if (this.entries.length >= MAX_ZIP_ENTRIES) {
+      throw new Error("Too many files for a ZIP archive");
+    }
+
+    const entry: CentralEntry = {
+      name: Buffer.from(name, 'utf8'),
+      crc: 0,
+      size: 0,
+      offset: this.offset,
+      ...toDosDateTime(modified),
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ENTRY_FLAGS, 6);
+    header.writeUInt16LE(0, 8); // Stored
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    // CRC and sizes are left at 0 here and given in the data descriptor
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.write(Buffer.concat([header, entry.name]));
+
+    const chunks: AsyncIterable<Buffer> | Buffer[] = Buffer.isBuffer(body) ? [body] : body;
+    for await (const chunk of chunks) {
+      const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      entry.crc = crc32(data, entry.crc);
+      entry.size += data.length;
+      await this.write(data);
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.size, 8); // Compressed size, the same when stored
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory; the output is left open
+   */
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(ZIP_VERSION, 4); // Made by
+      record.writeUInt16LE(ZIP_VERSION, 6); // Needed to extract
+      record.writeUInt16LE(ENTRY_FLAGS, 8);
+      record.writeUInt16LE(0, 10);
+      record.writeUInt16LE(entry.time, 12);
+      record.writeUInt16LE(entry.date, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.size, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([record, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+  }
+
+  // Waits out backpressure, and fails once the output has gone (a client hanging up)
+  private async write(data: Buffer): Promise<void> {
+    if (this.offset + data.length > MAX_ZIP_SIZE) {
+      throw new Error("ZIP archive is too large");
+    }
+    if (this.output.destroyed) {
+      throw new Error("ZIP output was closed");
+    }
+
+    this.offset += data.length;
+    if (this.output.write(data)) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        this.output.off('close', onClose);
+        resolve();
+      };
+      const onClose = () => {
+        this.output.off('drain', onDrain);
+        reject(new Error("ZIP output was closed"));
+      };
+      this.output.once('drain', onDrain);
+      this.output.once('close', onClose);
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  analyzeWindow,
+  applyAudioReactive,
+  AUDIO_BANDS,
+  AUDIO_WINDOW_SIZE,
+  createAudioFollower,
+  DEFAULT_AUDIO_REACTIVE,
+  followAudio,
+  type AudioBand,
+  type AudioBands,
+  type AudioLevels,
+  type AudioMapping,
+  type AudioReactiveSettings,
+} from "./audio-reactive";
+import { DEFAULT_FILTER_SETTINGS } from "./filter-settings";
+
+const SAMPLE_RATE = 48000;
+const STEP = AUDIO_WINDOW_SIZE / SAMPLE_RATE;
+
+// One analysis window of a sine wave at the given frequency and peak amplitude
+function sine(frequency: number, amplitude = 1): Float32Array {
+  const samples = new Float32Array(AUDIO_WINDOW_SIZE);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+const bands = (values: Partial<AudioBands> = {}): AudioBands => ({ bass: 0, mid: 0, treble: 0, level: 0, ...values });
+
+const reactive = (mappings: AudioMapping[], overrides: Partial<AudioReactiveSettings> = {}): AudioReactiveSettings => ({
+  ...DEFAULT_AUDIO_REACTIVE,
+  enabled: true,
+  mappings,
+  ...overrides,
+});
+
+describe("analyzeWindow", () => {
+  it("reads silence as zero in every band", () => {
+    assert.deepEqual(analyzeWindow(new Float32Array(AUDIO_WINDOW_SIZE), SAMPLE_RATE), bands());
+    // Short windows are zero-padded rather than read past the end
+    assert.deepEqual(analyzeWindow(new Float32Array(10), SAMPLE_RATE), bands());
+  });
+
+  it("reads a full-scale sine at about -3 dB, clamped to 1 when boosted", () => {
+    const levels = analyzeWindow(sine(1000), SAMPLE_RATE);
+    assert.ok(Math.abs(levels.mid - 57 / 60) < 0.01, `mid read ${levels.mid}`);
+    assert.ok(Math.abs(levels.level - 57 / 60) < 0.01, `level read ${levels.level}`);
+    assert.equal(analyzeWindow(sine(1000), SAMPLE_RATE, 4).mid, 1);
+  });
+
+  it("puts each tone in its own band", () => {
+    const tones: [AudioBand, number][] = [["bass", 100], ["mid", 1000], ["treble", 5000]];
+    for (const [band, frequency] of tones) {
+      const levels = analyzeWindow(sine(frequency), SAMPLE_RATE);
+      assert.ok(levels[band] > 0.9, `${band} read ${levels[band]} for ${frequency} Hz`);
+      assert.ok(levels.level > 0.9);
+      for (const [other] of tones) {
+        if (other !== band) assert.ok(levels[other] < 0.2, `${other} picked up ${levels[other]} from ${frequency} Hz`);
+      }
+    }
+  });
+
+  it("scales with loudness and sensitivity", () => {
+    // -20 dB is a third of the way down the 60 dB range
+    const quiet = analyzeWindow(sine(1000, 0.1), SAMPLE_RATE).mid;
+    assert.ok(Math.abs(analyzeWindow(sine(1000), SAMPLE_RATE).mid - quiet - 1 / 3) < 0.01);
+    assert.ok(Math.abs(analyzeWindow(sine(1000, 0.1), SAMPLE_RATE, 2).mid - quiet - 0.1) < 0.01);
+  });
+});
+
+describe("followAudio", () => {
+  it("rises at once and falls back as slowly as the smoothing asks", () => {
+    const fallen = (smoothing: number) => {
+      const follower = createAudioFollower();
+      const settings = reactive([], { smoothing });
+      followAudio(follower, bands(), STEP, settings);
+      assert.ok(followAudio(follower, bands({ bass: 1 }), STEP, settings).energy.bass > 0.95);
+      return followAudio(follower, bands(), STEP, settings).energy.bass;
+    };
+    assert.equal(fallen(0), 0);
+    assert.ok(fallen(0.2) < fallen(0.8));
+    assert.ok(fallen(1) > 0.9);
+  });
+
+  it("fires a beat on an onset and lets it decay", () => {
+    const follower = createAudioFollower();
+    const settings = reactive([]);
+    for (let i = 0; i < 20; i++) followAudio(follower, bands({ bass: 0.1 }), STEP, settings);
+
+    const hit = followAudio(follower, bands({ bass: 0.9 }), STEP, settings);
+    assert.equal(hit.beat.bass, 1);
+    assert.equal(hit.beat.treble, 0);
+    const after = followAudio(follower, bands({ bass: 0.1 }), STEP, settings);
+    assert.ok(after.beat.bass > 0 && after.beat.bass < 1);
+  });
+
+  it("doesn't take what's already playing, or a hit right after a beat, as a beat", () => {
+    const follower = createAudioFollower();
+    const settings = reactive([]);
+    assert.equal(followAudio(follower, bands({ mid: 0.9 }), STEP, settings).beat.mid, 0);
+
+    const other = createAudioFollower();
+    for (let i = 0; i < 20; i++) followAudio(other, bands(), STEP, settings);
+    assert.equal(followAudio(other, bands({ mid: 0.9 }), 0.01, settings).beat.mid, 1);
+    followAudio(other, bands(), 0.01, settings);
+    // Inside the refractory time the second hit only keeps the decay going
+    assert.ok(followAudio(other, bands({ mid: 0.9 }), 0.01, settings).beat.mid < 1);
+  });
+
+  it("repeats itself for the same input", () => {
+    const run = () => {
+      const follower = createAudioFollower();
+      return [0.1, 0.8, 0.2, 0.7, 0.3].map(value => followAudio(follower, bands({ level: value }), STEP, reactive([])));
+    };
+    assert.deepEqual(run(), run());
+  });
+});
+
+describe("applyAudioReactive", () => {
+  const silent: AudioLevels = { energy: bands(), beat: bands() };
+
+  it("moves each mapped setting by its own band only", () => {
+    const settings = reactive(AUDIO_BANDS.map((band, i): AudioMapping => ({
+      setting: (["dotSize", "contrast", "screenAngle", "secondLayerOffset"] as const)[i],
+      band,
+      trigger: 'energy',
+      amount: 0.5,
+    })));
+    const base = { ...DEFAULT_FILTER_SETTINGS, dotSize: 5, contrast: 1, screenAngle: 45, secondLayerOffset: 2 };
+
+    assert.deepEqual(applyAudioReactive(base, settings, silent), base);
+    const moved: Record<AudioBand, Partial<typeof base>> = {
+      bass: { dotSize: 5 + 0.5 * 29 },
+      mid: { contrast: 1 + 0.5 * 3 },
+      treble: { screenAngle: 45 + 0.5 * 180 },
+      level: { secondLayerOffset: 2 + 0.5 * 15 },
+    };
+    for (const band of AUDIO_BANDS) {
+      const levels = { energy: bands({ [band]: 1 }), beat: bands() };
+      assert.deepEqual(applyAudioReactive(base, settings, levels), { ...base, ...moved[band] }, band);
+    }
+  });
+
+  it("follows the beat or the energy as the mapping asks, scaled by the signal", () => {
+    const base = { ...DEFAULT_FILTER_SETTINGS, dotSize: 10 };
+    const levels: AudioLevels = { energy: bands({ bass: 0.2 }), beat: bands({ bass: 1 }) };
+    const mapping: AudioMapping = { setting: 'dotSize', band: 'bass', trigger: 'beat', amount: 0.2 };
+    assert.equal(applyAudioReactive(base, reactive([mapping]), levels).dotSize, 10 + 0.2 * 29);
+    assert.equal(applyAudioReactive(base, reactive([{ ...mapping, trigger: 'energy' }]), levels).dotSize, 10 + 0.2 * 29 * 0.2);
+  });
+
+  it("pushes down for negative amounts and stays within the setting's range", () => {
+    const base = { ...DEFAULT_FILTER_SETTINGS, brightness: 1 };
+    const full: AudioLevels = { energy: bands({ level: 1 }), beat: bands() };
+    const mapping: AudioMapping = { setting: 'brightness', band: 'level', trigger: 'energy', amount: -0.25 };
+    assert.equal(applyAudioReactive(base, reactive([mapping]), full).brightness, 0.5);
+    assert.equal(applyAudioReactive(base, reactive([{ ...mapping, amount: -1 }]), full).brightness, 0);
+    assert.equal(applyAudioReactive(base, reactive([{ ...mapping, amount: 1 }]), full).brightness, 2);
+  });
+
+  it("leaves the settings alone when off or unmapped", () => {
+    const full: AudioLevels = { energy: bands({ bass: 1 }), beat: bands({ bass: 1 }) };
+    const mapping: AudioMapping = { setting: 'dotSize', band: 'bass', trigger: 'energy', amount: 1 };
+    assert.equal(applyAudioReactive(DEFAULT_FILTER_SETTINGS, null, full), DEFAULT_FILTER_SETTINGS);
+    assert.equal(applyAudioReactive(DEFAULT_FILTER_SETTINGS, reactive([mapping], { enabled: false }), full), DEFAULT_FILTER_SETTINGS);
+    assert.equal(applyAudioReactive(DEFAULT_FILTER_SETTINGS, reactive([]), full), DEFAULT_FILTER_SETTINGS);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Audio-reactive filter settings
+ * Frequency band energy and beats from a sound source push numeric
+ * FilterSettings fields around, e.g. bigger dots on every kick drum.
+ * Kept DOM-free so the live microphone and offline video export run the same
+ * analysis; offline export steps it at a fixed frame rate, so results repeat.
+ */
+
+import type { FilterSettings } from "./halftone";
+import { ANIMATABLE_RANGES, type AnimatableSetting } from "./timeline";
+
+export type AudioBand = 'bass' | 'mid' | 'treble' | 'level';
+
+export const AUDIO_BANDS: AudioBand[] = ['bass', 'mid', 'treble', 'level'];
+
+// 'energy' follows the band's loudness; 'beat' jumps to full on an onset and decays
+export type AudioTrigger = 'energy' | 'beat';
+
+export type AudioMapping = {
+  setting: AnimatableSetting;
+  band: AudioBand;
+  trigger: AudioTrigger;
+  amount: number; // -1 to 1, share of the setting's range added at full signal
+};
+
+export type AudioReactiveSettings = {
+  enabled: boolean;
+  sensitivity: number; // Input gain, 0.5-4
+  smoothing: number; // 0-1, how slowly energy falls back after a peak
+  mappings: AudioMapping[];
+};
+
+// Per-band values, each 0-1
+export type AudioBands = Record<AudioBand, number>;
+
+export type AudioLevels = {
+  energy: AudioBands;
+  beat: AudioBands;
+};
+
+export const MAX_AUDIO_MAPPINGS = 8;
+
+export const DEFAULT_AUDIO_REACTIVE: AudioReactiveSettings = {
+  enabled: false,
+  sensitivity: 1,
+  smoothing: 0.3,
+  mappings: [],
+};
+
+// Samples per analysis window; a power of two for the FFT (~43 ms at 48 kHz)
+export const AUDIO_WINDOW_SIZE = 2048;
+
+// Frequency range of each band in Hz
+const BAND_RANGES: Record<AudioBand, [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 12000],
+  level: [20, 12000],
+};
+
+// Loudness below this reads as silence; 0 dBFS reads as full
+const FLOOR_DB = -60;
+
+// Energy rises almost instantly; the fall time comes from the smoothing setting
+const ATTACK_SECONDS = 0.01;
+const MAX_RELEASE_SECONDS = 0.6;
+
+// Beats are onsets well above the band's recent average
+const BEAT_AVERAGE_SECONDS = 1;
+const BEAT_MIN_RISE = 0.08;
+const BEAT_DEVIATIONS = 1;
+const BEAT_REFRACTORY_SECONDS = 0.15;
+const BEAT_DECAY_SECONDS = 0.15;
+
+function zeroBands(): AudioBands {
+  return { bass: 0, mid: 0, treble: 0, level: 0 };
+}
+
+/**
+ * In-place radix-2 FFT; both arrays must have the same power-of-two length
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Loudness (0-1) of each band in a window of mono samples
+ * The window is Hann-tapered and zero-padded or cut to AUDIO_WINDOW_SIZE.
+ */
+export function analyzeWindow(samples: Float32Array, sampleRate: number, sensitivity: number = 1): AudioBands {
+  const n = AUDIO_WINDOW_SIZE;
+  const real = new Float64Array(n);
+  const imag = new Float64Array(n);
+  const count = Math.min(n, samples.length);
+  for (let i = 0; i < count; i++) {
+    real[i] = samples[i] * sensitivity * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+  fft(real, imag);
+
+  const bands = zeroBands();
+  const binWidth = sampleRate / n;
+  for (const band of AUDIO_BANDS) {
+    const [low, high] = BAND_RANGES[band];
+    const first = Math.max(1, Math.ceil(low / binWidth));
+    const last = Math.min(n / 2 - 1, Math.floor(high / binWidth));
+
+    let power = 0;
+    for (let k = first; k <= last; k++) {
+      power += real[k] * real[k] + imag[k] * imag[k];
+    }
+    // Undo the Hann window's energy loss so a full-scale sine reads about -3 dB
+    const rms = Math.sqrt((power * 16) / (3 * n * n));
+    const db = 20 * Math.log10(rms || 1e-12);
+    bands[band] = Math.max(0, Math.min(1, (db - FLOOR_DB) / -FLOOR_DB));
+  }
+  return bands;
+}
+
+/**
+ * Running envelope and beat state, carried from one analysis step to the next
+ */
+export type AudioFollower = {
+  energy: AudioBands;
+  beat: AudioBands;
+  average: AudioBands;
+  variance: AudioBands;
+  sinceBeat: AudioBands;
+  primed: boolean; // False until the first step seeds the averages
+};
+
+export function createAudioFollower(): AudioFollower {
+  return {
+    energy: zeroBands(),
+    beat: zeroBands(),
+    average: zeroBands(),
+    variance: zeroBands(),
+    sinceBeat: { bass: Infinity, mid: Infinity, treble: Infinity, level: Infinity },
+    primed: false,
+  };
+}
+
+// Share of the way an exponential follower moves toward its target in dt seconds
+function approach(dt: number, seconds: number): number {
+  return seconds <= 0 ? 1 : 1 - Math.exp(-dt / seconds);
+}
+
+/**
+ * Advance the follower by one analysis step of `dt` seconds
+ * Updates the follower in place and returns the levels to map.
+ */
+export function followAudio(follower: AudioFollower, bands: AudioBands, dt: number, settings: AudioReactiveSettings): AudioLevels {
+  const release = settings.smoothing * MAX_RELEASE_SECONDS;
+
+  // Whatever is playing when listening starts is the baseline, not an onset
+  if (!follower.primed) {
+    follower.average = { ...bands };
+    follower.primed = true;
+  }
+
+  for (const band of AUDIO_BANDS) {
+    const value = bands[band];
+
+    const energy = follower.energy[band];
+    follower.energy[band] = energy + (value - energy) * approach(dt, value > energy ? ATTACK_SECONDS : release);
+
+    // Onset test against the average before this step folds in
+    const average = follower.average[band];
+    const deviation = Math.sqrt(follower.variance[band]);
+    follower.sinceBeat[band] += dt;
+    const isBeat = value - average > Math.max(BEAT_MIN_RISE, BEAT_DEVIATIONS * deviation)
+      && follower.sinceBeat[band] >= BEAT_REFRACTORY_SECONDS;
+
+    if (isBeat) {
+      follower.beat[band] = 1;
+      follower.sinceBeat[band] = 0;
+    } else {
+      follower.beat[band] *= Math.exp(-dt / BEAT_DECAY_SECONDS);
+    }
+
+    const weight = approach(dt, BEAT_AVERAGE_SECONDS);
+    follower.average[band] = average + (value - average) * weight;
+    follower.variance[band] += ((value - average) ** 2 - follower.variance[band]) * weight;
+  }
+
+  return { energy: { ...follower.energy }, beat: { ...follower.beat } };
+}
+
+export function hasAudioMappings(settings: AudioReactiveSettings | null | undefined): settings is AudioReactiveSettings {
+  return !!settings && settings.enabled && settings.mappings.length > 0;
+}
+
+/**
+ * Settings with each mapped field pushed by its band's energy or beat
+ * Offsets add to whatever the sliders (or timeline) set, within the field's range.
+ */
+export function applyAudioReactive(
+  filterSettings: FilterSettings,
+  settings: AudioReactiveSettings | null | undefined,
+  levels: AudioLevels
+): FilterSettings {
+  if (!hasAudioMappings(settings)) return filterSettings;
+
+  const reactive = { ...filterSettings };
+  for (const mapping of settings.mappings) {
+    const { min, max } = ANIMATABLE_RANGES[mapping.setting];
+    const signal = mapping.trigger === 'beat' ? levels.beat[mapping.band] : levels.energy[mapping.band];
+    const value = reactive[mapping.setting] + mapping.amount * (max - min) * signal;
+    reactive[mapping.setting] = Math.max(min, Math.min(max, value));
+  }
+  return reactive;
+}
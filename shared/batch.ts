@@ -0,0 +1,10 @@
+/**
+ * Batch processing
+ * Limits shared by the credit reservation API and the upload batch queue.
+ */
+
+// Images in one batch, and so in one credit reservation
+export const MAX_BATCH_ITEMS = 100;
+
+// Credits per image, the same as processing a single upload
+export const BATCH_ITEM_CREDIT_COST = 30;
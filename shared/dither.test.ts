@@ -0,0 +1,141 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DITHER_PALETTES, ditherRGBA, type DitherAlgorithm, type DitherSettings } from "./dither";
+import { DEFAULT_FILTER_SETTINGS } from "./filter-settings";
+import type { FilterSettings } from "./halftone";
+
+const ALGORITHMS: DitherAlgorithm[] = [
+  "floyd-steinberg",
+  "atkinson",
+  "jarvis-judice-ninke",
+  "bayer-2",
+  "bayer-4",
+  "bayer-8",
+  "blue-noise",
+];
+
+// Neutral tone, so pixel values reach the dither unchanged
+const settings = (dither: Partial<DitherSettings> = {}): FilterSettings => ({
+  ...DEFAULT_FILTER_SETTINGS,
+  effect: "dither",
+  contrast: 0,
+  brightness: 1,
+  dither: { ...DEFAULT_FILTER_SETTINGS.dither, palette: "1-bit", pixelSize: 1, ...dither },
+});
+
+// Opaque RGBA image filled from a per-pixel color
+function image(width: number, height: number, color: (x: number, y: number) => number[]): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels.set([...color(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return pixels;
+}
+
+const gray = (width: number, height: number, value: (x: number, y: number) => number) =>
+  image(width, height, (x, y) => {
+    const v = value(x, y);
+    return [v, v, v];
+  });
+
+// Share of white pixels in the columns [from, to) of a 1-bit output
+function whiteShare(output: Uint8ClampedArray, width: number, from: number, to: number): number {
+  let white = 0;
+  let total = 0;
+  for (let i = 0; i < output.length; i += 4) {
+    const x = (i / 4) % width;
+    if (x < from || x >= to) continue;
+    total++;
+    if (output[i] === 255) white++;
+  }
+  return white / total;
+}
+
+describe("ditherRGBA", () => {
+  for (const algorithm of ALGORITHMS) {
+    it(`${algorithm} follows a gradient with palette colors only`, () => {
+      const width = 64;
+      const height = 16;
+      const pixels = gray(width, height, x => Math.round((x / (width - 1)) * 255));
+      const output = ditherRGBA(pixels, width, height, settings({ algorithm }));
+
+      for (let i = 0; i < output.length; i += 4) {
+        assert.ok(output[i] === 0 || output[i] === 255, `${algorithm} made a color outside the palette`);
+        assert.equal(output[i + 3], 255);
+      }
+      const quarters = [0, 1, 2, 3].map(q => whiteShare(output, width, q * 16, (q + 1) * 16));
+      for (let q = 1; q < 4; q++) {
+        assert.ok(quarters[q] > quarters[q - 1], `${algorithm} doesn't brighten along the gradient`);
+      }
+      // Overall, about as much white as the gradient is bright
+      assert.ok(Math.abs(whiteShare(output, width, 0, width) - 0.5) < 0.1);
+    });
+
+    it(`${algorithm} keeps black black and white white`, () => {
+      const black = ditherRGBA(gray(16, 16, () => 0), 16, 16, settings({ algorithm }));
+      const white = ditherRGBA(gray(16, 16, () => 255), 16, 16, settings({ algorithm }));
+      assert.ok(black.every((value, i) => i % 4 === 3 ? value === 255 : value === 0));
+      assert.ok(white.every(value => value === 255));
+    });
+  }
+
+  it("splits mid-gray exactly in half with Bayer thresholds", () => {
+    for (const algorithm of ["bayer-2", "bayer-4", "bayer-8"] as const) {
+      const output = ditherRGBA(gray(16, 16, () => 128), 16, 16, settings({ algorithm }));
+      assert.equal(whiteShare(output, 16, 0, 16), 0.5, algorithm);
+    }
+  });
+
+  it("maps flat tones to the nearest level of a ramp", () => {
+    const colors = DITHER_PALETTES["game-boy"];
+    const hex = (output: Uint8ClampedArray) =>
+      `#${Array.from(output.subarray(0, 3), channel => channel.toString(16).padStart(2, "0")).join("")}`;
+    for (const [value, level] of [[0, 0], [85, 1], [170, 2], [255, 3]]) {
+      const output = ditherRGBA(gray(8, 8, () => value), 8, 8, settings({ algorithm: "bayer-4", palette: "game-boy" }));
+      assert.equal(hex(output), colors[level]);
+    }
+  });
+
+  it("matches custom palettes by color", () => {
+    const pixels = image(8, 8, x => (x < 4 ? [250, 10, 10] : [10, 10, 250]));
+    const output = ditherRGBA(pixels, 8, 8, settings({
+      algorithm: "floyd-steinberg",
+      palette: "custom",
+      customPalette: ["#000000", "#ff0000", "#0000ff"],
+    }));
+    assert.deepEqual(Array.from(output.subarray(0, 4)), [255, 0, 0, 255]);
+    assert.deepEqual(Array.from(output.subarray(7 * 4, 8 * 4)), [0, 0, 255, 255]);
+  });
+
+  it("falls back to 1-bit when a custom palette has fewer than two colors", () => {
+    const output = ditherRGBA(gray(8, 8, () => 200), 8, 8, settings({ palette: "custom", customPalette: ["#ff0000"] }));
+    for (let i = 0; i < output.length; i += 4) {
+      assert.ok(output[i] === output[i + 1] && (output[i] === 0 || output[i] === 255));
+    }
+  });
+
+  it("draws dithered pixels as blocks of the pixel size, scaled", () => {
+    const pixels = gray(30, 30, (x, y) => (x * 7 + y * 13) % 256);
+    for (const [pixelSize, scale, block] of [[3, 1, 3], [2, 2.5, 5]]) {
+      const output = ditherRGBA(pixels, 30, 30, settings({ algorithm: "bayer-4", pixelSize }), scale);
+      for (let y = 0; y < 30; y++) {
+        for (let x = 0; x < 30; x++) {
+          const corner = (Math.floor(y / block) * block * 30 + Math.floor(x / block) * block) * 4;
+          assert.equal(output[(y * 30 + x) * 4], output[corner]);
+        }
+      }
+    }
+  });
+
+  it("leaves the input alone and repeats itself", () => {
+    const pixels = gray(20, 20, (x, y) => (x * 11 + y * 5) % 256);
+    const copy = pixels.slice();
+    for (const algorithm of ALGORITHMS) {
+      const first = ditherRGBA(pixels, 20, 20, settings({ algorithm }));
+      assert.deepEqual(ditherRGBA(pixels, 20, 20, settings({ algorithm })), first);
+    }
+    assert.deepEqual(pixels, copy);
+  });
+});
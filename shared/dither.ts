@@ -0,0 +1,321 @@
+/**
+ * DOM-free dithering effects
+ * Error diffusion (Floyd–Steinberg, Atkinson, Jarvis-Judice-Ninke) and ordered
+ * thresholding (Bayer matrices, blue noise) onto a small output palette.
+ */
+
+import { createToneTable, parseHexColor, type FilterSettings } from "./halftone";
+
+export type DitherAlgorithm =
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'jarvis-judice-ninke'
+  | 'bayer-2'
+  | 'bayer-4'
+  | 'bayer-8'
+  | 'blue-noise';
+
+// Built-in tonal ramps, or 'custom' for a user-supplied color palette
+export type DitherPalette = '1-bit' | 'game-boy' | 'custom';
+
+export type DitherSettings = {
+  algorithm: DitherAlgorithm;
+  palette: DitherPalette;
+  customPalette: string[]; // #rrggbb colors used when palette is 'custom'
+  pixelSize: number; // Size of each dithered pixel on screen
+};
+
+// Built-in palettes, ordered dark to light
+export const DITHER_PALETTES: Record<Exclude<DitherPalette, 'custom'>, string[]> = {
+  '1-bit': ['#000000', '#ffffff'],
+  'game-boy': ['#0f380f', '#306230', '#8bac0f', '#9bbc0f'],
+};
+
+// Error diffusion kernels as [dx, dy, weight] with weights normalized by the divisor
+const DIFFUSION_KERNELS: Record<'floyd-steinberg' | 'atkinson' | 'jarvis-judice-ninke', number[][]> = {
+  'floyd-steinberg': [
+    [1, 0, 7 / 16],
+    [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16],
+  ],
+  // Atkinson only diffuses 6/8 of the error, which keeps highlights and shadows clean
+  'atkinson': [
+    [1, 0, 1 / 8], [2, 0, 1 / 8],
+    [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8],
+    [0, 2, 1 / 8],
+  ],
+  'jarvis-judice-ninke': [
+    [1, 0, 7 / 48], [2, 0, 5 / 48],
+    [-2, 1, 3 / 48], [-1, 1, 5 / 48], [0, 1, 7 / 48], [1, 1, 5 / 48], [2, 1, 3 / 48],
+    [-2, 2, 1 / 48], [-1, 2, 3 / 48], [0, 2, 5 / 48], [1, 2, 3 / 48], [2, 2, 1 / 48],
+  ],
+};
+
+// Size of the generated blue-noise tile
+const BLUE_NOISE_SIZE = 32;
+
+/**
+ * Bayer index matrix of the given size (a power of two), normalized to [0, 1)
+ */
+function createBayerMatrix(size: number): Float32Array {
+  let matrix = [0];
+  let current = 1;
+
+  while (current < size) {
+    const next = current * 2;
+    const grown = new Array<number>(next * next);
+    for (let y = 0; y < current; y++) {
+      for (let x = 0; x < current; x++) {
+        const value = matrix[y * current + x] * 4;
+        grown[y * next + x] = value;
+        grown[y * next + x + current] = value + 2;
+        grown[(y + current) * next + x] = value + 3;
+        grown[(y + current) * next + x + current] = value + 1;
+      }
+    }
+    matrix = grown;
+    current = next;
+  }
+
+  const cells = size * size;
+  return Float32Array.from(matrix, value => (value + 0.5) / cells);
+}
+
+/**
+ * Blue-noise threshold tile built with a simplified void-and-cluster method
+ * Each step fills the largest remaining void, so neighbouring ranks are spread
+ * as far apart as possible.
+ */
+function createBlueNoise(size: number): Float32Array {
+  const cells = size * size;
+  const sigma = 1.5;
+
+  // Toroidal Gaussian falloff by offset, so energy updates are a table lookup
+  const falloff = new Float32Array(cells);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx);
+      const wy = Math.min(dy, size - dy);
+      falloff[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * sigma * sigma));
+    }
+  }
+
+  const energy = new Float32Array(cells);
+  const filled = new Uint8Array(cells);
+  const ranks = new Float32Array(cells);
+
+  const toggle = (index: number, sign: number) => {
+    const px = index % size;
+    const py = Math.floor(index / size);
+    for (let y = 0; y < size; y++) {
+      const dy = (y - py + size) % size;
+      for (let x = 0; x < size; x++) {
+        const dx = (x - px + size) % size;
+        energy[y * size + x] += sign * falloff[dy * size + dx];
+      }
+    }
+  };
+
+  // Seed with a sparse random pattern, then rank by repeatedly filling the largest void
+  let state = 0x9e3779b9;
+  for (let i = 0; i < cells / 10; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    const index = state % cells;
+    if (!filled[index]) {
+      filled[index] = 1;
+      toggle(index, 1);
+    }
+  }
+
+  // Seed points are ranked by removing the tightest cluster first
+  const seeds: number[] = [];
+  for (let i = 0; i < cells; i++) if (filled[i]) seeds.push(i);
+  const seedEnergy = new Float32Array(energy);
+  for (let rank = seeds.length - 1; rank >= 0; rank--) {
+    let tightest = -1;
+    for (const index of seeds) {
+      if (filled[index] && (tightest === -1 || energy[index] > energy[tightest])) tightest = index;
+    }
+    filled[tightest] = 0;
+    toggle(tightest, -1);
+    ranks[tightest] = rank;
+  }
+
+  // Restore the seed pattern, then fill voids for the remaining ranks
+  energy.set(seedEnergy);
+  for (const index of seeds) filled[index] = 1;
+  for (let rank = seeds.length; rank < cells; rank++) {
+    let largestVoid = -1;
+    for (let i = 0; i < cells; i++) {
+      if (!filled[i] && (largestVoid === -1 || energy[i] < energy[largestVoid])) largestVoid = i;
+    }
+    filled[largestVoid] = 1;
+    toggle(largestVoid, 1);
+    ranks[largestVoid] = rank;
+  }
+
+  return Float32Array.from(ranks, rank => (rank + 0.5) / cells);
+}
+
+const thresholdCache = new Map<string, { size: number; matrix: Float32Array }>();
+
+/**
+ * Threshold tile for an ordered algorithm, generated once and cached
+ */
+function getThresholdMatrix(algorithm: DitherAlgorithm): { size: number; matrix: Float32Array } {
+  let entry = thresholdCache.get(algorithm);
+  if (!entry) {
+    const size = algorithm === 'blue-noise'
+      ? BLUE_NOISE_SIZE
+      : Number(algorithm.slice('bayer-'.length));
+    const matrix = algorithm === 'blue-noise' ? createBlueNoise(size) : createBayerMatrix(size);
+    entry = { size, matrix };
+    thresholdCache.set(algorithm, entry);
+  }
+  return entry;
+}
+
+/**
+ * Palette colors (0-255 RGB) for the settings, and whether it is a tonal ramp
+ * Ramps are dithered on luminance; custom palettes match full RGB.
+ */
+function resolvePalette(dither: DitherSettings): { colors: number[][]; tonal: boolean } {
+  const hexColors = dither.palette === 'custom'
+    ? dither.customPalette
+    : DITHER_PALETTES[dither.palette];
+  const colors = (hexColors.length >= 2 ? hexColors : DITHER_PALETTES['1-bit'])
+    .map(color => parseHexColor(color).map(channel => channel * 255));
+
+  return { colors, tonal: dither.palette !== 'custom' };
+}
+
+/**
+ * Dither an RGBA buffer onto the configured palette
+ * Returns a new opaque RGBA buffer the size of the input; the input is never modified.
+ * `scale` enlarges the dithered pixels for a frame that many times larger.
+ */
+export function ditherRGBA(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  filterSettings: FilterSettings,
+  scale = 1
+): Uint8ClampedArray {
+  const dither = filterSettings.dither;
+  const tone = createToneTable(filterSettings);
+  const { colors, tonal } = resolvePalette(dither);
+  const pixelSize = Math.max(1, Math.round(Math.floor(dither.pixelSize || 1) * scale));
+  const channels = tonal ? 1 : 3;
+
+  // Work on a downsampled, tone-adjusted copy: one value (or RGB triple) per dithered pixel
+  const cols = Math.ceil(width / pixelSize);
+  const rows = Math.ceil(height / pixelSize);
+  const work = new Float32Array(cols * rows * channels);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const endY = Math.min(height, (row + 1) * pixelSize);
+      const endX = Math.min(width, (col + 1) * pixelSize);
+      let r = 0, g = 0, b = 0, n = 0;
+
+      for (let y = row * pixelSize; y < endY; y++) {
+        for (let x = col * pixelSize, i = (y * width + x) * 4; x < endX; x++, i += 4) {
+          r += tone[pixels[i]];
+          g += tone[pixels[i + 1]];
+          b += tone[pixels[i + 2]];
+          n++;
+        }
+      }
+
+      const index = (row * cols + col) * channels;
+      if (tonal) {
+        work[index] = (r + g + b) / (3 * n);
+      } else {
+        work[index] = r / n;
+        work[index + 1] = g / n;
+        work[index + 2] = b / n;
+      }
+    }
+  }
+
+  // Tonal ramps are sorted dark to light so the value maps straight to a palette index
+  const levels = colors.length - 1;
+  const nearest = (index: number): number => {
+    if (tonal) {
+      return Math.max(0, Math.min(levels, Math.round((work[index] / 255) * levels)));
+    }
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let c = 0; c < colors.length; c++) {
+      const dr = work[index] - colors[c][0];
+      const dg = work[index + 1] - colors[c][1];
+      const db = work[index + 2] - colors[c][2];
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = c;
+      }
+    }
+    return best;
+  };
+
+  // Quantized palette index for every dithered pixel
+  const result = new Uint8Array(cols * rows);
+  const rampValue = (level: number) => (level / levels) * 255;
+
+  if (dither.algorithm in DIFFUSION_KERNELS) {
+    const kernel = DIFFUSION_KERNELS[dither.algorithm as keyof typeof DIFFUSION_KERNELS];
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const index = (row * cols + col) * channels;
+        const choice = nearest(index);
+        result[row * cols + col] = choice;
+
+        for (let c = 0; c < channels; c++) {
+          const target = tonal ? rampValue(choice) : colors[choice][c];
+          const error = work[index + c] - target;
+          if (error === 0) continue;
+
+          for (const [dx, dy, weight] of kernel) {
+            const x = col + dx;
+            const y = row + dy;
+            if (x < 0 || x >= cols || y >= rows) continue;
+            work[(y * cols + x) * channels + c] += error * weight;
+          }
+        }
+      }
+    }
+  } else {
+    const { size, matrix } = getThresholdMatrix(dither.algorithm);
+    // Shift each value by about one palette step so the threshold picks between
+    // neighbours; a color palette spreads its steps over three axes
+    const spread = tonal ? 255 / Math.max(1, levels) : 255 / Math.cbrt(colors.length);
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const index = (row * cols + col) * channels;
+        const bias = (matrix[(row % size) * size + (col % size)] - 0.5) * spread;
+        for (let c = 0; c < channels; c++) {
+          work[index + c] += bias;
+        }
+        result[row * cols + col] = nearest(index);
+      }
+    }
+  }
+
+  // Upscale back to the source size with nearest-neighbour blocks
+  const output = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / pixelSize) * cols;
+    for (let x = 0, i = y * width * 4; x < width; x++, i += 4) {
+      const color = colors[result[row + Math.floor(x / pixelSize)]];
+      output[i] = color[0];
+      output[i + 1] = color[1];
+      output[i + 2] = color[2];
+      output[i + 3] = 255;
+    }
+  }
+
+  return output;
+}
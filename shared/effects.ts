@@ -0,0 +1,20 @@
+import { renderHalftoneRGBA, type FilterSettings } from "./halftone";
+import { ditherRGBA } from "./dither";
+
+/**
+ * Render a frame with whichever effect the settings select
+ * Returns a new opaque RGBA buffer; the input is never modified. `scale`
+ * multiplies the settings' pixel sizes, as in planHalftone.
+ */
+export function renderEffectRGBA(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  filterSettings: FilterSettings,
+  scale = 1
+): Uint8ClampedArray {
+  if (filterSettings.effect === 'dither') {
+    return ditherRGBA(pixels, width, height, filterSettings, scale);
+  }
+  return renderHalftoneRGBA(pixels, width, height, filterSettings, scale);
+}
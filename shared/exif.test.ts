@@ -0,0 +1,178 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+import { readExif, stripJpegMetadata, stripPngMetadata } from "./exif";
+
+const WIDTH = 16;
+const HEIGHT = 8;
+
+function pixels(): Buffer {
+  const data = Buffer.alloc(WIDTH * HEIGHT * 4);
+  for (let i = 0; i < WIDTH * HEIGHT; i++) {
+    data.fill((i % WIDTH) * 16, i * 4, i * 4 + 3);
+    data[i * 4 + 3] = 255;
+  }
+  return data;
+}
+
+function segment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xff00 | marker, 0);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+// Big-endian EXIF with an orientation and a GPS IFD holding a latitude reference
+function exifSegment(orientation: number): Buffer {
+  const tiff = Buffer.alloc(8 + 2 + 24 + 4 + 2 + 12 + 4);
+  tiff.write("MM\x00\x2a", 0, "latin1");
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(2, 8);
+  tiff.writeUInt16BE(0x0112, 10); // Orientation, SHORT
+  tiff.writeUInt16BE(3, 12);
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+  tiff.writeUInt16BE(0x8825, 22); // GPS IFD pointer, LONG
+  tiff.writeUInt16BE(4, 24);
+  tiff.writeUInt32BE(1, 26);
+  tiff.writeUInt32BE(38, 30);
+  tiff.writeUInt32BE(0, 34); // No next IFD
+  tiff.writeUInt16BE(1, 38);
+  tiff.writeUInt16BE(0x0001, 40); // GPSLatitudeRef, ASCII "N"
+  tiff.writeUInt16BE(2, 42);
+  tiff.writeUInt32BE(2, 44);
+  tiff.write("N\x00", 48, "latin1");
+  return segment(0xe1, Buffer.concat([Buffer.from("Exif\x00\x00", "latin1"), tiff]));
+}
+
+const xmpSegment = segment(0xe1, Buffer.from("http://ns.adobe.com/xap/1.0/\x00<x:xmpmeta>secret place</x:xmpmeta>", "latin1"));
+const iccSegment = segment(0xe2, Buffer.from("ICC_PROFILE\x00\x01\x01profile-bytes", "latin1"));
+const commentSegment = segment(0xfe, Buffer.from("shot at home", "latin1"));
+const iptcSegment = segment(0xed, Buffer.from("Photoshop 3.0\x00caption", "latin1"));
+
+/**
+ * A real JPEG with metadata around its header: EXIF with GPS and an
+ * orientation, XMP, IPTC, a comment and a color profile. A comment also
+ * sits between the scan and the end of the image, and a second picture
+ * with its own EXIF trails the file, as in multi-picture files.
+ */
+function jpegWithMetadata(orientation = 6): { original: Buffer; file: Buffer } {
+  const original = jpeg.encode({ data: pixels(), width: WIDTH, height: HEIGHT }, 90).data;
+  const jfifEnd = 4 + original.readUInt16BE(4);
+  const eoi = original.length - 2;
+  const file = Buffer.concat([
+    original.subarray(0, jfifEnd),
+    exifSegment(orientation),
+    xmpSegment,
+    iptcSegment,
+    iccSegment,
+    commentSegment,
+    original.subarray(jfifEnd, eoi),
+    commentSegment,
+    original.subarray(eoi),
+    Buffer.from([0xff, 0xd8]),
+    exifSegment(1),
+  ]);
+  return { original, file };
+}
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString("latin1");
+
+describe("stripJpegMetadata", () => {
+  it("removes EXIF, GPS, XMP, IPTC and comments but keeps the color profile", () => {
+    const { file } = jpegWithMetadata();
+    assert.equal(readExif(file)!.hasGps, true);
+
+    const stripped = stripJpegMetadata(file)!;
+    const text = latin1(stripped);
+    assert.equal(readExif(stripped)!.hasGps, false);
+    assert.ok(!text.includes("xap/1.0"));
+    assert.ok(!text.includes("secret place"));
+    assert.ok(!text.includes("Photoshop"));
+    assert.ok(!text.includes("shot at home"));
+    assert.ok(text.includes("ICC_PROFILE"));
+  });
+
+  it("keeps the orientation", () => {
+    const stripped = stripJpegMetadata(jpegWithMetadata(6).file)!;
+    assert.equal(readExif(stripped)!.orientation, 6);
+    assert.equal(readExif(stripJpegMetadata(jpegWithMetadata(1).file)!), null);
+  });
+
+  it("keeps the image and drops whatever follows it", () => {
+    const { original, file } = jpegWithMetadata();
+    const stripped = stripJpegMetadata(file)!;
+    assert.deepEqual(Array.from(stripped.subarray(-2)), [0xff, 0xd9]);
+    assert.deepEqual(jpeg.decode(stripped, { useTArray: true }).data, jpeg.decode(original, { useTArray: true }).data);
+  });
+
+  it("gives up on files it can't follow to the end", () => {
+    const { file } = jpegWithMetadata();
+    const eoi = file.indexOf(Buffer.from([0xff, 0xd9]));
+    assert.equal(stripJpegMetadata(file.subarray(0, eoi)), null);
+    assert.equal(stripJpegMetadata(file.subarray(0, 200)), null);
+    assert.equal(stripJpegMetadata(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00])), null);
+    assert.equal(stripJpegMetadata(Buffer.from("not a jpeg")), null);
+  });
+});
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function chunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  let crc = 0xffffffff;
+  for (const byte of body) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE((crc ^ 0xffffffff) >>> 0);
+  return Buffer.concat([length, body, checksum]);
+}
+
+function chunkTypes(bytes: Uint8Array): string[] {
+  const buffer = Buffer.from(bytes);
+  const types: string[] = [];
+  for (let offset = 8; offset < buffer.length; offset += 12 + buffer.readUInt32BE(offset)) {
+    types.push(buffer.toString("latin1", offset + 4, offset + 8));
+  }
+  return types;
+}
+
+// A real PNG with text, EXIF and timestamp chunks before IEND, and bytes trailing it
+function pngWithMetadata(): Buffer {
+  const png = new PNG({ width: WIDTH, height: HEIGHT });
+  pixels().copy(png.data);
+  const original = PNG.sync.write(png);
+  const iend = original.length - 12;
+  return Buffer.concat([
+    original.subarray(0, iend),
+    chunk("tEXt", Buffer.from("Comment\x00shot at home", "latin1")),
+    chunk("iTXt", Buffer.from("XML:com.adobe.xmp\x00\x00\x00\x00\x00<x:xmpmeta/>", "latin1")),
+    chunk("zTXt", Buffer.from("Author\x00\x00x", "latin1")),
+    chunk("eXIf", exifSegment(6).subarray(10)),
+    chunk("tIME", Buffer.from([0x07, 0xe8, 6, 1, 12, 30, 10])),
+    original.subarray(iend),
+    Buffer.from("trailing secret", "latin1"),
+  ]);
+}
+
+describe("stripPngMetadata", () => {
+  it("removes text, EXIF and timestamp chunks and whatever follows IEND", () => {
+    const stripped = stripPngMetadata(pngWithMetadata())!;
+    assert.deepEqual(chunkTypes(stripped).filter(type => type !== "IDAT"), ["IHDR", "IEND"]);
+    assert.ok(!latin1(stripped).includes("secret"));
+    assert.deepEqual(PNG.sync.read(Buffer.from(stripped)).data, pixels());
+  });
+
+  it("gives up on files it can't follow to IEND", () => {
+    const file = pngWithMetadata();
+    assert.equal(stripPngMetadata(file.subarray(0, file.indexOf("IEND") - 4)), null);
+    assert.equal(stripPngMetadata(file.subarray(0, 40)), null);
+    assert.equal(stripPngMetadata(Buffer.from("not a png")), null);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * EXIF metadata
+ * Just enough of EXIF to show photos the right way up, carry over when they
+ * were taken, and strip everything else (GPS above all) from stored files.
+ * Works on raw bytes so the browser and the server can share it.
+ */
+
+export type ExifData = {
+  orientation: number; // 1-8, as in the TIFF spec; 1 when not recorded
+  takenAt: string | null; // e.g. "2024-06-01T12:30:10", plus "+02:00" when the offset was recorded
+  hasGps: boolean;
+};
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+// Signature that starts the EXIF block of a JPEG APP1 segment
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+function matches(bytes: Uint8Array, offset: number, expected: number[]): boolean {
+  if (offset < 0 || offset + expected.length > bytes.length) return false;
+  return expected.every((value, index) => bytes[offset + index] === value);
+}
+
+function isTiffHeader(bytes: Uint8Array, offset: number): boolean {
+  return matches(bytes, offset, [0x49, 0x49, 0x2a, 0x00]) || matches(bytes, offset, [0x4d, 0x4d, 0x00, 0x2a]);
+}
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return matches(bytes, 0, [0xff, 0xd8, 0xff]);
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return matches(bytes, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+}
+
+/**
+ * TIFF files, and the many RAW formats built on TIFF
+ */
+export function isTiff(bytes: Uint8Array): boolean {
+  return isTiffHeader(bytes, 0);
+}
+
+type JpegSegment = {
+  marker: number;
+  start: number; // Offset of the 0xFF before the marker
+  end: number; // Offset just past the segment
+};
+
+/**
+ * The header segments of a JPEG, up to and including the start of scan
+ */
+function readJpegSegments(bytes: Uint8Array): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    // Markers may be padded with extra 0xFF bytes
+    let markerOffset = offset + 1;
+    while (markerOffset < bytes.length && bytes[markerOffset] === 0xff) markerOffset++;
+    const marker = bytes[markerOffset];
+    const end = markerOffset + 1 + ((bytes[markerOffset + 1] << 8) | bytes[markerOffset + 2]);
+    if (end > bytes.length) break;
+
+    segments.push({ marker, start: offset, end });
+    if (marker === 0xda) break; // Entropy-coded data follows
+    offset = end;
+  }
+  return segments;
+}
+
+/**
+ * Offset of the TIFF structure holding a file's EXIF, or -1
+ * JPEGs keep it in an APP1 segment and TIFF-based files are one; other
+ * containers, like HEIC, hold an "Exif" block somewhere inside.
+ */
+function findExifTiff(bytes: Uint8Array): number {
+  if (isJpeg(bytes)) {
+    for (const segment of readJpegSegments(bytes)) {
+      if (segment.marker === 0xe1 && matches(bytes, segment.start + 4, EXIF_HEADER)) {
+        return isTiffHeader(bytes, segment.start + 10) ? segment.start + 10 : -1;
+      }
+    }
+    return -1;
+  }
+  if (isTiff(bytes)) return 0;
+
+  for (let offset = 0; offset + 10 <= bytes.length; offset++) {
+    if (bytes[offset] === 0x45 && matches(bytes, offset, EXIF_HEADER) && isTiffHeader(bytes, offset + 6)) {
+      return offset + 6;
+    }
+  }
+  return -1;
+}
+
+type IfdEntry = {
+  type: number;
+  count: number;
+  offset: number; // Of the entry itself
+};
+
+class TiffReader {
+  private view: DataView;
+  private little: boolean;
+
+  constructor(private bytes: Uint8Array, private base: number) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.little = bytes[base] === 0x49;
+  }
+
+  u16(offset: number): number {
+    return this.view.getUint16(this.base + offset, this.little);
+  }
+
+  u32(offset: number): number {
+    return this.view.getUint32(this.base + offset, this.little);
+  }
+
+  setU16(offset: number, value: number): void {
+    this.view.setUint16(this.base + offset, value, this.little);
+  }
+
+  firstIfd(): number {
+    return this.u32(4);
+  }
+
+  readIfd(ifdOffset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    const count = this.u16(ifdOffset);
+    for (let i = 0; i < count; i++) {
+      const offset = ifdOffset + 2 + i * 12;
+      entries.set(this.u16(offset), { type: this.u16(offset + 2), count: this.u32(offset + 4), offset });
+    }
+    return entries;
+  }
+
+  // SHORT or LONG values that fit in the entry
+  number(entry: IfdEntry): number {
+    return entry.type === 3 ? this.u16(entry.offset + 8) : this.u32(entry.offset + 8);
+  }
+
+  ascii(entry: IfdEntry): string {
+    const start = entry.count <= 4 ? entry.offset + 8 : this.u32(entry.offset + 8);
+    let text = '';
+    for (let i = 0; i < entry.count; i++) {
+      const code = this.bytes[this.base + start + i];
+      if (code === 0 || code === undefined) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  }
+}
+
+// "2024:06:01 12:30:10" to "2024-06-01T12:30:10"; blank dates are all zeros
+function parseExifDate(value: string, offset: string | null): string | null {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match || match[1] === '0000') return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
+
+/**
+ * Read the orientation, capture date and whether there's a location
+ * Returns null when there's no EXIF or it can't be read.
+ */
+export function readExif(bytes: Uint8Array): ExifData | null {
+  const base = findExifTiff(bytes);
+  if (base === -1) return null;
+
+  try {
+    const reader = new TiffReader(bytes, base);
+    const ifd0 = reader.readIfd(reader.firstIfd());
+
+    const orientationEntry = ifd0.get(TAG_ORIENTATION);
+    const orientation = orientationEntry ? reader.number(orientationEntry) : 1;
+
+    let takenAt: string | null = null;
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    if (exifPointer) {
+      const exifIfd = reader.readIfd(reader.number(exifPointer));
+      const date = exifIfd.get(TAG_DATE_TIME_ORIGINAL);
+      const offset = exifIfd.get(TAG_OFFSET_TIME_ORIGINAL);
+      if (date) {
+        takenAt = parseExifDate(reader.ascii(date), offset ? reader.ascii(offset) : null);
+      }
+    }
+
+    return {
+      orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+      takenAt,
+      hasGps: ifd0.has(TAG_GPS_IFD),
+    };
+  } catch (error) {
+    // Truncated or corrupt EXIF reads past the end of the buffer
+    if (error instanceof RangeError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Copy of a JPEG whose EXIF says it's already upright
+ * For drawing it with an orientation of our own choosing, whether or not the
+ * browser would have rotated it.
+ */
+export function resetJpegOrientation(bytes: Uint8Array): Uint8Array {
+  const base = isJpeg(bytes) ? findExifTiff(bytes) : -1;
+  if (base === -1) return bytes;
+
+  try {
+    const copy = bytes.slice();
+    const reader = new TiffReader(copy, base);
+    const entry = reader.readIfd(reader.firstIfd()).get(TAG_ORIENTATION);
+    if (!entry || entry.type !== 3) return bytes;
+    reader.setU16(entry.offset + 8, 1);
+    return copy;
+  } catch (error) {
+    if (error instanceof RangeError) return bytes;
+    throw error;
+  }
+}
+
+// APP1 segment holding nothing but an orientation
+function orientationSegment(orientation: number): Uint8Array {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, 34);
+  segment.set(EXIF_HEADER, 4);
+  segment.set([0x4d, 0x4d, 0x00, 0x2a], 10); // Big-endian TIFF
+  view.setUint32(14, 8); // First IFD
+  view.setUint16(18, 1); // One entry
+  view.setUint16(20, TAG_ORIENTATION);
+  view.setUint16(22, 3); // SHORT
+  view.setUint32(24, 1);
+  view.setUint16(28, orientation);
+  view.setUint32(32, 0); // No next IFD
+  return segment;
+}
+
+function isIccProfile(bytes: Uint8Array, segment: JpegSegment): boolean {
+  // "ICC_PROFILE\0"
+  return matches(bytes, segment.start + 4, [0x49, 0x43, 0x43, 0x5f, 0x50, 0x52, 0x4f, 0x46, 0x49, 0x4c, 0x45, 0x00]);
+}
+
+// EXIF, XMP, IPTC, comments and the like; the JFIF header, color profile
+// and Adobe color transform are kept, since they change how the image looks
+function isJpegMetadata(bytes: Uint8Array, segment: JpegSegment): boolean {
+  if (segment.marker === 0xe2) return !isIccProfile(bytes, segment);
+  if (segment.marker >= 0xe0 && segment.marker <= 0xef) {
+    return segment.marker !== 0xe0 && segment.marker !== 0xee;
+  }
+  return segment.marker === 0xfe;
+}
+
+/**
+ * Offset just past a scan's entropy-coded data, at the marker that follows, or -1
+ * 0xFF bytes in the data are followed by 0x00, or by a restart marker.
+ */
+function scanEnd(bytes: Uint8Array, offset: number): number {
+  for (let i = offset; i + 1 < bytes.length; i++) {
+    if (bytes[i] !== 0xff) continue;
+    const next = bytes[i + 1];
+    if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Copy of a JPEG without EXIF, XMP, IPTC or comments, or null if it can't be
+ * followed from start to end-of-image
+ * Every segment is checked, including those between the scans of progressive
+ * JPEGs. Anything after the end of the image, like the extra pictures of
+ * multi-picture files and their own EXIF, is dropped. The orientation is
+ * kept, re-written on its own.
+ */
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array | null {
+  if (!isJpeg(bytes)) return null;
+
+  const orientation = readExif(bytes)?.orientation ?? 1;
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let firstKept: number | null = null;
+  let offset = 2;
+  for (;;) {
+    if (bytes[offset] !== 0xff) return null;
+    // Markers may be padded with extra 0xFF bytes
+    let markerOffset = offset + 1;
+    while (markerOffset < bytes.length && bytes[markerOffset] === 0xff) markerOffset++;
+    if (markerOffset >= bytes.length) return null;
+    const marker = bytes[markerOffset];
+
+    if (marker === 0xd9) {
+      parts.push(bytes.subarray(markerOffset - 1, markerOffset + 1));
+      break;
+    }
+    if (markerOffset + 3 > bytes.length) return null;
+    const segment = { marker, start: offset, end: markerOffset + 1 + ((bytes[markerOffset + 1] << 8) | bytes[markerOffset + 2]) };
+    if (segment.end > bytes.length) return null;
+
+    if (!isJpegMetadata(bytes, segment)) {
+      parts.push(bytes.subarray(segment.start, segment.end));
+      firstKept ??= marker;
+    }
+    offset = segment.end;
+
+    if (marker === 0xda) {
+      const end = scanEnd(bytes, offset);
+      if (end === -1) return null;
+      parts.push(bytes.subarray(offset, end));
+      offset = end;
+    }
+  }
+
+  if (orientation !== 1) {
+    // Right after the JFIF header, where readers expect EXIF
+    parts.splice(firstKept === 0xe0 ? 2 : 1, 0, orientationSegment(orientation));
+  }
+  return concatBytes(parts);
+}
+
+// Chunks that carry metadata rather than anything that changes the image
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+/**
+ * Copy of a PNG without EXIF, text or timestamp chunks, or null if its
+ * chunks can't be followed to IEND
+ * Anything after IEND is dropped.
+ */
+export function stripPngMetadata(bytes: Uint8Array): Uint8Array | null {
+  if (!isPng(bytes)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  for (;;) {
+    if (offset + 12 > bytes.length) return null;
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length) return null;
+    const type = String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8)));
+    if (!PNG_METADATA_CHUNKS.has(type)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return concatBytes(parts);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
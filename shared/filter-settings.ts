@@ -0,0 +1,105 @@
+import { z } from "zod";
+import type { ChannelSettings, FilterSettings } from "./halftone";
+import type { DitherSettings } from "./dither";
+import { parseSvgPath } from "./svg-path";
+
+// Conventional screen angles keep the channel grids from forming moiré patterns
+export const DEFAULT_CHANNELS: ChannelSettings[] = [
+  { channel: 'cyan', enabled: true, angle: 15, color: '#00ffff', blendMode: 'multiply', opacity: 1 },
+  { channel: 'magenta', enabled: true, angle: 75, color: '#ff00ff', blendMode: 'multiply', opacity: 1 },
+  { channel: 'yellow', enabled: true, angle: 0, color: '#ffff00', blendMode: 'multiply', opacity: 1 },
+  { channel: 'black', enabled: true, angle: 45, color: '#000000', blendMode: 'multiply', opacity: 1 },
+  { channel: 'red', enabled: true, angle: 15, color: '#ff0000', blendMode: 'lighter', opacity: 1 },
+  { channel: 'green', enabled: true, angle: 75, color: '#00ff00', blendMode: 'lighter', opacity: 1 },
+  { channel: 'blue', enabled: true, angle: 45, color: '#0000ff', blendMode: 'lighter', opacity: 1 },
+];
+
+export const DEFAULT_DITHER_SETTINGS: DitherSettings = {
+  algorithm: 'floyd-steinberg',
+  palette: '1-bit',
+  customPalette: ['#1a1c2c', '#b13e53', '#ef7d57', '#ffcd75', '#a7f070', '#38b764', '#41a6f6', '#f4f4f4'],
+  pixelSize: 2,
+};
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  effect: 'halftone',
+  dotSize: 10,
+  contrast: 1.5,
+  brightness: 1.0,
+  isGrayscale: true,
+  dotShape: 'circle', // Default shape
+  shapeBands: [], // Same shape at every brightness
+  customShapes: [],
+  useSecondLayer: true, // Enable second layer by default
+  secondLayerOpacity: 0.5, // 50% opacity for second layer
+  secondLayerOffset: 5, // Offset for second layer
+  sampling: 'point', // Single-pixel sampling is fastest for live preview
+  screenAngle: 0,
+  gridTopology: 'square',
+  colorMode: 'mono',
+  channels: DEFAULT_CHANNELS,
+  dither: DEFAULT_DITHER_SETTINGS,
+};
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a #rrggbb color");
+
+export const channelSettingsSchema = z.object({
+  channel: z.enum(['cyan', 'magenta', 'yellow', 'black', 'red', 'green', 'blue']),
+  enabled: z.boolean(),
+  angle: z.number().min(0).max(180),
+  color: hexColorSchema,
+  blendMode: z.enum(['source-over', 'multiply', 'screen', 'lighter', 'darken', 'lighten']),
+  opacity: z.number().min(0).max(1),
+});
+
+export const ditherSettingsSchema = z.object({
+  algorithm: z.enum([
+    'floyd-steinberg',
+    'atkinson',
+    'jarvis-judice-ninke',
+    'bayer-2',
+    'bayer-4',
+    'bayer-8',
+    'blue-noise',
+  ]),
+  palette: z.enum(['1-bit', 'game-boy', 'custom']),
+  customPalette: z.array(hexColorSchema).min(2).max(16),
+  pixelSize: z.number().int().min(1).max(16),
+});
+
+// Registry names; unknown names render as circles
+const shapeNameSchema = z.string().min(1).max(64);
+
+export const shapeBandSchema = z.object({
+  upTo: z.number().min(0).max(1),
+  shape: shapeNameSchema,
+});
+
+export const customShapeSchema = z.object({
+  name: z.string().min(1).max(40).regex(/^[\w -]+$/, "Use letters, numbers, spaces, - or _"),
+  path: z.string().min(1).max(20000).refine(path => parseSvgPath(path) !== null, "Invalid SVG path data"),
+});
+
+// A complete set of settings, as stored alongside captured media
+export const completeFilterSettingsSchema = z.object({
+  effect: z.enum(['halftone', 'dither']),
+  dotSize: z.number().min(1).max(30),
+  contrast: z.number().min(0).max(3),
+  brightness: z.number().min(0).max(2),
+  isGrayscale: z.boolean(),
+  dotShape: shapeNameSchema,
+  shapeBands: z.array(shapeBandSchema).max(32),
+  customShapes: z.array(customShapeSchema).max(16),
+  useSecondLayer: z.boolean(),
+  secondLayerOpacity: z.number().min(0).max(1),
+  secondLayerOffset: z.number().min(0).max(15),
+  sampling: z.enum(['point', 'area']),
+  screenAngle: z.number().min(0).max(180),
+  gridTopology: z.enum(['square', 'hex', 'radial', 'stochastic']),
+  colorMode: z.enum(['mono', 'cmyk', 'rgb']),
+  channels: z.array(channelSettingsSchema).max(16),
+  dither: ditherSettingsSchema,
+});
+
+// Every field is optional; missing values fall back to DEFAULT_FILTER_SETTINGS
+export const filterSettingsSchema = completeFilterSettingsSchema.partial();
@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  aspectRatio,
+  DEFAULT_FRAMING,
+  framedSize,
+  framingMatrix,
+  isDefaultFraming,
+  resolveCrop,
+  rotateFraming,
+  type FrameMatrix,
+  type Framing,
+} from "./framing";
+
+const framing = (overrides: Partial<Framing> = {}): Framing => ({ ...DEFAULT_FRAMING, ...overrides });
+
+// Where a source pixel lands under a canvas transform
+function apply([a, b, c, d, e, f]: FrameMatrix, x: number, y: number): [number, number] {
+  return [a * x + c * y + e, b * x + d * y + f];
+}
+
+function assertPoint(actual: [number, number], expected: [number, number]) {
+  assert.ok(
+    Math.abs(actual[0] - expected[0]) < 1e-9 && Math.abs(actual[1] - expected[1]) < 1e-9,
+    `(${actual}) is not (${expected})`
+  );
+}
+
+describe("resolveCrop", () => {
+  it("keeps the whole source when the aspect already matches", () => {
+    assert.deepEqual(resolveCrop(framing(), 1280, 720), { x: 0, y: 0, width: 1280, height: 720 });
+    assert.deepEqual(resolveCrop(framing({ aspect: '16:9' }), 1920, 1080), { x: 0, y: 0, width: 1920, height: 1080 });
+    assert.deepEqual(resolveCrop(framing({ aspect: '1:1' }), 500, 500), { x: 0, y: 0, width: 500, height: 500 });
+  });
+
+  it("crops the sides of a source wider than the aspect", () => {
+    assert.deepEqual(resolveCrop(framing({ aspect: '1:1' }), 1280, 720), { x: 280, y: 0, width: 720, height: 720 });
+    assert.deepEqual(resolveCrop(framing({ aspect: '4:5' }), 1000, 1000), { x: 100, y: 0, width: 800, height: 1000 });
+  });
+
+  it("crops the top and bottom of a source taller than the aspect", () => {
+    assert.deepEqual(resolveCrop(framing({ aspect: '16:9' }), 1080, 1080), { x: 0, y: 236.25, width: 1080, height: 607.5 });
+    assert.deepEqual(resolveCrop(framing({ aspect: '1:1' }), 720, 1280), { x: 0, y: 280, width: 720, height: 720 });
+  });
+
+  it("follows the turned source for the original aspect", () => {
+    assert.equal(aspectRatio('original', 720, 1280), 720 / 1280);
+    assert.equal(aspectRatio('free', 720, 1280), null);
+    assert.deepEqual(resolveCrop(framing({ rotation: 90 }), 1280, 720), { x: 0, y: 0, width: 720, height: 1280 });
+    assert.deepEqual(resolveCrop(framing({ aspect: '9:16', rotation: 270 }), 1280, 720), { x: 0, y: 0, width: 720, height: 1280 });
+  });
+
+  it("scales a crop box to the source and refits it to the aspect about its center", () => {
+    const crop = { x: 0.25, y: 0.25, width: 0.5, height: 0.5 };
+    assert.deepEqual(resolveCrop(framing({ aspect: 'free', crop }), 800, 400), { x: 200, y: 100, width: 400, height: 200 });
+    // The box is 400x200 on this source, so a square keeps its middle 200x200
+    assert.deepEqual(resolveCrop(framing({ aspect: '1:1', crop }), 800, 400), { x: 300, y: 100, width: 200, height: 200 });
+    // A-series fits inside either way round
+    const print = resolveCrop(framing({ aspect: 'a-portrait' }), 1000, 1000);
+    assert.ok(Math.abs(print.width / print.height - 1 / Math.SQRT2) < 1e-12);
+    assert.equal(print.height, 1000);
+  });
+});
+
+describe("framedSize", () => {
+  it("rounds to whole pixels and never goes below one", () => {
+    assert.deepEqual(framedSize(framing({ aspect: '16:9' }), 1080, 1080), { width: 1080, height: 608 });
+    assert.deepEqual(framedSize(framing({ aspect: 'free', crop: { x: 0, y: 0, width: 0.0001, height: 1 } }), 100, 100), { width: 1, height: 100 });
+  });
+});
+
+describe("framingMatrix", () => {
+  it("maps the crop onto the whole output, with nothing letterboxed", () => {
+    const framed = framing({ aspect: '1:1' });
+    const matrix = framingMatrix(framed, 1280, 720, 300, 300);
+    assertPoint(apply(matrix, 280, 0), [0, 0]);
+    assertPoint(apply(matrix, 1000, 720), [300, 300]);
+    assertPoint(apply(matrix, 640, 360), [150, 150]);
+  });
+
+  it("crops a taller source top and bottom", () => {
+    const matrix = framingMatrix(framing({ aspect: '16:9' }), 1080, 1080, 1920, 1080);
+    assertPoint(apply(matrix, 0, 236.25), [0, 0]);
+    assertPoint(apply(matrix, 1080, 843.75), [1920, 1080]);
+  });
+
+  it("turns clockwise and mirrors the source as the camera sees it", () => {
+    // A quarter turn puts the source's top-left corner at the output's top-right
+    const turned = framingMatrix(framing({ rotation: 90 }), 400, 200, 200, 400);
+    assertPoint(apply(turned, 0, 0), [200, 0]);
+    assertPoint(apply(turned, 400, 200), [0, 400]);
+
+    const flipped = framingMatrix(framing({ flipH: true }), 400, 200, 400, 200);
+    assertPoint(apply(flipped, 0, 0), [400, 0]);
+    // Mirrored before the turn, so its top-left corner goes round from the top-right
+    const both = framingMatrix(framing({ rotation: 90, flipH: true }), 400, 200, 200, 400);
+    assertPoint(apply(both, 0, 0), [200, 400]);
+  });
+
+  it("gives the same picture at any source resolution", () => {
+    const framed = framing({ aspect: '4:5', crop: { x: 0.1, y: 0.2, width: 0.6, height: 0.5 }, rotation: 180, flipV: true });
+    const small = framingMatrix(framed, 640, 480, 400, 500);
+    const large = framingMatrix(framed, 1920, 1440, 400, 500);
+    for (const [u, v] of [[0, 0], [0.5, 0.5], [1, 0.25]]) {
+      assertPoint(apply(large, u * 1920, v * 1440), apply(small, u * 640, v * 480));
+    }
+  });
+});
+
+describe("framing edits", () => {
+  it("knows when a framing leaves the source alone", () => {
+    assert.equal(isDefaultFraming(DEFAULT_FRAMING), true);
+    assert.equal(isDefaultFraming(framing({ aspect: 'free' })), true);
+    assert.equal(isDefaultFraming(framing({ aspect: '1:1' })), false);
+    assert.equal(isDefaultFraming(framing({ flipV: true })), false);
+  });
+
+  it("turns a quarter at a time and starts the crop box over", () => {
+    const crop = { x: 0, y: 0, width: 0.5, height: 0.5 };
+    assert.deepEqual(rotateFraming(framing({ crop }), true), framing({ rotation: 90 }));
+    assert.equal(rotateFraming(framing(), false).rotation, 270);
+    assert.equal(rotateFraming(framing({ rotation: 270 }), true).rotation, 0);
+  });
+});
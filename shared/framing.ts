@@ -0,0 +1,171 @@
+/**
+ * Framing
+ * How a source is turned, flipped and cropped before the effect runs. The
+ * same framing gives the same picture whatever the source's resolution, so
+ * a live preview, its capture and its recording all match.
+ */
+
+export type FrameRotation = 0 | 90 | 180 | 270; // Clockwise
+
+export type AspectPresetId = 'free' | 'original' | '1:1' | '4:5' | '9:16' | '16:9' | 'a-portrait' | 'a-landscape';
+
+export type AspectPreset = {
+  id: AspectPresetId;
+  name: string;
+  ratio: number | null; // Width over height; null follows the source or the crop box
+};
+
+export type FrameRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type Framing = {
+  aspect: AspectPresetId;
+  crop: FrameRect | null; // 0-1 of the turned and flipped frame; null is the largest centered box
+  rotation: FrameRotation;
+  flipH: boolean;
+  flipV: boolean;
+};
+
+/**
+ * Canvas transform (as taken by `setTransform`) from source to output pixels
+ */
+export type FrameMatrix = [number, number, number, number, number, number];
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: 'free', name: 'Free', ratio: null },
+  { id: 'original', name: 'Original', ratio: null },
+  { id: '1:1', name: 'Square (1:1)', ratio: 1 },
+  { id: '4:5', name: 'Portrait (4:5)', ratio: 4 / 5 },
+  { id: '9:16', name: 'Story (9:16)', ratio: 9 / 16 },
+  { id: '16:9', name: 'Widescreen (16:9)', ratio: 16 / 9 },
+  // A-series paper keeps its shape when folded in half
+  { id: 'a-portrait', name: 'A-series print, portrait', ratio: 1 / Math.SQRT2 },
+  { id: 'a-landscape', name: 'A-series print, landscape', ratio: Math.SQRT2 },
+];
+
+export const DEFAULT_FRAMING: Framing = {
+  aspect: 'original',
+  crop: null,
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+};
+
+/**
+ * Whether a framing leaves the source as it is
+ */
+export function isDefaultFraming(framing: Framing): boolean {
+  return (framing.aspect === 'original' || framing.aspect === 'free') &&
+    !framing.crop &&
+    framing.rotation === 0 &&
+    !framing.flipH &&
+    !framing.flipV;
+}
+
+/**
+ * Size of a source once turned
+ */
+export function orientedSize(width: number, height: number, rotation: FrameRotation): { width: number; height: number } {
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Width over height that a framing's crop must keep, or null for any shape
+ */
+export function aspectRatio(aspect: AspectPresetId, orientedWidth: number, orientedHeight: number): number | null {
+  if (aspect === 'original') return orientedWidth / orientedHeight;
+  return ASPECT_PRESETS.find(preset => preset.id === aspect)?.ratio ?? null;
+}
+
+/**
+ * The crop in pixels of the turned source
+ * A crop box drawn on one source is re-fitted to the aspect on another, about
+ * the same center, since camera resolutions change under a live preview.
+ */
+export function resolveCrop(framing: Framing, sourceWidth: number, sourceHeight: number): FrameRect {
+  const oriented = orientedSize(sourceWidth, sourceHeight, framing.rotation);
+  const box = framing.crop
+    ? {
+      x: framing.crop.x * oriented.width,
+      y: framing.crop.y * oriented.height,
+      width: framing.crop.width * oriented.width,
+      height: framing.crop.height * oriented.height,
+    }
+    : { x: 0, y: 0, width: oriented.width, height: oriented.height };
+
+  const ratio = aspectRatio(framing.aspect, oriented.width, oriented.height);
+  if (!ratio) return box;
+
+  const width = Math.min(box.width, box.height * ratio);
+  const height = width / ratio;
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Pixel size of a framed source at its native resolution
+ */
+export function framedSize(framing: Framing, sourceWidth: number, sourceHeight: number): { width: number; height: number } {
+  const crop = resolveCrop(framing, sourceWidth, sourceHeight);
+  return { width: Math.max(1, Math.round(crop.width)), height: Math.max(1, Math.round(crop.height)) };
+}
+
+// Apply `second` after `first`
+function multiply(second: FrameMatrix, first: FrameMatrix): FrameMatrix {
+  const [a1, b1, c1, d1, e1, f1] = second;
+  const [a2, b2, c2, d2, e2, f2] = first;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+}
+
+// Exact for quarter turns, so edges land on whole pixels
+const ROTATIONS: Record<FrameRotation, FrameMatrix> = {
+  0: [1, 0, 0, 1, 0, 0],
+  90: [0, 1, -1, 0, 0, 0],
+  180: [-1, 0, 0, -1, 0, 0],
+  270: [0, -1, 1, 0, 0, 0],
+};
+
+/**
+ * Transform that draws a source framed onto an output of the given size
+ * Flips happen before the turn, so "flip horizontal" always mirrors the
+ * source as the camera sees it.
+ */
+export function framingMatrix(
+  framing: Framing,
+  sourceWidth: number,
+  sourceHeight: number,
+  outputWidth: number,
+  outputHeight: number
+): FrameMatrix {
+  const oriented = orientedSize(sourceWidth, sourceHeight, framing.rotation);
+  const crop = resolveCrop(framing, sourceWidth, sourceHeight);
+
+  let matrix: FrameMatrix = [1, 0, 0, 1, -sourceWidth / 2, -sourceHeight / 2];
+  matrix = multiply([framing.flipH ? -1 : 1, 0, 0, framing.flipV ? -1 : 1, 0, 0], matrix);
+  matrix = multiply(ROTATIONS[framing.rotation], matrix);
+  matrix = multiply([1, 0, 0, 1, oriented.width / 2 - crop.x, oriented.height / 2 - crop.y], matrix);
+  return multiply([outputWidth / crop.width, 0, 0, outputHeight / crop.height, 0, 0], matrix);
+}
+
+/**
+ * Turn a framing a quarter at a time; the crop box starts over
+ */
+export function rotateFraming(framing: Framing, clockwise: boolean): Framing {
+  const rotation = ((framing.rotation + (clockwise ? 90 : 270)) % 360) as FrameRotation;
+  return { ...framing, rotation, crop: null };
+}
@@ -0,0 +1,28 @@
+/**
+ * Gallery organization
+ * Album names, tags and the ways a gallery listing can be sorted, shared by
+ * the API and the gallery page.
+ */
+
+import { z } from "zod";
+
+export const albumNameSchema = z.string().trim().min(1).max(60);
+
+// Tags are compared case-insensitively, so they're stored lowercase
+export const mediaTagSchema = z.string().trim().toLowerCase().min(1).max(32);
+
+export const MAX_TAGS_PER_MEDIA = 20;
+
+// A capture's full tag list; duplicates collapse into one
+export const mediaTagsSchema = z.array(mediaTagSchema).max(MAX_TAGS_PER_MEDIA)
+  .transform(tags => Array.from(new Set(tags)));
+
+export const MEDIA_SORTS = ['newest', 'oldest', 'largest', 'smallest'] as const;
+
+export type MediaSort = typeof MEDIA_SORTS[number];
+
+// Largest page the gallery listing returns
+export const MAX_MEDIA_PAGE_SIZE = 100;
+
+// Captures per ZIP export
+export const MAX_EXPORT_ITEMS = 500;
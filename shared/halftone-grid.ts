@@ -0,0 +1,153 @@
+import type { GridTopology } from "./halftone";
+
+// Hard limit on grid cells per axis (or rings) to keep pathological inputs bounded
+export const MAX_GRID_CELLS = 4000;
+
+// Row pitch of a hexagonal grid relative to its column pitch
+const HEX_ROW_PITCH = Math.sqrt(3) / 2;
+
+export type GridLayoutOptions = {
+  topology: GridTopology;
+  width: number;
+  height: number;
+  gridSize: number; // Distance between neighbouring dots in pixels
+  angle: number; // Grid rotation in degrees
+  offset: number; // Shift of the whole grid in pixels
+  seed: number; // Varies the stochastic pattern between layers
+};
+
+/**
+ * Dot positions inside the image as [centerX, centerY, threshold, ...]
+ * The threshold is a stable per-dot value in [0, 1) used by stochastic screens.
+ */
+export type GridPoints = {
+  count: number;
+  points: Float32Array;
+};
+
+/**
+ * Deterministic hash of a grid cell to [0, 1), so stochastic screens don't
+ * shimmer between live frames
+ */
+function hashCell(x: number, y: number, seed: number): number {
+  let h = Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1) ^ Math.imul(seed, 0x9e3779b9);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+/**
+ * Whether a screen is the plain square grid at 0°, whose dot centers sit on
+ * whole cells from the top-left corner
+ * Callers can walk such grids directly instead of laying out points.
+ */
+export function isAxisAlignedSquare(topology: GridTopology, angle: number): boolean {
+  return topology === 'square' && angle % 360 === 0;
+}
+
+/**
+ * Lay out dot centers for a screen
+ * Square, hexagonal and stochastic grids rotate around the top-left corner;
+ * radial grids are concentric rings around the image center, with the angle
+ * turning each ring's starting point.
+ */
+export function layoutGrid(options: GridLayoutOptions): GridPoints {
+  const { topology, width, height, gridSize, offset, seed } = options;
+  const half = gridSize / 2;
+  const radians = (options.angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  if (topology === 'radial') {
+    const centerX = width / 2 + offset;
+    const centerY = height / 2 + offset;
+    // Rings out to the farthest corner so the whole image is covered
+    const reach = Math.max(
+      Math.hypot(centerX, centerY),
+      Math.hypot(width - centerX, centerY),
+      Math.hypot(centerX, height - centerY),
+      Math.hypot(width - centerX, height - centerY)
+    );
+    const rings = Math.min(MAX_GRID_CELLS, Math.ceil(reach / gridSize));
+
+    let capacity = 1;
+    for (let ring = 1; ring <= rings; ring++) {
+      capacity += Math.max(6, Math.round(2 * Math.PI * ring));
+    }
+
+    const points = new Float32Array(capacity * 3);
+    let count = 0;
+
+    for (let ring = 0; ring <= rings; ring++) {
+      const steps = ring === 0 ? 1 : Math.max(6, Math.round(2 * Math.PI * ring));
+      const radius = ring * gridSize;
+
+      for (let step = 0; step < steps; step++) {
+        const theta = radians + (step / steps) * Math.PI * 2;
+        const x = centerX + radius * Math.cos(theta);
+        const y = centerY + radius * Math.sin(theta);
+        if (x < 0 || y < 0 || x >= width || y >= height) continue;
+
+        points[count * 3] = x;
+        points[count * 3 + 1] = y;
+        points[count * 3 + 2] = hashCell(ring, step, seed);
+        count++;
+      }
+    }
+
+    return { count, points };
+  }
+
+  const rowPitch = topology === 'hex' ? gridSize * HEX_ROW_PITCH : gridSize;
+
+  // Grid range covering the image once rotated into the screen's frame; the
+  // offset then shifts the whole grid
+  let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+  for (const [x, y] of [[0, 0], [width, 0], [0, height], [width, height]]) {
+    const u = x * cos + y * sin;
+    const v = -x * sin + y * cos;
+    minU = Math.min(minU, u);
+    maxU = Math.max(maxU, u);
+    minV = Math.min(minV, v);
+    maxV = Math.max(maxV, v);
+  }
+
+  // Shifted hex rows need one extra column to reach the far edge
+  const extraColumn = topology === 'hex' ? 1 : 0;
+  const startX = Math.floor(minU / gridSize + 1e-9);
+  const startY = Math.floor(minV / rowPitch + 1e-9);
+  const cellsX = Math.min(MAX_GRID_CELLS, Math.floor(maxU / gridSize + 1e-9) - startX + extraColumn);
+  const cellsY = Math.min(MAX_GRID_CELLS, Math.floor(maxV / rowPitch + 1e-9) - startY);
+
+  const points = new Float32Array(Math.max(0, cellsX * cellsY) * 3);
+  let count = 0;
+
+  for (let yi = startY; yi < startY + cellsY; yi++) {
+    // Every other hex row sits half a cell over
+    const rowShift = topology === 'hex' && (yi & 1) ? half : 0;
+
+    for (let xi = startX; xi < startX + cellsX; xi++) {
+      let u = xi * gridSize + half + rowShift;
+      let v = yi * rowPitch + half;
+      let threshold = 0.5;
+
+      if (topology === 'stochastic') {
+        // Jitter within the cell and pick a stable density threshold
+        u += (hashCell(xi, yi, seed) - 0.5) * half;
+        v += (hashCell(yi, xi, seed + 1) - 0.5) * half;
+        threshold = hashCell(xi, yi, seed + 2);
+      }
+
+      const x = u * cos - v * sin + offset;
+      const y = u * sin + v * cos + offset;
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+
+      points[count * 3] = x;
+      points[count * 3 + 1] = y;
+      points[count * 3 + 2] = threshold;
+      count++;
+    }
+  }
+
+  return { count, points };
+}
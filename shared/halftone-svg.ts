@@ -0,0 +1,64 @@
+import type { BlendMode, FilterSettings, HalftonePlan } from "./halftone";
+import { roundTo } from "./shapes";
+
+export type SvgExportOptions = {
+  background?: string | null; // Fill behind the dots, null for transparent; defaults to the plan's
+  precision?: number; // Decimal places kept for coordinates
+};
+
+// CSS equivalents of the canvas composite operations used by layers
+const CSS_BLEND_MODES: Record<BlendMode, string> = {
+  'source-over': 'normal',
+  multiply: 'multiply',
+  screen: 'screen',
+  lighter: 'plus-lighter',
+  darken: 'darken',
+  lighten: 'lighten',
+};
+
+/**
+ * Whether output made with these settings has a vector form
+ * Dithered output is pixel art, so only halftones export as SVG
+ */
+export function supportsSvgExport(filterSettings: Partial<FilterSettings>): boolean {
+  return filterSettings.effect !== 'dither';
+}
+
+/**
+ * Serialize a halftone render plan as a standalone SVG document
+ * Each dot becomes a vector primitive, grouped per layer with the layer's color,
+ * opacity and blend mode
+ */
+export function halftonePlanToSvg(plan: HalftonePlan, options: SvgExportOptions = {}): string {
+  const background = options.background === undefined ? plan.background : options.background;
+  const precision = options.precision ?? 2;
+  const { width, height } = plan;
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+  ];
+
+  if (background) {
+    parts.push(`<rect width="${width}" height="${height}" fill="${background}"/>`);
+  }
+
+  for (const layer of plan.layers) {
+    if (layer.count === 0) continue;
+
+    const opacity = layer.alpha < 1 ? ` fill-opacity="${roundTo(layer.alpha, 3)}"` : '';
+    const blend = layer.blendMode !== 'source-over'
+      ? ` style="mix-blend-mode:${CSS_BLEND_MODES[layer.blendMode]}"`
+      : '';
+    parts.push(`<g fill="${layer.color}"${opacity}${blend}>`);
+
+    for (let i = 0; i < layer.count * 3; i += 3) {
+      const element = layer.shape.toSvg(layer.dots[i], layer.dots[i + 1], layer.dots[i + 2], precision);
+      if (element) parts.push(element);
+    }
+
+    parts.push('</g>');
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
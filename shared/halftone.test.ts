@@ -0,0 +1,199 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createToneTable,
+  planHalftone,
+  rasterizeHalftone,
+  type FilterSettings,
+  type HalftonePlan,
+} from "./halftone";
+import { DEFAULT_FILTER_SETTINGS } from "./filter-settings";
+import { layoutGrid } from "./halftone-grid";
+import { getShape } from "./shapes";
+
+const settings = (overrides: Partial<FilterSettings> = {}): FilterSettings => ({
+  ...DEFAULT_FILTER_SETTINGS,
+  contrast: 0,
+  useSecondLayer: false,
+  ...overrides,
+});
+
+// Opaque RGBA image filled from a per-pixel gray value
+function grayImage(width: number, height: number, value: (x: number, y: number) => number): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = value(x, y);
+      pixels[i + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+function dotsOf(plan: HalftonePlan, layer = 0): number[][] {
+  const { dots, count } = plan.layers[layer];
+  const result: number[][] = [];
+  for (let i = 0; i < count * 3; i += 3) {
+    result.push([dots[i], dots[i + 1], dots[i + 2]]);
+  }
+  return result;
+}
+
+describe("planHalftone", () => {
+  it("leaves black cells empty and fills white cells with the largest dots", () => {
+    const black = planHalftone(grayImage(40, 40, () => 0), 40, 40, settings());
+    const white = planHalftone(grayImage(40, 40, () => 255), 40, 40, settings());
+
+    // Black still draws the minimum dot; white draws 0.8 of half a cell
+    assert.ok(dotsOf(black).every(([, , radius]) => radius === 0.5));
+    assert.ok(dotsOf(white).length > 0);
+    assert.ok(dotsOf(white).every(([, , radius]) => Math.abs(radius - 4) < 1e-6));
+  });
+
+  it("scales dots with brightness", () => {
+    const pixels = grayImage(100, 20, x => (x < 50 ? 64 : 192));
+    const dots = dotsOf(planHalftone(pixels, 100, 20, settings()));
+    const left = dots.find(([x]) => x < 50)!;
+    const right = dots.find(([x]) => x >= 50)!;
+    assert.ok(left[2] < right[2]);
+  });
+
+  it("never places a dot across the image edge", () => {
+    const plan = planHalftone(grayImage(37, 23, () => 255), 37, 23, settings({ dotSize: 6 }));
+    for (const [x, y, radius] of dotsOf(plan)) {
+      assert.ok(x - radius >= 0 && y - radius >= 0);
+      assert.ok(x + radius < 37 && y + radius < 23);
+    }
+  });
+
+  it("does not modify the input pixels", () => {
+    const pixels = grayImage(30, 30, (x, y) => (x * 7 + y * 3) % 256);
+    const copy = pixels.slice();
+    planHalftone(pixels, 30, 30, settings({ sampling: "area", useSecondLayer: true }));
+    assert.deepEqual(pixels, copy);
+  });
+
+  it("places 0° square dots exactly where the grid layout puts them", () => {
+    const width = 53;
+    const height = 31;
+    const pixels = grayImage(width, height, (x, y) => (x * 13 + y * 29) % 256);
+    const filterSettings = settings({ dotSize: 4, useSecondLayer: true, secondLayerOffset: 3 });
+    const plan = planHalftone(pixels, width, height, filterSettings);
+    const tone = createToneTable(filterSettings);
+
+    // Reference: walk the layout's points and size each dot from its cell's top-left pixel
+    const expected = (offset: number, maxRadius: number, minRadius: number, inverse: boolean) => {
+      const { count, points } = layoutGrid({ topology: "square", width, height, gridSize: 4, angle: 0, offset, seed: 1 });
+      const dots: number[][] = [];
+      for (let i = 0; i < count * 3; i += 3) {
+        const [centerX, centerY] = [points[i], points[i + 1]];
+        const x = Math.min(width - 1, Math.max(0, Math.floor(centerX - 2)));
+        const y = Math.min(height - 1, Math.max(0, Math.floor(centerY - 2)));
+        const p = (y * width + x) * 4;
+        const luminance = (tone[pixels[p]] + tone[pixels[p + 1]] + tone[pixels[p + 2]]) / 3;
+        const value = inverse ? 255 - luminance : luminance;
+        const radius = Math.fround(Math.max(minRadius, Math.min(maxRadius, (value / 255) * maxRadius)));
+        if (centerX < radius || centerY < radius || centerX + radius >= width || centerY + radius >= height) continue;
+        dots.push([centerX, centerY, radius]);
+      }
+      return dots;
+    };
+
+    assert.deepEqual(dotsOf(plan, 0), expected(0, 1.6, 0.5, false));
+    assert.deepEqual(dotsOf(plan, 1), expected(3, 1.6 * (2 / 3), 0.3, true));
+  });
+
+  it("averages the whole cell with area sampling", () => {
+    // A checkerboard reads as black or white per pixel, but mid-gray per cell
+    const pixels = grayImage(40, 40, (x, y) => ((x + y) % 2 ? 255 : 0));
+    const point = dotsOf(planHalftone(pixels, 40, 40, settings({ dotSize: 4 })));
+    const area = dotsOf(planHalftone(pixels, 40, 40, settings({ dotSize: 4, sampling: "area" })));
+
+    assert.ok(point.every(([, , radius]) => radius === 0.5));
+    assert.ok(area.every(([, , radius]) => Math.abs(radius - 0.8) < 0.01));
+  });
+
+  it("adds the inverted second layer only when it is on and visible", () => {
+    const pixels = grayImage(40, 40, () => 128);
+    assert.equal(planHalftone(pixels, 40, 40, settings()).layers.length, 1);
+    assert.equal(planHalftone(pixels, 40, 40, settings({ useSecondLayer: true })).layers.length, 2);
+    assert.equal(
+      planHalftone(pixels, 40, 40, settings({ useSecondLayer: true, secondLayerOpacity: 0 })).layers.length,
+      1
+    );
+  });
+
+  it("draws one layer per enabled channel in color modes", () => {
+    const pixels = grayImage(40, 40, () => 128);
+    const plan = planHalftone(pixels, 40, 40, settings({ colorMode: "cmyk" }));
+    assert.deepEqual(plan.layers.map(layer => layer.color), ["#00ffff", "#ff00ff", "#ffff00", "#000000"]);
+    assert.equal(plan.background, "#ffffff");
+  });
+
+  it("splits banded dots into one layer per shape", () => {
+    const pixels = grayImage(80, 20, x => (x < 40 ? 40 : 220));
+    const plan = planHalftone(pixels, 80, 20, settings({
+      shapeBands: [{ upTo: 0.5, shape: "square" }, { upTo: 1, shape: "diamond" }],
+    }));
+
+    assert.deepEqual(plan.layers.map(layer => layer.shape.name), ["square", "diamond"]);
+    assert.ok(dotsOf(plan, 0).every(([x]) => x < 40));
+    assert.ok(dotsOf(plan, 1).every(([x]) => x >= 40));
+  });
+
+  it("scales the grid with the render scale", () => {
+    const pixels = grayImage(80, 80, () => 255);
+    assert.equal(planHalftone(pixels, 80, 80, settings(), 2).gridSize, 20);
+    assert.equal(
+      planHalftone(pixels, 80, 80, settings(), 2).layers[0].count,
+      planHalftone(pixels.subarray(0, 40 * 40 * 4), 40, 40, settings()).layers[0].count
+    );
+  });
+});
+
+describe("rasterizeHalftone", () => {
+  const circle = getShape("circle")!;
+  const plan = (layers: HalftonePlan["layers"], background = "#000000"): HalftonePlan => ({
+    width: 10,
+    height: 10,
+    gridSize: 10,
+    background,
+    layers,
+  });
+  const pixelAt = (output: Uint8ClampedArray, x: number, y: number) => Array.from(output.subarray((y * 10 + x) * 4, (y * 10 + x) * 4 + 4));
+
+  it("fills the background and leaves it opaque", () => {
+    const output = rasterizeHalftone(plan([], "#336699"));
+    assert.deepEqual(pixelAt(output, 0, 0), [0x33, 0x66, 0x99, 255]);
+    assert.deepEqual(pixelAt(output, 9, 9), [0x33, 0x66, 0x99, 255]);
+  });
+
+  it("covers a dot's interior and antialiases its edge", () => {
+    const output = rasterizeHalftone(plan([{
+      shape: circle,
+      color: "#ffffff",
+      alpha: 1,
+      blendMode: "source-over",
+      count: 1,
+      dots: new Float32Array([5, 5, 3]),
+    }]));
+
+    assert.deepEqual(pixelAt(output, 4, 4), [255, 255, 255, 255]);
+    assert.deepEqual(pixelAt(output, 0, 0), [0, 0, 0, 255]);
+    const edge = pixelAt(output, 6, 2)[0];
+    assert.ok(edge > 0 && edge < 255);
+  });
+
+  it("composites layers with their alpha and blend mode", () => {
+    const dot = { shape: circle, count: 1, dots: new Float32Array([5, 5, 4]) };
+    const half = rasterizeHalftone(plan([{ ...dot, color: "#ffffff", alpha: 0.5, blendMode: "source-over" }]));
+    assert.equal(pixelAt(half, 5, 5)[0], 128);
+
+    const multiplied = rasterizeHalftone(plan(
+      [{ ...dot, color: "#808080", alpha: 1, blendMode: "multiply" }],
+      "#ff0000"
+    ));
+    assert.deepEqual(pixelAt(multiplied, 5, 5).slice(0, 3), [128, 0, 0]);
+  });
+});
@@ -0,0 +1,669 @@
+/**
+ * DOM-free halftone core
+ * Turns an RGBA buffer plus FilterSettings into a render plan (dot layers) and
+ * optionally rasterizes that plan back to RGBA. Shared by the client canvas
+ * renderer, the worker and the server.
+ */
+
+import { MAX_GRID_CELLS, isAxisAlignedSquare, layoutGrid } from "./halftone-grid";
+import { resolveShape, type CustomShape, type ShapeBand, type ShapeRenderer } from "./shapes";
+import type { DitherSettings } from "./dither";
+
+// Name of a shape in the shape registry (see shapes.ts), e.g. 'circle', 'char:@' or 'custom:logo'
+export type DotShape = string;
+
+export type SamplingMode = 'point' | 'area';
+
+// Which effect family renders the frame
+export type FilterEffect = 'halftone' | 'dither';
+
+// Arrangement of dots: classic square screen, hexagonal, concentric rings, or FM-style stippling
+export type GridTopology = 'square' | 'hex' | 'radial' | 'stochastic';
+
+// 'mono' draws luminance dots; 'cmyk' and 'rgb' separate the image into color screens
+export type ColorMode = 'mono' | 'cmyk' | 'rgb';
+
+export type ColorChannel = 'cyan' | 'magenta' | 'yellow' | 'black' | 'red' | 'green' | 'blue';
+
+// Subset of canvas composite operations that behave the same in the rasterizer and SVG
+export type BlendMode = 'source-over' | 'multiply' | 'screen' | 'lighter' | 'darken' | 'lighten';
+
+/**
+ * Screen settings for one color channel
+ */
+export type ChannelSettings = {
+  channel: ColorChannel;
+  enabled: boolean;
+  angle: number; // Screen angle in degrees
+  color: string; // Dot color as #rrggbb
+  blendMode: BlendMode;
+  opacity: number; // 0.0 to 1.0
+};
+
+export type FilterSettings = {
+  effect: FilterEffect;
+  dotSize: number; // Size of primary halftone dots
+  contrast: number;
+  brightness: number;
+  isGrayscale: boolean; // Legacy flag kept for stored settings; output color follows colorMode
+  dotShape: DotShape;  // Shape of the primary dots
+  shapeBands: ShapeBand[]; // Optional brightness bands choosing the shape per dot
+  customShapes: CustomShape[]; // User SVG paths available as 'custom:<name>'
+  useSecondLayer: boolean; // Mono only: add an inverted-brightness layer
+  secondLayerOpacity: number; // Opacity of the second layer (0.0 to 1.0)
+  secondLayerOffset: number; // Offset of second layer for a more dynamic look
+  sampling: SamplingMode; // 'point' reads one pixel per dot, 'area' averages the whole grid cell
+  screenAngle: number; // Rotation of the whole screen in degrees, added to channel angles
+  gridTopology: GridTopology;
+  colorMode: ColorMode;
+  channels: ChannelSettings[]; // Per-channel screens used by the color modes
+  dither: DitherSettings; // Used when effect is 'dither'
+};
+
+// Channels drawn by each color mode, in drawing order
+export const COLOR_MODE_CHANNELS: Record<Exclude<ColorMode, 'mono'>, ColorChannel[]> = {
+  cmyk: ['cyan', 'magenta', 'yellow', 'black'],
+  rgb: ['red', 'green', 'blue'],
+};
+
+// Paper color for each mode: subtractive inks print on white, light adds up on black
+export const COLOR_MODE_BACKGROUNDS: Record<ColorMode, string> = {
+  mono: '#000000',
+  cmyk: '#ffffff',
+  rgb: '#000000',
+};
+
+/**
+ * Where a layer reads its dot sizes from
+ */
+export type LayerSource = 'luminance' | 'inverse' | ColorChannel;
+
+/**
+ * One screen of the N-layer model, resolved from FilterSettings
+ */
+export type HalftoneLayerSpec = {
+  source: LayerSource;
+  shape: DotShape;
+  bands: ShapeBand[]; // Brightness bands overriding the shape, empty for a single shape
+  angle: number; // Grid rotation in degrees
+  offset: number; // Grid offset in pixels
+  scale: number; // Largest dot relative to the primary screen
+  minRadius: number; // Smallest dot drawn; 0 leaves empty cells blank
+  color: string;
+  alpha: number;
+  blendMode: BlendMode;
+};
+
+/**
+ * One halftone layer as a flat list of dots: [centerX, centerY, radius, ...]
+ * All dots in a layer share one shape renderer
+ */
+export type DotLayer = {
+  shape: ShapeRenderer;
+  color: string;
+  alpha: number;
+  blendMode: BlendMode;
+  count: number;
+  dots: Float32Array;
+};
+
+/**
+ * Everything needed to draw a halftone: dot layers composited over a background
+ */
+export type HalftonePlan = {
+  width: number;
+  height: number;
+  gridSize: number;
+  background: string;
+  layers: DotLayer[];
+};
+
+// Dot size of stochastic screens relative to the largest AM dot
+const STIPPLE_SCALE = 0.6;
+
+/**
+ * Grid cell size in pixels for the given settings
+ * `scale` renders the same look onto a frame that many times larger, e.g. a
+ * full-resolution capture of a smaller live preview.
+ */
+export function getGridSize(filterSettings: FilterSettings, scale = 1): number {
+  const dotSize = filterSettings.dotSize <= 0 ? 5 : filterSettings.dotSize;
+  const gridSize = Math.max(2, Math.min(20, Math.floor(dotSize)));
+  return scale === 1 ? gridSize : Math.max(2, Math.round(gridSize * scale));
+}
+
+/**
+ * Expand settings into the list of screens to draw
+ * Mono is a luminance screen plus the optional inverted second layer; the
+ * color modes draw one screen per enabled channel.
+ */
+export function resolveLayerSpecs(filterSettings: FilterSettings): HalftoneLayerSpec[] {
+  const colorMode = filterSettings.colorMode ?? 'mono';
+  const dotShape = filterSettings.dotShape || 'circle';
+  const shapeBands = filterSettings.shapeBands ?? [];
+  const screenAngle = filterSettings.screenAngle ?? 0;
+
+  if (colorMode === 'mono') {
+    const specs: HalftoneLayerSpec[] = [{
+      source: 'luminance',
+      shape: dotShape,
+      bands: shapeBands,
+      angle: screenAngle,
+      offset: 0,
+      scale: 1,
+      minRadius: 0.5,
+      color: '#ffffff',
+      alpha: 1,
+      blendMode: 'source-over',
+    }];
+
+    if (filterSettings.useSecondLayer ?? true) {
+      // Always use circles for second layer for better overlap
+      specs.push({
+        source: 'inverse',
+        shape: 'circle',
+        bands: [],
+        angle: screenAngle,
+        offset: filterSettings.secondLayerOffset || 3,
+        scale: 2 / 3,
+        minRadius: 0.3,
+        color: '#ffffff',
+        alpha: filterSettings.secondLayerOpacity ?? 0.5,
+        blendMode: 'source-over',
+      });
+    }
+
+    return specs;
+  }
+
+  const specs: HalftoneLayerSpec[] = [];
+  for (const channel of COLOR_MODE_CHANNELS[colorMode]) {
+    const settings = filterSettings.channels?.find(entry => entry.channel === channel);
+    if (!settings || !settings.enabled) continue;
+
+    specs.push({
+      source: channel,
+      shape: dotShape,
+      bands: shapeBands,
+      angle: settings.angle + screenAngle,
+      offset: 0,
+      scale: 1,
+      minRadius: 0,
+      color: settings.color,
+      alpha: settings.opacity,
+      blendMode: settings.blendMode,
+    });
+  }
+  return specs;
+}
+
+/**
+ * Lookup table applying brightness then contrast to a single channel value
+ */
+export function createToneTable(filterSettings: FilterSettings): Uint8ClampedArray {
+  const { contrast, brightness } = filterSettings;
+  const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+
+  const table = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) {
+    const lit = Math.min(255, Math.max(0, v * brightness));
+    table[v] = Math.min(255, Math.max(0, factor * (lit - 128) + 128));
+  }
+  return table;
+}
+
+/**
+ * Summed-area table of a tone-adjusted channel so any cell average costs four reads
+ * Entry (x, y) holds the sum of all pixels above and left of it, with a zero border.
+ * `channel` is an RGBA offset, or null for red, green and blue added together.
+ */
+function buildSummedArea(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  tone: Uint8ClampedArray,
+  channel: number | null
+): Float64Array {
+  const stride = width + 1;
+  const table = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    const row = (y + 1) * stride;
+
+    // Separate loops keep the per-pixel work free of channel bookkeeping
+    if (channel === null) {
+      for (let x = 0, i = y * width * 4; x < width; x++, i += 4) {
+        rowSum += tone[pixels[i]] + tone[pixels[i + 1]] + tone[pixels[i + 2]];
+        table[row + x + 1] = table[row - stride + x + 1] + rowSum;
+      }
+    } else {
+      for (let x = 0, i = y * width * 4 + channel; x < width; x++, i += 4) {
+        rowSum += tone[pixels[i]];
+        table[row + x + 1] = table[row - stride + x + 1] + rowSum;
+      }
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Dot strength (0-255) of a layer source for a tone-adjusted RGB color
+ * Ink channels use the usual naive RGB to CMYK separation with full black generation
+ */
+function sourceValue(source: LayerSource, r: number, g: number, b: number): number {
+  switch (source) {
+    case 'luminance':
+      return (r + g + b) / 3;
+    case 'inverse':
+      return 255 - (r + g + b) / 3;
+    case 'red':
+      return r;
+    case 'green':
+      return g;
+    case 'blue':
+      return b;
+  }
+
+  const black = 1 - Math.max(r, g, b) / 255;
+  if (source === 'black') return black * 255;
+  if (black >= 1) return 0;
+
+  const channel = source === 'cyan' ? r : source === 'magenta' ? g : b;
+  return ((1 - channel / 255 - black) / (1 - black)) * 255;
+}
+
+/**
+ * Source value (0-255) of the cell whose top-left pixel is (x, y)
+ */
+type CellSampler = (x: number, y: number) => number;
+
+// Sum of a summed-area table over the cell from (x, y) up to (endX, endY)
+function summedAreaCell(
+  table: Float64Array,
+  stride: number,
+  x: number,
+  y: number,
+  endX: number,
+  endY: number
+): number {
+  return table[endY * stride + endX] - table[y * stride + endX] - table[endY * stride + x] + table[y * stride + x];
+}
+
+/**
+ * Cell sampler for one layer source
+ * Point sampling reads the cell's top-left pixel; area sampling averages the
+ * cell through summed-area tables, either one combined table or one per channel.
+ */
+function createCellSampler(
+  source: LayerSource,
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  tone: Uint8ClampedArray,
+  tables: Float64Array[] | null,
+  size: number
+): CellSampler {
+  const channel = source === 'red' ? 0 : source === 'green' ? 1 : source === 'blue' ? 2 : -1;
+  const isLuminance = source === 'luminance';
+  const isInverse = source === 'inverse';
+  const stride = width + 1;
+  const combined = tables && tables.length === 1 ? tables[0] : null;
+
+  // One function serves every source and sampling mode, so the planner's call
+  // to it stays monomorphic and can be inlined
+  return (x, y) => {
+    let r: number;
+    let g: number;
+    let b: number;
+
+    if (!tables) {
+      const i = (y * width + x) * 4;
+      if (channel >= 0) return tone[pixels[i + channel]];
+      r = tone[pixels[i]];
+      g = tone[pixels[i + 1]];
+      b = tone[pixels[i + 2]];
+    } else {
+      const endX = Math.min(width, x + size);
+      const endY = Math.min(height, y + size);
+      const count = (endX - x) * (endY - y);
+      if (count <= 0) {
+        r = g = b = 0;
+      } else if (combined) {
+        r = g = b = summedAreaCell(combined, stride, x, y, endX, endY) / (count * 3);
+      } else {
+        r = summedAreaCell(tables[0], stride, x, y, endX, endY) / count;
+        g = summedAreaCell(tables[1], stride, x, y, endX, endY) / count;
+        b = summedAreaCell(tables[2], stride, x, y, endX, endY) / count;
+      }
+    }
+
+    if (isLuminance) return (r + g + b) / 3;
+    if (isInverse) return 255 - (r + g + b) / 3;
+    return sourceValue(source, r, g, b);
+  };
+}
+
+/**
+ * Band a brightness (0-1) falls in; the brightest band takes values above every threshold
+ */
+function findBand(bands: ShapeBand[], brightness: number): number {
+  for (let i = 0; i < bands.length; i++) {
+    if (brightness <= bands[i].upTo) return i;
+  }
+  return bands.length - 1;
+}
+
+/**
+ * Build a halftone render plan from an RGBA buffer
+ * The input is never modified. Each screen lays out a grid in the chosen
+ * topology and maps its source value to dot size, or to dot density for
+ * stochastic screens. Pixel sizes in the settings are multiplied by `scale`.
+ */
+export function planHalftone(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  filterSettings: FilterSettings,
+  scale = 1
+): HalftonePlan {
+  const specs = resolveLayerSpecs(filterSettings);
+  const colorMode = filterSettings.colorMode ?? 'mono';
+  const tone = createToneTable(filterSettings);
+
+  // Area sampling keeps one table per channel in color modes, one combined table otherwise
+  let tables: Float64Array[] | null = null;
+  if (filterSettings.sampling === 'area') {
+    tables = colorMode === 'mono'
+      ? [buildSummedArea(pixels, width, height, tone, null)]
+      : [0, 1, 2].map(channel => buildSummedArea(pixels, width, height, tone, channel));
+  }
+
+  const gridSize = getGridSize(filterSettings, scale);
+  const half = gridSize / 2;
+
+  const topology = filterSettings.gridTopology ?? 'square';
+
+  const customShapes = filterSettings.customShapes ?? [];
+
+  const layers: DotLayer[] = specs.flatMap((spec, index) => {
+    // Fully transparent screens draw nothing, so skip them before any per-dot work
+    if (spec.alpha <= 0) return [];
+
+    const sampleCell = createCellSampler(spec.source, pixels, width, height, tone, tables, gridSize);
+    const offset = spec.offset * scale;
+
+    // One renderer per band, or just the layer's shape
+    const bands = [...spec.bands].sort((a, b) => a.upTo - b.upTo);
+    const renderers = bands.length > 0
+      ? bands.map(band => resolveShape(band.shape, customShapes))
+      : [resolveShape(spec.shape, customShapes)];
+    const banded = renderers.length > 1;
+    const fixedSize = renderers.map(renderer => !!renderer.fixedSize);
+    const stochastic = topology === 'stochastic';
+    const minRadius = spec.minRadius * scale;
+    const maxRadius = Math.max(1, half * 0.8 * spec.scale);
+
+    // The plain square screen at 0° is walked directly; every other layout
+    // comes from the grid module as a buffer of points
+    const axisAligned = isAxisAlignedSquare(topology, spec.angle);
+    const cellsX = Math.min(MAX_GRID_CELLS, Math.floor(width / gridSize + 1e-9));
+    const cellsY = Math.min(MAX_GRID_CELLS, Math.floor(height / gridSize + 1e-9));
+    const grid = axisAligned
+      ? null
+      : layoutGrid({ topology, width, height, gridSize, angle: spec.angle, offset, seed: index + 1 });
+    const capacity = grid ? grid.count : cellsX * cellsY;
+
+    const dots = new Float32Array(capacity * 3);
+    // Shape of each dot, only needed to split banded layers
+    const shapeOf = new Uint8Array(banded ? capacity : 0);
+    let count = 0;
+
+    if (grid) {
+      const { points } = grid;
+      for (let i = 0; i < grid.count * 3; i += 3) {
+        const centerX = points[i];
+        const centerY = points[i + 1];
+
+        // Sample the axis-aligned cell around the center, clamped to the image
+        const x = Math.min(width - 1, Math.max(0, Math.floor(centerX - half)));
+        const y = Math.min(height - 1, Math.max(0, Math.floor(centerY - half)));
+
+        const value = sampleCell(x, y);
+        const shapeIndex = banded ? findBand(bands, value / 255) : 0;
+
+        let radius: number;
+        if (stochastic) {
+          // Frequency modulation: fixed-size dots whose density follows the value
+          if (value / 255 <= points[i + 2]) continue;
+          radius = maxRadius * STIPPLE_SCALE;
+        } else if (fixedSize[shapeIndex]) {
+          radius = maxRadius;
+        } else {
+          radius = Math.max(minRadius, Math.min(maxRadius, (value / 255) * maxRadius));
+        }
+        if (radius <= 0) continue;
+
+        // Skip dots that would cross the canvas edge
+        if (centerX < radius || centerY < radius ||
+            centerX + radius >= width || centerY + radius >= height) {
+          continue;
+        }
+
+        dots[count * 3] = centerX;
+        dots[count * 3 + 1] = centerY;
+        dots[count * 3 + 2] = radius;
+        if (banded) shapeOf[count] = shapeIndex;
+        count++;
+      }
+    } else {
+      // Same per-dot work as above, walking rows and columns in place of the
+      // points buffer. Centers are rounded to 32 bits as that buffer stores
+      // them, and each column's center and sample position is worked out once.
+      const columnCenters = new Float32Array(cellsX);
+      const columnSamples = new Int32Array(cellsX);
+      let columns = 0;
+      for (let xi = 0; xi < cellsX; xi++) {
+        const centerX = Math.fround(xi * gridSize + half + offset);
+        if (centerX < 0 || centerX >= width) continue;
+        columnCenters[columns] = centerX;
+        columnSamples[columns] = Math.min(width - 1, Math.max(0, Math.floor(centerX - half)));
+        columns++;
+      }
+
+      for (let yi = 0; yi < cellsY; yi++) {
+        const centerY = Math.fround(yi * gridSize + half + offset);
+        if (centerY < 0 || centerY >= height) continue;
+        const y = Math.min(height - 1, Math.max(0, Math.floor(centerY - half)));
+
+        for (let column = 0; column < columns; column++) {
+          const centerX = columnCenters[column];
+          const x = columnSamples[column];
+
+          const value = sampleCell(x, y);
+          const shapeIndex = banded ? findBand(bands, value / 255) : 0;
+          const radius = fixedSize[shapeIndex]
+            ? maxRadius
+            : Math.max(minRadius, Math.min(maxRadius, (value / 255) * maxRadius));
+          if (radius <= 0) continue;
+
+          if (centerX < radius || centerY < radius ||
+              centerX + radius >= width || centerY + radius >= height) {
+            continue;
+          }
+
+          dots[count * 3] = centerX;
+          dots[count * 3 + 1] = centerY;
+          dots[count * 3 + 2] = radius;
+          if (banded) shapeOf[count] = shapeIndex;
+          count++;
+        }
+      }
+    }
+
+    const layerFor = (shape: ShapeRenderer, layerDots: Float32Array, layerCount: number): DotLayer => ({
+      shape,
+      color: spec.color,
+      alpha: spec.alpha,
+      blendMode: spec.blendMode,
+      count: layerCount,
+      dots: layerDots,
+    });
+
+    if (!banded) {
+      return [layerFor(renderers[0], dots, count)];
+    }
+
+    // Split banded dots into one layer per shape so each still draws as a single path
+    const counts = new Array<number>(renderers.length).fill(0);
+    for (let i = 0; i < count; i++) counts[shapeOf[i]]++;
+
+    const split = renderers.map((_, band) => new Float32Array(counts[band] * 3));
+    const filled = new Array<number>(renderers.length).fill(0);
+    for (let i = 0; i < count; i++) {
+      const band = shapeOf[i];
+      split[band].set(dots.subarray(i * 3, i * 3 + 3), filled[band] * 3);
+      filled[band]++;
+    }
+
+    return renderers
+      .map((shape, band) => layerFor(shape, split[band], counts[band]))
+      .filter(layer => layer.count > 0);
+  });
+
+  return { width, height, gridSize, background: COLOR_MODE_BACKGROUNDS[colorMode], layers };
+}
+
+// 4x4 subpixel offsets used for antialiased coverage
+const SUBSAMPLES = [0.125, 0.375, 0.625, 0.875];
+
+/**
+ * Parse a #rgb or #rrggbb color into 0-1 channels, falling back to white
+ */
+export function parseHexColor(color: string): [number, number, number] {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return [1, 1, 1];
+
+  const hex = match[1].length === 3
+    ? match[1].split('').map(digit => digit + digit).join('')
+    : match[1];
+  return [
+    parseInt(hex.slice(0, 2), 16) / 255,
+    parseInt(hex.slice(2, 4), 16) / 255,
+    parseInt(hex.slice(4, 6), 16) / 255,
+  ];
+}
+
+/**
+ * Blend a source channel onto a destination channel, matching the canvas
+ * composite operation of the same name over an opaque destination
+ */
+function blendChannel(mode: BlendMode, dest: number, src: number, coverage: number): number {
+  switch (mode) {
+    case 'multiply':
+      return dest + (dest * src - dest) * coverage;
+    case 'screen':
+      return dest + (src - dest * src) * coverage;
+    case 'lighter':
+      return Math.min(1, dest + src * coverage);
+    case 'darken':
+      return dest + (Math.min(dest, src) - dest) * coverage;
+    case 'lighten':
+      return dest + (Math.max(dest, src) - dest) * coverage;
+    case 'source-over':
+    default:
+      return dest + (src - dest) * coverage;
+  }
+}
+
+/**
+ * Rasterize a render plan to an opaque RGBA buffer
+ * Each pixel's coverage is estimated from 16 subsamples so edges are antialiased
+ */
+export function rasterizeHalftone(plan: HalftonePlan): Uint8ClampedArray {
+  const { width, height } = plan;
+  const output = new Uint8ClampedArray(width * height * 4);
+  // RGB accumulated in floating point to avoid banding
+  const color = new Float32Array(width * height * 3);
+  const samples = SUBSAMPLES.length * SUBSAMPLES.length;
+
+  const background = parseHexColor(plan.background);
+  for (let i = 0; i < color.length; i += 3) {
+    color[i] = background[0];
+    color[i + 1] = background[1];
+    color[i + 2] = background[2];
+  }
+
+  for (const layer of plan.layers) {
+    const { dots, count, shape, alpha, blendMode } = layer;
+    const [red, green, blue] = parseHexColor(layer.color);
+    // For convex shapes a pixel whose four corners are inside is fully covered
+    const { convex } = shape;
+
+    for (let i = 0; i < count * 3; i += 3) {
+      const centerX = dots[i];
+      const centerY = dots[i + 1];
+      const radius = dots[i + 2];
+
+      const minX = Math.max(0, Math.floor(centerX - radius));
+      const maxX = Math.min(width - 1, Math.ceil(centerX + radius));
+      const minY = Math.max(0, Math.floor(centerY - radius));
+      const maxY = Math.min(height - 1, Math.ceil(centerY + radius));
+
+      for (let py = minY; py <= maxY; py++) {
+        for (let px = minX; px <= maxX; px++) {
+          const left = px - centerX;
+          const top = py - centerY;
+          let hits = 0;
+
+          if (convex &&
+              shape.contains(left, top, radius) &&
+              shape.contains(left + 1, top, radius) &&
+              shape.contains(left, top + 1, radius) &&
+              shape.contains(left + 1, top + 1, radius)) {
+            hits = samples;
+          } else {
+            for (const sy of SUBSAMPLES) {
+              for (const sx of SUBSAMPLES) {
+                if (shape.contains(left + sx, top + sy, radius)) {
+                  hits++;
+                }
+              }
+            }
+          }
+
+          if (hits === 0) continue;
+
+          const coverage = (hits / samples) * alpha;
+          const index = (py * width + px) * 3;
+          color[index] = blendChannel(blendMode, color[index], red, coverage);
+          color[index + 1] = blendChannel(blendMode, color[index + 1], green, coverage);
+          color[index + 2] = blendChannel(blendMode, color[index + 2], blue, coverage);
+        }
+      }
+    }
+  }
+
+  for (let i = 0, j = 0; i < color.length; i += 3, j += 4) {
+    output[j] = color[i] * 255;
+    output[j + 1] = color[i + 1] * 255;
+    output[j + 2] = color[i + 2] * 255;
+    output[j + 3] = 255;
+  }
+
+  return output;
+}
+
+/**
+ * Plan and rasterize in one step
+ */
+export function renderHalftoneRGBA(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  filterSettings: FilterSettings,
+  scale = 1
+): Uint8ClampedArray {
+  return rasterizeHalftone(planHalftone(pixels, width, height, filterSettings, scale));
+}
@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  describeOutputSize,
+  findOutputSizePreset,
+  MAX_OUTPUT_MEGAPIXELS,
+  OUTPUT_SIZE_PRESETS,
+  resolveOutputSize,
+  type OutputSize,
+} from "./output-size";
+
+const native = { width: 1280, height: 720 };
+const screen = { width: 640, height: 360 };
+
+describe("resolveOutputSize", () => {
+  it("uses the camera's pixels or the preview's as they are", () => {
+    assert.deepEqual(resolveOutputSize({ mode: 'native' }, native, screen), native);
+    assert.deepEqual(resolveOutputSize({ mode: 'screen' }, native, screen), screen);
+  });
+
+  it("scales the long edge to a pixel or print size, keeping the shape", () => {
+    assert.deepEqual(resolveOutputSize({ mode: 'pixels', longEdge: 1920 }, native, screen), { width: 1920, height: 1080 });
+    // Portrait sources scale by their height
+    assert.deepEqual(resolveOutputSize({ mode: 'pixels', longEdge: 1920 }, { width: 720, height: 1280 }, screen), { width: 1080, height: 1920 });
+    assert.deepEqual(
+      resolveOutputSize({ mode: 'print', longEdgeInches: 6, dpi: 300 }, { width: 3000, height: 2000 }, screen),
+      { width: 1800, height: 1200 }
+    );
+  });
+
+  it("rounds to whole pixels, at least one each way", () => {
+    // 1000x333 at 1500 px is 1500x499.5
+    assert.deepEqual(resolveOutputSize({ mode: 'pixels', longEdge: 1500 }, { width: 1000, height: 333 }, screen), { width: 1500, height: 500 });
+    assert.deepEqual(resolveOutputSize({ mode: 'pixels', longEdge: 100 }, { width: 4000, height: 1 }, screen), { width: 100, height: 1 });
+  });
+
+  it("scales large sizes down to the pixel limit, keeping the shape", () => {
+    const limit = MAX_OUTPUT_MEGAPIXELS * 1_000_000;
+    const print = resolveOutputSize({ mode: 'print', longEdgeInches: 40, dpi: 1200 }, { width: 4000, height: 3000 }, screen);
+    assert.ok(print.width * print.height <= limit * 1.001, `${print.width}x${print.height} is over the limit`);
+    assert.ok(print.width * print.height > limit * 0.999);
+    assert.ok(Math.abs(print.width / print.height - 4 / 3) < 1e-3);
+
+    // The limit holds for native sizes too
+    const huge = resolveOutputSize({ mode: 'native' }, { width: 12000, height: 6000 }, screen);
+    assert.ok(huge.width * huge.height <= limit * 1.001);
+    assert.ok(Math.abs(huge.width / huge.height - 2) < 1e-3);
+
+    // Sizes under the limit aren't touched
+    assert.deepEqual(resolveOutputSize({ mode: 'pixels', longEdge: 3840 }, native, screen), { width: 3840, height: 2160 });
+  });
+});
+
+describe("output size presets", () => {
+  it("describes every field of a size", () => {
+    assert.equal(describeOutputSize({ mode: 'pixels', longEdge: 1920 }), '1920 px');
+    assert.equal(describeOutputSize({ mode: 'print', longEdgeInches: 6, dpi: 300 }), '6 in @ 300 DPI');
+  });
+
+  it("finds the preset for a size, and none for custom sizes", () => {
+    for (const preset of OUTPUT_SIZE_PRESETS) {
+      assert.equal(findOutputSizePreset({ ...preset.size } as OutputSize), preset);
+    }
+    assert.equal(findOutputSizePreset({ mode: 'pixels', longEdge: 2000 }), undefined);
+    assert.equal(findOutputSizePreset({ mode: 'print', longEdgeInches: 6, dpi: 600 }), undefined);
+  });
+});
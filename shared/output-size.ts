@@ -0,0 +1,98 @@
+/**
+ * Output size
+ * How large captures and recordings come out, chosen apart from how large the
+ * live preview happens to be on screen. Sizes keep the shape of what the
+ * preview shows; filter settings are measured against the camera's own
+ * pixels, so every size has the same look.
+ */
+
+export type OutputSize =
+  | { mode: 'screen' } // Whatever the preview is drawn at
+  | { mode: 'native' } // The camera's own pixels
+  | { mode: 'pixels'; longEdge: number }
+  | { mode: 'print'; longEdgeInches: number; dpi: number };
+
+export type OutputSizePreset = {
+  id: string;
+  name: string;
+  size: OutputSize;
+};
+
+export const OUTPUT_SIZE_PRESETS: OutputSizePreset[] = [
+  { id: 'screen', name: 'Screen size', size: { mode: 'screen' } },
+  { id: 'native', name: 'Camera resolution', size: { mode: 'native' } },
+  { id: '1080p', name: 'Full HD (1920 px)', size: { mode: 'pixels', longEdge: 1920 } },
+  { id: '4k', name: '4K (3840 px)', size: { mode: 'pixels', longEdge: 3840 } },
+  { id: 'print-6', name: '6 in print, 300 DPI', size: { mode: 'print', longEdgeInches: 6, dpi: 300 } },
+  { id: 'print-10', name: '10 in print, 300 DPI', size: { mode: 'print', longEdgeInches: 10, dpi: 300 } },
+];
+
+export const DEFAULT_OUTPUT_SIZE: OutputSize = { mode: 'native' };
+
+// Keeps a single render within what browsers will allocate for a canvas
+export const MAX_OUTPUT_MEGAPIXELS = 40;
+
+// Longest edges accepted for custom sizes
+export const MAX_PRINT_INCHES = 40;
+export const MIN_DPI = 72;
+export const MAX_DPI = 1200;
+
+/**
+ * Pixel size of an output
+ * `native` is the camera's pixels behind what the preview shows and `screen`
+ * the preview itself; both give the shape the other sizes keep. Large sizes
+ * are scaled down to MAX_OUTPUT_MEGAPIXELS.
+ */
+export function resolveOutputSize(
+  size: OutputSize,
+  native: { width: number; height: number },
+  screen: { width: number; height: number }
+): { width: number; height: number } {
+  let scale: number;
+  switch (size.mode) {
+    case 'screen':
+      scale = screen.width / native.width;
+      break;
+    case 'native':
+      scale = 1;
+      break;
+    case 'pixels':
+      scale = size.longEdge / Math.max(native.width, native.height);
+      break;
+    case 'print':
+      scale = (size.longEdgeInches * size.dpi) / Math.max(native.width, native.height);
+      break;
+  }
+
+  const limit = Math.sqrt((MAX_OUTPUT_MEGAPIXELS * 1_000_000) / (native.width * native.height));
+  scale = Math.min(scale, limit);
+  return {
+    width: Math.max(1, Math.round(native.width * scale)),
+    height: Math.max(1, Math.round(native.height * scale)),
+  };
+}
+
+/**
+ * Short description of a size, e.g. for a button
+ */
+export function describeOutputSize(size: OutputSize): string {
+  switch (size.mode) {
+    case 'screen':
+      return 'Screen';
+    case 'native':
+      return 'Camera';
+    case 'pixels':
+      return `${size.longEdge} px`;
+    case 'print':
+      return `${size.longEdgeInches} in @ ${size.dpi} DPI`;
+  }
+}
+
+/**
+ * Preset matching a size, if any
+ */
+export function findOutputSizePreset(size: OutputSize): OutputSizePreset | undefined {
+  // Descriptions name every field, so equal descriptions are equal sizes
+  const description = describeOutputSize(size);
+  return OUTPUT_SIZE_PRESETS.find(preset => describeOutputSize(preset.size) === description);
+}
@@ -0,0 +1,149 @@
+/**
+ * Filter presets
+ * Curated built-in looks plus the portable preset format shared by JSON
+ * files and share links, so a look can be reproduced exactly elsewhere.
+ */
+
+import { z } from "zod";
+import type { FilterSettings } from "./halftone";
+import { DEFAULT_FILTER_SETTINGS, filterSettingsSchema } from "./filter-settings";
+import { createAsciiBands } from "./shapes";
+import { filterTimelineSchema, hasKeyframes, type FilterTimeline } from "./timeline";
+
+export type BuiltInPreset = {
+  id: string;
+  name: string;
+  filterSettings: FilterSettings;
+};
+
+/**
+ * A preset as written to a .json file or encoded into a share link
+ */
+export type PresetFile = {
+  type: typeof PRESET_FILE_TYPE;
+  version: typeof PRESET_FILE_VERSION;
+  name: string;
+  filterSettings: FilterSettings;
+  timeline?: FilterTimeline; // Keyframed animation saved with the look, if any
+};
+
+export const PRESET_FILE_TYPE = 'pixelcam-preset';
+export const PRESET_FILE_VERSION = 1;
+
+// Query parameter that carries an encoded preset in share links
+export const PRESET_URL_PARAM = 'look';
+
+export const presetNameSchema = z.string().trim().min(1).max(60);
+
+// Settings may be partial (e.g. written by an older version); missing fields use the defaults
+export const presetFileSchema = z.object({
+  type: z.literal(PRESET_FILE_TYPE),
+  version: z.literal(PRESET_FILE_VERSION),
+  name: presetNameSchema,
+  filterSettings: filterSettingsSchema,
+  timeline: filterTimelineSchema.optional(),
+});
+
+function preset(id: string, name: string, changes: Partial<FilterSettings>): BuiltInPreset {
+  return { id, name, filterSettings: { ...DEFAULT_FILTER_SETTINGS, ...changes } };
+}
+
+export const BUILT_IN_PRESETS: BuiltInPreset[] = [
+  preset('classic', 'Classic', {}),
+  preset('newsprint', 'Newsprint', {
+    dotSize: 6,
+    contrast: 1.8,
+    useSecondLayer: false,
+    sampling: 'area',
+    screenAngle: 45,
+  }),
+  preset('cmyk-print', 'CMYK Print', {
+    dotSize: 8,
+    contrast: 1.2,
+    isGrayscale: false,
+    useSecondLayer: false,
+    sampling: 'area',
+    colorMode: 'cmyk',
+  }),
+  preset('rgb-glow', 'RGB Glow', {
+    dotSize: 12,
+    isGrayscale: false,
+    useSecondLayer: false,
+    colorMode: 'rgb',
+  }),
+  preset('honeycomb', 'Honeycomb', {
+    dotSize: 9,
+    dotShape: 'diamond',
+    useSecondLayer: false,
+    gridTopology: 'hex',
+  }),
+  preset('stipple', 'Stipple', {
+    dotSize: 4,
+    contrast: 1.3,
+    useSecondLayer: false,
+    sampling: 'area',
+    gridTopology: 'stochastic',
+  }),
+  preset('ascii', 'ASCII Art', {
+    dotSize: 12,
+    contrast: 1.6,
+    shapeBands: createAsciiBands(),
+    useSecondLayer: false,
+    sampling: 'area',
+  }),
+  preset('game-boy', 'Game Boy', {
+    effect: 'dither',
+    contrast: 1.2,
+    dither: { ...DEFAULT_FILTER_SETTINGS.dither, algorithm: 'bayer-4', palette: 'game-boy', pixelSize: 3 },
+  }),
+  preset('atkinson', '1-bit Atkinson', {
+    effect: 'dither',
+    dither: { ...DEFAULT_FILTER_SETTINGS.dither, algorithm: 'atkinson', palette: '1-bit', pixelSize: 2 },
+  }),
+];
+
+export function createPresetFile(name: string, filterSettings: FilterSettings, timeline?: FilterTimeline | null): PresetFile {
+  return {
+    type: PRESET_FILE_TYPE,
+    version: PRESET_FILE_VERSION,
+    name,
+    filterSettings,
+    ...(timeline && hasKeyframes(timeline) && { timeline }),
+  };
+}
+
+/**
+ * Validate parsed preset JSON, filling any missing settings from the defaults
+ * Returns null for anything that isn't a valid preset.
+ */
+export function parsePresetFile(data: unknown): PresetFile | null {
+  const result = presetFileSchema.safeParse(data);
+  if (!result.success) return null;
+
+  return createPresetFile(
+    result.data.name,
+    { ...DEFAULT_FILTER_SETTINGS, ...result.data.filterSettings },
+    result.data.timeline
+  );
+}
+
+/**
+ * Encode a preset as URL-safe base64 of its JSON
+ */
+export function encodePresetForUrl(preset: PresetFile): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(preset));
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodePresetFromUrl(value: string): PresetFile | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, character => character.charCodeAt(0));
+    return parsePresetFile(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Print layout
+ * Places a capture on a sheet of paper: the trim size, margins, bleed and
+ * crop marks, all in inches from the top-left of the sheet. Shared by the
+ * PDF and PNG print exports so both come out the same.
+ */
+
+import { getGridSize, type FilterSettings } from "./halftone";
+
+export type PaperSizeId = 'letter' | 'legal' | 'tabloid' | 'a5' | 'a4' | 'a3' | '4x6' | '5x7' | '8x10';
+
+export type PaperSize = {
+  id: PaperSizeId;
+  name: string;
+  width: number; // Inches, portrait
+  height: number;
+};
+
+const MM_PER_INCH = 25.4;
+
+export const PAPER_SIZES: PaperSize[] = [
+  { id: 'letter', name: 'Letter (8.5 × 11 in)', width: 8.5, height: 11 },
+  { id: 'legal', name: 'Legal (8.5 × 14 in)', width: 8.5, height: 14 },
+  { id: 'tabloid', name: 'Tabloid (11 × 17 in)', width: 11, height: 17 },
+  { id: 'a5', name: 'A5 (148 × 210 mm)', width: 148 / MM_PER_INCH, height: 210 / MM_PER_INCH },
+  { id: 'a4', name: 'A4 (210 × 297 mm)', width: 210 / MM_PER_INCH, height: 297 / MM_PER_INCH },
+  { id: 'a3', name: 'A3 (297 × 420 mm)', width: 297 / MM_PER_INCH, height: 420 / MM_PER_INCH },
+  { id: '4x6', name: 'Photo 4 × 6 in', width: 4, height: 6 },
+  { id: '5x7', name: 'Photo 5 × 7 in', width: 5, height: 7 },
+  { id: '8x10', name: 'Photo 8 × 10 in', width: 8, height: 10 },
+];
+
+// 'auto' turns the paper to match the capture
+export type PaperOrientation = 'auto' | 'portrait' | 'landscape';
+
+export type PrintSettings = {
+  paper: PaperSizeId;
+  orientation: PaperOrientation;
+  dpi: number; // Resolution of the PNG, and of anything the PDF can't draw as vectors
+  margin: number; // Inches kept clear inside the trim; 0 prints edge to edge into the bleed
+  bleed: number; // Inches the sheet extends past the trim on every side
+  cropMarks: boolean;
+  lpi: number | null; // Halftone lines per inch; null keeps the capture's dot size
+};
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  paper: 'letter',
+  orientation: 'auto',
+  dpi: 300,
+  margin: 0.5,
+  bleed: 0.125,
+  cropMarks: true,
+  lpi: null,
+};
+
+export const MIN_PRINT_DPI = 72;
+export const MAX_PRINT_DPI = 600;
+export const MIN_LPI = 5;
+export const MAX_LPI = 150;
+
+// Crop marks start this far outside the bleed, so trimming never leaves them on the print
+const CROP_MARK_GAP = 1 / 16;
+const CROP_MARK_LENGTH = 0.25;
+
+export type PrintRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * A straight line on the sheet: [x1, y1, x2, y2]
+ */
+export type PrintLine = [number, number, number, number];
+
+export type PrintLayout = {
+  width: number; // The whole sheet: trim, bleed and room for the crop marks
+  height: number;
+  dpi: number;
+  trim: PrintRect; // The finished print once cut
+  bleed: PrintRect; // Trim plus bleed
+  image: PrintRect; // Where the capture is drawn; edge-to-edge captures overflow the bleed
+  clip: PrintRect; // What of the image shows
+  cropMarks: PrintLine[];
+};
+
+function inset(rect: PrintRect, by: number): PrintRect {
+  return { x: rect.x + by, y: rect.y + by, width: rect.width - by * 2, height: rect.height - by * 2 };
+}
+
+// Centered in `box`, scaled to fit inside it (contain) or to fill it (cover)
+function fitInto(box: PrintRect, ratio: number, cover: boolean): PrintRect {
+  const wide = box.width / box.height < ratio;
+  const width = wide === cover ? box.height * ratio : box.width;
+  const height = width / ratio;
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Lay a capture of the given pixel size out on a sheet
+ * With no margin the capture fills the trim and runs on into the bleed,
+ * cropped to it; otherwise it's fitted whole inside the margins.
+ */
+export function computePrintLayout(settings: PrintSettings, imageWidth: number, imageHeight: number): PrintLayout {
+  const paper = PAPER_SIZES.find(size => size.id === settings.paper) ?? PAPER_SIZES[0];
+  const ratio = imageWidth / imageHeight;
+  const landscape = settings.orientation === 'auto' ? ratio > 1 : settings.orientation === 'landscape';
+  const trimWidth = landscape ? paper.height : paper.width;
+  const trimHeight = landscape ? paper.width : paper.height;
+
+  const bleed = Math.max(0, settings.bleed);
+  const slug = bleed + (settings.cropMarks ? CROP_MARK_GAP + CROP_MARK_LENGTH : 0);
+  const trim: PrintRect = { x: slug, y: slug, width: trimWidth, height: trimHeight };
+  const bleedRect = inset(trim, -bleed);
+
+  const margin = Math.min(Math.max(0, settings.margin), Math.min(trimWidth, trimHeight) / 2 - 0.1);
+  const edgeToEdge = margin <= 0;
+  const image = edgeToEdge ? fitInto(bleedRect, ratio, true) : fitInto(inset(trim, margin), ratio, false);
+
+  const cropMarks: PrintLine[] = [];
+  if (settings.cropMarks) {
+    const start = bleed + CROP_MARK_GAP;
+    const end = start + CROP_MARK_LENGTH;
+    for (const x of [trim.x, trim.x + trim.width]) {
+      for (const y of [trim.y, trim.y + trim.height]) {
+        // Each corner gets a horizontal and a vertical mark pointing away from the print
+        const outX = x === trim.x ? -1 : 1;
+        const outY = y === trim.y ? -1 : 1;
+        cropMarks.push([x + outX * start, y, x + outX * end, y]);
+        cropMarks.push([x, y + outY * start, x, y + outY * end]);
+      }
+    }
+  }
+
+  return {
+    width: trimWidth + slug * 2,
+    height: trimHeight + slug * 2,
+    dpi: settings.dpi,
+    trim,
+    bleed: bleedRect,
+    image,
+    clip: edgeToEdge ? bleedRect : image,
+    cropMarks,
+  };
+}
+
+/**
+ * Screen ruling that keeps a capture's dot size when printed
+ * Filter settings are measured against the capture's source pixels, so this
+ * is how many of its grid cells land in an inch of the print.
+ */
+export function captureLpi(filterSettings: FilterSettings, layout: PrintLayout, sourceWidth: number): number {
+  return sourceWidth / (getGridSize(filterSettings) * layout.image.width);
+}
+
+/**
+ * Scale to render the capture's settings with, for an image `pixelWidth`
+ * pixels across on the print (see planHalftone)
+ * A screen ruling sets the grid to that many cells per inch instead.
+ */
+export function printRenderScale(
+  filterSettings: FilterSettings,
+  lpi: number | null,
+  layout: PrintLayout,
+  sourceWidth: number,
+  pixelWidth: number
+): number {
+  const lines = lpi ?? captureLpi(filterSettings, layout, sourceWidth);
+  const cellPixels = pixelWidth / (layout.image.width * lines);
+  return cellPixels / getGridSize(filterSettings);
+}
+
+/**
+ * Pixel size of the whole sheet at the layout's DPI, as the PNG export draws it
+ */
+export function sheetPixelSize(layout: PrintLayout): { width: number; height: number } {
+  return {
+    width: Math.round(layout.width * layout.dpi),
+    height: Math.round(layout.height * layout.dpi),
+  };
+}
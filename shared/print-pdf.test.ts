@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { deflateSync, inflateSync } from "zlib";
+import type { HalftonePlan } from "./halftone";
+import { computePrintLayout, DEFAULT_PRINT_SETTINGS } from "./print-layout";
+import { createPrintPdf, supportsVectorPdf, type PdfStreamWriter } from "./print-pdf";
+import { getShape } from "./shapes";
+
+const layout = computePrintLayout(DEFAULT_PRINT_SETTINGS, 400, 300);
+
+// Plan with a grid of equal circle dots on one layer
+function dotPlan(columns: number, rows: number, blendMode: HalftonePlan["layers"][number]["blendMode"] = "source-over"): HalftonePlan {
+  const dots = new Float32Array(columns * rows * 3);
+  for (let i = 0; i < columns * rows; i++) {
+    dots.set([(i % columns) * 4 + 2, Math.floor(i / columns) * 4 + 2, 1.5], i * 3);
+  }
+  return {
+    width: columns * 4,
+    height: rows * 4,
+    gridSize: 4,
+    background: "#ffffff",
+    layers: [{ shape: getShape("circle")!, color: "#000000", alpha: 1, blendMode, count: columns * rows, dots }],
+  };
+}
+
+// Deflating writer that records the size of every chunk it's given
+function recordingDeflate(writes: number[]): () => PdfStreamWriter {
+  return () => {
+    const chunks: Uint8Array[] = [];
+    return {
+      write: async chunk => {
+        writes.push(chunk.length);
+        chunks.push(chunk);
+      },
+      close: async () => deflateSync(Buffer.concat(chunks)),
+    };
+  };
+}
+
+function contentStream(pdf: Uint8Array): Buffer {
+  const file = Buffer.from(pdf);
+  const header = file.indexOf("4 0 obj");
+  const length = Number(/\/Length (\d+)/.exec(file.toString("latin1", header, header + 100))![1]);
+  const start = file.indexOf("stream\n", header) + "stream\n".length;
+  return file.subarray(start, start + length);
+}
+
+describe("createPrintPdf", () => {
+  it("writes big halftones out in chunks instead of one string", async () => {
+    const writes: number[] = [];
+    const plan = dotPlan(200, 100);
+    const pdf = await createPrintPdf(layout, { type: "vector", plan }, recordingDeflate(writes));
+
+    assert.ok(writes.length > 1);
+    assert.ok(writes.every(length => length < 100_000));
+
+    // Every dot's subpath arrives whole
+    const operators = inflateSync(contentStream(pdf)).toString("latin1").trim().split("\n");
+    assert.equal(operators.filter(line => line.endsWith(" m")).length, 200 * 100);
+    assert.ok(operators.every(line => /(^| )(m|l|c|h|re|f|Q|q|cm|rg|RG|gs|w|S|n)$/.test(line)));
+  });
+
+  it("points the cross-reference table at every object", async () => {
+    const pdf = Buffer.from(await createPrintPdf(layout, { type: "vector", plan: dotPlan(20, 10) }));
+    const text = pdf.toString("latin1");
+    const startxref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    assert.ok(text.startsWith("xref", startxref));
+
+    const offsets = text.slice(startxref).match(/^\d{10} 00000 n $/gm)!.map(entry => Number(entry.slice(0, 10)));
+    assert.equal(offsets.length, 4);
+    offsets.forEach((offset, index) => assert.ok(text.startsWith(`${index + 1} 0 obj`, offset)));
+  });
+
+  it("embeds JPEG artwork as an image", async () => {
+    const data = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+    const pdf = Buffer.from(await createPrintPdf(layout, { type: "jpeg", data, width: 400, height: 300 }));
+    const text = pdf.toString("latin1");
+    assert.match(text, /\/Subtype \/Image \/Width 400 \/Height 300 .*\/Filter \/DCTDecode \/Length 4 >>/);
+    assert.match(contentStream(pdf).toString("latin1"), /\/Im0 Do Q/);
+  });
+
+  it("leaves additive layers to be rasterized", () => {
+    assert.ok(supportsVectorPdf(dotPlan(2, 2)));
+    assert.ok(!supportsVectorPdf(dotPlan(2, 2, "lighter")));
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Print PDF
+ * Writes a single-page PDF of a print layout. Halftones go in as vector
+ * dots, one filled path per layer; anything else is embedded as a JPEG.
+ */
+
+import { parseHexColor, type BlendMode, type HalftonePlan } from "./halftone";
+import type { PrintLayout, PrintRect } from "./print-layout";
+import { roundTo, type ShapePath } from "./shapes";
+
+export type PdfArtwork =
+  | { type: 'vector'; plan: HalftonePlan }
+  | { type: 'jpeg'; data: Uint8Array; width: number; height: number };
+
+/**
+ * Destination for a stream's data, written a chunk at a time
+ * `close` returns the stream's bytes as they go in the file.
+ */
+export type PdfStreamWriter = {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<Uint8Array>;
+};
+
+// Opens a zlib-wrapped deflate for a FlateDecode stream
+export type PdfCompressor = () => PdfStreamWriter;
+
+// PDF blend modes of the canvas composite operations layers use; 'lighter' has none
+const PDF_BLEND_MODES: Partial<Record<BlendMode, string>> = {
+  'source-over': 'Normal',
+  multiply: 'Multiply',
+  screen: 'Screen',
+  darken: 'Darken',
+  lighten: 'Lighten',
+};
+
+const POINTS_PER_INCH = 72;
+
+// Crop marks are quarter-point black hairlines
+const CROP_MARK_WIDTH = 0.25 / POINTS_PER_INCH;
+
+// Content operators are encoded and written out in pieces of about this many characters
+const CONTENT_CHUNK_LENGTH = 1 << 16;
+
+/**
+ * Whether a plan can be drawn as PDF vectors
+ * Additive ('lighter') layers have no PDF blend mode, so those go in as pixels
+ */
+export function supportsVectorPdf(plan: HalftonePlan): boolean {
+  return plan.layers.every(layer => layer.count === 0 || layer.blendMode in PDF_BLEND_MODES);
+}
+
+function num(value: number, precision = 4): string {
+  return String(roundTo(value, precision));
+}
+
+function colorOperands(color: string): string {
+  return parseHexColor(color).map(channel => num(channel, 3)).join(' ');
+}
+
+function rectOperands(rect: PrintRect): string {
+  return `${num(rect.x)} ${num(rect.y)} ${num(rect.width)} ${num(rect.height)}`;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, position);
+    position += chunk.length;
+  }
+  return bytes;
+}
+
+// Stream writer that stores the data as it is
+function uncompressed(): PdfStreamWriter {
+  const chunks: Uint8Array[] = [];
+  return {
+    write: async chunk => {
+      chunks.push(chunk);
+    },
+    close: async () => concatBytes(chunks),
+  };
+}
+
+/**
+ * Content stream operators, one per line, written out as they fill a chunk
+ * Halftones at print size run to millions of dots, far more text than a
+ * single string can hold.
+ */
+class ContentWriter {
+  private lines: string[] = [];
+  private length = 0;
+  private encoder = new TextEncoder();
+
+  constructor(private stream: PdfStreamWriter) {}
+
+  line(text: string): void {
+    this.lines.push(text);
+    this.length += text.length + 1;
+  }
+
+  get full(): boolean {
+    return this.length >= CONTENT_CHUNK_LENGTH;
+  }
+
+  async flush(): Promise<void> {
+    if (this.lines.length === 0) return;
+    const chunk = this.encoder.encode(this.lines.join('\n') + '\n');
+    this.lines = [];
+    this.length = 0;
+    await this.stream.write(chunk);
+  }
+}
+
+/**
+ * ShapePath that records PDF path operators
+ * Arcs and ellipses become cubic Béziers of at most a quarter turn each.
+ */
+class PdfPath implements ShapePath {
+  private current: [number, number] | null = null;
+
+  constructor(private content: ContentWriter, private precision: number) {}
+
+  private point(x: number, y: number): string {
+    return `${num(x, this.precision)} ${num(y, this.precision)}`;
+  }
+
+  moveTo(x: number, y: number): void {
+    this.content.line(`${this.point(x, y)} m`);
+    this.current = [x, y];
+  }
+
+  lineTo(x: number, y: number): void {
+    if (!this.current) {
+      this.moveTo(x, y);
+      return;
+    }
+    this.content.line(`${this.point(x, y)} l`);
+    this.current = [x, y];
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number): void {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle);
+  }
+
+  ellipse(
+    x: number, y: number,
+    radiusX: number, radiusY: number,
+    rotation: number, startAngle: number, endAngle: number
+  ): void {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    // Point and tangent on the ellipse at an angle, rotated into place
+    const at = (angle: number, k: number, forward: boolean) => {
+      const px = radiusX * Math.cos(angle);
+      const py = radiusY * Math.sin(angle);
+      const direction = forward ? k : -k;
+      const tx = px - direction * radiusX * Math.sin(angle);
+      const ty = py + direction * radiusY * Math.cos(angle);
+      return {
+        point: [x + px * cos - py * sin, y + px * sin + py * cos],
+        control: [x + tx * cos - ty * sin, y + tx * sin + ty * cos],
+      };
+    };
+
+    const sweep = Math.min(endAngle - startAngle, Math.PI * 2);
+    if (sweep <= 0) return;
+    const segments = Math.ceil(sweep / (Math.PI / 2) - 1e-9);
+    const step = sweep / segments;
+    const k = (4 / 3) * Math.tan(step / 4);
+
+    // Like the canvas, join the arc to the current point; shapes usually start there already
+    const start = at(startAngle, k, true).point;
+    if (!this.current || Math.hypot(start[0] - this.current[0], start[1] - this.current[1]) > 1e-6) {
+      this.lineTo(start[0], start[1]);
+    }
+    for (let i = 0; i < segments; i++) {
+      const from = at(startAngle + step * i, k, true);
+      const to = at(startAngle + step * (i + 1), k, false);
+      this.content.line(
+        `${this.point(from.control[0], from.control[1])} ${this.point(to.control[0], to.control[1])} ${this.point(to.point[0], to.point[1])} c`
+      );
+      this.current = [to.point[0], to.point[1]];
+    }
+  }
+
+  rect(x: number, y: number, width: number, height: number): void {
+    this.content.line(`${this.point(x, y)} ${this.point(width, height)} re`);
+    this.current = [x, y];
+  }
+
+  closePath(): void {
+    this.content.line('h');
+  }
+}
+
+/**
+ * Write the content stream operators for the artwork, drawn into the layout's image rect
+ */
+async function writeArtwork(
+  content: ContentWriter,
+  layout: PrintLayout,
+  artwork: PdfArtwork,
+  graphicsStates: string[]
+): Promise<void> {
+  const { image } = layout;
+
+  if (artwork.type === 'jpeg') {
+    // Image space is a unit square with y up; the page is in inches with y down
+    content.line(`q ${num(image.width)} 0 0 ${num(-image.height)} ${num(image.x)} ${num(image.y + image.height)} cm /Im0 Do Q`);
+    return;
+  }
+
+  const { plan } = artwork;
+  content.line(`q ${num(image.width / plan.width, 8)} 0 0 ${num(image.height / plan.height, 8)} ${num(image.x)} ${num(image.y)} cm`);
+  content.line(`${colorOperands(plan.background)} rg 0 0 ${plan.width} ${plan.height} re f`);
+
+  for (const layer of plan.layers) {
+    if (layer.count === 0) continue;
+
+    const state = `<< /ca ${num(layer.alpha, 3)} /BM /${PDF_BLEND_MODES[layer.blendMode] ?? 'Normal'} >>`;
+    let index = graphicsStates.indexOf(state);
+    if (index === -1) {
+      index = graphicsStates.length;
+      graphicsStates.push(state);
+    }
+
+    content.line(`q /GS${index} gs ${colorOperands(layer.color)} rg`);
+    const path = new PdfPath(content, 2);
+    for (let i = 0; i < layer.count * 3; i += 3) {
+      layer.shape.trace(path, layer.dots[i], layer.dots[i + 1], layer.dots[i + 2]);
+      if (content.full) await content.flush();
+    }
+    content.line('f Q');
+  }
+
+  content.line('Q');
+}
+
+/**
+ * Write a print layout as a PDF
+ * The page is the whole sheet, with trim and bleed boxes set for the printer.
+ * `compress` deflates the content stream as it's written; without it the
+ * stream is stored as it is.
+ */
+export async function createPrintPdf(
+  layout: PrintLayout,
+  artwork: PdfArtwork,
+  compress?: PdfCompressor
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pageHeight = layout.height * POINTS_PER_INCH;
+  const box = (rect: PrintRect) => [
+    rect.x * POINTS_PER_INCH,
+    pageHeight - (rect.y + rect.height) * POINTS_PER_INCH,
+    (rect.x + rect.width) * POINTS_PER_INCH,
+    pageHeight - rect.y * POINTS_PER_INCH,
+  ].map(value => num(value, 3)).join(' ');
+
+  const graphicsStates: string[] = [];
+  const stream = compress ? compress() : uncompressed();
+  const operators = new ContentWriter(stream);
+  // Inches from the top-left of the sheet, like the layout
+  operators.line(`q ${POINTS_PER_INCH} 0 0 ${-POINTS_PER_INCH} 0 ${num(pageHeight, 3)} cm`);
+  operators.line(`q ${rectOperands(layout.clip)} re W n`);
+  await writeArtwork(operators, layout, artwork, graphicsStates);
+  operators.line('Q');
+  if (layout.cropMarks.length > 0) {
+    operators.line(`0 0 0 RG ${num(CROP_MARK_WIDTH, 6)} w`);
+    for (const [x1, y1, x2, y2] of layout.cropMarks) {
+      operators.line(`${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+    }
+  }
+  operators.line('Q');
+  await operators.flush();
+
+  const content = await stream.close();
+  const contentFilter = compress ? ' /Filter /FlateDecode' : '';
+
+  const extGState = graphicsStates.map((state, index) => `/GS${index} ${state}`).join(' ');
+  const resources = [
+    extGState && `/ExtGState << ${extGState} >>`,
+    artwork.type === 'jpeg' && '/XObject << /Im0 5 0 R >>',
+  ].filter(Boolean).join(' ');
+
+  // Objects in order from 1; streams are [dictionary, data]
+  const objects: (string | [string, Uint8Array])[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [${box({ x: 0, y: 0, width: layout.width, height: layout.height })}]` +
+      ` /BleedBox [${box(layout.bleed)}] /TrimBox [${box(layout.trim)}]` +
+      ` /Resources << ${resources} >> /Contents 4 0 R >>`,
+    [`<< /Length ${content.length}${contentFilter} >>`, content],
+  ];
+  if (artwork.type === 'jpeg') {
+    objects.push([
+      `<< /Type /XObject /Subtype /Image /Width ${artwork.width} /Height ${artwork.height}` +
+        ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${artwork.data.length} >>`,
+      artwork.data,
+    ]);
+  }
+
+  // Binary comment in the header marks the file as binary for transfer tools
+  const chunks: Uint8Array[] = [encoder.encode('%PDF-1.4\n%âãÏÓ\n')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  const push = (chunk: Uint8Array) => {
+    chunks.push(chunk);
+    offset += chunk.length;
+  };
+
+  objects.forEach((object, index) => {
+    offsets.push(offset);
+    if (typeof object === 'string') {
+      push(encoder.encode(`${index + 1} 0 obj\n${object}\nendobj\n`));
+    } else {
+      push(encoder.encode(`${index + 1} 0 obj\n${object[0]}\nstream\n`));
+      push(object[1]);
+      push(encoder.encode('\nendstream\nendobj\n'));
+    }
+  });
+
+  // Cross-reference entries are exactly 20 bytes each
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(position => `${String(position).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ];
+  push(encoder.encode(xref.join('\n') + '\n'));
+
+  return concatBytes(chunks);
+}
@@ -1,10 +1,16 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, jsonb, real, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { FilterSettings } from "./halftone";
+import { completeFilterSettingsSchema } from "./filter-settings";
+import { presetNameSchema } from "./presets";
+import { albumNameSchema } from "./gallery";
+import { filterTimelineSchema, type FilterTimeline } from "./timeline";
 
 // Define enums
 export const authProviderEnum = pgEnum('auth_provider', ['local', 'google', 'github']);
 export const subscriptionStatusEnum = pgEnum('subscription_status', ['free', 'active', 'cancelled', 'expired']);
+export const mediaSourceTypeEnum = pgEnum('media_source_type', ['webcam', 'mobile-camera', 'uploaded-image', 'uploaded-video']);
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -21,14 +27,84 @@ export const users = pgTable("users", {
   lastLogin: timestamp("last_login"),
 });
 
+// Named collections in a user's gallery; each capture is in at most one
+export const albums = pgTable("albums", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const capturedMedia = pgTable("captured_media", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   mediaType: text("media_type").notNull(), // 'image' or 'video'
-  mediaUrl: text("media_url").notNull(),
+  mediaUrl: text("media_url"), // Legacy rows only; uploads live in the blob store under storageKey
+  storageKey: text("storage_key"),
+  thumbnailKey: text("thumbnail_key"),
+  mimeType: text("mime_type"),
+  size: integer("size"), // Bytes
+  width: integer("width"),
+  height: integer("height"),
+  duration: real("duration"), // Seconds, videos only
+  sourceType: mediaSourceTypeEnum("source_type"),
+  sourceWidth: integer("source_width"),
+  sourceHeight: integer("source_height"),
+  sourceTakenAt: timestamp("source_taken_at"), // When the original photo was taken, kept only if the user chose to
+  sourceKey: text("source_key"), // Unprocessed frame the halftone was rendered from, in the blob store
+  sourceUrl: text("source_url"), // Legacy rows only; same as sourceKey, but inline
+  filterSettings: jsonb("filter_settings").$type<FilterSettings>(),
+  albumId: integer("album_id").references(() => albums.id, { onDelete: "set null" }), // Deleting an album keeps its captures
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
 
+// Free-form labels on captures, lowercase
+export const mediaTags = pgTable("media_tags", {
+  mediaId: integer("media_id").references(() => capturedMedia.id, { onDelete: "cascade" }).notNull(),
+  tag: text("tag").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.mediaId, table.tag] }),
+]);
+
+// Re-renders of a capture from its stored original, oldest first
+export const mediaVersions = pgTable("media_versions", {
+  id: serial("id").primaryKey(),
+  mediaId: integer("media_id").references(() => capturedMedia.id, { onDelete: "cascade" }).notNull(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  filterSettings: jsonb("filter_settings").$type<FilterSettings>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Public links to a capture or an album; revoked links are kept for their view counts
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  token: text("token").notNull().unique(),
+  mediaId: integer("media_id").references(() => capturedMedia.id, { onDelete: "cascade" }), // Either this
+  albumId: integer("album_id").references(() => albums.id, { onDelete: "cascade" }), // or this
+  passwordHash: text("password_hash"),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  viewCount: integer("view_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const filterPresets = pgTable("filter_presets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  filterSettings: jsonb("filter_settings").$type<FilterSettings>().notNull(),
+  timeline: jsonb("timeline").$type<FilterTimeline>(), // Keyframed animation, if the preset has one
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const subscriptions = pgTable("subscriptions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -49,7 +125,7 @@ export const sessions = pgTable("sessions", {
 });
 
 // Define a transaction type enum
-export const transactionTypeEnum = pgEnum('transaction_type', ['purchase', 'usage']);
+export const transactionTypeEnum = pgEnum('transaction_type', ['purchase', 'usage', 'refund']);
 
 // Create a transactions table to track credit purchases and usage
 export const transactions = pgTable("transactions", {
@@ -62,6 +138,26 @@ export const transactions = pgTable("transactions", {
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+// Credits set aside for a batch of client-side processing, settled once the batch ends
+export const creditReservations = pgTable("credit_reservations", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id), // Null for anonymous debug-mode batches
+  sessionId: text("session_id").notNull(), // Only the session that reserved can report and settle
+  debug: boolean("debug").notNull().default(false), // Charged to the simulated debug credits
+  items: integer("items").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  settledAt: timestamp("settled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Items of a reservation reported as processed, each counted once
+export const creditReservationItems = pgTable("credit_reservation_items", {
+  reservationId: text("reservation_id").references(() => creditReservations.id, { onDelete: "cascade" }).notNull(),
+  item: integer("item").notNull(), // Position in the batch, from 0
+}, (table) => [
+  primaryKey({ columns: [table.reservationId, table.item] }),
+]);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   email: true,
@@ -73,10 +169,67 @@ export const insertUserSchema = createInsertSchema(users).pick({
   stripeCustomerId: true,
 });
 
-export const insertCapturedMediaSchema = createInsertSchema(capturedMedia).pick({
+export const insertCapturedMediaSchema = createInsertSchema(capturedMedia, {
+  filterSettings: completeFilterSettingsSchema.nullable().optional(),
+}).pick({
   userId: true,
   mediaType: true,
   mediaUrl: true,
+  storageKey: true,
+  thumbnailKey: true,
+  mimeType: true,
+  size: true,
+  width: true,
+  height: true,
+  duration: true,
+  sourceType: true,
+  sourceWidth: true,
+  sourceHeight: true,
+  sourceTakenAt: true,
+  sourceKey: true,
+  sourceUrl: true,
+  filterSettings: true,
+  albumId: true,
+});
+
+export const insertAlbumSchema = createInsertSchema(albums, {
+  name: albumNameSchema,
+}).pick({
+  userId: true,
+  name: true,
+});
+
+export const insertMediaVersionSchema = createInsertSchema(mediaVersions, {
+  filterSettings: completeFilterSettingsSchema,
+}).pick({
+  mediaId: true,
+  storageKey: true,
+  thumbnailKey: true,
+  mimeType: true,
+  size: true,
+  width: true,
+  height: true,
+  filterSettings: true,
+});
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks).pick({
+  userId: true,
+  token: true,
+  mediaId: true,
+  albumId: true,
+  passwordHash: true,
+  expiresAt: true,
+});
+
+export const insertFilterPresetSchema = createInsertSchema(filterPresets, {
+  name: presetNameSchema,
+  filterSettings: completeFilterSettingsSchema,
+  timeline: filterTimelineSchema.nullable(),
+}).pick({
+  userId: true,
+  name: true,
+  filterSettings: true,
+  timeline: true,
 });
 
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).pick({
@@ -96,11 +249,35 @@ export const insertTransactionSchema = createInsertSchema(transactions).pick({
   stripePaymentIntentId: true,
 });
 
+export const insertCreditReservationSchema = createInsertSchema(creditReservations).pick({
+  id: true,
+  userId: true,
+  sessionId: true,
+  debug: true,
+  items: true,
+  expiresAt: true,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
 export type InsertCapturedMedia = z.infer<typeof insertCapturedMediaSchema>;
 export type CapturedMedia = typeof capturedMedia.$inferSelect;
+export type MediaSourceType = typeof mediaSourceTypeEnum.enumValues[number];
+
+export type InsertAlbum = z.infer<typeof insertAlbumSchema>;
+export type Album = typeof albums.$inferSelect;
+
+export type MediaTag = typeof mediaTags.$inferSelect;
+
+export type InsertMediaVersion = z.infer<typeof insertMediaVersionSchema>;
+export type MediaVersion = typeof mediaVersions.$inferSelect;
+
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
+
+export type InsertFilterPreset = z.infer<typeof insertFilterPresetSchema>;
+export type FilterPreset = typeof filterPresets.$inferSelect;
 
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
@@ -108,4 +285,7 @@ export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 
+export type InsertCreditReservation = z.infer<typeof insertCreditReservationSchema>;
+export type CreditReservation = typeof creditReservations.$inferSelect;
+
 export type Session = typeof sessions.$inferSelect;
@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ASCII_RAMP,
+  CUSTOM_SHAPE_PREFIX,
+  GLYPH_SHAPE_PREFIX,
+  createAsciiBands,
+  createPathShape,
+  getShape,
+  listShapes,
+  registerShape,
+  resolveShape,
+  type ShapePath,
+  type ShapeRenderer,
+} from "./shapes";
+
+// ShapePath that counts the subpaths a shape traces
+function countingPath(): ShapePath & { subpaths: number } {
+  const path = {
+    subpaths: 0,
+    moveTo() {},
+    lineTo() {},
+    arc() { path.subpaths++; },
+    ellipse() { path.subpaths++; },
+    rect() { path.subpaths++; },
+    closePath() { path.subpaths++; },
+  };
+  return path;
+}
+
+describe("shape registry", () => {
+  it("lists the built-in shapes without glyphs unless asked", () => {
+    const names = listShapes().map(shape => shape.name);
+    assert.ok(names.includes("circle"));
+    assert.ok(names.includes("square"));
+    assert.ok(names.every(name => !name.startsWith(GLYPH_SHAPE_PREFIX)));
+    assert.ok(listShapes(true).some(shape => shape.name.startsWith(GLYPH_SHAPE_PREFIX)));
+  });
+
+  it("falls back to circles for unknown names", () => {
+    assert.equal(resolveShape("no-such-shape").name, "circle");
+    assert.equal(resolveShape(`${CUSTOM_SHAPE_PREFIX}missing`).name, "circle");
+  });
+
+  it("registers new shapes by name", () => {
+    const shape: ShapeRenderer = {
+      ...getShape("square")!,
+      name: "test-square",
+      label: "Test square",
+    };
+    registerShape(shape);
+    assert.equal(getShape("test-square"), shape);
+    assert.equal(resolveShape("test-square"), shape);
+  });
+
+  it("builds custom shapes from SVG path data", () => {
+    const customShapes = [{ name: "tri", path: "M0 0 L10 0 L5 10 Z" }];
+    const shape = resolveShape(`${CUSTOM_SHAPE_PREFIX}tri`, customShapes);
+
+    assert.equal(shape.name, `${CUSTOM_SHAPE_PREFIX}tri`);
+    assert.equal(shape.convex, false);
+    assert.ok(shape.contains(0, 0, 10));
+    assert.ok(!shape.contains(20, 20, 10));
+    // The same path data reuses the compiled shape
+    assert.equal(createPathShape(customShapes[0]), shape);
+  });
+
+  it("rejects path data it can't parse", () => {
+    assert.equal(createPathShape({ name: "broken", path: "not a path" }), null);
+    assert.equal(resolveShape(`${CUSTOM_SHAPE_PREFIX}broken`, [{ name: "broken", path: "not a path" }]).name, "circle");
+  });
+
+  it("keeps every shape inside its cell and centered on the dot", () => {
+    // Walk the square just outside the dot's bounds; lines run on to join their neighbors
+    for (const shape of listShapes(true).filter(entry => entry.name !== "line")) {
+      for (let along = -10.5; along <= 10.5; along += 0.5) {
+        for (const [dx, dy] of [[along, -10.5], [along, 10.5], [-10.5, along], [10.5, along]]) {
+          assert.ok(!shape.contains(dx, dy, 10), `${shape.name} reaches past its radius`);
+        }
+      }
+    }
+    for (const name of ["circle", "square", "diamond"]) {
+      assert.ok(getShape(name)!.contains(0, 0, 10), `${name} misses its center`);
+    }
+  });
+
+  it("traces closed subpaths and serializes to SVG", () => {
+    for (const shape of listShapes()) {
+      const path = countingPath();
+      shape.trace(path, 20, 20, 10);
+      assert.ok(path.subpaths > 0, `${shape.name} traces nothing`);
+      assert.match(shape.toSvg(20, 20, 10, 2), /^<(path|circle|rect|ellipse|polygon)\b/);
+    }
+  });
+});
+
+describe("createAsciiBands", () => {
+  it("maps the ramp onto even brightness bands, darkest first", () => {
+    const bands = createAsciiBands();
+    assert.equal(bands.length, ASCII_RAMP.length);
+    assert.deepEqual(bands[0], { upTo: 1 / ASCII_RAMP.length, shape: `${GLYPH_SHAPE_PREFIX} ` });
+    assert.equal(bands[bands.length - 1].upTo, 1);
+  });
+
+  it("skips characters without a glyph", () => {
+    const bands = createAsciiBands(".é@");
+    assert.deepEqual(bands.map(band => band.shape), [`${GLYPH_SHAPE_PREFIX}.`, `${GLYPH_SHAPE_PREFIX}@`]);
+  });
+});
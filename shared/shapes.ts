@@ -0,0 +1,413 @@
+/**
+ * Dot shape registry
+ * Every dot shape is a named renderer that can trace itself onto a canvas
+ * path, hit-test points for the software rasterizer and serialize to SVG, so
+ * all three outputs stay in step. Custom shapes come from user SVG paths and
+ * travel with FilterSettings; glyph shapes back the ASCII-art mode.
+ */
+
+import { parseSvgPath } from "./svg-path";
+
+/**
+ * Path-building subset of the canvas API that shapes trace onto
+ */
+export type ShapePath = {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number): void;
+  ellipse(
+    x: number, y: number,
+    radiusX: number, radiusY: number,
+    rotation: number, startAngle: number, endAngle: number
+  ): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  closePath(): void;
+};
+
+export type ShapeRenderer = {
+  name: string;
+  label: string;
+  // Whether a pixel with all four corners inside is fully covered (rasterizer fast path)
+  convex: boolean;
+  // Drawn at full size regardless of brightness; the shape itself carries the tone
+  fixedSize?: boolean;
+  // Append the dot as closed subpaths; the caller fills all dots of a layer at once
+  trace(path: ShapePath, x: number, y: number, radius: number): void;
+  contains(dx: number, dy: number, radius: number): boolean;
+  toSvg(x: number, y: number, radius: number, precision: number): string;
+};
+
+/**
+ * Shape used for dots whose brightness (0-1) is at most `upTo`
+ */
+export type ShapeBand = {
+  upTo: number;
+  shape: string;
+};
+
+/**
+ * User-supplied shape from SVG path data, referenced as `custom:<name>`
+ */
+export type CustomShape = {
+  name: string;
+  path: string;
+};
+
+export const CUSTOM_SHAPE_PREFIX = 'custom:';
+export const GLYPH_SHAPE_PREFIX = 'char:';
+
+// Characters ordered from darkest to brightest for ASCII art
+export const ASCII_RAMP = ' .:-=+*#%@';
+
+export function roundTo(value: number, precision: number): number {
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor;
+}
+
+const registry = new Map<string, ShapeRenderer>();
+
+export function registerShape(shape: ShapeRenderer): void {
+  registry.set(shape.name, shape);
+}
+
+export function getShape(name: string): ShapeRenderer | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Registered shapes, optionally without the glyphs
+ */
+export function listShapes(includeGlyphs = false): ShapeRenderer[] {
+  return Array.from(registry.values())
+    .filter(shape => includeGlyphs || !shape.name.startsWith(GLYPH_SHAPE_PREFIX));
+}
+
+/**
+ * Shape made of closed polygons in unit coordinates (scaled by the dot radius)
+ */
+function createPolygonShape(
+  name: string,
+  label: string,
+  polygons: number[][],
+  convex: boolean
+): ShapeRenderer {
+  return {
+    name,
+    label,
+    convex,
+    trace(path, x, y, radius) {
+      for (const polygon of polygons) {
+        path.moveTo(x + polygon[0] * radius, y + polygon[1] * radius);
+        for (let i = 2; i < polygon.length; i += 2) {
+          path.lineTo(x + polygon[i] * radius, y + polygon[i + 1] * radius);
+        }
+        path.closePath();
+      }
+    },
+    contains(dx, dy, radius) {
+      // Nonzero winding rule, matching the canvas and SVG default fill rule
+      const px = dx / radius;
+      const py = dy / radius;
+      let winding = 0;
+
+      for (const polygon of polygons) {
+        for (let i = 0; i < polygon.length; i += 2) {
+          const x1 = polygon[i];
+          const y1 = polygon[i + 1];
+          const x2 = polygon[(i + 2) % polygon.length];
+          const y2 = polygon[(i + 3) % polygon.length];
+          const side = (x2 - x1) * (py - y1) - (px - x1) * (y2 - y1);
+
+          if (y1 <= py) {
+            if (y2 > py && side > 0) winding++;
+          } else if (y2 <= py && side < 0) {
+            winding--;
+          }
+        }
+      }
+
+      return winding !== 0;
+    },
+    toSvg(x, y, radius, precision) {
+      const d = polygons.map(polygon => {
+        const points: string[] = [];
+        for (let i = 0; i < polygon.length; i += 2) {
+          points.push(`${roundTo(x + polygon[i] * radius, precision)} ${roundTo(y + polygon[i + 1] * radius, precision)}`);
+        }
+        return `M${points.join('L')}Z`;
+      }).join('');
+      return `<path d="${d}"/>`;
+    },
+  };
+}
+
+/**
+ * Points on a regular star or polygon, clockwise from the top
+ */
+function radialPolygon(points: number, outer: number, inner: number = outer): number[] {
+  const polygon: number[] = [];
+  const steps = inner === outer ? points : points * 2;
+  for (let i = 0; i < steps; i++) {
+    const radius = i % 2 === 1 && inner !== outer ? inner : outer;
+    const angle = -Math.PI / 2 + (i / steps) * Math.PI * 2;
+    polygon.push(Math.cos(angle) * radius, Math.sin(angle) * radius);
+  }
+  return polygon;
+}
+
+/**
+ * Classic parametric heart, centered and scaled to a unit box
+ */
+function heartPolygon(): number[] {
+  const raw: number[] = [];
+  const steps = 32;
+  for (let i = 0; i < steps; i++) {
+    const t = (i / steps) * Math.PI * 2;
+    raw.push(
+      16 * Math.sin(t) ** 3,
+      -(13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t))
+    );
+  }
+  return normalizePolygons([raw], 0.95)[0];
+}
+
+/**
+ * Center polygons on the origin and scale their bounding box to `extent`
+ */
+function normalizePolygons(polygons: number[][], extent: number): number[][] {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i += 2) {
+      minX = Math.min(minX, polygon[i]);
+      maxX = Math.max(maxX, polygon[i]);
+      minY = Math.min(minY, polygon[i + 1]);
+      maxY = Math.max(maxY, polygon[i + 1]);
+    }
+  }
+
+  const size = Math.max(maxX - minX, maxY - minY) || 1;
+  const scale = (extent * 2) / size;
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+
+  return polygons.map(polygon => polygon.map((value, i) =>
+    (value - (i % 2 === 0 ? centerX : centerY)) * scale
+  ));
+}
+
+// 5x7 bitmap font for the characters usable in ASCII-art bands
+const GLYPH_ROWS = 7;
+const GLYPH_COLUMNS = 5;
+const GLYPHS: Record<string, string[]> = {
+  ' ': ['.....', '.....', '.....', '.....', '.....', '.....', '.....'],
+  '.': ['.....', '.....', '.....', '.....', '.....', '..#..', '..#..'],
+  ':': ['.....', '..#..', '..#..', '.....', '..#..', '..#..', '.....'],
+  '-': ['.....', '.....', '.....', '#####', '.....', '.....', '.....'],
+  '=': ['.....', '.....', '#####', '.....', '#####', '.....', '.....'],
+  '+': ['.....', '..#..', '..#..', '#####', '..#..', '..#..', '.....'],
+  '*': ['.....', '#.#.#', '.###.', '#####', '.###.', '#.#.#', '.....'],
+  '#': ['.#.#.', '.#.#.', '#####', '.#.#.', '#####', '.#.#.', '.#.#.'],
+  '%': ['##...', '##..#', '...#.', '..#..', '.#...', '#..##', '...##'],
+  '@': ['.###.', '#...#', '#.###', '#.#.#', '#.###', '#....', '.####'],
+  'o': ['.....', '.....', '.###.', '#...#', '#...#', '#...#', '.###.'],
+  'O': ['.###.', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+  'x': ['.....', '.....', '#...#', '.#.#.', '..#..', '.#.#.', '#...#'],
+  'X': ['#...#', '#...#', '.#.#.', '..#..', '.#.#.', '#...#', '#...#'],
+  '0': ['.###.', '#...#', '#..##', '#.#.#', '##..#', '#...#', '.###.'],
+  '1': ['..#..', '.##..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+  '/': ['....#', '....#', '...#.', '..#..', '.#...', '#....', '#....'],
+  '\\': ['#....', '#....', '.#...', '..#..', '...#.', '....#', '....#'],
+  '|': ['..#..', '..#..', '..#..', '..#..', '..#..', '..#..', '..#..'],
+};
+
+export const GLYPH_CHARACTERS = Object.keys(GLYPHS).join('');
+
+/**
+ * Bitmap glyph shape filling the same 1.8r box as a square dot
+ */
+function createGlyphShape(character: string, rows: string[]): ShapeRenderer {
+  // Horizontal runs of set pixels as [row, column, length]
+  const runs: number[][] = [];
+  rows.forEach((row, rowIndex) => {
+    for (let column = 0; column < GLYPH_COLUMNS; column++) {
+      if (row[column] !== '#') continue;
+      const start = column;
+      while (column + 1 < GLYPH_COLUMNS && row[column + 1] === '#') column++;
+      runs.push([rowIndex, start, column - start + 1]);
+    }
+  });
+
+  const cellSize = (radius: number) => (radius * 1.8) / GLYPH_ROWS;
+
+  return {
+    name: `${GLYPH_SHAPE_PREFIX}${character}`,
+    label: character === ' ' ? 'Space' : character,
+    convex: false,
+    fixedSize: true,
+    trace(path, x, y, radius) {
+      const cell = cellSize(radius);
+      const left = x - (GLYPH_COLUMNS / 2) * cell;
+      const top = y - (GLYPH_ROWS / 2) * cell;
+      for (const [row, column, length] of runs) {
+        path.rect(left + column * cell, top + row * cell, length * cell, cell);
+      }
+    },
+    contains(dx, dy, radius) {
+      const cell = cellSize(radius);
+      const column = Math.floor(dx / cell + GLYPH_COLUMNS / 2);
+      const row = Math.floor(dy / cell + GLYPH_ROWS / 2);
+      if (row < 0 || row >= GLYPH_ROWS || column < 0 || column >= GLYPH_COLUMNS) return false;
+      return rows[row][column] === '#';
+    },
+    toSvg(x, y, radius, precision) {
+      if (runs.length === 0) return '';
+      const cell = cellSize(radius);
+      const left = x - (GLYPH_COLUMNS / 2) * cell;
+      const top = y - (GLYPH_ROWS / 2) * cell;
+      const height = roundTo(cell, precision);
+      const d = runs.map(([row, column, length]) => {
+        const width = roundTo(length * cell, precision);
+        return `M${roundTo(left + column * cell, precision)} ${roundTo(top + row * cell, precision)}h${width}v${height}h-${width}z`;
+      }).join('');
+      return `<path d="${d}"/>`;
+    },
+  };
+}
+
+registerShape({
+  name: 'circle',
+  label: 'Circle',
+  convex: true,
+  trace(path, x, y, radius) {
+    // Start a new subpath so arcs aren't joined by connecting lines
+    path.moveTo(x + radius, y);
+    path.arc(x, y, radius, 0, Math.PI * 2);
+  },
+  contains: (dx, dy, radius) => dx * dx + dy * dy <= radius * radius,
+  toSvg: (x, y, radius, precision) =>
+    `<circle cx="${roundTo(x, precision)}" cy="${roundTo(y, precision)}" r="${roundTo(radius, precision)}"/>`,
+});
+
+registerShape({
+  name: 'square',
+  label: 'Square',
+  convex: true,
+  trace(path, x, y, radius) {
+    // Adjust size for better visual balance compared to circle
+    const size = radius * 1.8;
+    path.rect(x - size / 2, y - size / 2, size, size);
+  },
+  contains: (dx, dy, radius) => Math.abs(dx) <= radius * 0.9 && Math.abs(dy) <= radius * 0.9,
+  toSvg(x, y, radius, precision) {
+    const size = roundTo(radius * 1.8, precision);
+    return `<rect x="${roundTo(x - radius * 0.9, precision)}" y="${roundTo(y - radius * 0.9, precision)}" width="${size}" height="${size}"/>`;
+  },
+});
+
+registerShape({
+  name: 'cross',
+  label: 'Cross',
+  convex: false,
+  trace(path, x, y, radius) {
+    const thickness = radius * 0.6;
+    const length = radius * 1.8;
+    path.rect(x - length / 2, y - thickness / 2, length, thickness);
+    path.rect(x - thickness / 2, y - length / 2, thickness, length);
+  },
+  contains(dx, dy, radius) {
+    const halfLength = radius * 0.9;
+    const halfThickness = radius * 0.3;
+    const ax = Math.abs(dx);
+    const ay = Math.abs(dy);
+    return (ax <= halfLength && ay <= halfThickness) || (ax <= halfThickness && ay <= halfLength);
+  },
+  toSvg(x, y, radius, precision) {
+    // Two bars in one path; nonzero fill merges the overlap
+    const length = roundTo(radius * 1.8, precision);
+    const thickness = roundTo(radius * 0.6, precision);
+    const left = roundTo(x - radius * 0.9, precision);
+    const top = roundTo(y - radius * 0.9, precision);
+    const barX = roundTo(x - radius * 0.3, precision);
+    const barY = roundTo(y - radius * 0.3, precision);
+    return `<path d="M${left} ${barY}h${length}v${thickness}h-${length}zM${barX} ${top}h${thickness}v${length}h-${thickness}z"/>`;
+  },
+});
+
+registerShape(createPolygonShape('diamond', 'Diamond', [[0, -1, 1, 0, 0, 1, -1, 0]], true));
+
+registerShape({
+  name: 'ellipse',
+  label: 'Ellipse',
+  convex: true,
+  trace(path, x, y, radius) {
+    path.moveTo(x + radius, y);
+    path.ellipse(x, y, radius, radius * 0.5, 0, 0, Math.PI * 2);
+  },
+  contains: (dx, dy, radius) => (dx * dx) / (radius * radius) + (4 * dy * dy) / (radius * radius) <= 1,
+  toSvg: (x, y, radius, precision) =>
+    `<ellipse cx="${roundTo(x, precision)}" cy="${roundTo(y, precision)}" rx="${roundTo(radius, precision)}" ry="${roundTo(radius * 0.5, precision)}"/>`,
+});
+
+// Long thin bars that join into continuous lines at full size
+registerShape({
+  name: 'line',
+  label: 'Line',
+  convex: true,
+  trace(path, x, y, radius) {
+    path.rect(x - radius * 1.25, y - radius * 0.3, radius * 2.5, radius * 0.6);
+  },
+  contains: (dx, dy, radius) => Math.abs(dx) <= radius * 1.25 && Math.abs(dy) <= radius * 0.3,
+  toSvg: (x, y, radius, precision) =>
+    `<rect x="${roundTo(x - radius * 1.25, precision)}" y="${roundTo(y - radius * 0.3, precision)}" width="${roundTo(radius * 2.5, precision)}" height="${roundTo(radius * 0.6, precision)}"/>`,
+});
+
+registerShape(createPolygonShape('triangle', 'Triangle', [radialPolygon(3, 1)], true));
+registerShape(createPolygonShape('star', 'Star', [radialPolygon(5, 1, 0.45)], false));
+registerShape(createPolygonShape('heart', 'Heart', [heartPolygon()], false));
+
+for (const [character, rows] of Object.entries(GLYPHS)) {
+  registerShape(createGlyphShape(character, rows));
+}
+
+// Compiled custom shapes keyed by path data, so every frame reuses the polygons
+const customShapeCache = new Map<string, ShapeRenderer | null>();
+
+/**
+ * Build a shape from SVG path data, or null if the data can't be parsed
+ */
+export function createPathShape(custom: CustomShape): ShapeRenderer | null {
+  const cacheKey = `${custom.name}\n${custom.path}`;
+  if (customShapeCache.has(cacheKey)) {
+    return customShapeCache.get(cacheKey)!;
+  }
+
+  const polygons = parseSvgPath(custom.path);
+  const shape = polygons && polygons.length > 0
+    ? createPolygonShape(`${CUSTOM_SHAPE_PREFIX}${custom.name}`, custom.name, normalizePolygons(polygons, 0.9), false)
+    : null;
+  customShapeCache.set(cacheKey, shape);
+  return shape;
+}
+
+/**
+ * Look up a shape by name, falling back to circles for unknown names
+ */
+export function resolveShape(name: string, customShapes: CustomShape[] = []): ShapeRenderer {
+  if (name.startsWith(CUSTOM_SHAPE_PREFIX)) {
+    const custom = customShapes.find(entry => `${CUSTOM_SHAPE_PREFIX}${entry.name}` === name);
+    const shape = custom && createPathShape(custom);
+    if (shape) return shape;
+  }
+  return registry.get(name) ?? registry.get('circle')!;
+}
+
+/**
+ * Brightness bands that draw each character of a ramp, darkest first
+ */
+export function createAsciiBands(ramp: string = ASCII_RAMP): ShapeBand[] {
+  const characters = Array.from(ramp).filter(character => character in GLYPHS);
+  return characters.map((character, index) => ({
+    upTo: (index + 1) / characters.length,
+    shape: `${GLYPH_SHAPE_PREFIX}${character}`,
+  }));
+}
@@ -0,0 +1,27 @@
+/**
+ * Public share links
+ * Paths and limits shared by the API, the server-rendered link previews and
+ * the public viewer page.
+ */
+
+import { z } from "zod";
+
+export const sharePasswordSchema = z.string().min(4).max(100);
+
+// Longest a link can be set to last; links can also never expire
+export const MAX_SHARE_LINK_DAYS = 365;
+
+// Items shown on a shared album's page
+export const MAX_SHARED_ALBUM_ITEMS = 200;
+
+// Tokens are base64url, so they're safe in paths as they are
+export const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export function sharePath(token: string): string {
+  return `/s/${token}`;
+}
+
+// Bare viewer for iframes
+export function shareEmbedPath(token: string): string {
+  return `/s/${token}/embed`;
+}
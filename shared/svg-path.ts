@@ -0,0 +1,260 @@
+/**
+ * Minimal SVG path data parser
+ * Flattens a path's `d` attribute into polygons so custom dot shapes can be
+ * traced, hit-tested and rasterized without a DOM.
+ */
+
+// Characters allowed in path data; anything else is rejected rather than passed through
+const PATH_DATA_PATTERN = /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,+\-\s]*$/;
+
+// Straight segments used to approximate each curve or arc
+const CURVE_SEGMENTS = 8;
+
+// Number of parameters taken by each command
+const PARAMETER_COUNTS: Record<string, number> = {
+  m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0,
+};
+
+export function isValidPathData(d: string): boolean {
+  return PATH_DATA_PATTERN.test(d);
+}
+
+/**
+ * Split path data into [command, ...parameters] groups
+ * Repeated parameter sets after a command are expanded into repeated commands.
+ */
+function tokenize(d: string): Array<[string, number[]]> | null {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g);
+  if (!tokens) return null;
+
+  const commands: Array<[string, number[]]> = [];
+  let index = 0;
+
+  while (index < tokens.length) {
+    let command = tokens[index++];
+    if (!(command.toLowerCase() in PARAMETER_COUNTS)) return null;
+
+    const count = PARAMETER_COUNTS[command.toLowerCase()];
+    if (count === 0) {
+      commands.push([command, []]);
+      continue;
+    }
+
+    do {
+      const params = tokens.slice(index, index + count).map(Number);
+      if (params.length < count || params.some(value => Number.isNaN(value))) return null;
+      index += count;
+      commands.push([command, params]);
+      // Extra coordinate pairs after a moveto are implicit linetos
+      if (command === 'M') command = 'L';
+      if (command === 'm') command = 'l';
+    } while (index < tokens.length && !/[A-Za-z]/.test(tokens[index]));
+  }
+
+  return commands;
+}
+
+/**
+ * Points along an elliptical arc, using the endpoint-to-center conversion from the SVG spec
+ */
+function flattenArc(
+  x1: number, y1: number,
+  rx: number, ry: number, rotation: number,
+  largeArc: boolean, sweep: boolean,
+  x2: number, y2: number
+): number[] {
+  if (rx === 0 || ry === 0) return [x2, y2];
+
+  const phi = (rotation * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  // Scale radii up when they're too small to reach the endpoint
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = factor * ((rx * y1p) / ry);
+  const cyp = factor * (-(ry * x1p) / rx);
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+  const start = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  const points: number[] = [];
+  for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+    const theta = start + (delta * i) / CURVE_SEGMENTS;
+    const px = rx * Math.cos(theta);
+    const py = ry * Math.sin(theta);
+    points.push(cosPhi * px - sinPhi * py + cx, sinPhi * px + cosPhi * py + cy);
+  }
+  return points;
+}
+
+/**
+ * Flatten path data into closed polygons as flat [x, y, x, y, ...] arrays
+ * Returns null for malformed data.
+ */
+export function parseSvgPath(d: string): number[][] | null {
+  if (!isValidPathData(d)) return null;
+  const commands = tokenize(d);
+  if (!commands) return null;
+
+  const polygons: number[][] = [];
+  let current: number[] = [];
+  let x = 0, y = 0;
+  let startX = 0, startY = 0;
+  // Last control point, for the smooth curve commands
+  let controlX = 0, controlY = 0;
+  let previous = '';
+
+  const closeCurrent = () => {
+    if (current.length >= 6) polygons.push(current);
+    current = [];
+  };
+
+  for (const [command, params] of commands) {
+    const relative = command === command.toLowerCase();
+    const type = command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+
+    // Drawing straight after a closepath starts a new subpath at the current point
+    if (type !== 'm' && type !== 'z' && current.length === 0) {
+      current.push(x, y);
+    }
+
+    switch (type) {
+      case 'm':
+        closeCurrent();
+        x = ox + params[0];
+        y = oy + params[1];
+        startX = x;
+        startY = y;
+        current.push(x, y);
+        break;
+
+      case 'l':
+        x = ox + params[0];
+        y = oy + params[1];
+        current.push(x, y);
+        break;
+
+      case 'h':
+        x = ox + params[0];
+        current.push(x, y);
+        break;
+
+      case 'v':
+        y = oy + params[0];
+        current.push(x, y);
+        break;
+
+      case 'c':
+      case 's': {
+        let c1x: number, c1y: number;
+        let rest: number[];
+        if (type === 'c') {
+          c1x = ox + params[0];
+          c1y = oy + params[1];
+          rest = params.slice(2);
+        } else {
+          // Reflect the previous control point when following another cubic
+          const smooth = previous === 'c' || previous === 's';
+          c1x = smooth ? 2 * x - controlX : x;
+          c1y = smooth ? 2 * y - controlY : y;
+          rest = params;
+        }
+        const c2x = ox + rest[0];
+        const c2y = oy + rest[1];
+        const ex = ox + rest[2];
+        const ey = oy + rest[3];
+
+        for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+          const t = i / CURVE_SEGMENTS;
+          const u = 1 - t;
+          current.push(
+            u * u * u * x + 3 * u * u * t * c1x + 3 * u * t * t * c2x + t * t * t * ex,
+            u * u * u * y + 3 * u * u * t * c1y + 3 * u * t * t * c2y + t * t * t * ey
+          );
+        }
+        controlX = c2x;
+        controlY = c2y;
+        x = ex;
+        y = ey;
+        break;
+      }
+
+      case 'q':
+      case 't': {
+        let cx: number, cy: number;
+        let ex: number, ey: number;
+        if (type === 'q') {
+          cx = ox + params[0];
+          cy = oy + params[1];
+          ex = ox + params[2];
+          ey = oy + params[3];
+        } else {
+          const smooth = previous === 'q' || previous === 't';
+          cx = smooth ? 2 * x - controlX : x;
+          cy = smooth ? 2 * y - controlY : y;
+          ex = ox + params[0];
+          ey = oy + params[1];
+        }
+
+        for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+          const t = i / CURVE_SEGMENTS;
+          const u = 1 - t;
+          current.push(
+            u * u * x + 2 * u * t * cx + t * t * ex,
+            u * u * y + 2 * u * t * cy + t * t * ey
+          );
+        }
+        controlX = cx;
+        controlY = cy;
+        x = ex;
+        y = ey;
+        break;
+      }
+
+      case 'a': {
+        const ex = ox + params[5];
+        const ey = oy + params[6];
+        current.push(...flattenArc(x, y, params[0], params[1], params[2], params[3] !== 0, params[4] !== 0, ex, ey));
+        x = ex;
+        y = ey;
+        break;
+      }
+
+      case 'z':
+        closeCurrent();
+        x = startX;
+        y = startY;
+        break;
+    }
+
+    previous = type;
+  }
+
+  closeCurrent();
+  return polygons;
+}
@@ -0,0 +1,129 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_FILTER_SETTINGS } from "./filter-settings";
+import {
+  applyTimeline,
+  ease,
+  EASINGS,
+  evaluateTrack,
+  filterTimelineSchema,
+  removeKeyframe,
+  setKeyframe,
+  timelineTime,
+  type FilterTimeline,
+  type Keyframe,
+} from "./timeline";
+
+const keyframe = (time: number, value: number, easing: Keyframe["easing"] = "linear"): Keyframe => ({ time, value, easing });
+
+const near = (actual: number, expected: number, tolerance = 1e-3) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not close to ${expected}`);
+
+describe("ease", () => {
+  it("starts at 0 and ends at 1 for every easing, clamping progress", () => {
+    for (const easing of EASINGS) {
+      assert.equal(ease(easing, 0), 0, easing);
+      near(ease(easing, 1), 1);
+      assert.equal(ease(easing, -0.5), ease(easing, 0));
+      near(ease(easing, 1.5), 1);
+    }
+  });
+
+  it("follows the shape of each curve", () => {
+    assert.equal(ease("linear", 0.25), 0.25);
+    assert.equal(ease("hold", 0.99), 0);
+    // Ease-in starts slow, ease-out starts fast, ease-in-out is symmetric
+    assert.ok(ease("ease-in", 0.25) < 0.25);
+    assert.ok(ease("ease-out", 0.25) > 0.25);
+    near(ease("ease-in-out", 0.5), 0.5);
+    near(ease("ease-in", 0.3) + ease("ease-out", 0.7), 1);
+    // Values from the CSS cubic-bezier curves
+    near(ease("ease-in", 0.5), 0.3153, 2e-3);
+    near(ease("ease-out", 0.5), 0.6847, 2e-3);
+  });
+
+  it("never moves backwards", () => {
+    for (const easing of EASINGS) {
+      let previous = 0;
+      for (let x = 0; x <= 1; x += 0.01) {
+        const value = ease(easing, x);
+        assert.ok(value >= previous - 1e-4, `${easing} drops at ${x}`);
+        previous = value;
+      }
+    }
+  });
+});
+
+describe("evaluateTrack", () => {
+  const track = [keyframe(1, 10), keyframe(3, 20, "hold"), keyframe(5, 0)];
+
+  it("holds the first value before the first keyframe and the last after the last", () => {
+    assert.equal(evaluateTrack(track, 0), 10);
+    assert.equal(evaluateTrack(track, 1), 10);
+    assert.equal(evaluateTrack(track, 5), 0);
+    assert.equal(evaluateTrack(track, 60), 0);
+  });
+
+  it("moves between keyframes with the easing of the one it leaves", () => {
+    assert.equal(evaluateTrack(track, 2), 15);
+    assert.equal(evaluateTrack(track, 3), 20);
+    assert.equal(evaluateTrack(track, 4.9), 20);
+  });
+
+  it("holds a single keyframe everywhere", () => {
+    for (const time of [0, 2, 100]) {
+      assert.equal(evaluateTrack([keyframe(2, 7, "ease-in")], time), 7);
+    }
+  });
+});
+
+describe("applyTimeline", () => {
+  const timeline: FilterTimeline = {
+    duration: 4,
+    loop: false,
+    tracks: {
+      dotSize: [keyframe(0, 4), keyframe(4, 12)],
+      brightness: [keyframe(0, 1.5), keyframe(2, 3)], // Keyframed past the setting's range
+    },
+  };
+
+  it("replaces keyframed settings and leaves the rest", () => {
+    const settings = applyTimeline(DEFAULT_FILTER_SETTINGS, timeline, 1);
+    assert.equal(settings.dotSize, 6);
+    assert.equal(settings.contrast, DEFAULT_FILTER_SETTINGS.contrast);
+    assert.equal(applyTimeline(DEFAULT_FILTER_SETTINGS, null, 1), DEFAULT_FILTER_SETTINGS);
+  });
+
+  it("clamps values to the setting's range", () => {
+    assert.equal(applyTimeline(DEFAULT_FILTER_SETTINGS, timeline, 2).brightness, 2);
+  });
+
+  it("holds at the end or loops", () => {
+    assert.equal(applyTimeline(DEFAULT_FILTER_SETTINGS, timeline, 10).dotSize, 12);
+    assert.equal(applyTimeline(DEFAULT_FILTER_SETTINGS, { ...timeline, loop: true }, 5).dotSize, 6);
+    assert.equal(timelineTime(timeline, -1), 0);
+  });
+});
+
+describe("keyframe editing", () => {
+  it("sorts parsed tracks and drops empty ones", () => {
+    const parsed = filterTimelineSchema.parse({
+      duration: 5,
+      loop: false,
+      tracks: { dotSize: [keyframe(3, 8), keyframe(1, 4)], contrast: [] },
+    });
+    assert.deepEqual(parsed.tracks, { dotSize: [keyframe(1, 4), keyframe(3, 8)] });
+    assert.equal(filterTimelineSchema.safeParse({ duration: 5, loop: false, tracks: { dotSize: [keyframe(1, 99)] } }).success, false);
+  });
+
+  it("replaces keyframes at the same time and drops emptied tracks", () => {
+    let timeline: FilterTimeline = { duration: 5, loop: false, tracks: {} };
+    timeline = setKeyframe(timeline, "dotSize", keyframe(2, 5));
+    timeline = setKeyframe(timeline, "dotSize", keyframe(1, 3));
+    timeline = setKeyframe(timeline, "dotSize", keyframe(2.0005, 9));
+    assert.deepEqual(timeline.tracks.dotSize, [keyframe(1, 3), keyframe(2.0005, 9)]);
+
+    timeline = removeKeyframe(removeKeyframe(timeline, "dotSize", 0), "dotSize", 0);
+    assert.deepEqual(timeline.tracks, {});
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Keyframed filter animation
+ * A timeline moves numeric FilterSettings fields between keyframes over the
+ * length of a clip, so a recording or an exported video can grow the dots,
+ * fade the second layer and so on without anyone touching the sliders.
+ * Kept DOM-free so live recording and offline export evaluate it the same way.
+ */
+
+import { z } from "zod";
+import type { FilterSettings } from "./halftone";
+
+export const ANIMATABLE_SETTINGS = [
+  'dotSize',
+  'contrast',
+  'brightness',
+  'secondLayerOpacity',
+  'secondLayerOffset',
+  'screenAngle',
+] as const;
+
+export type AnimatableSetting = typeof ANIMATABLE_SETTINGS[number];
+
+// 'hold' keeps the value until the next keyframe; the rest are the CSS timing curves
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
+export const EASINGS: Easing[] = ['linear', 'ease-in', 'ease-out', 'ease-in-out', 'hold'];
+
+/**
+ * A value at a point in time; easing shapes the move toward the next keyframe
+ */
+export type Keyframe = {
+  time: number; // Seconds from the start of the clip
+  value: number;
+  easing: Easing;
+};
+
+export type FilterTimeline = {
+  duration: number; // Seconds
+  loop: boolean; // Start over after duration; otherwise the last values hold
+  tracks: Partial<Record<AnimatableSetting, Keyframe[]>>; // Keyframes sorted by time
+};
+
+export const MAX_TIMELINE_DURATION = 600;
+export const MAX_KEYFRAMES_PER_TRACK = 64;
+
+export const EMPTY_TIMELINE: FilterTimeline = { duration: 10, loop: false, tracks: {} };
+
+// Same bounds as completeFilterSettingsSchema, with the step the editor uses
+export const ANIMATABLE_RANGES: Record<AnimatableSetting, { label: string; min: number; max: number; step: number }> = {
+  dotSize: { label: 'Dot Size', min: 1, max: 30, step: 1 },
+  contrast: { label: 'Contrast', min: 0, max: 3, step: 0.1 },
+  brightness: { label: 'Brightness', min: 0, max: 2, step: 0.1 },
+  secondLayerOpacity: { label: 'Second Layer Opacity', min: 0, max: 1, step: 0.05 },
+  secondLayerOffset: { label: 'Second Layer Offset', min: 0, max: 15, step: 1 },
+  screenAngle: { label: 'Screen Angle', min: 0, max: 180, step: 1 },
+};
+
+// Control points of the CSS cubic-bezier timing functions
+const BEZIER_CURVES: Record<'ease-in' | 'ease-out' | 'ease-in-out', [number, number, number, number]> = {
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+const easingSchema = z.enum(['linear', 'ease-in', 'ease-out', 'ease-in-out', 'hold']);
+
+function trackSchema(setting: AnimatableSetting) {
+  const { min, max } = ANIMATABLE_RANGES[setting];
+  return z.array(z.object({
+    time: z.number().min(0).max(MAX_TIMELINE_DURATION),
+    value: z.number().min(min).max(max),
+    easing: easingSchema,
+  })).max(MAX_KEYFRAMES_PER_TRACK);
+}
+
+// Parsed timelines come out with every track sorted by time and empty tracks dropped
+export const filterTimelineSchema = z.object({
+  duration: z.number().positive().max(MAX_TIMELINE_DURATION),
+  loop: z.boolean(),
+  tracks: z.object({
+    dotSize: trackSchema('dotSize').optional(),
+    contrast: trackSchema('contrast').optional(),
+    brightness: trackSchema('brightness').optional(),
+    secondLayerOpacity: trackSchema('secondLayerOpacity').optional(),
+    secondLayerOffset: trackSchema('secondLayerOffset').optional(),
+    screenAngle: trackSchema('screenAngle').optional(),
+  }),
+}).transform((timeline): FilterTimeline => {
+  const tracks: FilterTimeline['tracks'] = {};
+  for (const setting of ANIMATABLE_SETTINGS) {
+    const keyframes = timeline.tracks[setting];
+    if (keyframes && keyframes.length > 0) {
+      tracks[setting] = keyframes.slice().sort((a, b) => a.time - b.time);
+    }
+  }
+  return { duration: timeline.duration, loop: timeline.loop, tracks };
+});
+
+export function hasKeyframes(timeline: FilterTimeline | null | undefined): boolean {
+  return !!timeline && ANIMATABLE_SETTINGS.some(setting => (timeline.tracks[setting]?.length ?? 0) > 0);
+}
+
+/**
+ * Point on a cubic-bezier timing curve for progress x (0-1)
+ * Solves the curve's x(t) = x by bisection, which is plenty for 60 fps.
+ */
+function cubicBezier([x1, y1, x2, y2]: [number, number, number, number], x: number): number {
+  const sample = (a: number, b: number, t: number) => 3 * a * t * (1 - t) ** 2 + 3 * b * t * t * (1 - t) + t ** 3;
+  let low = 0;
+  let high = 1;
+  let t = x;
+  for (let i = 0; i < 20; i++) {
+    const current = sample(x1, x2, t);
+    if (Math.abs(current - x) < 1e-5) break;
+    if (current < x) low = t;
+    else high = t;
+    t = (low + high) / 2;
+  }
+  return sample(y1, y2, t);
+}
+
+/**
+ * Eased progress (0-1) through a segment
+ */
+export function ease(easing: Easing, progress: number): number {
+  const x = Math.max(0, Math.min(1, progress));
+  switch (easing) {
+    case 'linear':
+      return x;
+    case 'hold':
+      return x < 1 ? 0 : 1;
+    default:
+      return cubicBezier(BEZIER_CURVES[easing], x);
+  }
+}
+
+/**
+ * Value of a track at a time; before the first and after the last keyframe it holds
+ */
+export function evaluateTrack(keyframes: Keyframe[], time: number): number {
+  if (time <= keyframes[0].time) return keyframes[0].value;
+
+  const last = keyframes[keyframes.length - 1];
+  if (time >= last.time) return last.value;
+
+  let next = 1;
+  while (keyframes[next].time <= time) next++;
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const progress = (time - from.time) / (to.time - from.time);
+  return from.value + (to.value - from.value) * ease(from.easing, progress);
+}
+
+/**
+ * Position in the timeline after `elapsed` seconds of playback
+ */
+export function timelineTime(timeline: FilterTimeline, elapsed: number): number {
+  if (elapsed <= 0) return 0;
+  return timeline.loop ? elapsed % timeline.duration : Math.min(elapsed, timeline.duration);
+}
+
+/**
+ * Settings with every keyframed field replaced by its value at `elapsed` seconds
+ * Fields without keyframes keep their current value.
+ */
+export function applyTimeline(
+  filterSettings: FilterSettings,
+  timeline: FilterTimeline | null | undefined,
+  elapsed: number
+): FilterSettings {
+  if (!timeline || !hasKeyframes(timeline)) return filterSettings;
+
+  const time = timelineTime(timeline, elapsed);
+  const animated = { ...filterSettings };
+  for (const setting of ANIMATABLE_SETTINGS) {
+    const keyframes = timeline.tracks[setting];
+    if (!keyframes || keyframes.length === 0) continue;
+
+    const { min, max } = ANIMATABLE_RANGES[setting];
+    animated[setting] = Math.max(min, Math.min(max, evaluateTrack(keyframes, time)));
+  }
+  return animated;
+}
+
+/**
+ * Timeline with a keyframe added, replacing any keyframe at the same time
+ */
+export function setKeyframe(timeline: FilterTimeline, setting: AnimatableSetting, keyframe: Keyframe): FilterTimeline {
+  const others = (timeline.tracks[setting] ?? []).filter(existing => Math.abs(existing.time - keyframe.time) > 1e-3);
+  const keyframes = [...others, keyframe].sort((a, b) => a.time - b.time).slice(0, MAX_KEYFRAMES_PER_TRACK);
+  return { ...timeline, tracks: { ...timeline.tracks, [setting]: keyframes } };
+}
+
+/**
+ * Timeline with one keyframe removed; a track left empty is dropped
+ */
+export function removeKeyframe(timeline: FilterTimeline, setting: AnimatableSetting, index: number): FilterTimeline {
+  const keyframes = (timeline.tracks[setting] ?? []).filter((_, i) => i !== index);
+  const tracks = { ...timeline.tracks };
+  if (keyframes.length > 0) {
+    tracks[setting] = keyframes;
+  } else {
+    delete tracks[setting];
+  }
+  return { ...timeline, tracks };
+}